@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createProject, ProjectGenerationError, ERROR_CODES, templates } from './api.js';
+
+/**
+ * **Feature: programmatic-api, Property 1: createProject Throws Instead of Exiting**
+ *
+ * *For any* template, createProject SHALL report the files it generates and resolve to the
+ * options used, and *for any* invalid options or failed generation, it SHALL reject with a
+ * ProjectGenerationError, leaving directories it did not create untouched.
+ */
+describe('Property 1: createProject Throws Instead of Exiting', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'viant-api-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  async function expectGenerationError(promise: Promise<unknown>, code: string): Promise<void> {
+    try {
+      await promise;
+      expect.fail(`Expected a ${code} error`);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ProjectGenerationError);
+      expect((error as ProjectGenerationError).code).toBe(code);
+    }
+  }
+
+  it('should plan every template on a dry run without writing', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(...Object.keys(templates)), async (template) => {
+        const directory = join(tempDir, template);
+        const result = await createProject({
+          name: 'my-app',
+          template,
+          packageManager: 'npm',
+          directory,
+          dryRun: true,
+          silent: true,
+        });
+
+        expect(result.projectPath).toBe(directory);
+        expect(result.options.template).toBe(template);
+        expect(result.options.runDev).toBe(false);
+        expect(result.files.map(file => file.path)).toContain('package.json');
+        expect(existsSync(directory)).toBe(false);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should write the reported files', async () => {
+    const directory = join(tempDir, 'my-app');
+    const result = await createProject({
+      name: 'my-app',
+      framework: 'vue',
+      typescript: true,
+      styling: 'none',
+      packageManager: 'npm',
+      features: ['vitest'],
+      installDeps: false,
+      initGit: false,
+      directory,
+      silent: true,
+    });
+
+    for (const file of result.files) {
+      expect(readFileSync(join(directory, file.path))).toEqual(Buffer.from(file.content!));
+    }
+    expect(JSON.parse(readFileSync(join(directory, 'package.json'), 'utf8')).name).toBe('my-app');
+  });
+
+  it('should reject invalid options', async () => {
+    await expectGenerationError(createProject({ name: 'Not A Name', silent: true }), ERROR_CODES.INVALID_NAME);
+    await expectGenerationError(createProject({ name: 'my-app', styling: 'bogus', silent: true }), ERROR_CODES.INVALID_OPTION);
+    await expectGenerationError(
+      createProject({ name: 'my-app', features: ['state-management'], silent: true }),
+      ERROR_CODES.INVALID_OPTION
+    );
+  });
+
+  it('should leave an existing directory untouched', async () => {
+    const directory = join(tempDir, 'existing');
+    mkdirSync(directory);
+    writeFileSync(join(directory, 'keep.txt'), 'keep');
+
+    await expectGenerationError(
+      createProject({ name: 'existing', directory, packageManager: 'npm', installDeps: false, initGit: false, silent: true }),
+      ERROR_CODES.DIR_EXISTS
+    );
+    expect(readFileSync(join(directory, 'keep.txt'), 'utf8')).toBe('keep');
+  });
+});
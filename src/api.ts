@@ -0,0 +1,132 @@
+/**
+ * Programmatic API
+ * Generates projects the same way the CLI does, but throws a
+ * ProjectGenerationError instead of exiting the process and prints nothing
+ * beyond progress output, which can be silenced too
+ */
+
+import { resolve } from 'path';
+import { ProjectGenerator } from './projectGenerator.js';
+import { ProjectGenerationError, ERROR_CODES, getErrorMessage } from './errorHandling.js';
+import { detectPackageManagers } from './detectPackageManagers.js';
+import { resolveProjectOptions, validateName } from './cliOptions.js';
+import { validatePreset } from './preset.js';
+import { validatePlugin } from './plugins.js';
+import { isCustomTemplate, loadCustomTemplate, applyCustomTemplate } from './templateSource.js';
+import { createBanner } from './banner.js';
+import type { ProjectOptions } from './options.js';
+import type { FileChange } from './projectFiles.js';
+
+export {
+  templates,
+  frameworkOptions,
+  stylingOptions,
+  featureOptions,
+  stateManagementOptions,
+  apiClientOptions,
+  routerOptions,
+  linterOptions,
+  type Template,
+  type StylingOptions,
+  type FeatureOption,
+  type ChoiceOption,
+  type ProjectOptions,
+} from './options.js';
+export { ProjectGenerationError, ERROR_CODES, type ErrorCode } from './errorHandling.js';
+export { loadPreset, type Preset, type LoadedPreset } from './preset.js';
+export {
+  loadPlugin,
+  type ViantPlugin,
+  type PluginContext,
+  type PluginDependencies,
+  type PluginViteConfig,
+} from './plugins.js';
+export type { FileChange, FileChangeType, FileContent } from './projectFiles.js';
+export {
+  GENERATION_MANIFEST_PATH,
+  readGenerationManifest,
+  getEditedFiles,
+  type GenerationManifest,
+  type GenerationOptions,
+} from './generationManifest.js';
+
+/**
+ * Options for createProject(). Any complete ProjectOptions is accepted; options
+ * left out get the same defaults as the CLI's --yes mode, except that the dev
+ * server is not started unless runDev is set.
+ */
+export interface CreateProjectOptions extends Partial<Omit<ProjectOptions, 'name' | 'templatePath'>> {
+  name: string;
+  /**
+   * A bundled template such as "react-ts", or a custom one: a directory,
+   * "file:<path>.tgz" or "git+file:///<repo>#<ref>"
+   */
+  template?: string;
+  /** Directory to generate into, defaults to <cwd>/<name> */
+  directory?: string;
+  /** Print the CLI banner before generating */
+  banner?: boolean;
+  /** Suppress all progress output */
+  silent?: boolean;
+  /** Plan the project without writing files, installing or running git */
+  dryRun?: boolean;
+}
+
+export interface CreateProjectResult {
+  /** Absolute path of the generated project */
+  projectPath: string;
+  /** The options the project was generated with, defaults included */
+  options: ProjectOptions;
+  /** Files written, or the files that would be written on a dry run */
+  files: FileChange[];
+}
+
+/**
+ * Generate a project
+ * Throws a ProjectGenerationError on invalid options or when generation fails
+ */
+export async function createProject(options: CreateProjectOptions): Promise<CreateProjectResult> {
+  const { name, directory, banner = false, silent = false, dryRun = false, plugins = [], existingFiles, ...projectFields } = options;
+
+  const nameValidation = validateName(name);
+  if (typeof nameValidation === 'string') {
+    throw new ProjectGenerationError(nameValidation, ERROR_CODES.INVALID_NAME, {
+      recoverable: false,
+      hint: getErrorMessage(ERROR_CODES.INVALID_NAME),
+    });
+  }
+
+  const definedFields = Object.fromEntries(Object.entries(projectFields).filter(([, value]) => value !== undefined));
+  const { template } = projectFields;
+  const customTemplate = template && isCustomTemplate(template) ? loadCustomTemplate(template) : undefined;
+
+  try {
+    let validatedOptions: Partial<ProjectOptions>;
+    if (customTemplate) {
+      delete definedFields.template;
+      validatedOptions = applyCustomTemplate(validatePreset(definedFields, 'createProject() options'), customTemplate);
+    } else {
+      validatedOptions = validatePreset(definedFields, 'createProject() options');
+    }
+
+    const projectOptions = resolveProjectOptions(
+      name,
+      { runDev: false, ...validatedOptions },
+      projectFields.packageManager ?? detectPackageManagers()[0]
+    );
+    projectOptions.plugins = plugins.map((plugin, index) => validatePlugin(plugin, `plugins[${index}]`));
+    projectOptions.existingFiles = existingFiles;
+
+    if (banner && !silent) {
+      console.log(createBanner());
+    }
+
+    const projectPath = resolve(directory ?? name);
+    const generator = new ProjectGenerator(projectOptions, projectPath, silent);
+    const files = await generator.generate(dryRun);
+
+    return { projectPath, options: projectOptions, files };
+  } finally {
+    customTemplate?.cleanup();
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getApiClientFiles, TANSTACK_QUERY_PACKAGES } from './apiClient.js';
+import { getCompatibleValues } from './compatibility.js';
+import { templateManifests } from './options.js';
+import { generateProject, getSyntaxErrors } from './testUtils.js';
+
+const manifestArb = fc.constantFrom(...Object.values(templateManifests));
+
+const scaffoldArb = manifestArb.chain(manifest => {
+  const clients = getCompatibleValues('apiClient', manifest.framework, manifest.typescript);
+  return fc.record({ manifest: fc.constant(manifest), client: fc.constantFrom(...clients), tests: fc.boolean() });
+});
+
+/**
+ * **Feature: api-client-scaffolds, Property 1: Every Client Gets an API Module**
+ *
+ * *For any* template and API client it supports, the src/api module SHALL parse in the
+ * project's language, read its base URL from import.meta.env, export every module from its
+ * index, and import TanStack Query only through the adapter for the template's framework.
+ * tRPC SHALL also get a server whose AppRouter type the client imports.
+ */
+describe('Property 1: Every Client Gets an API Module', () => {
+  it('should scaffold a parsable API module for the framework', () => {
+    fc.assert(
+      fc.property(scaffoldArb, ({ manifest, client, tests }) => {
+        const { framework, typescript } = manifest;
+        const files = getApiClientFiles({ client, framework, typescript, tests });
+        const ext = typescript ? 'ts' : 'js';
+        const index = files[`src/api/index.${ext}`];
+
+        expect(index).toBeDefined();
+        expect(files[`src/api/client.${ext}`]).toContain('import.meta.env.VITE_API_URL');
+        for (const [path, content] of Object.entries(files).filter(([path]) => path.startsWith('src/api/'))) {
+          expect(path.endsWith(`.${ext}`)).toBe(true);
+          expect(getSyntaxErrors(content, path)).toEqual([]);
+          if (!path.endsWith(`index.${ext}`)) {
+            expect(index).toContain(`export * from './${path.slice('src/api/'.length, -ext.length - 1)}';`);
+          }
+          if (!typescript) {
+            // JSDoc types are fine in JavaScript
+            expect(content.replace(/\/\*[\s\S]*?\*\//g, '')).not.toMatch(/\binterface\b|\bimport type\b|: (string|number|unknown|Promise)/);
+          }
+
+          const queryImports = content.match(/@tanstack\/[\w-]+/g) ?? [];
+          queryImports.forEach(source => expect(source).toBe(TANSTACK_QUERY_PACKAGES[framework]));
+        }
+
+        const serverFiles = Object.keys(files).filter(path => path.startsWith('server/'));
+        if (client === 'trpc') {
+          expect(files['src/api/client.ts']).toContain(`import type { AppRouter } from '../../server/router';`);
+          expect(files['server/router.ts']).toContain('export type AppRouter = typeof appRouter;');
+          expect(serverFiles.includes('server/router.test.ts')).toBe(tests);
+          serverFiles
+            .filter(path => path.endsWith('.ts'))
+            .forEach(path => expect(getSyntaxErrors(files[path], path)).toEqual([]));
+        } else {
+          expect(serverFiles).toEqual([]);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should scaffold nothing for unknown clients', () => {
+    expect(getApiClientFiles({ client: 'graphql', framework: 'react', typescript: true })).toEqual({});
+  });
+});
+
+/**
+ * **Feature: api-client-scaffolds, Property 2: Generated Projects Call the API Through the Proxy**
+ *
+ * *For any* template and API client it supports, the generated project SHALL contain the
+ * src/api module, proxy /api in the dev server, and depend on the TanStack Query adapter for
+ * its framework rather than the React one. tRPC projects SHALL run the server alongside Vite.
+ */
+describe('Property 2: Generated Projects Call the API Through the Proxy', () => {
+  it('should write the API module, proxy and dependencies', async () => {
+    await fc.assert(
+      fc.asyncProperty(scaffoldArb, async ({ manifest, client, tests }) => {
+        const { read } = await generateProject(manifest, {
+          features: tests ? ['api-client', 'vitest'] : ['api-client'],
+          apiClient: client,
+        });
+
+        const expected = getApiClientFiles({ client, framework: manifest.framework, typescript: manifest.typescript, tests });
+        for (const [path, content] of Object.entries(expected)) {
+          expect(read(path)).toBe(content);
+        }
+
+        expect(read(manifest.viteConfig)).toMatch(/server: \{\s+proxy: \{\s+'\/api': \{\s+target: 'http:\/\/localhost:3000',/);
+
+        const { dependencies, scripts } = JSON.parse(read('package.json')!);
+        if (client === 'trpc') {
+          expect(dependencies).toMatchObject({ '@trpc/client': expect.any(String), '@trpc/server': expect.any(String), zod: expect.any(String) });
+          expect(scripts['dev:all']).toContain('concurrently');
+          expect(scripts['dev:all']).toContain(scripts['dev:server']);
+        }
+        if (client === 'tanstack-query') {
+          expect(dependencies[TANSTACK_QUERY_PACKAGES[manifest.framework]]).toBeDefined();
+        }
+        if (manifest.framework !== 'react' && manifest.framework !== 'preact') {
+          expect(dependencies['@tanstack/react-query']).toBeUndefined();
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
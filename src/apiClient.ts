@@ -0,0 +1,441 @@
+/**
+ * API client scaffolds
+ * The src/api module generated for each API client: a configured client
+ * reading its base URL from import.meta.env, errors normalized into an
+ * ApiError, and an example typed resource with framework-specific hooks for
+ * the data fetching libraries. tRPC also gets a local server in server/,
+ * whose AppRouter type the client shares. Clients that need a provider or
+ * plugin are wired into the entry file by the project generator.
+ */
+
+import { typed } from './scaffold.js';
+
+export interface ApiClientScaffoldOptions {
+  client: string;
+  framework: string;
+  typescript: boolean;
+  /** Whether to add a Vitest test for the tRPC router */
+  tests?: boolean;
+}
+
+/**
+ * Path the generated client calls by default, proxied by the Vite dev server
+ */
+export const API_PROXY_PATH = '/api';
+
+/**
+ * Where the dev server proxies API_PROXY_PATH to
+ */
+export const API_PROXY_TARGET = 'http://localhost:3000';
+
+/**
+ * Command running the local tRPC server, restarting it on changes
+ */
+export const TRPC_SERVER_COMMAND = 'tsx watch server/index.ts';
+
+/**
+ * Package of the TanStack Query adapter for each framework
+ * Preact uses the React adapter through preact/compat.
+ */
+export const TANSTACK_QUERY_PACKAGES: Record<string, string> = {
+  react: '@tanstack/react-query',
+  preact: '@tanstack/react-query',
+  vue: '@tanstack/vue-query',
+  svelte: '@tanstack/svelte-query',
+  solid: '@tanstack/solid-query',
+};
+
+function getErrorsModule(client: string, typescript: boolean): string {
+  const axios = client === 'axios';
+  const trpc = client === 'trpc';
+  const imports = axios
+    ? `import { isAxiosError } from 'axios';\n\n`
+    : trpc
+      ? `import { TRPCClientError } from '@trpc/client';\n\n`
+      : '';
+
+  return `${imports}/**
+ * Error thrown by every API call, whatever went wrong
+ */
+export class ApiError extends Error {
+${typed(typescript, `  readonly status: number | undefined;
+  readonly data: unknown;
+
+`)}  constructor(message${typed(typescript, ': string')}, status${typed(typescript, '?: number')}, data${typed(typescript, '?: unknown')}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.data = data;
+  }
+}
+
+/**
+ * Get the message of an error response body such as { "message": "Not found" }
+ */
+export function getErrorMessage(data${typed(typescript, ': unknown')})${typed(typescript, ': string | undefined')} {
+  if (typeof data === 'object' && data !== null && 'message' in data && typeof data.message === 'string') {
+    return data.message;
+  }
+  return undefined;
+}
+
+/**
+ * Turn anything thrown while calling the API into an ApiError
+ */
+export function normalizeError(error${typed(typescript, ': unknown')})${typed(typescript, ': ApiError')} {
+  if (error instanceof ApiError) {
+    return error;
+  }${axios ? `
+  if (isAxiosError(error)) {
+    const data = error.response?.data;
+    return new ApiError(getErrorMessage(data) ?? error.message, error.response?.status, data);
+  }` : ''}${trpc ? `
+  if (error instanceof TRPCClientError) {
+    return new ApiError(error.message, error.data?.httpStatus, error.data);
+  }` : ''}
+  if (error instanceof Error) {
+    return new ApiError(error.message);
+  }
+  return new ApiError(String(error));
+}
+`;
+}
+
+const BASE_URL = `// Set VITE_API_URL in .env.local to call an API on another origin
+export const API_BASE_URL = import.meta.env.VITE_API_URL ?? '${API_PROXY_PATH}';`;
+
+function getClientModule(client: string, typescript: boolean): string {
+  if (client === 'axios') {
+    return `import axios from 'axios';
+import { normalizeError } from './errors';
+
+${BASE_URL}
+
+export const apiClient = axios.create({
+  baseURL: API_BASE_URL,
+  headers: { 'Content-Type': 'application/json' },
+  timeout: 10_000,
+});
+
+// Every failed request rejects with an ApiError
+apiClient.interceptors.response.use(
+  (response) => response,
+  (error) => Promise.reject(normalizeError(error)),
+);
+`;
+  }
+
+  const fetcher = client === 'swr'
+    ? `
+/**
+ * Fetcher for SWR, whose keys are API paths such as '/todos'
+ */
+export const fetcher = ${typed(typescript, '<T>')}(path${typed(typescript, ': string')}) => request${typed(typescript, '<T>')}(path);
+`
+    : '';
+
+  return `import { ApiError, getErrorMessage, normalizeError } from './errors';
+
+${BASE_URL}
+
+/**
+ * Call the API and parse its JSON response
+ * Failed requests and error responses throw an ApiError.
+ */
+export async function request${typed(typescript, '<T>')}(path${typed(typescript, ': string')}, init${typed(typescript, ': RequestInit')} = {})${typed(typescript, ': Promise<T>')} {
+  const headers = new Headers(init.headers);
+  if (!headers.has('Content-Type')) {
+    headers.set('Content-Type', 'application/json');
+  }
+
+  let response${typed(typescript, ': Response')};
+  try {
+    response = await fetch(\`\${API_BASE_URL}\${path}\`, { ...init, headers });
+  } catch (error) {
+    throw normalizeError(error);
+  }
+
+  const data = response.status === 204 ? undefined : await response.json().catch(() => undefined);
+  if (!response.ok) {
+    throw new ApiError(getErrorMessage(data) ?? response.statusText, response.status, data);
+  }
+  return data${typed(typescript, ' as T')};
+}
+${fetcher}`;
+}
+
+function getQueryClientModule(framework: string): string {
+  return `import { QueryClient } from '${TANSTACK_QUERY_PACKAGES[framework]}';
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      staleTime: 60 * 1000,
+    },
+  },
+});
+`;
+}
+
+/**
+ * Hooks for the example resource, in the style of the framework's adapter
+ */
+function getTodoHooks(client: string, framework: string, typescript: boolean): { imports: string; hooks: string } {
+  if (client === 'swr') {
+    return {
+      imports: `import useSWR from 'swr';\n${typed(typescript, `import type { ApiError } from './errors';\n`)}`,
+      hooks: `
+export function useTodos() {
+  return useSWR${typed(typescript, '<Todo[], ApiError>')}('/todos', fetcher);
+}
+`,
+    };
+  }
+
+  if (client !== 'tanstack-query') {
+    return { imports: '', hooks: '' };
+  }
+
+  const keys = `
+export const todoKeys = {
+  all: ['todos']${typed(typescript, ' as const')},
+  detail: (id${typed(typescript, ': number')}) => ['todos', id]${typed(typescript, ' as const')},
+};
+`;
+  const source = TANSTACK_QUERY_PACKAGES[framework];
+
+  switch (framework) {
+    case 'solid':
+      return {
+        imports: `import { createQuery } from '${source}';\n`,
+        hooks: `${keys}
+export function createTodosQuery() {
+  return createQuery(() => ({ queryKey: todoKeys.all, queryFn: getTodos }));
+}
+`,
+      };
+    case 'svelte':
+      return {
+        imports: `import { createQuery } from '${source}';\nimport { queryClient } from './queryClient';\n`,
+        hooks: `${keys}
+// The query client is passed in, so components need no QueryClientProvider
+export function createTodosQuery() {
+  return createQuery({ queryKey: todoKeys.all, queryFn: getTodos }, queryClient);
+}
+`,
+      };
+    default:
+      return {
+        imports: `import { useQuery } from '${source}';\n`,
+        hooks: `${keys}
+export function useTodos() {
+  return useQuery({ queryKey: todoKeys.all, queryFn: getTodos });
+}
+
+export function useTodo(id${typed(typescript, ': number')}) {
+  return useQuery({ queryKey: todoKeys.detail(id), queryFn: () => getTodo(id) });
+}
+`,
+      };
+  }
+}
+
+function getTodosModule(client: string, framework: string, typescript: boolean): string {
+  const axios = client === 'axios';
+  const { imports, hooks } = getTodoHooks(client, framework, typescript);
+
+  const type = typescript
+    ? `export interface Todo {
+  id: number;
+  title: string;
+  completed: boolean;
+}`
+    : `/**
+ * @typedef {{ id: number, title: string, completed: boolean }} Todo
+ */`;
+
+  const call = (path: string, result: string) =>
+    axios
+      ? `apiClient.get${typed(typescript, `<${result}>`)}(${path}).then((response) => response.data)`
+      : `request${typed(typescript, `<${result}>`)}(${path})`;
+
+  const clientImports = axios ? 'apiClient' : client === 'swr' ? 'fetcher, request' : 'request';
+
+  return `${imports}import { ${clientImports} } from './client';
+
+${type}
+
+${typed(!typescript, '/** @returns {Promise<Todo[]>} */\n')}export function getTodos()${typed(typescript, ': Promise<Todo[]>')} {
+  return ${call(`'/todos'`, 'Todo[]')};
+}
+
+${typed(!typescript, '/** @param {number} id @returns {Promise<Todo>} */\n')}export function getTodo(id${typed(typescript, ': number')})${typed(typescript, ': Promise<Todo>')} {
+  return ${call('`/todos/${id}`', 'Todo')};
+}
+${hooks}`;
+}
+
+/**
+ * The local tRPC server: router, context and an example procedure
+ */
+function getTrpcServerFiles(tests: boolean): Record<string, string> {
+  const files: Record<string, string> = {
+    'server/trpc.ts': `import { initTRPC } from '@trpc/server';
+import type { CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
+
+// Created for each request; put the current user, a database client, etc. here
+export function createContext({ req }: CreateHTTPContextOptions) {
+  return { userAgent: req.headers['user-agent'] };
+}
+
+export type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create();
+
+export const router = t.router;
+export const publicProcedure = t.procedure;
+export const createCallerFactory = t.createCallerFactory;
+`,
+    'server/router.ts': `import { z } from 'zod';
+import { publicProcedure, router } from './trpc';
+
+export const appRouter = router({
+  greeting: publicProcedure
+    .input(z.object({ name: z.string().min(1) }))
+    .query(({ input }) => ({ message: \`Hello, \${input.name}!\` })),
+});
+
+// Imported by the frontend client, which is typed by the procedures above
+export type AppRouter = typeof appRouter;
+`,
+    'server/index.ts': `import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { appRouter } from './router';
+import { createContext } from './trpc';
+
+const port = Number(process.env.PORT ?? ${new URL(API_PROXY_TARGET).port});
+
+// Served under ${API_PROXY_PATH}/trpc, where the Vite dev server proxies ${API_PROXY_PATH} to
+const server = createHTTPServer({
+  basePath: '${API_PROXY_PATH}/trpc/',
+  router: appRouter,
+  createContext,
+});
+
+server.listen(port);
+console.log(\`tRPC server listening on http://localhost:\${port}${API_PROXY_PATH}/trpc\`);
+`,
+  };
+
+  // The frontend's tsconfig only covers src/, and the server runs on Node
+  files['server/tsconfig.json'] = `${JSON.stringify(
+    {
+      compilerOptions: {
+        target: 'ES2022',
+        module: 'ESNext',
+        moduleResolution: 'bundler',
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        isolatedModules: true,
+        types: ['node'],
+      },
+      include: ['.'],
+    },
+    null,
+    2
+  )}\n`;
+
+  if (tests) {
+    files['server/router.test.ts'] = `import { describe, it, expect } from 'vitest';
+import { appRouter } from './router';
+import { createCallerFactory } from './trpc';
+
+const createCaller = createCallerFactory(appRouter);
+
+describe('appRouter', () => {
+  it('greets by name', async () => {
+    const caller = createCaller({ userAgent: 'vitest' });
+    expect(await caller.greeting({ name: 'Viant' })).toEqual({ message: 'Hello, Viant!' });
+  });
+
+  it('rejects an empty name', async () => {
+    const caller = createCaller({ userAgent: 'vitest' });
+    await expect(caller.greeting({ name: '' })).rejects.toThrow();
+  });
+});
+`;
+  }
+
+  return files;
+}
+
+/**
+ * The frontend side of tRPC, typed by the server's AppRouter
+ * tRPC needs TypeScript, so there is no JavaScript version.
+ */
+function getTrpcClientModules(): Record<string, string> {
+  return {
+    errors: getErrorsModule('trpc', true),
+    client: `import { createTRPCClient, httpBatchLink } from '@trpc/client';
+import type { AppRouter } from '../../server/router';
+
+${BASE_URL}
+
+// Renaming or changing a procedure on the server is a type error here
+export const trpc = createTRPCClient<AppRouter>({
+  links: [httpBatchLink({ url: \`\${API_BASE_URL}/trpc\` })],
+});
+
+export type { AppRouter };
+`,
+    greeting: `import { trpc } from './client';
+import { normalizeError } from './errors';
+
+export async function getGreeting(name: string): Promise<string> {
+  try {
+    const { message } = await trpc.greeting.query({ name });
+    return message;
+  } catch (error) {
+    throw normalizeError(error);
+  }
+}
+`,
+  };
+}
+
+/**
+ * Get the files of the src/api module for an API client, plus the server
+ * for tRPC, keyed by path relative to the project root. Unknown clients get
+ * no files.
+ */
+export function getApiClientFiles({ client, framework, typescript, tests = false }: ApiClientScaffoldOptions): Record<string, string> {
+  if (client === 'trpc') {
+    return { ...getIndexedModules(getTrpcClientModules(), 'ts'), ...getTrpcServerFiles(tests) };
+  }
+  if (!['axios', 'fetch', 'tanstack-query', 'swr'].includes(client)) {
+    return {};
+  }
+
+  const modules: Record<string, string> = {
+    errors: getErrorsModule(client, typescript),
+    client: getClientModule(client, typescript),
+    todos: getTodosModule(client, framework, typescript),
+  };
+  if (client === 'tanstack-query') {
+    modules.queryClient = getQueryClientModule(framework);
+  }
+  return getIndexedModules(modules, typescript ? 'ts' : 'js');
+}
+
+/**
+ * Place modules in src/api, with an index exporting all of them
+ */
+function getIndexedModules(modules: Record<string, string>, ext: string): Record<string, string> {
+  const index = Object.keys(modules)
+    .map(name => `export * from './${name}';\n`)
+    .join('');
+
+  return Object.fromEntries(
+    Object.entries({ ...modules, index }).map(([name, content]) => [`src/api/${name}.${ext}`, content])
+  );
+}
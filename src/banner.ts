@@ -0,0 +1,24 @@
+/**
+ * ASCII art banner shown at the start of the interactive CLI
+ */
+
+import chalk from 'chalk';
+import gradient from 'gradient-string';
+
+// Enhanced ASCII Art Banner with gradients
+export const createBanner = () => {
+  // Use a simple text banner instead of figlet to avoid font file dependencies
+  const viantText = `
+██╗   ██╗██╗ █████╗ ███╗   ██╗████████╗
+██║   ██║██║██╔══██╗████╗  ██║╚══██╔══╝
+██║   ██║██║███████║██╔██╗ ██║   ██║   
+╚██╗ ██╔╝██║██╔══██║██║╚██╗██║   ██║   
+ ╚████╔╝ ██║██║  ██║██║ ╚████║   ██║   
+  ╚═══╝  ╚═╝╚═╝  ╚═╝╚═╝  ╚═══╝   ╚═╝   
+`;
+  
+  return gradient.pastel(viantText) + 
+    '\n' + gradient.vice('⚡ Modern web apps, instantly. Multi-framework support.') + 
+    '\n' + chalk.cyan('🚀 React • Vue • Svelte • Solid • Preact • Vanilla') + 
+    '\n' + chalk.cyan('✨ TypeScript/JavaScript • Multiple styling options • Rich features') + '\n';
+};
@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  parseCliFlags,
+  isNonInteractive,
+  resolveProjectOptions,
+  getImpliedFeatures,
+  DEFAULT_PROJECT_OPTIONS,
+} from './cliOptions.js';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+import {
+  templates,
+  stylingOptions,
+  featureOptions,
+  stateManagementOptions,
+  linterOptions,
+} from './options.js';
+import { getCompatibleValues, isCompatible } from './compatibility.js';
+
+/**
+ * **Feature: non-interactive-flags, Property 1: Flags Reproduce Interactive Selections**
+ *
+ * *For any* valid combination of --framework, --ts/--js, --styling, --package-manager,
+ * --features, --state, --api-client, --router and --linter, the resolved project options SHALL contain exactly
+ * those selections, and *for any* unknown or contradictory value, parsing SHALL fail with
+ * an INVALID_OPTION error instead of falling back to a default.
+ */
+describe('Property 1: Flags Reproduce Interactive Selections', () => {
+  const frameworkArb = fc.constantFrom('react', 'vue', 'svelte', 'solid', 'preact');
+  const packageManagerArb = fc.constantFrom('npm', 'pnpm', 'yarn', 'bun');
+  const plainFeatures = featureOptions
+    .map(feature => feature.value)
+    .filter(feature => !['state-management', 'api-client', 'routing', 'linting'].includes(feature));
+
+  // Arbitrary for a valid, internally consistent set of flags
+  const validFlagsArb = fc.tuple(frameworkArb, fc.boolean()).chain(([framework, typescript]) =>
+    fc.record({
+      framework: fc.constant(framework),
+      typescript: fc.constant(typescript),
+      styling: fc.constantFrom(...getCompatibleValues('styling', framework, typescript)),
+      packageManager: packageManagerArb,
+      features: fc.subarray(plainFeatures.filter(feature => isCompatible('feature', feature, framework, typescript))),
+      state: fc.constantFrom(...stateManagementOptions[framework].map(option => option.value)),
+      apiClient: fc.constantFrom(...getCompatibleValues('apiClient', framework, typescript)),
+      router: fc.constantFrom(...getCompatibleValues('router', framework, typescript)),
+      linter: fc.constantFrom(...linterOptions.map(option => option.value)),
+    })
+  );
+
+  // Arbitrary for strings that are not a known value of any option
+  const unknownValueArb = fc.stringMatching(/^[a-z]{3,10}$/).filter(
+    value => !(value in templates) && !(value in stylingOptions) && !['npm', 'pnpm', 'yarn', 'bun'].includes(value)
+  );
+
+  function expectInvalidOption(fn: () => unknown): void {
+    try {
+      fn();
+      expect.fail('Expected an INVALID_OPTION error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ProjectGenerationError);
+      expect((error as ProjectGenerationError).code).toBe(ERROR_CODES.INVALID_OPTION);
+    }
+  }
+
+  it('should resolve every valid flag into the project options', () => {
+    fc.assert(
+      fc.property(validFlagsArb, (flags) => {
+        const options = resolveProjectOptions(
+          'my-app',
+          parseCliFlags({
+            framework: flags.framework,
+            ts: flags.typescript,
+            js: !flags.typescript,
+            styling: flags.styling,
+            packageManager: flags.packageManager,
+            features: flags.features.join(','),
+            state: flags.state,
+            apiClient: flags.apiClient,
+            router: flags.router,
+            linter: flags.linter,
+          }),
+          'npm'
+        );
+
+        expect(options.framework).toBe(flags.framework);
+        expect(options.typescript).toBe(flags.typescript);
+        expect(options.template).toBe(`${flags.framework}-${flags.typescript ? 'ts' : 'js'}`);
+        expect(options.styling).toBe(flags.styling);
+        expect(options.packageManager).toBe(flags.packageManager);
+        expect(options.stateManagement).toBe(flags.state);
+        expect(options.apiClient).toBe(flags.apiClient);
+        expect(options.router).toBe(flags.router);
+        expect(options.linter).toBe(flags.linter);
+        expect(options.features).toEqual([...flags.features, 'state-management', 'api-client', 'routing', 'linting']);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should imply the feature of every sub-choice given', () => {
+    fc.assert(
+      fc.property(validFlagsArb, fc.subarray(['stateManagement', 'apiClient', 'router', 'linter'] as const), (flags, given) => {
+        const subChoices = { stateManagement: flags.state, apiClient: flags.apiClient, router: flags.router, linter: flags.linter };
+        const options = Object.fromEntries(given.map(name => [name, subChoices[name]]));
+        const features = { stateManagement: 'state-management', apiClient: 'api-client', router: 'routing', linter: 'linting' };
+
+        expect(getImpliedFeatures(options)).toEqual(given.map(name => features[name]));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should derive framework and language from --template', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...Object.keys(templates)), (template) => {
+        const options = parseCliFlags({ template });
+        expect(`${options.framework}-${options.typescript ? 'ts' : 'js'}`).toBe(template);
+        expect(options.template).toBe(template);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject unknown values for every option', () => {
+    fc.assert(
+      fc.property(
+        unknownValueArb,
+        fc.constantFrom('template', 'framework', 'styling', 'packageManager', 'features', 'state', 'apiClient', 'router', 'linter'),
+        (value, flag) => {
+          expectInvalidOption(() => parseCliFlags({ [flag]: value }));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject contradictory flags', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...Object.keys(templates)), frameworkArb, (template, framework) => {
+        const [templateFramework, language] = template.split('-');
+        fc.pre(templateFramework !== framework);
+
+        expectInvalidOption(() => parseCliFlags({ template, framework }));
+        expectInvalidOption(() => parseCliFlags({ template, [language === 'ts' ? 'js' : 'ts']: true }));
+      }),
+      { numRuns: 100 }
+    );
+
+    expectInvalidOption(() => parseCliFlags({ ts: true, js: true }));
+    expectInvalidOption(() => parseCliFlags({ framework: 'vue', styling: 'styled-components' }));
+    expectInvalidOption(() => parseCliFlags({ framework: 'vue', state: 'redux-toolkit' }));
+    expectInvalidOption(() => parseCliFlags({ framework: 'vue', router: 'react-router' }));
+  });
+
+  it('should require the sub-choice of features that need one', () => {
+    expectInvalidOption(() => resolveProjectOptions('my-app', parseCliFlags({ features: 'state-management' }), 'npm'));
+    expectInvalidOption(() => resolveProjectOptions('my-app', parseCliFlags({ features: 'api-client' }), 'npm'));
+    expectInvalidOption(() => resolveProjectOptions('my-app', parseCliFlags({ features: 'routing' }), 'npm'));
+    expectInvalidOption(() => resolveProjectOptions('my-app', parseCliFlags({ features: 'linting' }), 'npm'));
+  });
+
+  it('should fill options not given with defaults', () => {
+    fc.assert(
+      fc.property(packageManagerArb, (defaultPackageManager) => {
+        const options = resolveProjectOptions(undefined, parseCliFlags({ yes: true }), defaultPackageManager);
+
+        expect(options).toMatchObject({
+          name: DEFAULT_PROJECT_OPTIONS.name,
+          framework: DEFAULT_PROJECT_OPTIONS.framework,
+          typescript: DEFAULT_PROJECT_OPTIONS.typescript,
+          styling: DEFAULT_PROJECT_OPTIONS.styling,
+          packageManager: defaultPackageManager,
+          features: [],
+          installDeps: true,
+          initGit: true,
+          runDev: true,
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should only skip prompts with --yes or a fully specified project', () => {
+    expect(isNonInteractive(undefined, { yes: true }, {})).toBe(true);
+    expect(isNonInteractive('my-app', {}, parseCliFlags({ template: 'vue-ts', styling: 'sass', packageManager: 'npm' }))).toBe(true);
+    expect(isNonInteractive('my-app', {}, parseCliFlags({ framework: 'vue', styling: 'sass', packageManager: 'npm' }))).toBe(false);
+    expect(isNonInteractive(undefined, {}, parseCliFlags({ template: 'vue-ts', styling: 'sass', packageManager: 'npm' }))).toBe(false);
+  });
+});
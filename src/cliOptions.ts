@@ -0,0 +1,402 @@
+/**
+ * Parsing and validation of the command line flags that preselect project options
+ * Unknown or contradictory values are rejected rather than silently replaced
+ */
+
+import { basename, isAbsolute, resolve } from 'path';
+// @ts-ignore
+import validateProjectName from 'validate-npm-package-name';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+import { PACKAGE_MANAGER_ORDER } from './detectPackageManagers.js';
+import {
+  templates,
+  templateManifests,
+  findTemplateManifest,
+  getTemplateManifest,
+  frameworkOptions,
+  stylingOptions,
+  featureOptions,
+  stateManagementOptions,
+  apiClientOptions,
+  routerOptions,
+  linterOptions,
+  type ProjectOptions,
+} from './options.js';
+import { isCustomTemplate } from './templateSource.js';
+import type { TemplateManifest } from './templateManifest.js';
+import { assertCompatibleOptions, getCompatibleValues } from './compatibility.js';
+
+/**
+ * Flags as parsed by Commander.js
+ */
+export interface CLIFlags {
+  template?: string;
+  framework?: string;
+  ts?: boolean;
+  js?: boolean;
+  styling?: string;
+  packageManager?: string;
+  features?: string;
+  state?: string;
+  apiClient?: string;
+  router?: string;
+  linter?: string;
+  /** Template variables as name=value */
+  var?: string[];
+  skipInstall?: boolean;
+  skipGit?: boolean;
+  skipDev?: boolean;
+  force?: boolean;
+  merge?: boolean;
+  yes?: boolean;
+}
+
+/**
+ * Defaults used for options that are neither given as flags nor prompted for
+ */
+export const DEFAULT_PROJECT_OPTIONS = {
+  name: 'my-viant-app',
+  framework: 'react',
+  typescript: true,
+  styling: 'tailwind',
+  features: [] as string[],
+};
+
+function invalidOption(message: string, validValues: string[]): ProjectGenerationError {
+  return new ProjectGenerationError(message, ERROR_CODES.INVALID_OPTION, {
+    recoverable: false,
+    hint: `Valid values: ${validValues.join(', ')}`,
+  });
+}
+
+function assertOneOf(flag: string, value: string, validValues: string[]): void {
+  if (!validValues.includes(value)) {
+    throw invalidOption(`Unknown value "${value}" for ${flag}`, validValues);
+  }
+}
+
+/**
+ * Get the state management libraries of all frameworks
+ */
+function getStateManagementValues(): string[] {
+  return [...new Set(Object.values(stateManagementOptions).flat().map(option => option.value))];
+}
+
+/**
+ * Get the routers of all frameworks
+ */
+function getRouterValues(): string[] {
+  return [...new Set(Object.values(routerOptions).flat().map(option => option.value))];
+}
+
+/**
+ * Get the names of the bundled templates for a framework
+ */
+function getTemplatesFor(framework?: string): string[] {
+  return Object.values(templateManifests)
+    .filter(manifest => manifest.framework === framework)
+    .map(manifest => manifest.name);
+}
+
+/**
+ * Get the name of the bundled template for a framework and language
+ */
+export function getTemplateName(framework: string, typescript: boolean): string {
+  const manifest = findTemplateManifest(framework, typescript);
+  if (!manifest) {
+    throw invalidOption(
+      `There is no ${typescript ? 'TypeScript' : 'JavaScript'} template for ${framework}`,
+      getTemplatesFor(framework)
+    );
+  }
+  return manifest.name;
+}
+
+/**
+ * Check that a template supports a styling solution and features
+ * Given several templates, support by any of them is enough.
+ */
+function assertTemplateSupports(manifests: TemplateManifest[], styling?: string, features: string[] = []): void {
+  const subject = manifests.length === 1 ? `the ${manifests[0].name} template` : manifests[0].framework;
+  const stylings = [...new Set(manifests.flatMap(manifest => manifest.stylings))];
+  const supportedFeatures = [...new Set(manifests.flatMap(manifest => manifest.features))];
+
+  if (styling && !stylings.includes(styling)) {
+    throw invalidOption(`${styling} is not available for ${subject}`, stylings);
+  }
+
+  const unsupported = features.find(feature => !supportedFeatures.includes(feature));
+  if (unsupported) {
+    throw invalidOption(`The ${unsupported} feature is not available for ${subject}`, supportedFeatures);
+  }
+}
+
+/**
+ * Complete the values of the variables a template declares with their
+ * defaults, rejecting values for undeclared variables and missing values
+ */
+export function resolveTemplateVariables(
+  manifest: TemplateManifest,
+  values: Record<string, string> = {}
+): Record<string, string> {
+  const declared = manifest.variables.map(variable => variable.name);
+  const unknown = Object.keys(values).find(name => !declared.includes(name));
+  if (unknown) {
+    throw invalidOption(`The ${manifest.name} template has no variable "${unknown}"`, declared.length > 0 ? declared : ['(none)']);
+  }
+
+  const resolved: Record<string, string> = {};
+  for (const variable of manifest.variables) {
+    const value = values[variable.name] ?? variable.initial;
+    if (value === undefined) {
+      throw new ProjectGenerationError(
+        `The ${manifest.name} template requires the variable "${variable.name}" (${variable.message})`,
+        ERROR_CODES.INVALID_OPTION,
+        { recoverable: false, hint: `Pass --var ${variable.name}=<value>.` }
+      );
+    }
+    resolved[variable.name] = value;
+  }
+
+  return resolved;
+}
+
+/**
+ * Parse and validate the flags given on the command line
+ * Returns only the options the flags determine, so they can either be
+ * completed with defaults or used to skip the matching prompts
+ */
+export function parseCliFlags(flags: CLIFlags): Partial<ProjectOptions> {
+  const options: Partial<ProjectOptions> = {};
+
+  if (flags.ts && flags.js) {
+    throw new ProjectGenerationError('--ts and --js cannot be used together', ERROR_CODES.INVALID_OPTION, {
+      recoverable: false,
+      hint: 'Pass only one of --ts or --js.',
+    });
+  }
+
+  if (flags.template && isCustomTemplate(flags.template)) {
+    // Framework and language are detected once the template is fetched
+    options.template = flags.template;
+  } else if (flags.template) {
+    assertOneOf('--template', flags.template, Object.keys(templates));
+    options.framework = templateManifests[flags.template].framework;
+    options.typescript = templateManifests[flags.template].typescript;
+  }
+
+  if (flags.framework) {
+    assertOneOf('--framework', flags.framework, Object.keys(frameworkOptions));
+    if (options.framework && options.framework !== flags.framework) {
+      throw invalidOption(
+        `--framework ${flags.framework} contradicts --template ${flags.template}`,
+        getTemplatesFor(flags.framework)
+      );
+    }
+    options.framework = flags.framework;
+  }
+
+  if (flags.ts || flags.js) {
+    const typescript = Boolean(flags.ts);
+    if (options.typescript !== undefined && options.typescript !== typescript) {
+      throw invalidOption(
+        `--${typescript ? 'ts' : 'js'} contradicts --template ${flags.template}`,
+        getTemplatesFor(options.framework)
+      );
+    }
+    options.typescript = typescript;
+  }
+
+  if (options.framework && options.typescript !== undefined && !isCustomTemplate(options.template ?? '')) {
+    options.template = getTemplateName(options.framework, options.typescript);
+  }
+
+  if (flags.styling) {
+    assertOneOf('--styling', flags.styling, Object.keys(stylingOptions));
+    options.styling = flags.styling;
+  }
+
+  if (flags.packageManager) {
+    assertOneOf('--package-manager', flags.packageManager, [...PACKAGE_MANAGER_ORDER]);
+    options.packageManager = flags.packageManager;
+  }
+
+  if (flags.features !== undefined) {
+    const features = [...new Set(flags.features.split(',').map(feature => feature.trim()).filter(Boolean))];
+    const knownFeatures = featureOptions.map(feature => feature.value);
+    features.forEach(feature => assertOneOf('--features', feature, knownFeatures));
+    options.features = features;
+  }
+
+  if (flags.state) {
+    assertOneOf('--state', flags.state, getStateManagementValues());
+    options.stateManagement = flags.state;
+  }
+
+  if (flags.apiClient) {
+    assertOneOf('--api-client', flags.apiClient, apiClientOptions.map(option => option.value));
+    options.apiClient = flags.apiClient;
+  }
+
+  if (flags.router) {
+    assertOneOf('--router', flags.router, getRouterValues());
+    options.router = flags.router;
+  }
+
+  if (flags.linter) {
+    assertOneOf('--linter', flags.linter, linterOptions.map(option => option.value));
+    options.linter = flags.linter;
+  }
+
+  if (flags.var && flags.var.length > 0) {
+    options.variables = {};
+    for (const assignment of flags.var) {
+      const separator = assignment.indexOf('=');
+      if (separator <= 0) {
+        throw new ProjectGenerationError(`Invalid --var "${assignment}"`, ERROR_CODES.INVALID_OPTION, {
+          recoverable: false,
+          hint: 'Template variables are given as --var name=value.',
+        });
+      }
+      options.variables[assignment.slice(0, separator)] = assignment.slice(separator + 1);
+    }
+  }
+
+  if (options.framework) {
+    assertCompatibleOptions({ ...options, framework: options.framework });
+  }
+
+  // Custom templates are checked once they are fetched
+  const candidates = Object.values(templateManifests).filter(manifest =>
+    options.template ? manifest.name === options.template : manifest.framework === options.framework
+  );
+  if (candidates.length > 0) {
+    assertTemplateSupports(candidates, options.styling, options.features);
+  }
+
+  if (flags.skipInstall) {
+    options.installDeps = false;
+  }
+  if (flags.skipGit) {
+    options.initGit = false;
+  }
+  if (flags.skipDev) {
+    options.runDev = false;
+  }
+
+  if (flags.force && flags.merge) {
+    throw new ProjectGenerationError('--force and --merge cannot be used together', ERROR_CODES.INVALID_OPTION, {
+      recoverable: false,
+      hint: '--merge keeps existing files, --force overwrites them. Pass only one.',
+    });
+  }
+  if (flags.force || flags.merge) {
+    options.existingFiles = flags.force ? 'force' : 'merge';
+  }
+
+  return options;
+}
+
+/**
+ * Validate project name
+ */
+export function validateName(name: string): boolean | string {
+  if (!name) return 'Project name is required';
+  
+  const validation = validateProjectName(name);
+  if (validation.validForNewPackages) {
+    return true;
+  }
+  
+  const errors = [...(validation.errors || []), ...(validation.warnings || [])];
+  return `Invalid project name: ${errors.join(', ')}`;
+}
+
+/**
+ * Get the package name and directory for the project argument
+ * "." and relative or absolute paths generate into that directory and name
+ * the project after it. Scoped names like @acme/app are names, not paths.
+ */
+export function resolveProjectTarget(projectArgument: string, cwd: string = process.cwd()): { name: string; directory: string } {
+  const directory = resolve(cwd, projectArgument);
+  const isPath = projectArgument.startsWith('.') || isAbsolute(projectArgument);
+  return { name: isPath ? basename(directory) : projectArgument, directory };
+}
+
+/**
+ * Check whether the flags fully determine a project without prompting
+ */
+export function isNonInteractive(projectName: string | undefined, flags: CLIFlags, options: Partial<ProjectOptions>): boolean {
+  return Boolean(
+    flags.yes ||
+    (projectName && options.template && options.styling && options.packageManager)
+  );
+}
+
+/**
+ * Get the features implied by their sub-choice, such as routing by --router
+ */
+export function getImpliedFeatures(options: Partial<ProjectOptions>): string[] {
+  return [
+    ...(options.stateManagement ? ['state-management'] : []),
+    ...(options.apiClient ? ['api-client'] : []),
+    ...(options.router ? ['routing'] : []),
+    ...(options.linter ? ['linting'] : []),
+  ];
+}
+
+/**
+ * Complete the options determined by flags with defaults
+ * Features that need a sub-choice are implied by that choice, and selecting
+ * them without it is an error.
+ */
+export function resolveProjectOptions(
+  projectName: string | undefined,
+  options: Partial<ProjectOptions>,
+  defaultPackageManager: string
+): ProjectOptions {
+  const framework = options.framework ?? DEFAULT_PROJECT_OPTIONS.framework;
+  const typescript = options.typescript ?? DEFAULT_PROJECT_OPTIONS.typescript;
+  const features = [...(options.features ?? DEFAULT_PROJECT_OPTIONS.features)];
+  features.push(...getImpliedFeatures(options).filter(feature => !features.includes(feature)));
+
+  const styling = options.styling ?? DEFAULT_PROJECT_OPTIONS.styling;
+  assertCompatibleOptions({ ...options, framework, typescript, styling, features });
+
+  const template = options.templatePath ? options.template! : getTemplateName(framework, typescript);
+  const manifest = getTemplateManifest({ template, templatePath: options.templatePath, framework, typescript })!;
+  assertTemplateSupports([manifest], styling, features);
+
+  if (features.includes('state-management') && !options.stateManagement) {
+    throw invalidOption('The state-management feature requires --state', getCompatibleValues('stateManagement', framework));
+  }
+  if (features.includes('api-client') && !options.apiClient) {
+    throw invalidOption('The api-client feature requires --api-client', getCompatibleValues('apiClient', framework, typescript));
+  }
+  if (features.includes('routing') && !options.router) {
+    throw invalidOption('The routing feature requires --router', getCompatibleValues('router', framework));
+  }
+  if (features.includes('linting') && !options.linter) {
+    throw invalidOption('The linting feature requires --linter', linterOptions.map(option => option.value));
+  }
+
+  return {
+    name: projectName || DEFAULT_PROJECT_OPTIONS.name,
+    template,
+    templatePath: options.templatePath,
+    framework,
+    typescript,
+    styling,
+    packageManager: options.packageManager ?? defaultPackageManager,
+    features,
+    installDeps: options.installDeps ?? true,
+    initGit: options.initGit ?? true,
+    runDev: options.runDev ?? true,
+    stateManagement: options.stateManagement,
+    apiClient: options.apiClient,
+    router: options.router,
+    linter: options.linter,
+    variables: resolveTemplateVariables(manifest, options.variables),
+    existingFiles: options.existingFiles,
+  };
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { isCompatible, getCompatibleValues, assertCompatible, type CompatibilityKind } from './compatibility.js';
+import { parseCliFlags, resolveProjectOptions } from './cliOptions.js';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+import { frameworkOptions, templateManifests, stateManagementOptions, routerOptions } from './options.js';
+
+function getError(fn: () => unknown): ProjectGenerationError | undefined {
+  try {
+    fn();
+    return undefined;
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProjectGenerationError);
+    return error as ProjectGenerationError;
+  }
+}
+
+/**
+ * **Feature: compatibility-matrix, Property 1: Incompatible Combinations Are Rejected**
+ *
+ * *For any* framework, language and option, resolving the option SHALL succeed exactly when
+ * the compatibility matrix allows it, and a rejection SHALL be an INVALID_OPTION error whose
+ * hint only suggests alternatives that are compatible.
+ */
+describe('Property 1: Incompatible Combinations Are Rejected', () => {
+  const frameworkArb = fc.constantFrom(...Object.keys(frameworkOptions));
+  const kindArb = fc.constantFrom<CompatibilityKind>('styling', 'feature', 'stateManagement', 'apiClient', 'router');
+
+  it('should accept exactly the compatible options', () => {
+    fc.assert(
+      fc.property(frameworkArb, fc.boolean(), kindArb, fc.nat(), (framework, typescript, kind, index) => {
+        const values = [...getCompatibleValues(kind, 'react'), ...getCompatibleValues(kind, 'vanilla', false)];
+        const value = values[index % values.length];
+        const error = getError(() => assertCompatible(kind, value, framework, typescript));
+
+        if (isCompatible(kind, value, framework, typescript)) {
+          expect(error).toBeUndefined();
+        } else {
+          expect(error?.code).toBe(ERROR_CODES.INVALID_OPTION);
+          expect(error?.message).toContain(value);
+          if (kind !== 'feature' && error?.hint?.startsWith('Available')) {
+            const suggested = error.hint.slice(error.hint.indexOf(':') + 1).split(',').map(item => item.trim());
+            suggested.forEach(alternative => expect(isCompatible(kind, alternative, framework, typescript)).toBe(true));
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject incompatible flags on the non-interactive path', () => {
+    const examples = [
+      { framework: 'vue', ts: true, features: 'api-client', apiClient: 'swr' },
+      { framework: 'vanilla', ts: true, features: 'api-client', apiClient: 'tanstack-query' },
+      { framework: 'vanilla', ts: true, features: 'api-client', apiClient: 'trpc' },
+      { framework: 'vanilla', ts: true, features: 'state-management' },
+      { framework: 'svelte', ts: true, styling: 'emotion' },
+      { framework: 'react', js: true, features: 'strict-ts' },
+      { framework: 'react', js: true, features: 'api-client', apiClient: 'trpc' },
+      { framework: 'vue', ts: true, router: 'react-router' },
+      { framework: 'preact', ts: true, router: 'history' },
+    ];
+
+    for (const flags of examples) {
+      const error = getError(() => resolveProjectOptions('my-app', parseCliFlags(flags), 'npm'));
+      expect(error?.code).toBe(ERROR_CODES.INVALID_OPTION);
+      expect(error?.hint).toBeTruthy();
+    }
+  });
+});
+
+/**
+ * **Feature: compatibility-matrix, Property 2: Templates Agree With the Matrix**
+ *
+ * *For any* bundled template, every styling and feature its manifest offers SHALL be
+ * compatible with its framework and language, and every framework offering the
+ * state-management or routing feature SHALL have libraries to choose from.
+ */
+describe('Property 2: Templates Agree With the Matrix', () => {
+  it('should only offer compatible options in bundled manifests', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...Object.values(templateManifests)), (manifest) => {
+        for (const styling of manifest.stylings) {
+          expect(isCompatible('styling', styling, manifest.framework, manifest.typescript)).toBe(true);
+        }
+        for (const feature of manifest.features) {
+          expect(isCompatible('feature', feature, manifest.framework, manifest.typescript)).toBe(true);
+        }
+        if (manifest.features.includes('state-management')) {
+          expect(stateManagementOptions[manifest.framework]?.length).toBeGreaterThan(0);
+        }
+        if (manifest.features.includes('routing')) {
+          expect(routerOptions[manifest.framework]?.length).toBeGreaterThan(0);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
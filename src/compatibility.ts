@@ -0,0 +1,173 @@
+/**
+ * Compatibility matrix: which styling solutions, features, state management
+ * libraries, API clients and routers work with which frameworks and languages.
+ * Consulted by the prompts, which hide incompatible choices, and by option
+ * validation, which rejects them and suggests what to use instead.
+ */
+
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+import {
+  stylingOptions,
+  featureOptions,
+  stateManagementOptions,
+  apiClientOptions,
+  routerOptions,
+  type ChoiceOption,
+} from './options.js';
+
+export type CompatibilityKind = 'styling' | 'feature' | 'stateManagement' | 'apiClient' | 'router';
+
+/**
+ * Kinds whose options are listed per framework rather than restricted by rules
+ */
+type PerFrameworkKind = 'stateManagement' | 'router';
+
+const PER_FRAMEWORK_OPTIONS: Record<PerFrameworkKind, Record<string, ChoiceOption[]>> = {
+  stateManagement: stateManagementOptions,
+  router: routerOptions,
+};
+
+function isPerFrameworkKind(kind: CompatibilityKind): kind is PerFrameworkKind {
+  return kind in PER_FRAMEWORK_OPTIONS;
+}
+
+export interface CompatibilityRule {
+  /** Frameworks the option works with, all when left out */
+  frameworks?: string[];
+  /** Whether the option needs TypeScript */
+  typescript?: boolean;
+}
+
+/**
+ * Options with restrictions. Anything not listed works everywhere, except
+ * state management libraries and routers, which are listed per framework in
+ * stateManagementOptions and routerOptions.
+ */
+export const COMPATIBILITY: Record<Exclude<CompatibilityKind, PerFrameworkKind>, Record<string, CompatibilityRule>> = {
+  styling: {
+    'styled-components': { frameworks: ['react', 'preact'] },
+    emotion: { frameworks: ['react', 'preact'] },
+  },
+  feature: {
+    'strict-ts': { typescript: true },
+    'state-management': { frameworks: Object.keys(stateManagementOptions) },
+    routing: { frameworks: Object.keys(routerOptions) },
+  },
+  apiClient: {
+    'tanstack-query': { frameworks: ['react', 'preact', 'vue', 'svelte', 'solid'] },
+    swr: { frameworks: ['react', 'preact'] },
+    trpc: { frameworks: ['react', 'preact', 'vue', 'svelte', 'solid'], typescript: true },
+  },
+};
+
+const KIND_LABELS: Record<CompatibilityKind, string> = {
+  styling: 'Styling',
+  feature: 'Feature',
+  stateManagement: 'State management',
+  apiClient: 'API client',
+  router: 'Router',
+};
+
+function getAllValues(kind: CompatibilityKind): string[] {
+  switch (kind) {
+    case 'styling':
+      return Object.keys(stylingOptions);
+    case 'feature':
+      return featureOptions.map(feature => feature.value);
+    case 'stateManagement':
+    case 'router':
+      return [...new Set(Object.values(PER_FRAMEWORK_OPTIONS[kind]).flat().map(option => option.value))];
+    case 'apiClient':
+      return apiClientOptions.map(option => option.value);
+  }
+}
+
+/**
+ * Check whether an option works with a framework and language
+ * An unknown language (typescript undefined) satisfies language requirements.
+ */
+export function isCompatible(kind: CompatibilityKind, value: string, framework: string, typescript?: boolean): boolean {
+  if (isPerFrameworkKind(kind)) {
+    return (PER_FRAMEWORK_OPTIONS[kind][framework] || []).some(option => option.value === value);
+  }
+
+  const rule = COMPATIBILITY[kind][value];
+  if (!rule) {
+    return true;
+  }
+  if (rule.frameworks && !rule.frameworks.includes(framework)) {
+    return false;
+  }
+  return !(rule.typescript && typescript === false);
+}
+
+/**
+ * Get the options of a kind that work with a framework and language
+ */
+export function getCompatibleValues(kind: CompatibilityKind, framework: string, typescript?: boolean): string[] {
+  return getAllValues(kind).filter(value => isCompatible(kind, value, framework, typescript));
+}
+
+/**
+ * Reject an option that does not work with a framework and language,
+ * suggesting the options that do
+ */
+export function assertCompatible(kind: CompatibilityKind, value: string, framework: string, typescript?: boolean): void {
+  if (isCompatible(kind, value, framework, typescript)) {
+    return;
+  }
+
+  const rule = isPerFrameworkKind(kind) ? undefined : COMPATIBILITY[kind][value];
+  const unavailable = !isCompatible(kind, value, framework);
+  const alternatives = getCompatibleValues(kind, framework, typescript);
+
+  let hint: string;
+  if (!unavailable) {
+    hint = `Use --ts, or leave out ${value}.`;
+  } else if (kind === 'feature') {
+    hint = `Leave out ${value}, or use a framework it supports: ${rule!.frameworks!.join(', ')}`;
+  } else if (alternatives.length > 0) {
+    hint = `Available for ${framework}: ${alternatives.join(', ')}`;
+  } else {
+    hint = `Leave out ${value} for ${framework} projects.`;
+  }
+
+  throw new ProjectGenerationError(
+    unavailable
+      ? `${KIND_LABELS[kind]} "${value}" is not available for ${framework}`
+      : `${KIND_LABELS[kind]} "${value}" requires TypeScript`,
+    ERROR_CODES.INVALID_OPTION,
+    { recoverable: false, hint }
+  );
+}
+
+/**
+ * Reject any chosen option that does not work with the framework and language
+ */
+export function assertCompatibleOptions(options: {
+  framework: string;
+  typescript?: boolean;
+  styling?: string;
+  features?: string[];
+  stateManagement?: string;
+  apiClient?: string;
+  router?: string;
+}): void {
+  const { framework, typescript } = options;
+
+  if (options.styling) {
+    assertCompatible('styling', options.styling, framework, typescript);
+  }
+  for (const feature of options.features ?? []) {
+    assertCompatible('feature', feature, framework, typescript);
+  }
+  if (options.stateManagement) {
+    assertCompatible('stateManagement', options.stateManagement, framework, typescript);
+  }
+  if (options.apiClient) {
+    assertCompatible('apiClient', options.apiClient, framework, typescript);
+  }
+  if (options.router) {
+    assertCompatible('router', options.router, framework, typescript);
+  }
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { join } from 'path';
+import {
+  getComponentLibraryFiles,
+  getDeclarationTool,
+  getLibraryBuildOptions,
+  getLibraryEntry,
+  getLibraryPackageFields,
+  LIBRARY_PEERS,
+} from './componentLibrary.js';
+import { ViteConfigExpression } from './viteConfig.js';
+import { templateManifests } from './options.js';
+import { generateProject, getSyntaxErrors } from './testUtils.js';
+
+/**
+ * Get the names a module exports or imports from a source, in the order written
+ */
+function getNames(content: string, pattern: RegExp): string[] {
+  return [...content.matchAll(pattern)].flatMap(([, names]) =>
+    names.split(',').map(name => name.trim().split(' as ').pop()!)
+  );
+}
+
+/**
+ * **Feature: component-library-scaffolds, Property 1: Libraries Export What the Playground Renders**
+ *
+ * *For any* framework, language and set of existing components, the library entry SHALL export
+ * only components that exist, the playground SHALL import only what the entry exports, every
+ * script SHALL parse, and the build SHALL externalize each framework peer with its subpaths.
+ */
+describe('Property 1: Libraries Export What the Playground Renders', () => {
+  it('should scaffold a parsable entry, playground and pack test', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...Object.keys(LIBRARY_PEERS)),
+        fc.boolean(),
+        fc.boolean(),
+        fc.boolean(),
+        (framework, typescript, components, styled) => {
+          const files = getComponentLibraryFiles({
+            framework,
+            typescript,
+            styles: ['./src/index.css'],
+            readFile: () => (components ? '' : undefined),
+          });
+
+          const entry = files[getLibraryEntry(typescript)];
+          const exported = getNames(entry, /^export \{ ([^}]+) \}/gm);
+          expect(exported.length > 0).toBe(components);
+
+          const [playgroundPath, playground] = Object.entries(files).find(([path]) => /^playground\/main\./.test(path))!;
+          expect(playground).toContain(`import '../src/index.css';`);
+          for (const name of getNames(playground, /^import \{ ([^}]+) \} from '\.\.\/src\/lib';$/gm)) {
+            expect(exported).toContain(name);
+          }
+          expect(files['playground/index.html']).toContain(`src="./${playgroundPath.slice('playground/'.length)}"`);
+
+          for (const [path, content] of Object.entries(files)) {
+            if (/\.[jt]sx?$/.test(path)) {
+              expect(getSyntaxErrors(content, path)).toEqual([]);
+            }
+          }
+
+          const { lib, rollupOptions } = getLibraryBuildOptions(framework, typescript) as any;
+          expect(lib).toMatchObject({ entry: getLibraryEntry(typescript), formats: ['es', 'cjs'] });
+          const external: RegExp[] = (rollupOptions?.external ?? []).map((value: ViteConfigExpression) => new Function(`return ${value.code}`)());
+          for (const peer of LIBRARY_PEERS[framework]) {
+            expect(external.some(pattern => pattern.test(peer) && pattern.test(`${peer}/jsx-runtime`))).toBe(true);
+            expect(external.some(pattern => pattern.test(`${peer}-extra`))).toBe(false);
+          }
+
+          const fields = getLibraryPackageFields(framework, typescript, styled) as any;
+          const conditions = Object.keys(fields.exports['.']);
+          expect(conditions.slice(-2)).toEqual(['import', 'require']);
+          expect(conditions[0] === 'types').toBe(getDeclarationTool(framework, typescript) !== undefined);
+          expect('./style.css' in fields.exports).toBe(styled);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should scaffold nothing for an unknown framework', () => {
+    expect(getComponentLibraryFiles({ framework: 'angular', typescript: true })).toEqual({});
+  });
+});
+
+/**
+ * **Feature: component-library-scaffolds, Property 2: Generated Projects Are Publishable Packages**
+ *
+ * *For any* template, a project generated as a component library SHALL build its entry in library
+ * mode, move the framework to its peer dependencies, publish only the build through its exports,
+ * and generate declarations within the build or from its build script.
+ */
+describe('Property 2: Generated Projects Are Publishable Packages', () => {
+  it('should configure library mode and the package fields', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(...Object.values(templateManifests)), async (manifest) => {
+        const { framework, typescript } = manifest;
+        const { files, read } = await generateProject(manifest, {
+          name: 'my-lib',
+          features: ['component-lib'],
+        });
+
+        const viteConfig = read(manifest.viteConfig)!;
+        expect(viteConfig).toContain(`entry: '${getLibraryEntry(typescript)}'`);
+        expect(viteConfig).not.toContain('entryFileNames');
+        const tool = getDeclarationTool(framework, typescript);
+        expect(viteConfig.includes(`import dts from 'vite-plugin-dts';`)).toBe(tool === 'vite-plugin-dts');
+
+        const pkg = JSON.parse(read('package.json')!);
+        for (const peer of LIBRARY_PEERS[framework]) {
+          expect(pkg.dependencies[peer]).toBeUndefined();
+          expect(pkg.peerDependencies[peer]).toBe(pkg.devDependencies[peer]);
+        }
+        expect(pkg.files).toEqual(['dist']);
+        expect(pkg.exports['.'].import).toBe(pkg.module);
+        expect(pkg.exports['.'].require).toBe(pkg.main);
+        expect(pkg.scripts.build.endsWith('npm run build:types')).toBe(tool === 'vue-tsc' || tool === 'svelte-package');
+        expect(pkg.scripts['test:pack']).toContain('scripts/test-pack.js');
+
+        const entry = read(getLibraryEntry(typescript))!;
+        for (const [, source] of entry.matchAll(/from '([^']+)';$/gm)) {
+          const subject = join('src/lib', source);
+          expect(files.some(file => file.path === subject || file.path.startsWith(`${subject}.`))).toBe(true);
+        }
+        expect(read('scripts/test-pack.js')).toBeDefined();
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,516 @@
+/**
+ * Component library scaffolds
+ * What the component-lib feature generates: a library entry exporting the
+ * template's components, which Vite builds in library mode to ES and CommonJS
+ * modules with declarations, a playground page previewing them in the dev
+ * server, and a smoke test importing the packed package as a consumer would.
+ */
+
+import { expression, type ViteConfigValue } from './viteConfig.js';
+
+export interface ComponentLibraryScaffoldOptions {
+  framework: string;
+  typescript: boolean;
+  /** Global stylesheets the app loads, as returned by getGlobalStyles(), which the playground loads too */
+  styles?: string[];
+  /** Read a template file, undefined when it does not exist, so only existing components are exported */
+  readFile?: (path: string) => string | undefined;
+}
+
+/**
+ * Framework packages a library is built against rather than bundling, which
+ * the app that installs it provides
+ */
+export const LIBRARY_PEERS: Record<string, string[]> = {
+  react: ['react', 'react-dom'],
+  preact: ['preact'],
+  vue: ['vue'],
+  svelte: ['svelte'],
+  solid: ['solid-js'],
+  vanilla: [],
+};
+
+/**
+ * Directory Vite builds the library into, which is what gets published
+ */
+export const LIBRARY_DIR = 'dist';
+
+/**
+ * Directory svelte-package writes the uncompiled components and their declarations into
+ */
+const SVELTE_PACKAGE_DIR = `${LIBRARY_DIR}/svelte`;
+
+/**
+ * Config declarations are generated with for Vue, which vite-plugin-dts does not read
+ */
+const VUE_DECLARATION_CONFIG = 'tsconfig.lib.json';
+
+/**
+ * svelte-package reads the compiler options from a tsconfig or, in JavaScript, a jsconfig
+ */
+const SVELTE_JS_CONFIG = 'jsconfig.json';
+
+const STYLES = /<style[\s>]|\.(css|scss|sass|less|styl)['"]/;
+
+interface LibraryComponent {
+  /** Template file the component is written in */
+  subject: string;
+  /** Statement exporting it from the library entry */
+  exports: string;
+  /** Names the playground imports to render it */
+  names: string[];
+  /** Heading of its playground section */
+  title: string;
+  /** How the playground renders it, in the framework's playground code */
+  usage: string;
+}
+
+/**
+ * Get the library entry, in src/lib, where Svelte keeps its components
+ */
+export function getLibraryEntry(typescript: boolean): string {
+  return `src/lib/index.${typescript ? 'ts' : 'js'}`;
+}
+
+/**
+ * Get how a project generates the declarations of its library
+ * vite-plugin-dts runs within the build, while Vue and Svelte components are
+ * only understood by their own tools, which a build:types script runs.
+ * svelte-package also writes the uncompiled components, so it runs without
+ * TypeScript too, reading types from JSDoc.
+ */
+export function getDeclarationTool(framework: string, typescript: boolean): 'vite-plugin-dts' | 'vue-tsc' | 'svelte-package' | undefined {
+  if (framework === 'svelte') {
+    return 'svelte-package';
+  }
+  if (!typescript) {
+    return undefined;
+  }
+  return framework === 'vue' ? 'vue-tsc' : 'vite-plugin-dts';
+}
+
+/**
+ * Get the script generating declarations outside the Vite build, if the framework needs one
+ */
+export function getDeclarationScript(framework: string, typescript: boolean): string | undefined {
+  switch (getDeclarationTool(framework, typescript)) {
+    case 'vue-tsc':
+      return `vue-tsc -p ${VUE_DECLARATION_CONFIG}`;
+    case 'svelte-package':
+      return `svelte-package -o ${SVELTE_PACKAGE_DIR}`;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Get the vite-plugin-dts entry of the plugins array, writing the
+ * declarations of src next to the built modules
+ */
+export function getDeclarationPlugin(): string {
+  return `dts({
+  entryRoot: 'src',
+  include: ['src'],
+  exclude: ['src/**/*.test.*', 'src/**/*.stories.*', 'src/test'],
+})`;
+}
+
+/**
+ * Get the build options switching Vite to library mode
+ * Peers match with their subpaths, such as react/jsx-runtime, and public/ is
+ * left out as it belongs to the playground.
+ */
+export function getLibraryBuildOptions(framework: string, typescript: boolean): { [key: string]: ViteConfigValue } {
+  const peers = LIBRARY_PEERS[framework] ?? [];
+  return {
+    lib: {
+      entry: getLibraryEntry(typescript),
+      formats: ['es', 'cjs'],
+      fileName: 'index',
+      cssFileName: 'style',
+    },
+    copyPublicDir: false,
+    ...(peers.length > 0 ? { rollupOptions: { external: peers.map(peer => expression(`/^${peer}($|\\/)/`)) } } : {}),
+  };
+}
+
+/**
+ * Get the package.json fields describing what the package publishes and how
+ * it is imported
+ */
+export function getLibraryPackageFields(framework: string, typescript: boolean, styled: boolean): Record<string, unknown> {
+  const tool = getDeclarationTool(framework, typescript);
+  const types = tool === 'svelte-package'
+    ? `./${SVELTE_PACKAGE_DIR}/index.d.ts`
+    : tool && `./${LIBRARY_DIR}/lib/index.d.ts`;
+
+  return {
+    main: `./${LIBRARY_DIR}/index.cjs`,
+    module: `./${LIBRARY_DIR}/index.js`,
+    ...(types ? { types } : {}),
+    exports: {
+      '.': {
+        // Conditions are matched in order, and types must come first
+        ...(types ? { types } : {}),
+        // Svelte tooling compiles the components with the app
+        ...(framework === 'svelte' ? { svelte: `./${SVELTE_PACKAGE_DIR}/index.js` } : {}),
+        import: `./${LIBRARY_DIR}/index.js`,
+        require: `./${LIBRARY_DIR}/index.cjs`,
+      },
+      ...(styled ? { './style.css': `./${LIBRARY_DIR}/style.css` } : {}),
+    },
+    files: [LIBRARY_DIR],
+    sideEffects: styled ? ['**/*.css'] : false,
+  };
+}
+
+/**
+ * Package.json fields added by getLibraryPackageFields()
+ */
+export const LIBRARY_PACKAGE_FIELDS = ['main', 'module', 'types', 'exports', 'files', 'sideEffects'];
+
+function getComponents(framework: string, typescript: boolean): LibraryComponent[] {
+  const jsx = typescript ? 'tsx' : 'jsx';
+
+  switch (framework) {
+    case 'react':
+      return [
+        {
+          subject: `src/components/ui/Button.${jsx}`,
+          exports: `export { Button } from '../components/ui/Button';`,
+          names: ['Button'],
+          title: 'Button',
+          usage: `<Button>Default</Button>
+        <Button variant="outline">Outline</Button>
+        <Button variant="secondary" size="sm">Small</Button>`,
+        },
+        {
+          subject: `src/components/ui/Card.${jsx}`,
+          exports: `export { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '../components/ui/Card';`,
+          names: ['Card', 'CardContent', 'CardDescription', 'CardHeader', 'CardTitle'],
+          title: 'Card',
+          usage: `<Card>
+          <CardHeader>
+            <CardTitle>Card title</CardTitle>
+            <CardDescription>Cards group related content and actions.</CardDescription>
+          </CardHeader>
+          <CardContent>Put anything in the content area.</CardContent>
+        </Card>`,
+        },
+      ];
+
+    // The TypeScript template keeps the logo next to the app, the JavaScript one in components
+    case 'preact':
+      return [
+        typescript
+          ? {
+              subject: 'src/ViantLogo.tsx',
+              exports: `export { ViantLogo } from '../ViantLogo';`,
+              names: ['ViantLogo'],
+              title: 'ViantLogo',
+              usage: '<ViantLogo />',
+            }
+          : {
+              subject: 'src/components/ViantLogo.jsx',
+              exports: `export { default as ViantLogo } from '../components/ViantLogo';`,
+              names: ['ViantLogo'],
+              title: 'ViantLogo',
+              usage: '<ViantLogo />',
+            },
+      ];
+
+    case 'solid':
+      return [
+        {
+          subject: `src/components/ViantLogo.${jsx}`,
+          exports: `export { default as ViantLogo } from '../components/ViantLogo';`,
+          names: ['ViantLogo'],
+          title: 'ViantLogo',
+          usage: '<ViantLogo />',
+        },
+      ];
+
+    case 'vue':
+      return [
+        {
+          subject: 'src/components/HelloWorld.vue',
+          exports: `export { default as HelloWorld } from '../components/HelloWorld.vue';`,
+          names: ['HelloWorld'],
+          title: 'HelloWorld',
+          usage: `h(HelloWorld, { msg: 'Hello from the library' })`,
+        },
+        {
+          subject: 'src/components/ViantLogo.vue',
+          exports: `export { default as ViantLogo } from '../components/ViantLogo.vue';`,
+          names: ['ViantLogo'],
+          title: 'ViantLogo',
+          usage: 'h(ViantLogo)',
+        },
+      ];
+
+    case 'svelte':
+      return [
+        {
+          subject: 'src/lib/Counter.svelte',
+          exports: `export { default as Counter } from './Counter.svelte';`,
+          names: ['Counter'],
+          title: 'Counter',
+          usage: `mount(Counter, { target: section('Counter') });`,
+        },
+        {
+          subject: 'src/lib/ViantLogo.svelte',
+          exports: `export { default as ViantLogo } from './ViantLogo.svelte';`,
+          names: ['ViantLogo'],
+          title: 'ViantLogo',
+          usage: `mount(ViantLogo, { target: section('ViantLogo') });`,
+        },
+      ];
+
+    case 'vanilla': {
+      const ext = typescript ? 'ts' : 'js';
+      return [
+        {
+          subject: `src/counter.${ext}`,
+          exports: `export { setupCounter } from '../counter';`,
+          names: ['setupCounter'],
+          title: 'Counter',
+          usage: `const button = document.createElement('button');
+button.type = 'button';
+setupCounter(button);
+section('Counter').append(button);`,
+        },
+        {
+          subject: `src/viant-logo.${ext}`,
+          exports: `export { createViantLogo } from '../viant-logo';`,
+          names: ['createViantLogo'],
+          title: 'ViantLogo',
+          usage: `section('ViantLogo').insertAdjacentHTML('beforeend', createViantLogo());`,
+        },
+      ];
+    }
+
+    default:
+      return [];
+  }
+}
+
+function getEntry(components: LibraryComponent[]): string {
+  const exports = components.length > 0 ? components.map(component => component.exports).join('\n') : 'export {};';
+  return `// The library's public API: what is exported here is built into ${LIBRARY_DIR} and published
+${exports}
+`;
+}
+
+/**
+ * Get the playground entry, rendering each component in its own section
+ */
+function getPlaygroundMain(framework: string, typescript: boolean, components: LibraryComponent[], styles: string[]): string {
+  const names = [...new Set(components.flatMap(component => component.names))].sort();
+  const imports = [
+    ...styles.map(style => `import '${style.startsWith('./') ? `.${style}` : style}';`),
+    ...(names.length > 0 ? [`import { ${names.join(', ')} } from '../src/lib';`] : []),
+  ];
+  const root = `document.getElementById('app')${typescript ? '!' : ''}`;
+  const jsxSections = components
+    .map(component => `      <section>
+        <h2>${component.title}</h2>
+        ${component.usage}
+      </section>`)
+    .join('\n');
+  const jsxPage = `<main>
+      <h1>Component playground</h1>
+${jsxSections}
+    </main>`;
+
+  switch (framework) {
+    case 'react':
+      return `import { StrictMode } from 'react';
+import { createRoot } from 'react-dom/client';
+${imports.join('\n')}
+
+createRoot(${root}).render(
+  <StrictMode>
+    ${jsxPage}
+  </StrictMode>,
+);
+`;
+
+    case 'preact':
+      return `import { render } from 'preact';
+${imports.join('\n')}
+
+render(
+  ${jsxPage.replace(/\n {2}/g, '\n')},
+  ${root},
+);
+`;
+
+    case 'solid':
+      return `import { render } from 'solid-js/web';
+${imports.join('\n')}
+
+render(
+  () => (
+    ${jsxPage}
+  ),
+  ${root},
+);
+`;
+
+    case 'vue': {
+      const sections = components.map(component => `
+    h('section', [h('h2', '${component.title}'), ${component.usage}]),`).join('');
+      return `import { createApp, h } from 'vue';
+${imports.join('\n')}
+
+createApp({
+  render: () => h('main', [
+    h('h1', 'Component playground'),${sections}
+  ]),
+}).mount('#app');
+`;
+    }
+
+    // Svelte components and vanilla elements are mounted into sections created on the page
+    default:
+      return `${framework === 'svelte' ? `import { mount } from 'svelte';\n` : ''}${imports.join('\n')}
+
+const main = document.createElement('main');
+main.innerHTML = '<h1>Component playground</h1>';
+${root}.append(main);
+
+function section(title${typescript ? ': string' : ''})${typescript ? ': HTMLElement' : ''} {
+  const element = document.createElement('section');
+  element.innerHTML = \`<h2>\${title}</h2>\`;
+  main.append(element);
+  return element;
+}
+${components.map(component => `\n${component.usage}`).join('\n')}
+`;
+  }
+}
+
+function getPlaygroundPage(main: string): string {
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <title>Component playground</title>
+  </head>
+  <body>
+    <div id="app"></div>
+    <script type="module" src="./${main}"></script>
+  </body>
+</html>
+`;
+}
+
+/**
+ * The jsconfig svelte-package needs to emit declarations from JSDoc
+ */
+function getSvelteJsConfig(): string {
+  return `${JSON.stringify({
+    compilerOptions: {
+      module: 'ESNext',
+      moduleResolution: 'bundler',
+      target: 'ES2022',
+      skipLibCheck: true,
+    },
+    include: ['src/**/*.js', 'src/**/*.svelte'],
+  }, null, 2)}\n`;
+}
+
+/**
+ * The Vue config for declarations, emitting only those of the library
+ */
+function getVueDeclarationConfig(): string {
+  return `${JSON.stringify({
+    extends: './tsconfig.json',
+    compilerOptions: {
+      noEmit: false,
+      declaration: true,
+      emitDeclarationOnly: true,
+      outDir: LIBRARY_DIR,
+      rootDir: 'src',
+    },
+    include: ['src/lib', 'src/vite-env.d.ts'],
+  }, null, 2)}\n`;
+}
+
+const PACK_TEST = `/**
+ * Smoke test of the package as it would be published: every file package.json
+ * points to is packed, and the package imports by its name in both formats.
+ * Runs against the last build, so build first: npm run test:pack does both.
+ * Node runs with the browser condition, as the components are browser code.
+ */
+import { execFileSync } from 'node:child_process';
+import { readFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+
+const pkg = JSON.parse(readFileSync(new URL('../package.json', import.meta.url), 'utf8'));
+
+// Without scripts, so packing does not build again
+const [{ files }] = JSON.parse(
+  execFileSync('npm', ['pack', '--dry-run', '--json', '--ignore-scripts'], {
+    encoding: 'utf8',
+    shell: process.platform === 'win32',
+  }),
+);
+const packed = new Set(files.map((file) => file.path));
+
+const targets = (value) => (typeof value === 'string' ? [value] : Object.values(value ?? {}).flatMap(targets));
+const missing = [pkg.main, pkg.module, pkg.types, ...targets(pkg.exports)]
+  .filter(Boolean)
+  .map((path) => path.replace(/^\\.\\//, ''))
+  .filter((path) => !packed.has(path));
+if (missing.length > 0) {
+  throw new Error(\`Not in the package: \${missing.join(', ')}. Is the build up to date?\`);
+}
+
+// A package can import itself by name, which resolves through its exports as it would for an app
+const esm = Object.keys(await import(pkg.name)).filter((name) => name !== 'default').sort();
+const cjs = Object.keys(createRequire(import.meta.url)(pkg.name)).sort();
+if (esm.length === 0) {
+  throw new Error('The library exports nothing: export its components from src/lib/index');
+}
+if (esm.join() !== cjs.join()) {
+  throw new Error(\`The ES build exports \${esm.join(', ')}, the CommonJS build \${cjs.join(', ')}\`);
+}
+
+console.log(\`✓ \${pkg.name} exports \${esm.join(', ')}\`);
+`;
+
+/**
+ * Check whether the library's components have styles, which Vite extracts into style.css
+ */
+export function hasLibraryStyles(framework: string, typescript: boolean, readFile: (path: string) => string | undefined): boolean {
+  return getComponents(framework, typescript).some(component => STYLES.test(readFile(component.subject) ?? ''));
+}
+
+/**
+ * Get the library entry, the playground and the pack smoke test for a framework
+ */
+export function getComponentLibraryFiles({ framework, typescript, styles = [], readFile = () => '' }: ComponentLibraryScaffoldOptions): Record<string, string> {
+  if (!(framework in LIBRARY_PEERS)) {
+    return {};
+  }
+
+  const components = getComponents(framework, typescript).filter(component => readFile(component.subject) !== undefined);
+  const main = `main.${typescript ? 'ts' : 'js'}${['react', 'preact', 'solid'].includes(framework) ? 'x' : ''}`;
+  const files: Record<string, string> = {
+    [getLibraryEntry(typescript)]: getEntry(components),
+    'playground/index.html': getPlaygroundPage(main),
+    [`playground/${main}`]: getPlaygroundMain(framework, typescript, components, styles),
+    'scripts/test-pack.js': PACK_TEST,
+  };
+
+  if (getDeclarationTool(framework, typescript) === 'vue-tsc') {
+    files[VUE_DECLARATION_CONFIG] = getVueDeclarationConfig();
+  }
+  if (framework === 'svelte' && !typescript) {
+    files[SVELTE_JS_CONFIG] = getSvelteJsConfig();
+  }
+
+  return files;
+}
@@ -40,3 +40,19 @@ export function orderPackageManagers(availableManagers: Set<string>): string[] {
   );
   return ordered.length > 0 ? ordered : ['npm'];
 }
+
+/**
+ * Get the command running a package binary with a package manager
+ */
+export function getExecCommand(packageManager: string, command: string): string {
+  switch (packageManager) {
+    case 'pnpm':
+      return `pnpm exec ${command}`;
+    case 'yarn':
+      return `yarn ${command}`;
+    case 'bun':
+      return `bunx ${command}`;
+    default:
+      return `npx ${command}`;
+  }
+}
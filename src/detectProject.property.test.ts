@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { existsSync, mkdirSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  detectApiClient,
+  detectFramework,
+  detectPackageManager,
+  detectProject,
+  detectRouter,
+  detectStateManagement,
+  detectStyling,
+} from './detectProject.js';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+
+/**
+ * **Feature: add-command, Property 2: Existing Project Detection**
+ *
+ * *For any* project generated for a framework, styling option and package manager,
+ * detection SHALL recover the same framework, language, styling and package manager
+ * from its package.json, vite config and lockfile.
+ */
+describe('Property 2: Existing Project Detection', () => {
+  const frameworkPackages: Record<string, string> = {
+    react: 'react',
+    vue: 'vue',
+    svelte: 'svelte',
+    solid: 'solid-js',
+    preact: 'preact',
+  };
+
+  const frameworkArb = fc.constantFrom('react', 'vue', 'svelte', 'solid', 'preact', 'vanilla');
+
+  const stylingPackages: Record<string, string> = {
+    tailwind: 'tailwindcss',
+    'styled-components': 'styled-components',
+    emotion: '@emotion/react',
+    'vanilla-extract': '@vanilla-extract/css',
+    unocss: 'unocss',
+    sass: 'sass',
+    less: 'less',
+    stylus: 'stylus',
+  };
+
+  const stylingArb = fc.constantFrom(...Object.keys(stylingPackages), 'none');
+
+  const lockfiles: Record<string, string> = {
+    bun: 'bun.lockb',
+    pnpm: 'pnpm-lock.yaml',
+    yarn: 'yarn.lock',
+    npm: 'package-lock.json',
+  };
+
+  const packageManagerArb = fc.constantFrom('bun', 'pnpm', 'yarn', 'npm');
+
+  function buildPackageJson(framework: string, styling: string): any {
+    const pkg: any = { name: 'app', dependencies: {}, devDependencies: {} };
+    if (frameworkPackages[framework]) {
+      pkg.dependencies[frameworkPackages[framework]] = '^1.0.0';
+    }
+    if (stylingPackages[styling]) {
+      pkg.devDependencies[stylingPackages[styling]] = '^1.0.0';
+    }
+    return pkg;
+  }
+
+  let testBaseDir: string;
+
+  beforeEach(() => {
+    testBaseDir = join(tmpdir(), `viant-detect-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testBaseDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testBaseDir)) {
+      rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  it('should detect the framework from package.json dependencies', () => {
+    fc.assert(
+      fc.property(frameworkArb, stylingArb, (framework, styling) => {
+        expect(detectFramework(buildPackageJson(framework, styling))).toBe(framework);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should fall back to the vite config plugins when dependencies are missing', () => {
+    const viteConfigs: Record<string, string> = {
+      react: "import react from '@vitejs/plugin-react-swc';",
+      vue: "import vue from '@vitejs/plugin-vue';",
+      svelte: "import { svelte } from '@sveltejs/vite-plugin-svelte';",
+      solid: "import solid from 'vite-plugin-solid';",
+      preact: "import preact from '@preact/preset-vite';",
+    };
+
+    for (const [framework, viteConfig] of Object.entries(viteConfigs)) {
+      expect(detectFramework({}, viteConfig)).toBe(framework);
+    }
+    expect(detectFramework({}, "import { defineConfig } from 'vite';")).toBe('vanilla');
+  });
+
+  it('should detect the styling solution from package.json dependencies', () => {
+    fc.assert(
+      fc.property(frameworkArb, stylingArb, (framework, styling) => {
+        expect(detectStyling(buildPackageJson(framework, styling))).toBe(styling);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should detect the state management library, API client and router from dependencies', () => {
+    const statePackages: Record<string, string> = {
+      'redux-toolkit': '@reduxjs/toolkit',
+      zustand: 'zustand',
+      jotai: 'jotai',
+      valtio: 'valtio',
+      pinia: 'pinia',
+      vuex: 'vuex',
+    };
+    const apiPackages: Record<string, string> = {
+      trpc: '@trpc/client',
+      'tanstack-query': '@tanstack/react-query',
+      swr: 'swr',
+      axios: 'axios',
+    };
+    const routerPackages: Record<string, string> = {
+      'react-router': 'react-router',
+      'vue-router': 'vue-router',
+      'solid-router': '@solidjs/router',
+      'preact-iso': 'preact-iso',
+      wouter: 'wouter-preact',
+    };
+
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...Object.keys(statePackages)),
+        fc.constantFrom(...Object.keys(apiPackages)),
+        fc.constantFrom(...Object.keys(routerPackages)),
+        (stateManagement, apiClient, router) => {
+          const pkg = {
+            dependencies: {
+              [statePackages[stateManagement]]: '^1.0.0',
+              [apiPackages[apiClient]]: '^1.0.0',
+              [routerPackages[router]]: '^1.0.0',
+            },
+          };
+          expect(detectStateManagement(pkg)).toBe(stateManagement);
+          expect(detectApiClient(pkg)).toBe(apiClient);
+          expect(detectRouter(pkg)).toBe(router);
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    expect(detectStateManagement({})).toBeUndefined();
+    expect(detectApiClient({})).toBeUndefined();
+    expect(detectRouter({})).toBeUndefined();
+  });
+
+  it('should detect the package manager from lockfiles before package.json', () => {
+    fc.assert(
+      fc.property(packageManagerArb, packageManagerArb, (fromLockfile, declared) => {
+        const pkg = { packageManager: `${declared}@1.0.0` };
+        expect(detectPackageManager([lockfiles[fromLockfile], 'package.json'], pkg)).toBe(fromLockfile);
+        expect(detectPackageManager(['package.json'], pkg)).toBe(declared);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should detect a generated project from disk', () => {
+    fc.assert(
+      fc.property(frameworkArb, fc.boolean(), stylingArb, packageManagerArb, (framework, typescript, styling, pm) => {
+        const projectPath = join(testBaseDir, `p-${Math.random().toString(36).slice(2)}`);
+        mkdirSync(projectPath);
+        writeFileSync(join(projectPath, 'package.json'), JSON.stringify(buildPackageJson(framework, styling)));
+        writeFileSync(join(projectPath, `vite.config.${typescript ? 'ts' : 'js'}`), 'export default {};');
+        writeFileSync(join(projectPath, lockfiles[pm]), '');
+
+        expect(detectProject(projectPath)).toEqual({
+          name: 'app',
+          framework,
+          typescript,
+          styling,
+          packageManager: pm,
+        });
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should throw PROJECT_NOT_FOUND when there is no package.json', () => {
+    try {
+      detectProject(testBaseDir);
+      expect.fail('Expected detectProject to throw');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ProjectGenerationError);
+      expect((error as ProjectGenerationError).code).toBe(ERROR_CODES.PROJECT_NOT_FOUND);
+    }
+  });
+});
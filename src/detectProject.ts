@@ -0,0 +1,237 @@
+/**
+ * Detection of the options an existing project was generated with
+ * Used by commands that operate on an already-generated project
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+
+export interface DetectedProject {
+  name: string;
+  framework: string;
+  typescript: boolean;
+  styling: string;
+  packageManager: string;
+  stateManagement?: string;
+  apiClient?: string;
+  router?: string;
+  linter?: string;
+}
+
+/**
+ * Framework packages in detection order. Preact is checked first because
+ * Preact projects commonly alias react to preact/compat.
+ */
+const FRAMEWORK_PACKAGES: [string, string][] = [
+  ['preact', 'preact'],
+  ['react', 'react'],
+  ['vue', 'vue'],
+  ['svelte', 'svelte'],
+  ['solid-js', 'solid'],
+];
+
+const FRAMEWORK_VITE_PLUGINS: [string, string][] = [
+  ['@preact/preset-vite', 'preact'],
+  ['@vitejs/plugin-react', 'react'],
+  ['@vitejs/plugin-vue', 'vue'],
+  ['@sveltejs/vite-plugin-svelte', 'svelte'],
+  ['vite-plugin-solid', 'solid'],
+];
+
+const STYLING_PACKAGES: [string, string][] = [
+  ['tailwindcss', 'tailwind'],
+  ['styled-components', 'styled-components'],
+  ['@emotion/react', 'emotion'],
+  ['@emotion/css', 'emotion'],
+  ['@vanilla-extract/css', 'vanilla-extract'],
+  ['unocss', 'unocss'],
+  ['sass', 'sass'],
+  ['less', 'less'],
+  ['stylus', 'stylus'],
+];
+
+const STATE_MANAGEMENT_PACKAGES: [string, string][] = [
+  ['@reduxjs/toolkit', 'redux-toolkit'],
+  ['zustand', 'zustand'],
+  ['jotai', 'jotai'],
+  ['valtio', 'valtio'],
+  ['pinia', 'pinia'],
+  ['vuex', 'vuex'],
+];
+
+const API_CLIENT_PACKAGES: [string, string][] = [
+  ['@trpc/client', 'trpc'],
+  ['@tanstack/react-query', 'tanstack-query'],
+  ['@tanstack/vue-query', 'tanstack-query'],
+  ['@tanstack/svelte-query', 'tanstack-query'],
+  ['@tanstack/solid-query', 'tanstack-query'],
+  ['swr', 'swr'],
+  ['axios', 'axios'],
+];
+
+// The history router is generated code and has no package to detect
+const ROUTER_PACKAGES: [string, string][] = [
+  ['react-router', 'react-router'],
+  ['react-router-dom', 'react-router'],
+  ['vue-router', 'vue-router'],
+  ['@solidjs/router', 'solid-router'],
+  ['preact-iso', 'preact-iso'],
+  ['wouter-preact', 'wouter'],
+];
+
+// ESLint and oxlint are checked first because templates ship Biome by default
+const LINTER_PACKAGES: [string, string][] = [
+  ['oxlint', 'oxlint'],
+  ['eslint', 'eslint'],
+  ['@biomejs/biome', 'biome'],
+];
+
+const LOCKFILES: [string, string][] = [
+  ['bun.lockb', 'bun'],
+  ['bun.lock', 'bun'],
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+];
+
+const VITE_CONFIG_FILES = ['vite.config.ts', 'vite.config.mts', 'vite.config.js', 'vite.config.mjs'];
+
+function allDependencies(pkg: any): Record<string, string> {
+  return { ...(pkg?.dependencies || {}), ...(pkg?.devDependencies || {}) };
+}
+
+/**
+ * Detect the framework from package.json dependencies, falling back to the
+ * plugins imported by the vite config
+ */
+export function detectFramework(pkg: any, viteConfig = ''): string {
+  const deps = allDependencies(pkg);
+
+  for (const [packageName, framework] of FRAMEWORK_PACKAGES) {
+    if (deps[packageName]) {
+      return framework;
+    }
+  }
+
+  for (const [pluginName, framework] of FRAMEWORK_VITE_PLUGINS) {
+    if (viteConfig.includes(pluginName)) {
+      return framework;
+    }
+  }
+
+  return 'vanilla';
+}
+
+/**
+ * Detect the styling solution from package.json dependencies
+ */
+export function detectStyling(pkg: any): string {
+  const deps = allDependencies(pkg);
+  const match = STYLING_PACKAGES.find(([packageName]) => deps[packageName]);
+  return match ? match[1] : 'none';
+}
+
+/**
+ * Detect the state management library from package.json dependencies
+ */
+export function detectStateManagement(pkg: any): string | undefined {
+  const deps = allDependencies(pkg);
+  return STATE_MANAGEMENT_PACKAGES.find(([packageName]) => deps[packageName])?.[1];
+}
+
+/**
+ * Detect the API client from package.json dependencies
+ */
+export function detectApiClient(pkg: any): string | undefined {
+  const deps = allDependencies(pkg);
+  return API_CLIENT_PACKAGES.find(([packageName]) => deps[packageName])?.[1];
+}
+
+/**
+ * Detect the router from package.json dependencies
+ */
+export function detectRouter(pkg: any): string | undefined {
+  const deps = allDependencies(pkg);
+  return ROUTER_PACKAGES.find(([packageName]) => deps[packageName])?.[1];
+}
+
+/**
+ * Detect the linter from package.json dependencies
+ */
+export function detectLinter(pkg: any): string | undefined {
+  const deps = allDependencies(pkg);
+  return LINTER_PACKAGES.find(([packageName]) => deps[packageName])?.[1];
+}
+
+/**
+ * Detect the package manager from the lockfiles present in the project,
+ * falling back to the packageManager field of package.json
+ */
+export function detectPackageManager(fileNames: string[], pkg?: any): string {
+  const match = LOCKFILES.find(([lockfile]) => fileNames.includes(lockfile));
+  if (match) {
+    return match[1];
+  }
+
+  const declared = typeof pkg?.packageManager === 'string' ? pkg.packageManager.split('@')[0] : '';
+  return ['bun', 'pnpm', 'yarn', 'npm'].includes(declared) ? declared : 'npm';
+}
+
+/**
+ * Find the vite config file of a project, if any
+ */
+export function findViteConfig(projectPath: string): string | undefined {
+  return VITE_CONFIG_FILES.find(file => existsSync(join(projectPath, file)));
+}
+
+/**
+ * Detect the options of an existing project from its package.json and vite config
+ */
+export function detectProject(projectPath: string): DetectedProject {
+  const packageJsonPath = join(projectPath, 'package.json');
+
+  if (!existsSync(packageJsonPath)) {
+    throw new ProjectGenerationError(
+      `No package.json found in "${projectPath}"`,
+      ERROR_CODES.PROJECT_NOT_FOUND,
+      {
+        recoverable: false,
+        hint: 'Run this command from the root of a project created with create-viant-app, or pass --dir.',
+      }
+    );
+  }
+
+  let pkg: any;
+  try {
+    pkg = JSON.parse(readFileSync(packageJsonPath, 'utf8'));
+  } catch (error: any) {
+    throw new ProjectGenerationError(
+      `Failed to read package.json: ${error.message}`,
+      ERROR_CODES.PACKAGE_JSON_INVALID,
+      {
+        recoverable: false,
+        hint: 'The package.json file may be corrupted or have invalid JSON syntax.',
+        cause: error,
+      }
+    );
+  }
+
+  const viteConfigFile = findViteConfig(projectPath);
+  const viteConfig = viteConfigFile ? readFileSync(join(projectPath, viteConfigFile), 'utf8') : '';
+
+  return {
+    name: pkg.name || 'app',
+    framework: detectFramework(pkg, viteConfig),
+    typescript:
+      viteConfigFile?.endsWith('ts') === true ||
+      existsSync(join(projectPath, 'tsconfig.json')) ||
+      Boolean(allDependencies(pkg).typescript),
+    styling: detectStyling(pkg),
+    packageManager: detectPackageManager(readdirSync(projectPath), pkg),
+    stateManagement: detectStateManagement(pkg),
+    apiClient: detectApiClient(pkg),
+    router: detectRouter(pkg),
+    linter: detectLinter(pkg),
+  };
+}
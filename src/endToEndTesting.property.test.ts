@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { join } from 'path';
+import ts from 'typescript';
+import {
+  addEndToEndJob,
+  addPlaywrightIgnores,
+  getEndToEndTestFiles,
+  removeEndToEndJob,
+  removePlaywrightIgnores,
+  E2E_JOB,
+  E2E_TEST_DIR,
+  PLAYWRIGHT_IGNORES,
+  PREVIEW_PORT,
+} from './endToEndTesting.js';
+import { createProject } from './api.js';
+import { templateManifests } from './options.js';
+import { TEMPLATES_DIR } from './templateManifest.js';
+
+const packageManagerArb = fc.constantFrom('npm', 'yarn', 'pnpm', 'bun');
+
+const WORKFLOW = `name: CI/CD
+
+on:
+  push:
+    branches: [ main ]
+
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    steps:
+    - uses: actions/checkout@v4
+    - run: npm run build`;
+
+/**
+ * **Feature: end-to-end-test-scaffolds, Property 1: Scaffolds Parse and Edits Are Reversible**
+ *
+ * *For any* language and package manager, every generated file SHALL parse in the project's
+ * language, and adding the Playwright ignores and CI job SHALL happen once however often it is
+ * applied and SHALL be undone by removing them.
+ */
+describe('Property 1: Scaffolds Parse and Edits Are Reversible', () => {
+  it('should generate parsable files', () => {
+    fc.assert(
+      fc.property(fc.boolean(), packageManagerArb, (typescript, packageManager) => {
+        const files = getEndToEndTestFiles({ typescript, packageManager });
+
+        expect(Object.keys(files)).toHaveLength(3);
+        for (const [path, content] of Object.entries(files)) {
+          expect(path).toMatch(typescript ? /\.ts$/ : /\.js$/);
+          const { diagnostics = [] } = ts.transpileModule(content, { fileName: path, reportDiagnostics: true });
+          expect(diagnostics).toEqual([]);
+          if (!typescript) {
+            expect(content).not.toMatch(/interface |<Fixtures>|: string\[\]/);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should add the ignores and CI job once and remove them again', () => {
+    const gitignoreArb = fc.constantFrom('', 'node_modules/\n', 'node_modules/\n/test-results/\n', 'dist');
+
+    fc.assert(
+      fc.property(gitignoreArb, packageManagerArb, fc.integer({ min: 1, max: 3 }), (gitignore, packageManager, times) => {
+        let ignores = gitignore;
+        let workflow = WORKFLOW;
+        for (let i = 0; i < times; i++) {
+          ignores = addPlaywrightIgnores(ignores);
+          workflow = addEndToEndJob(workflow, packageManager);
+        }
+
+        const lines = ignores.split('\n');
+        for (const entry of PLAYWRIGHT_IGNORES) {
+          expect(lines.filter(line => line === entry)).toHaveLength(1);
+        }
+        expect(workflow.split(`\n  ${E2E_JOB}:\n`)).toHaveLength(2);
+        expect(workflow).toContain(`- run: ${packageManager} run test:e2e`);
+
+        expect(removePlaywrightIgnores(ignores).trimEnd()).toBe(gitignore.trimEnd());
+        expect(removeEndToEndJob(workflow)).toBe(WORKFLOW);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+/**
+ * **Feature: end-to-end-test-scaffolds, Property 2: Generated Projects Run Their Smoke Test**
+ *
+ * *For any* template, a project generated with Playwright SHALL contain a config serving the
+ * production build, a smoke test of the home page and ignores for the reports, and its CI
+ * workflow SHALL run the tests exactly when github-actions is selected.
+ */
+describe('Property 2: Generated Projects Run Their Smoke Test', () => {
+  it('should write the config, smoke test, ignores and CI job', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom(...Object.values(templateManifests)),
+        packageManagerArb,
+        fc.boolean(),
+        async (manifest, packageManager, githubActions) => {
+          const { files } = await createProject({
+            name: 'my-app',
+            template: manifest.name,
+            styling: 'none',
+            packageManager,
+            features: githubActions ? ['playwright', 'github-actions'] : ['playwright'],
+            dryRun: true,
+            silent: true,
+            directory: join(TEMPLATES_DIR, '..', 'does-not-exist', manifest.name),
+          });
+          const read = (path: string) => files.find(file => file.path === path)?.content?.toString();
+          const ext = manifest.typescript ? 'ts' : 'js';
+
+          const config = read(`playwright.config.${ext}`)!;
+          expect(config).toContain(`testDir: './${E2E_TEST_DIR}'`);
+          expect(config).toContain(`command: '${packageManager} run build && ${packageManager} run preview'`);
+          expect(config).toContain(`http://localhost:${PREVIEW_PORT}`);
+          expect(read(`${E2E_TEST_DIR}/smoke.spec.${ext}`)).toContain(`page.goto('/')`);
+
+          const gitignore = read('.gitignore')!;
+          expect(gitignore).toContain('node_modules/');
+          PLAYWRIGHT_IGNORES.forEach(entry => expect(gitignore.split('\n')).toContain(entry));
+
+          const workflow = read('.github/workflows/ci.yml');
+          expect(workflow !== undefined).toBe(githubActions);
+          if (workflow) {
+            expect(workflow).toContain(`\n  ${E2E_JOB}:\n`);
+            expect(workflow).toContain('playwright install --with-deps chromium');
+          }
+
+          const { scripts } = JSON.parse(read('package.json')!);
+          expect(scripts['test:e2e']).toBe('playwright test');
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * End-to-end test scaffolds
+ * What the playwright feature generates: a playwright.config that builds the
+ * app and serves it with `vite preview`, shared fixtures, a smoke test of the
+ * home page, and a job running it in the GitHub Actions workflow.
+ */
+
+import { getExecCommand } from './detectPackageManagers.js';
+import { typed } from './scaffold.js';
+
+export interface EndToEndScaffoldOptions {
+  typescript: boolean;
+  packageManager: string;
+}
+
+/**
+ * Directory holding the Playwright tests
+ */
+export const E2E_TEST_DIR = 'tests/e2e';
+
+/**
+ * Port `vite preview` serves the built app on by default
+ */
+export const PREVIEW_PORT = 4173;
+
+/**
+ * Playwright output that is not committed
+ */
+export const PLAYWRIGHT_IGNORES = ['/test-results/', '/playwright-report/', '/blob-report/', '/playwright/.cache/'];
+
+const PLAYWRIGHT_IGNORE_HEADING = '# Playwright';
+
+/**
+ * Name of the workflow job running the Playwright tests
+ */
+export const E2E_JOB = 'e2e';
+
+function getConfig(packageManager: string): string {
+  return `import { defineConfig, devices } from '@playwright/test';
+
+const baseURL = 'http://localhost:${PREVIEW_PORT}';
+
+// https://playwright.dev/docs/test-configuration
+export default defineConfig({
+  testDir: './${E2E_TEST_DIR}',
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 2 : 0,
+  workers: process.env.CI ? 1 : undefined,
+  reporter: process.env.CI ? [['github'], ['html', { open: 'never' }]] : 'html',
+  use: {
+    baseURL,
+    trace: 'on-first-retry',
+  },
+  projects: [
+    {
+      name: 'chromium',
+      use: { ...devices['Desktop Chrome'] },
+    },
+  ],
+  // Test the production build, served the way it is deployed
+  webServer: {
+    command: '${packageManager} run build && ${packageManager} run preview',
+    url: baseURL,
+    reuseExistingServer: !process.env.CI,
+  },
+});
+`;
+}
+
+function getFixtures(typescript: boolean): string {
+  return `import { test as base, expect } from '@playwright/test';
+${typed(typescript, `
+interface Fixtures {
+  /** Errors the page logged to the console or threw while the test ran */
+  pageErrors: string[];
+}
+`)}
+/**
+ * Tests that fail when the page logs or throws an error
+ */
+export const test = base.extend${typed(typescript, '<Fixtures>')}({
+  pageErrors: [
+    async ({ page }, use) => {
+      const errors${typed(typescript, ': string[]')} = [];
+      page.on('console', (message) => {
+        if (message.type() === 'error') {
+          errors.push(message.text());
+        }
+      });
+      page.on('pageerror', (error) => errors.push(error.message));
+
+      await use(errors);
+      expect(errors).toEqual([]);
+    },
+    { auto: true },
+  ],
+});
+
+export { expect };
+`;
+}
+
+const SMOKE_TEST = `import { expect, test } from './fixtures';
+
+test('renders the home page', async ({ page }) => {
+  await page.goto('/');
+
+  await expect(page.locator('h1').first()).toBeVisible();
+});
+`;
+
+/**
+ * Get the Playwright config, fixtures and smoke test
+ */
+export function getEndToEndTestFiles({ typescript, packageManager }: EndToEndScaffoldOptions): Record<string, string> {
+  const ext = typescript ? 'ts' : 'js';
+  return {
+    [`playwright.config.${ext}`]: getConfig(packageManager),
+    [`${E2E_TEST_DIR}/fixtures.${ext}`]: getFixtures(typescript),
+    [`${E2E_TEST_DIR}/smoke.spec.${ext}`]: SMOKE_TEST,
+  };
+}
+
+/**
+ * Add the Playwright output missing from a .gitignore, under a heading
+ */
+export function addPlaywrightIgnores(gitignore: string): string {
+  const lines = new Set(gitignore.split('\n').map(line => line.trim()));
+  const missing = PLAYWRIGHT_IGNORES.filter(entry => !lines.has(entry));
+  if (missing.length === 0) {
+    return gitignore;
+  }
+
+  const block = `${PLAYWRIGHT_IGNORE_HEADING}\n${missing.join('\n')}\n`;
+  return gitignore.trim() ? `${gitignore.trimEnd()}\n\n${block}` : block;
+}
+
+/**
+ * Remove the entries addPlaywrightIgnores() added from a .gitignore
+ */
+export function removePlaywrightIgnores(gitignore: string): string {
+  const entries = PLAYWRIGHT_IGNORES.map(entry => entry.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')).join('|');
+  return gitignore.replace(new RegExp(`\\n*^${PLAYWRIGHT_IGNORE_HEADING}\\n(?:(?:${entries})(?:\\n|$))+`, 'm'), match =>
+    match.startsWith('\n') ? '\n' : ''
+  );
+}
+
+/**
+ * Add the job running the Playwright tests to a GitHub Actions workflow
+ * Nothing changes when the workflow already has the job.
+ */
+export function addEndToEndJob(workflow: string, packageManager: string): string {
+  if (new RegExp(`^  ${E2E_JOB}:$`, 'm').test(workflow)) {
+    return workflow;
+  }
+
+  const job = `  ${E2E_JOB}:
+    runs-on: ubuntu-latest
+    steps:
+    - uses: actions/checkout@v4
+    - uses: actions/setup-node@v4
+      with:
+        node-version: 18
+    - run: ${packageManager} install
+    - run: ${getExecCommand(packageManager, 'playwright install --with-deps chromium')}
+    - run: ${packageManager} run test:e2e
+    - uses: actions/upload-artifact@v4
+      if: \${{ !cancelled() }}
+      with:
+        name: playwright-report
+        path: playwright-report/
+        retention-days: 30`;
+
+  return `${workflow.trimEnd()}\n\n${job}\n`;
+}
+
+/**
+ * Remove the job addEndToEndJob() added from a GitHub Actions workflow
+ */
+export function removeEndToEndJob(workflow: string): string {
+  const job = new RegExp(`\\n*^  ${E2E_JOB}:\\n(?: {4}.*(?:\\n|$))*`, 'm').exec(workflow);
+  if (!job) {
+    return workflow;
+  }
+
+  const rest = workflow.slice(job.index + job[0].length);
+  return workflow.slice(0, job.index) + (rest ? `\n${rest}` : '');
+}
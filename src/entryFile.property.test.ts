@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { EntryFile, type EntryWiring } from './entryFile.js';
+import { createProject, ProjectGenerationError, ERROR_CODES } from './api.js';
+import { templateManifests } from './options.js';
+import { getCompatibleValues } from './compatibility.js';
+import { TEMPLATES_DIR } from './templateManifest.js';
+
+const PROVIDERS: EntryWiring[] = [
+  { imports: [`import { Provider } from 'react-redux';`, `import { store } from './store';`], provider: '<Provider store={store}>' },
+  {
+    imports: [`import { QueryClientProvider } from '@tanstack/react-query';`, `import { queryClient } from './api';`],
+    provider: '<QueryClientProvider client={queryClient}>',
+  },
+  {
+    imports: [`import { SWRConfig } from 'swr';`],
+    statements: ['const fetcher = (url) => fetch(url).then((response) => response.json());'],
+    provider: '<SWRConfig value={{ fetcher }}>',
+  },
+  { imports: [`import { I18nextProvider } from 'react-i18next';`, `import i18n from './i18n';`], provider: '<I18nextProvider i18n={i18n}>' },
+];
+
+const PLUGINS: EntryWiring[] = [
+  { imports: [`import { createPinia } from 'pinia';`], use: 'createPinia()' },
+  { imports: [`import i18n from './i18n';`], use: 'i18n' },
+  { imports: [`import { VueQueryPlugin } from '@tanstack/vue-query';`, `import { queryClient } from './api';`], use: 'VueQueryPlugin, { queryClient }' },
+  {
+    imports: [`import { RouterView } from 'vue-router';`, `import { createAppRouter } from './router';`],
+    use: 'createAppRouter(App)',
+    root: 'RouterView',
+  },
+];
+
+const SVELTE_WIRINGS: EntryWiring[] = [
+  { imports: [`import { AppRouter, setHomePage } from './router';`], statements: ['setHomePage(App);'], root: 'AppRouter' },
+];
+
+function readEntry(framework: string): { path: string; content: string }[] {
+  return Object.values(templateManifests)
+    .filter(manifest => manifest.framework === framework)
+    .map(manifest => ({ path: manifest.entry, content: readFileSync(join(TEMPLATES_DIR, manifest.name, manifest.entry), 'utf8') }));
+}
+
+// Ignores layout, semicolons and the parentheses added around wrapped elements
+function stripLayout(code: string): string {
+  return code.replace(/[\s;()]/g, '');
+}
+
+/**
+ * **Feature: entry-wiring, Property 1: Wiring Is Idempotent and Reversible**
+ *
+ * *For any* bundled entry file and sequence of wirings, wiring SHALL add each import, setup
+ * statement and provider or plugin exactly once however often it is applied, the result
+ * SHALL parse, and unwiring in reverse order SHALL restore the original entry file.
+ */
+describe('Property 1: Wiring Is Idempotent and Reversible', () => {
+  const entryArb = fc.oneof(
+    fc.record({
+      entry: fc.constantFrom(...readEntry('react'), ...readEntry('preact'), ...readEntry('solid')),
+      wirings: fc.shuffledSubarray(PROVIDERS, { minLength: 1 }),
+    }),
+    fc.record({
+      entry: fc.constantFrom(...readEntry('vue')),
+      wirings: fc.shuffledSubarray(PLUGINS, { minLength: 1 }),
+    }),
+    fc.record({
+      entry: fc.constantFrom(...readEntry('svelte')),
+      wirings: fc.shuffledSubarray(SVELTE_WIRINGS, { minLength: 1 }),
+    })
+  );
+
+  it('should wire each feature once and unwire it again', () => {
+    fc.assert(
+      fc.property(entryArb, fc.integer({ min: 1, max: 2 }), ({ entry, wirings }, times) => {
+        const file = new EntryFile(entry.content, entry.path);
+        for (let i = 0; i < times; i++) {
+          wirings.forEach(wiring => file.wire(wiring));
+        }
+
+        const wired = file.toString();
+        expect(() => new EntryFile(wired, entry.path)).not.toThrow();
+        for (const wiring of wirings) {
+          const markers = (wiring.statements ?? []).map(statement => statement.replace(/;$/, ''));
+          if (wiring.provider) markers.push(wiring.provider);
+          if (wiring.use) markers.push(`.use(${wiring.use})`);
+          markers.forEach(marker => expect(wired.split(marker).length - 1).toBe(1));
+          if (wiring.root) {
+            expect(wired).toMatch(new RegExp(`(createApp\\(|new )${wiring.root}\\b`));
+          }
+          wiring.imports.forEach(statement => expect(wired).toContain(statement.replace(/;$/, '')));
+        }
+
+        [...wirings].reverse().forEach(wiring => file.unwire(wiring));
+        expect(stripLayout(file.toString())).toBe(stripLayout(entry.content));
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should fail on entry files it cannot wire', () => {
+    const cases: [string, EntryWiring][] = [
+      [`import { render } from 'preact';\nrender(<Main />, document.body);\n`, PROVIDERS[0]],
+      [`import { createApp } from 'vue';\nexport const app = createApp(App);\n`, PLUGINS[0]],
+      [`import Main from './Main.svelte';\nnew Main({ target: document.body });\n`, SVELTE_WIRINGS[0]],
+    ];
+
+    for (const [content, wiring] of cases) {
+      try {
+        new EntryFile(content, 'src/main.tsx').wire(wiring);
+        expect.fail('Expected a CONFIG_FAILED error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(ProjectGenerationError);
+        expect((error as ProjectGenerationError).code).toBe(ERROR_CODES.CONFIG_FAILED);
+      }
+    }
+  });
+});
+
+/**
+ * **Feature: entry-wiring, Property 2: Generated Apps Load Their Features**
+ *
+ * *For any* template with i18n, state management, an API client and a router, the generated
+ * entry file SHALL import the i18n module, the store or client of every library that needs
+ * a provider or plugin, and the router.
+ */
+describe('Property 2: Generated Apps Load Their Features', () => {
+  const optionalValueArb = (values: string[]) =>
+    values.length > 0 ? fc.option(fc.constantFrom(...values), { nil: undefined }) : fc.constant(undefined);
+  const optionsArb = fc.constantFrom(...Object.values(templateManifests)).chain(manifest =>
+    fc.record({
+      manifest: fc.constant(manifest),
+      stateManagement: optionalValueArb(getCompatibleValues('stateManagement', manifest.framework, manifest.typescript)),
+      apiClient: optionalValueArb(getCompatibleValues('apiClient', manifest.framework, manifest.typescript)),
+      router: optionalValueArb(getCompatibleValues('router', manifest.framework, manifest.typescript)),
+    })
+  );
+
+  it('should import every wired feature from the entry file', async () => {
+    await fc.assert(
+      fc.asyncProperty(optionsArb, async ({ manifest, stateManagement, apiClient, router }) => {
+        const features = ['i18n'];
+        if (stateManagement) features.push('state-management');
+        if (apiClient) features.push('api-client');
+        if (router) features.push('routing');
+
+        const { files } = await createProject({
+          name: 'my-app',
+          template: manifest.name,
+          styling: 'none',
+          packageManager: 'npm',
+          features,
+          stateManagement,
+          apiClient,
+          router,
+          dryRun: true,
+          silent: true,
+          directory: join(TEMPLATES_DIR, '..', 'does-not-exist', manifest.name),
+        });
+
+        const entry = files.find(file => file.path === manifest.entry)!.content!.toString();
+        expect(entry).toMatch(/from '\.\/i18n'|import '\.\/i18n'/);
+        if (stateManagement === 'redux-toolkit' || stateManagement === 'vuex') {
+          expect(entry).toContain(`from './store'`);
+          expect(files.some(file => file.path.startsWith('src/store/'))).toBe(true);
+        }
+        if (stateManagement === 'pinia') {
+          expect(entry).toContain('.use(createPinia())');
+        }
+        if (apiClient === 'tanstack-query' && manifest.framework === 'vue') {
+          expect(entry).toContain('.use(VueQueryPlugin, { queryClient })');
+        } else if (apiClient === 'tanstack-query' && manifest.framework !== 'svelte') {
+          expect(entry).toContain('<QueryClientProvider client={queryClient}>');
+        }
+        if (router) {
+          expect(entry).toContain(`from './router'`);
+        }
+        if (router === 'vue-router') {
+          expect(entry).toContain('createApp(RouterView)');
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * App entry file editing
+ * Wires features into the entry file a template declares: wraps the root
+ * component in providers (React, Preact, Solid), installs plugins with
+ * app.use() (Vue), mounts another component in its place (Vue, Svelte) and
+ * adds the imports and setup code they need.
+ */
+
+import ts from 'typescript';
+import { SourceEditor, normalize, parseSnippet, reindent } from './sourceEditor.js';
+
+/**
+ * What a feature adds to the entry file
+ */
+export interface EntryWiring {
+  /** Import statements, e.g. import { store } from './store'; */
+  imports: string[];
+  /** Setup statements, added after the imports */
+  statements?: string[];
+  /** Opening tag of a provider to wrap the root component in, e.g. <Provider store={store}> */
+  provider?: string;
+  /** Arguments of app.use() installing a plugin on the Vue app, e.g. createPinia() */
+  use?: string;
+  /** Component mounted in place of the root component (Vue, Svelte), e.g. RouterView */
+  root?: string;
+}
+
+function getTagName(provider: string): string {
+  const match = /^<([\w.]+)/.exec(provider.trim());
+  if (!match) {
+    throw new Error(`"${provider}" is not an opening tag`);
+  }
+  return match[1];
+}
+
+function getJsxTagName(node: ts.Node): string | undefined {
+  if (ts.isJsxSelfClosingElement(node)) {
+    return node.tagName.getText();
+  }
+  if (ts.isJsxElement(node)) {
+    return node.openingElement.tagName.getText();
+  }
+  return undefined;
+}
+
+function getArgumentsText(call: ts.CallExpression): string {
+  return call.arguments.map(argument => argument.getText()).join(', ');
+}
+
+function findNode(node: ts.Node, predicate: (node: ts.Node) => boolean): ts.Node | undefined {
+  if (predicate(node)) {
+    return node;
+  }
+  return ts.forEachChild(node, child => findNode(child, predicate));
+}
+
+/**
+ * An editable app entry file
+ */
+export class EntryFile extends SourceEditor {
+  readonly rootComponent: string;
+
+  constructor(content: string, path: string, rootComponent = 'App') {
+    super(content, path);
+    this.rootComponent = rootComponent;
+  }
+
+  /**
+   * Add a feature's imports, setup code and provider or plugin
+   */
+  wire(wiring: EntryWiring): void {
+    wiring.imports.forEach(statement => this.addImport(statement));
+    wiring.statements?.forEach(statement => this.addStatement(statement));
+    if (wiring.provider) {
+      this.wrapRoot(wiring.provider);
+    }
+    if (wiring.use) {
+      this.addUse(wiring.use);
+    }
+    if (wiring.root) {
+      this.replaceRoot(wiring.root);
+    }
+  }
+
+  /**
+   * Remove what wire() added for a feature
+   */
+  unwire(wiring: EntryWiring): void {
+    if (wiring.root) {
+      this.restoreRoot(wiring.root);
+    }
+    if (wiring.provider) {
+      this.unwrapRoot(getTagName(wiring.provider));
+    }
+    if (wiring.use) {
+      this.removeUse(wiring.use);
+    }
+    wiring.statements?.forEach(statement => this.removeStatement(statement));
+    for (const statement of wiring.imports) {
+      const declaration = parseSnippet(statement).statements[0];
+      if (declaration && ts.isImportDeclaration(declaration)) {
+        this.removeImport((declaration.moduleSpecifier as ts.StringLiteral).text);
+      }
+    }
+  }
+
+  /**
+   * Wrap the root component in a provider, inside any providers already
+   * wrapping it. Nothing changes when the provider is already there.
+   */
+  wrapRoot(provider: string): void {
+    const tagName = getTagName(provider);
+    const root = this.getRootElement();
+
+    for (let node: ts.Node = root.parent; node; node = node.parent) {
+      if (getJsxTagName(node) === tagName) {
+        return;
+      }
+    }
+
+    const start = root.getStart();
+    const code = root.getText();
+    const lineStart = this.content.lastIndexOf('\n', start - 1) + 1;
+
+    // Wrap over several lines, in parentheses when the root element shares its line
+    const indent = this.getLineIndent(start);
+    if (this.content.slice(lineStart, start).trim() === '') {
+      this.edit(start, root.getEnd(), `${provider.trim()}\n${indent}  ${reindent(code, '  ')}\n${indent}</${tagName}>`);
+    } else {
+      const inner = `${indent}  `;
+      this.edit(
+        start,
+        root.getEnd(),
+        `(\n${inner}${provider.trim()}\n${inner}  ${reindent(code, `${inner}  `)}\n${inner}</${tagName}>\n${indent})`
+      );
+    }
+  }
+
+  /**
+   * Remove a provider wrapping the root component, keeping what it wraps
+   */
+  unwrapRoot(tagName: string): void {
+    let node: ts.Node | undefined = this.findRootElement()?.parent;
+    while (node && getJsxTagName(node) !== tagName) {
+      node = node.parent;
+    }
+    if (!node || !ts.isJsxElement(node)) {
+      return;
+    }
+
+    const children = node.children.filter(child => !(ts.isJsxText(child) && child.containsOnlyTriviaWhiteSpaces));
+    if (children.length !== 1) {
+      throw this.error(`<${tagName}> wraps more than the root component`, `Remove <${tagName}> from ${this.path} by hand.`);
+    }
+
+    const code = children[0].getText().replace(/\n {2}/g, '\n');
+    this.edit(node.getStart(), node.getEnd(), code);
+  }
+
+  /**
+   * Install a plugin on the Vue app, before it is mounted
+   */
+  addUse(plugin: string): void {
+    const mount = this.getMountCall();
+
+    for (let call = mount.expression.expression; ts.isCallExpression(call); ) {
+      const callee = call.expression;
+      if (!ts.isPropertyAccessExpression(callee)) {
+        break;
+      }
+      if (callee.name.text === 'use' && normalize(getArgumentsText(call)) === normalize(plugin)) {
+        return;
+      }
+      call = callee.expression;
+    }
+
+    const receiverEnd = mount.expression.expression.getEnd();
+    this.edit(receiverEnd, receiverEnd, `.use(${plugin})`);
+  }
+
+  /**
+   * Remove a plugin installed with app.use()
+   */
+  removeUse(plugin: string): void {
+    const use = findNode(this.sourceFile, node =>
+      ts.isCallExpression(node) &&
+      ts.isPropertyAccessExpression(node.expression) &&
+      node.expression.name.text === 'use' &&
+      normalize(getArgumentsText(node)) === normalize(plugin)
+    ) as ts.CallExpression | undefined;
+
+    if (use) {
+      this.edit((use.expression as ts.PropertyAccessExpression).expression.getEnd(), use.getEnd(), '');
+    }
+  }
+
+  /**
+   * Mount another component where the root component is mounted, as in
+   * createApp(App) or new App({ ... }). Nothing changes when it is already mounted.
+   */
+  replaceRoot(component: string): void {
+    if (this.findMountedComponent(component)) {
+      return;
+    }
+
+    const root = this.findMountedComponent(this.rootComponent);
+    if (!root) {
+      throw this.error(
+        `the root component ${this.rootComponent} could not be found where the app is mounted`,
+        `Mount ${this.rootComponent} with createApp(), mount() or new ${this.rootComponent}() in ${this.path}, or wire the feature in by hand.`
+      );
+    }
+    this.edit(root.getStart(), root.getEnd(), component);
+  }
+
+  /**
+   * Mount the root component again in place of a component replaceRoot() mounted
+   */
+  restoreRoot(component: string): void {
+    const mounted = this.findMountedComponent(component);
+    if (mounted) {
+      this.edit(mounted.getStart(), mounted.getEnd(), this.rootComponent);
+    }
+  }
+
+  private findMountedComponent(name: string): ts.Identifier | undefined {
+    return findNode(this.sourceFile, node => {
+      if (!ts.isIdentifier(node) || node.text !== name) {
+        return false;
+      }
+      const parent = node.parent;
+      if (ts.isNewExpression(parent)) {
+        return parent.expression === node;
+      }
+      return (
+        ts.isCallExpression(parent) &&
+        parent.arguments[0] === node &&
+        ts.isIdentifier(parent.expression) &&
+        ['createApp', 'mount'].includes(parent.expression.text)
+      );
+    }) as ts.Identifier | undefined;
+  }
+
+  private findRootElement(): ts.JsxSelfClosingElement | ts.JsxElement | undefined {
+    return findNode(this.sourceFile, node => getJsxTagName(node) === this.rootComponent) as
+      | ts.JsxSelfClosingElement
+      | ts.JsxElement
+      | undefined;
+  }
+
+  private getRootElement(): ts.JsxSelfClosingElement | ts.JsxElement {
+    const root = this.findRootElement();
+    if (!root) {
+      throw this.error(
+        `the root component <${this.rootComponent} /> could not be found`,
+        `Render <${this.rootComponent} /> from ${this.path}, or wire the feature in by hand.`
+      );
+    }
+    return root;
+  }
+
+  private getMountCall(): ts.CallExpression & { expression: ts.PropertyAccessExpression } {
+    const mount = findNode(this.sourceFile, node =>
+      ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression) && node.expression.name.text === 'mount'
+    );
+    if (!mount) {
+      throw this.error('the app.mount() call could not be found', `Mount the app from ${this.path}, or wire the feature in by hand.`);
+    }
+    return mount as ts.CallExpression & { expression: ts.PropertyAccessExpression };
+  }
+}
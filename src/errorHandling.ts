@@ -20,6 +20,11 @@ export const ERROR_CODES = {
   CONFIG_FAILED: 'CONFIG_FAILED',
   PERMISSION_DENIED: 'PERMISSION_DENIED',
   DISK_FULL: 'DISK_FULL',
+  PROJECT_NOT_FOUND: 'PROJECT_NOT_FOUND',
+  INVALID_OPTION: 'INVALID_OPTION',
+  FILE_CONFLICT: 'FILE_CONFLICT',
+  PLUGIN_INVALID: 'PLUGIN_INVALID',
+  PLUGIN_FAILED: 'PLUGIN_FAILED',
   UNKNOWN: 'UNKNOWN',
 } as const;
 
@@ -69,6 +74,11 @@ export const ERROR_MESSAGES: Record<ErrorCode, string> = {
   [ERROR_CODES.CONFIG_FAILED]: 'Failed to generate configuration files.',
   [ERROR_CODES.PERMISSION_DENIED]: 'Permission denied. Please check your file system permissions.',
   [ERROR_CODES.DISK_FULL]: 'Disk is full. Please free up some space and try again.',
+  [ERROR_CODES.PROJECT_NOT_FOUND]: 'No existing project was found. Please run the command from a project directory.',
+  [ERROR_CODES.INVALID_OPTION]: 'An invalid option was provided. Please check the command usage.',
+  [ERROR_CODES.FILE_CONFLICT]: 'Some files already exist and would be overwritten.',
+  [ERROR_CODES.PLUGIN_INVALID]: 'A plugin could not be loaded. Please check the plugin path and exports.',
+  [ERROR_CODES.PLUGIN_FAILED]: 'A plugin failed while generating the project.',
   [ERROR_CODES.UNKNOWN]: 'An unexpected error occurred.',
 };
 
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createProject, ProjectGenerationError, ERROR_CODES, type CreateProjectOptions } from './api.js';
+import { resolveProjectTarget } from './cliOptions.js';
+
+/**
+ * **Feature: existing-directory, Property 1: Existing Content Is Preserved**
+ *
+ * *For any* existing project directory, generation SHALL proceed when it only holds files
+ * like README.md, LICENSE or .git, SHALL require --merge or --force otherwise, SHALL keep
+ * existing files on merge and overwrite them on force, and cleanup after a failure SHALL
+ * remove only what the generator created.
+ */
+describe('Property 1: Existing Content Is Preserved', () => {
+  let tempDir: string;
+  let directory: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'viant-existing-test-'));
+    directory = join(tempDir, 'my-app');
+    mkdirSync(directory);
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function generate(options: Partial<CreateProjectOptions> = {}) {
+    return createProject({
+      name: 'my-app',
+      template: 'react-ts',
+      styling: 'none',
+      packageManager: 'npm',
+      installDeps: false,
+      initGit: false,
+      directory,
+      silent: true,
+      ...options,
+    });
+  }
+
+  async function getError(promise: Promise<unknown>): Promise<ProjectGenerationError> {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).toBeInstanceOf(ProjectGenerationError);
+      return error as ProjectGenerationError;
+    }
+    return expect.fail('Expected a ProjectGenerationError');
+  }
+
+  it('should generate next to ignorable files, keeping them', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.subarray(['README.md', 'LICENSE', '.gitignore', '.editorconfig']), async (existing) => {
+        rmSync(directory, { recursive: true, force: true });
+        mkdirSync(join(directory, '.git'), { recursive: true });
+        existing.forEach(file => writeFileSync(join(directory, file), `existing ${file}`));
+
+        await generate();
+
+        existing.forEach(file => expect(readFileSync(join(directory, file), 'utf8')).toBe(`existing ${file}`));
+        expect(existsSync(join(directory, 'package.json'))).toBe(true);
+      }),
+      { numRuns: 10 }
+    );
+  });
+
+  it('should require --merge or --force for other content', async () => {
+    writeFileSync(join(directory, 'notes.txt'), 'keep');
+
+    const error = await getError(generate());
+    expect(error.code).toBe(ERROR_CODES.DIR_EXISTS);
+    expect(error.hint).toContain('--merge');
+    expect(readdirSync(directory)).toEqual(['notes.txt']);
+  });
+
+  it('should keep existing files on merge and overwrite them on force', async () => {
+    writeFileSync(join(directory, 'index.html'), 'mine');
+    writeFileSync(join(directory, 'notes.txt'), 'keep');
+
+    const merged = await generate({ existingFiles: 'merge' });
+    expect(readFileSync(join(directory, 'index.html'), 'utf8')).toBe('mine');
+    expect(merged.files.map(file => file.path)).not.toContain('index.html');
+
+    rmSync(join(directory, '.viant'), { recursive: true });
+    await generate({ existingFiles: 'force' });
+    expect(readFileSync(join(directory, 'index.html'), 'utf8')).not.toBe('mine');
+    expect(readFileSync(join(directory, 'notes.txt'), 'utf8')).toBe('keep');
+  });
+
+  it('should only remove generated files when generation fails', async () => {
+    writeFileSync(join(directory, 'index.html'), 'mine');
+    // A file where the template needs a directory makes writing fail part way
+    writeFileSync(join(directory, 'src'), 'not a directory');
+
+    await getError(generate({ existingFiles: 'force' }));
+    expect(readdirSync(directory).sort()).toEqual(['index.html', 'src']);
+    expect(readFileSync(join(directory, 'index.html'), 'utf8')).toBe('mine');
+    expect(readFileSync(join(directory, 'src'), 'utf8')).toBe('not a directory');
+  });
+
+  it('should name projects generated into a path after the directory', () => {
+    expect(resolveProjectTarget('.', directory)).toEqual({ name: 'my-app', directory });
+    expect(resolveProjectTarget('./nested/app', tempDir)).toEqual({ name: 'app', directory: join(tempDir, 'nested/app') });
+    expect(resolveProjectTarget('@acme/app', tempDir)).toEqual({ name: '@acme/app', directory: join(tempDir, '@acme/app') });
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { appendFileSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { join, relative, sep } from 'path';
+import { tmpdir } from 'os';
+import { createProject, readGenerationManifest, getEditedFiles, GENERATION_MANIFEST_PATH, templates } from './api.js';
+import { hashContent, GENERATOR_VERSION } from './generationManifest.js';
+import { ProjectGenerator } from './projectGenerator.js';
+import { VERSIONS } from './versions.js';
+
+function listFiles(dir: string, root: string = dir): string[] {
+  return readdirSync(dir, { withFileTypes: true }).flatMap(entry =>
+    entry.isDirectory()
+      ? listFiles(join(dir, entry.name), root)
+      : [relative(root, join(dir, entry.name)).split(sep).join('/')]
+  );
+}
+
+/**
+ * **Feature: generation-manifest, Property 1: Generated Projects Record How They Were Made**
+ *
+ * *For any* template, the generated project SHALL contain .viant/project.json recording
+ * the options, CLI version and dependency versions it was generated with, and the hash
+ * of every other file in the project.
+ */
+describe('Property 1: Generated Projects Record How They Were Made', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'viant-manifest-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record the options and the hash of every generated file', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.constantFrom(...Object.keys(templates)),
+        fc.subarray(['pwa', 'vitest', 'docker', 'i18n']),
+        async (template, features) => {
+          const directory = join(tempDir, `${template}-${features.join('-')}`);
+          rmSync(directory, { recursive: true, force: true });
+          const { options } = await createProject({
+            name: 'my-app',
+            template,
+            styling: 'none',
+            features,
+            packageManager: 'pnpm',
+            installDeps: false,
+            initGit: false,
+            directory,
+            silent: true,
+          });
+
+          const manifest = readGenerationManifest(directory)!;
+          expect(manifest.generator.version).toBe(GENERATOR_VERSION);
+          expect(manifest.options).toMatchObject({
+            template,
+            framework: options.framework,
+            typescript: options.typescript,
+            styling: 'none',
+            packageManager: 'pnpm',
+            features,
+          });
+          expect(manifest.versions).toEqual(VERSIONS);
+
+          const files = listFiles(directory).filter(path => path !== GENERATION_MANIFEST_PATH);
+          expect(Object.keys(manifest.files).sort()).toEqual(files.sort());
+          for (const path of files) {
+            expect(manifest.files[path]).toBe(hashContent(readFileSync(join(directory, path))));
+          }
+          expect(getEditedFiles(directory, manifest)).toEqual([]);
+        }
+      ),
+      { numRuns: 20 }
+    );
+  });
+});
+
+/**
+ * **Feature: generation-manifest, Property 2: Hand Edits Are Told Apart**
+ *
+ * *For any* set of generated files edited by hand, getEditedFiles SHALL report exactly
+ * those files, and adding or removing features SHALL update the recorded features and
+ * hashes without recording the hand edits as generated.
+ */
+describe('Property 2: Hand Edits Are Told Apart', () => {
+  let tempDir: string;
+  let directory: string;
+
+  beforeEach(async () => {
+    tempDir = mkdtempSync(join(tmpdir(), 'viant-manifest-test-'));
+    directory = join(tempDir, 'my-app');
+    await createProject({
+      name: 'my-app',
+      template: 'react-ts',
+      styling: 'none',
+      packageManager: 'npm',
+      installDeps: false,
+      initGit: false,
+      directory,
+      silent: true,
+    });
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report exactly the edited files', () => {
+    const recorded = Object.keys(readGenerationManifest(directory)!.files);
+
+    fc.assert(
+      fc.property(fc.uniqueArray(fc.constantFrom(...recorded), { maxLength: 5 }), (edited) => {
+        const manifest = readGenerationManifest(directory)!;
+        const editedNow = new Set(getEditedFiles(directory, manifest));
+        edited.forEach(path => {
+          appendFileSync(join(directory, path), '\n// edited\n');
+          editedNow.add(path);
+        });
+
+        expect(getEditedFiles(directory, manifest).sort()).toEqual([...editedNow].sort());
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should record features added and removed later', async () => {
+    appendFileSync(join(directory, 'src/App.tsx'), '\n// edited\n');
+    const options = {
+      name: 'my-app',
+      template: 'react-ts',
+      framework: 'react',
+      typescript: true,
+      styling: 'none',
+      packageManager: 'npm',
+      features: ['docker'],
+      installDeps: false,
+      initGit: false,
+    };
+
+    await new ProjectGenerator(options, directory, true).applyFeatures(true);
+    let manifest = readGenerationManifest(directory)!;
+    expect(manifest.options.features).toEqual(['docker']);
+    expect(manifest.updatedAt).toBeDefined();
+    expect(manifest.files.Dockerfile).toBe(hashContent(readFileSync(join(directory, 'Dockerfile'))));
+    expect(getEditedFiles(directory, manifest)).toEqual(['src/App.tsx']);
+
+    await new ProjectGenerator(options, directory, true).removeFeatures(true);
+    manifest = readGenerationManifest(directory)!;
+    expect(manifest.options.features).toEqual([]);
+    expect(manifest.files.Dockerfile).toBeUndefined();
+    expect(getEditedFiles(directory, manifest)).toEqual(['src/App.tsx']);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Generation manifest: .viant/project.json, written into every generated
+ * project. Records the options, CLI version and dependency versions the
+ * project was generated with, and a content hash of every generated file,
+ * so later commands can tell generated files from hand-edited ones.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import type { FileChange, FileContent } from './projectFiles.js';
+import type { ProjectOptions } from './options.js';
+
+export const GENERATION_MANIFEST_PATH = '.viant/project.json';
+
+export const GENERATOR_NAME = 'create-viant-app';
+
+/**
+ * Version of create-viant-app, read from its package.json in the package root
+ */
+export const GENERATOR_VERSION: string = JSON.parse(
+  readFileSync(resolve(dirname(fileURLToPath(import.meta.url)), '..', 'package.json'), 'utf8')
+).version;
+
+/**
+ * The options a project was generated with
+ */
+export interface GenerationOptions {
+  template: string;
+  framework: string;
+  typescript: boolean;
+  styling: string;
+  packageManager: string;
+  features: string[];
+  stateManagement?: string;
+  apiClient?: string;
+  router?: string;
+  linter?: string;
+  /** Ids of the plugins enabled for the project */
+  plugins: string[];
+  variables?: Record<string, string>;
+}
+
+export interface GenerationManifest {
+  generator: { name: string; version: string };
+  createdAt: string;
+  /** Set when features were added or removed after generation */
+  updatedAt?: string;
+  options: GenerationOptions;
+  /** Snapshot of the dependency versions the CLI used */
+  versions: Record<string, string>;
+  /** SHA-256 of every generated file, keyed by path relative to the project root */
+  files: Record<string, string>;
+}
+
+/**
+ * Hash file contents the way the manifest records them
+ */
+export function hashContent(content: FileContent): string {
+  return `sha256-${createHash('sha256').update(content).digest('hex')}`;
+}
+
+/**
+ * Get the recorded options of a project
+ */
+export function getGenerationOptions(options: ProjectOptions): GenerationOptions {
+  return {
+    template: options.template,
+    framework: options.framework,
+    typescript: options.typescript,
+    styling: options.styling,
+    packageManager: options.packageManager,
+    features: [...options.features],
+    stateManagement: options.stateManagement,
+    apiClient: options.apiClient,
+    router: options.router,
+    linter: options.linter,
+    plugins: (options.plugins ?? []).map(plugin => plugin.id),
+    variables: options.variables && Object.keys(options.variables).length > 0 ? options.variables : undefined,
+  };
+}
+
+/**
+ * Record the hashes of changed files in a manifest, dropping deleted files
+ * The manifest itself is never recorded.
+ */
+export function recordFileChanges(files: Record<string, string>, changes: FileChange[]): Record<string, string> {
+  const recorded = { ...files };
+
+  for (const change of changes) {
+    if (change.path === GENERATION_MANIFEST_PATH) {
+      continue;
+    }
+    if (change.type === 'delete') {
+      delete recorded[change.path];
+    } else if (change.content !== undefined) {
+      recorded[change.path] = hashContent(change.content);
+    }
+  }
+
+  return Object.fromEntries(Object.entries(recorded).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Create the manifest of a newly generated project
+ */
+export function createGenerationManifest(
+  options: ProjectOptions,
+  changes: FileChange[],
+  versions: Record<string, string>,
+  createdAt: Date = new Date()
+): GenerationManifest {
+  return {
+    generator: { name: GENERATOR_NAME, version: GENERATOR_VERSION },
+    createdAt: createdAt.toISOString(),
+    options: getGenerationOptions(options),
+    versions: { ...versions },
+    files: recordFileChanges({}, changes),
+  };
+}
+
+/**
+ * Parse manifest contents, returning undefined for anything that is not a
+ * generation manifest so that projects with a damaged manifest are treated
+ * like projects without one
+ */
+export function parseGenerationManifest(content: string): GenerationManifest | undefined {
+  let manifest: any;
+  try {
+    manifest = JSON.parse(content);
+  } catch {
+    return undefined;
+  }
+
+  const isValid =
+    typeof manifest === 'object' && manifest !== null &&
+    manifest.generator?.name === GENERATOR_NAME &&
+    typeof manifest.options === 'object' && manifest.options !== null &&
+    Array.isArray(manifest.options.features) &&
+    typeof manifest.files === 'object' && manifest.files !== null;
+
+  return isValid ? manifest : undefined;
+}
+
+/**
+ * Read the manifest of a generated project, if it has a valid one
+ */
+export function readGenerationManifest(projectPath: string): GenerationManifest | undefined {
+  const manifestPath = join(projectPath, GENERATION_MANIFEST_PATH);
+  return existsSync(manifestPath) ? parseGenerationManifest(readFileSync(manifestPath, 'utf8')) : undefined;
+}
+
+/**
+ * Serialize a manifest as written to disk
+ */
+export function formatGenerationManifest(manifest: GenerationManifest): string {
+  return JSON.stringify(manifest, null, 2) + '\n';
+}
+
+/**
+ * Get the recorded files of a project whose contents no longer match their
+ * hash, i.e. generated files that have been edited since
+ * Files that have been deleted since are not reported.
+ */
+export function getEditedFiles(projectPath: string, manifest: GenerationManifest): string[] {
+  return Object.entries(manifest.files)
+    .filter(([path, hash]) => {
+      const filePath = join(projectPath, path);
+      return existsSync(filePath) && hashContent(readFileSync(filePath)) !== hash;
+    })
+    .map(([path]) => path);
+}
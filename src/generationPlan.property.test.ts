@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  planFiles,
+  diffDependencies,
+  getAddedScripts,
+  formatFileTree,
+} from './generationPlan.js';
+
+/**
+ * **Feature: dry-run, Property 1: Plan Reflects Template Differences**
+ *
+ * *For any* template and generated project, the plan SHALL mark every file as created,
+ * modified, deleted or unchanged relative to the template, list exactly the dependencies
+ * whose versions differ from the template's package.json, and list exactly the scripts
+ * that are new or changed.
+ */
+describe('Property 1: Plan Reflects Template Differences', () => {
+  const pathArb = fc
+    .array(fc.stringMatching(/^[a-z]{1,6}$/), { minLength: 1, maxLength: 3 })
+    .map(segments => segments.join('/'));
+  const filesArb = fc.dictionary(pathArb, fc.string({ maxLength: 20 }));
+  const versionArb = fc.stringMatching(/^\^[0-9]\.[0-9]\.[0-9]$/);
+  const dependenciesArb = fc.dictionary(fc.stringMatching(/^[a-z-]{1,10}$/), versionArb);
+
+  it('should classify every file relative to the template', () => {
+    fc.assert(
+      fc.property(filesArb, filesArb, (template, project) => {
+        const templateFiles = new Map(Object.entries(template));
+        const projectFiles = new Map(Object.entries(project));
+        const files = planFiles(templateFiles, projectFiles);
+
+        expect(files.map(file => file.path).sort()).toEqual(
+          [...new Set([...templateFiles.keys(), ...projectFiles.keys()])].sort()
+        );
+
+        for (const { path, status } of files) {
+          if (!templateFiles.has(path)) {
+            expect(status).toBe('create');
+          } else if (!projectFiles.has(path)) {
+            expect(status).toBe('delete');
+          } else {
+            expect(status).toBe(templateFiles.get(path) === projectFiles.get(path) ? 'unchanged' : 'modify');
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should diff dependencies against the template', () => {
+    fc.assert(
+      fc.property(dependenciesArb, dependenciesArb, dependenciesArb, (template, dependencies, devDependencies) => {
+        const changes = diffDependencies(
+          { dependencies: template },
+          { dependencies: { ...template, ...dependencies }, devDependencies }
+        );
+
+        for (const change of changes) {
+          const before = change.field === 'dependencies' ? template[change.name] : undefined;
+          const after = change.field === 'dependencies'
+            ? { ...template, ...dependencies }[change.name]
+            : devDependencies[change.name];
+          expect(change.from).toBe(before);
+          expect(change.to).toBe(after);
+          expect(change.from).not.toBe(change.to);
+        }
+
+        const changedNames = Object.keys(dependencies).filter(name => template[name] !== dependencies[name]);
+        expect(changes.filter(change => change.field === 'dependencies').map(change => change.name)).toEqual(changedNames.sort());
+        expect(changes.filter(change => change.field === 'devDependencies').map(change => change.name)).toEqual(
+          Object.keys(devDependencies).sort()
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should list only new or changed scripts', () => {
+    fc.assert(
+      fc.property(dependenciesArb, dependenciesArb, (template, added) => {
+        const scripts = getAddedScripts({ scripts: template }, { scripts: { ...template, ...added } });
+        const expected = Object.fromEntries(Object.entries(added).filter(([name, command]) => template[name] !== command));
+        expect(scripts).toEqual(expected);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should render each file once in the tree under its directory', () => {
+    fc.assert(
+      fc.property(filesArb, (project) => {
+        const files = planFiles(new Map(), new Map(Object.entries(project)));
+        fc.pre(files.every(file => !files.some(other => other.path.startsWith(`${file.path}/`))));
+
+        const lines = formatFileTree(files);
+        const fileLines = lines.filter(line => !line.endsWith('/'));
+        expect(fileLines).toHaveLength(files.length);
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Generation plan shown by --dry-run
+ * Compares the staged project against the template it was generated from:
+ * which files are created or modified, how the dependencies differ from the
+ * template's package.json, and which scripts are added
+ */
+
+import chalk from 'chalk';
+import type { FileContent } from './projectFiles.js';
+
+export type PlannedFileStatus = 'create' | 'modify' | 'delete' | 'unchanged';
+
+export interface PlannedFile {
+  /** Path relative to the project root, using forward slashes */
+  path: string;
+  status: PlannedFileStatus;
+}
+
+export interface DependencyChange {
+  field: 'dependencies' | 'devDependencies';
+  name: string;
+  /** Version in the template, undefined for added dependencies */
+  from?: string;
+  /** Version in the generated project, undefined for removed dependencies */
+  to?: string;
+}
+
+export interface GenerationPlan {
+  files: PlannedFile[];
+  dependencies: DependencyChange[];
+  scripts: Record<string, string>;
+}
+
+const DEPENDENCY_FIELDS = ['dependencies', 'devDependencies'] as const;
+
+/**
+ * Classify every file of the generated project relative to the template files
+ */
+export function planFiles(templateFiles: Map<string, FileContent>, projectFiles: Map<string, FileContent>): PlannedFile[] {
+  const files: PlannedFile[] = [];
+
+  for (const [path, content] of projectFiles) {
+    const templateContent = templateFiles.get(path);
+    let status: PlannedFileStatus = 'create';
+    if (templateContent !== undefined) {
+      status = Buffer.from(templateContent).equals(Buffer.from(content)) ? 'unchanged' : 'modify';
+    }
+    files.push({ path, status });
+  }
+
+  for (const path of templateFiles.keys()) {
+    if (!projectFiles.has(path)) {
+      files.push({ path, status: 'delete' });
+    }
+  }
+
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+}
+
+/**
+ * Diff the dependencies of the generated package.json against the template's
+ */
+export function diffDependencies(templatePackageJson: any, packageJson: any): DependencyChange[] {
+  const changes: DependencyChange[] = [];
+
+  for (const field of DEPENDENCY_FIELDS) {
+    const before: Record<string, string> = templatePackageJson?.[field] || {};
+    const after: Record<string, string> = packageJson?.[field] || {};
+
+    for (const name of [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()) {
+      if (before[name] !== after[name]) {
+        changes.push({ field, name, from: before[name], to: after[name] });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Get the scripts of the generated package.json that the template does not
+ * have, or has with a different command
+ */
+export function getAddedScripts(templatePackageJson: any, packageJson: any): Record<string, string> {
+  const before: Record<string, string> = templatePackageJson?.scripts || {};
+  const after: Record<string, string> = packageJson?.scripts || {};
+
+  return Object.fromEntries(Object.entries(after).filter(([script, command]) => before[script] !== command));
+}
+
+interface TreeNode {
+  children: Map<string, TreeNode>;
+  status?: PlannedFileStatus;
+}
+
+const STATUS_MARKERS: Record<PlannedFileStatus, string> = {
+  create: chalk.green('+'),
+  modify: chalk.yellow('~'),
+  delete: chalk.red('-'),
+  unchanged: ' ',
+};
+
+/**
+ * Render planned files as a directory tree with a created/modified/deleted
+ * marker in front of every file
+ */
+export function formatFileTree(files: PlannedFile[]): string[] {
+  const root: TreeNode = { children: new Map() };
+
+  for (const file of files) {
+    let node = root;
+    for (const segment of file.path.split('/')) {
+      if (!node.children.has(segment)) {
+        node.children.set(segment, { children: new Map() });
+      }
+      node = node.children.get(segment)!;
+    }
+    node.status = file.status;
+  }
+
+  const lines: string[] = [];
+  const render = (node: TreeNode, prefix: string): void => {
+    const entries = [...node.children].sort(([a, nodeA], [b, nodeB]) => {
+      const aIsDir = nodeA.status === undefined;
+      const bIsDir = nodeB.status === undefined;
+      return aIsDir === bIsDir ? a.localeCompare(b) : aIsDir ? -1 : 1;
+    });
+
+    entries.forEach(([name, child], index) => {
+      const last = index === entries.length - 1;
+      const branch = last ? '└── ' : '├── ';
+      if (child.status === undefined) {
+        lines.push(`  ${prefix}${branch}${chalk.bold(`${name}/`)}`);
+        render(child, prefix + (last ? '    ' : '│   '));
+      } else {
+        lines.push(`${STATUS_MARKERS[child.status]} ${prefix}${branch}${name}`);
+      }
+    });
+  };
+  render(root, '');
+
+  return lines;
+}
+
+/**
+ * Render a generation plan for display
+ */
+export function formatGenerationPlan(plan: GenerationPlan): string {
+  const lines: string[] = [];
+  const count = (status: PlannedFileStatus) => plan.files.filter(file => file.status === status).length;
+
+  lines.push(chalk.bold('Files:'));
+  lines.push(...formatFileTree(plan.files));
+  lines.push(
+    chalk.gray(
+      `  ${count('create')} created, ${count('modify')} modified, ${count('delete')} deleted, ` +
+      `${count('unchanged')} copied unchanged from the template`
+    )
+  );
+
+  lines.push('', chalk.bold('Dependencies (compared to the template):'));
+  if (plan.dependencies.length === 0) {
+    lines.push(chalk.gray('  No changes'));
+  }
+  for (const change of plan.dependencies) {
+    const field = change.field === 'devDependencies' ? chalk.gray(' (dev)') : '';
+    if (change.from === undefined) {
+      lines.push(chalk.green(`  + ${change.name}@${change.to}`) + field);
+    } else if (change.to === undefined) {
+      lines.push(chalk.red(`  - ${change.name}@${change.from}`) + field);
+    } else {
+      lines.push(chalk.yellow(`  ~ ${change.name} ${change.from} → ${change.to}`) + field);
+    }
+  }
+
+  lines.push('', chalk.bold('Scripts added:'));
+  const scripts = Object.entries(plan.scripts);
+  if (scripts.length === 0) {
+    lines.push(chalk.gray('  None'));
+  }
+  for (const [script, command] of scripts) {
+    lines.push(`  ${chalk.green(script)}: ${command}`);
+  }
+
+  return lines.join('\n');
+}
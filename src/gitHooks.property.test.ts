@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { join } from 'path';
+import ts from 'typescript';
+import { getGitHookFiles, HOOKS_DIR } from './gitHooks.js';
+import { getExecCommand } from './detectPackageManagers.js';
+import { getLintStagedTasks, LINTER_PACKAGES } from './linting.js';
+import { createProject } from './api.js';
+import { templateManifests } from './options.js';
+import { TEMPLATES_DIR } from './templateManifest.js';
+
+const packageManagerArb = fc.constantFrom('npm', 'yarn', 'pnpm', 'bun');
+
+/**
+ * **Feature: git-hook-scaffolds, Property 1: Hooks Run the Project's Own Checks**
+ *
+ * *For any* framework, package manager and package.json, the pre-commit hook SHALL run
+ * lint-staged and the commit-msg hook commitlint through the package manager, and the
+ * lint-staged config SHALL parse and run the project's linter and type-check script exactly
+ * when the project has them.
+ */
+describe("Property 1: Hooks Run the Project's Own Checks", () => {
+  it('should scaffold hooks and a lint-staged config matching the project', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom('react', 'preact', 'vue', 'svelte', 'solid', 'vanilla'),
+        packageManagerArb,
+        fc.constantFrom(undefined, ...Object.keys(LINTER_PACKAGES)),
+        fc.constantFrom(undefined, 'type-check', 'check'),
+        (framework, packageManager, linter, typeCheck) => {
+          const packageJson = {
+            scripts: typeCheck ? { [typeCheck]: 'tsc --noEmit' } : {},
+            devDependencies: linter ? { [LINTER_PACKAGES[linter]]: '*' } : {} as Record<string, string>,
+          };
+          const files = getGitHookFiles({ framework, packageManager, packageJson });
+
+          expect(files[`${HOOKS_DIR}/pre-commit`]).toBe(`${getExecCommand(packageManager, 'lint-staged')}\n`);
+          expect(files[`${HOOKS_DIR}/commit-msg`]).toBe(`${getExecCommand(packageManager, 'commitlint --edit "$1"')}\n`);
+
+          const config = files['lint-staged.config.js'];
+          const { diagnostics = [] } = ts.transpileModule(config, { fileName: 'lint-staged.config.js', reportDiagnostics: true });
+          expect(diagnostics).toEqual([]);
+          const commands = Object.values(linter ? getLintStagedTasks(linter, framework) : {}).flat();
+          expect(config.includes('biome check --write')).toBe(linter === 'biome');
+          expect(config.includes('prettier --write')).toBe(linter === 'eslint' || linter === 'oxlint');
+          for (const command of commands) {
+            expect(config).toContain(`'${command}'`);
+          }
+          expect(config.includes(`() => '${packageManager} run ${typeCheck}'`)).toBe(typeCheck !== undefined);
+          expect(config.includes(`,vue}': () =>`)).toBe(typeCheck !== undefined && framework === 'vue');
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+/**
+ * **Feature: git-hook-scaffolds, Property 2: Generated Projects Install Their Hooks**
+ *
+ * *For any* template, a project generated with husky SHALL install the hooks from its prepare
+ * script with the Husky 9 command, depend on lint-staged and commitlint, and contain both hooks.
+ */
+describe('Property 2: Generated Projects Install Their Hooks', () => {
+  it('should write the hooks and configs', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(...Object.values(templateManifests)), packageManagerArb, async (manifest, packageManager) => {
+        const { files } = await createProject({
+          name: 'my-app',
+          template: manifest.name,
+          styling: 'none',
+          packageManager,
+          features: ['husky'],
+          dryRun: true,
+          silent: true,
+          directory: join(TEMPLATES_DIR, '..', 'does-not-exist', manifest.name),
+        });
+        const read = (path: string) => files.find(file => file.path === path)?.content?.toString();
+
+        const { devDependencies, scripts } = JSON.parse(read('package.json')!);
+        expect(scripts.prepare).toBe('husky');
+        expect(devDependencies).toMatchObject({
+          husky: expect.any(String),
+          'lint-staged': expect.any(String),
+          '@commitlint/cli': expect.any(String),
+          '@commitlint/config-conventional': expect.any(String),
+        });
+
+        expect(read(`${HOOKS_DIR}/pre-commit`)).toContain('lint-staged');
+        expect(read(`${HOOKS_DIR}/commit-msg`)).toContain('commitlint');
+        expect(read('commitlint.config.js')).toContain('@commitlint/config-conventional');
+        const config = read('lint-staged.config.js')!;
+        if (manifest.typescript && manifest.framework !== 'svelte') {
+          expect(config).toContain(`'${packageManager} run type-check'`);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
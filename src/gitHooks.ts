@@ -0,0 +1,82 @@
+/**
+ * Git hook scaffolds
+ * What the husky feature generates: a pre-commit hook running lint-staged
+ * with the project's own linter and type-check, and a commit-msg hook
+ * checking messages with commitlint. Husky installs the hooks from the
+ * prepare script, once the project is a git repository.
+ */
+
+import { getExecCommand } from './detectPackageManagers.js';
+import { detectLinter } from './detectProject.js';
+import { getLintStagedTasks } from './linting.js';
+
+export interface GitHooksScaffoldOptions {
+  framework: string;
+  packageManager: string;
+  /** The project's package.json, whose linter and type-check script the hooks run */
+  packageJson: {
+    scripts?: Record<string, string>;
+    devDependencies?: Record<string, string>;
+  };
+}
+
+/**
+ * Directory husky installs the hooks from
+ */
+export const HOOKS_DIR = '.husky';
+
+/**
+ * Scripts type-checking the project, in order of preference
+ */
+const TYPE_CHECK_SCRIPTS = ['type-check', 'check'];
+
+/**
+ * Files whose changes need a type-check, by framework
+ */
+const TYPED_FILES: Record<string, string> = {
+  vue: '*.{ts,tsx,vue}',
+  svelte: '*.{ts,svelte}',
+};
+
+function getLintStagedConfig({ framework, packageManager, packageJson }: GitHooksScaffoldOptions): string {
+  const tasks: string[] = [];
+
+  const linter = detectLinter({ devDependencies: packageJson.devDependencies });
+  for (const [files, commands] of Object.entries(linter ? getLintStagedTasks(linter, framework) : {})) {
+    const quoted = commands.map(command => `'${command}'`);
+    tasks.push(`  '${files}': ${quoted.length === 1 ? quoted[0] : `[${quoted.join(', ')}]`},`);
+  }
+
+  const typeCheck = TYPE_CHECK_SCRIPTS.find(script => packageJson.scripts?.[script]);
+  if (typeCheck) {
+    tasks.push(`  // Called without the staged files, so the whole project is checked once, as types span files
+  '${TYPED_FILES[framework] ?? '*.{ts,tsx}'}': () => '${packageManager} run ${typeCheck}',`);
+  }
+
+  return `/**
+ * Checks run on the staged files before each commit
+ * @type {import('lint-staged').Configuration}
+ */
+export default {
+${tasks.join('\n')}${tasks.length > 0 ? '\n' : ''}};
+`;
+}
+
+const COMMITLINT_CONFIG = `// Commit messages follow Conventional Commits: https://www.conventionalcommits.org
+export default {
+  extends: ['@commitlint/config-conventional'],
+};
+`;
+
+/**
+ * Get the git hooks and the configs of the tools they run
+ */
+export function getGitHookFiles(options: GitHooksScaffoldOptions): Record<string, string> {
+  const { packageManager } = options;
+  return {
+    [`${HOOKS_DIR}/pre-commit`]: `${getExecCommand(packageManager, 'lint-staged')}\n`,
+    [`${HOOKS_DIR}/commit-msg`]: `${getExecCommand(packageManager, 'commitlint --edit "$1"')}\n`,
+    'lint-staged.config.js': getLintStagedConfig(options),
+    'commitlint.config.js': COMMITLINT_CONFIG,
+  };
+}
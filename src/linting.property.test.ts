@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { join } from 'path';
+import ts from 'typescript';
+import { getLintingFiles, getLintStagedTasks, LINTER_PACKAGES, LINT_SCRIPTS } from './linting.js';
+import { createProject } from './api.js';
+import { templateManifests, linterOptions } from './options.js';
+import { TEMPLATES_DIR } from './templateManifest.js';
+
+const linterArb = fc.constantFrom(...linterOptions.map(option => option.value));
+
+/**
+ * ESLint plugin each framework's config imports
+ */
+const ESLINT_PLUGINS: Record<string, string | undefined> = {
+  react: 'eslint-plugin-react-hooks',
+  preact: 'eslint-plugin-react-hooks',
+  vue: 'eslint-plugin-vue',
+  svelte: 'eslint-plugin-svelte',
+  solid: 'eslint-plugin-solid',
+  vanilla: undefined,
+};
+
+/**
+ * **Feature: linting-scaffolds, Property 1: Every Linter Gets a Working Config**
+ *
+ * *For any* linter, framework and language, the scaffold SHALL write the linter's config with
+ * the framework's plugin, a Prettier config exactly when the linter does not format, and editor
+ * settings formatting and fixing on save, and every file SHALL parse.
+ */
+describe('Property 1: Every Linter Gets a Working Config', () => {
+  it('should scaffold parsable configs for the linter', () => {
+    fc.assert(
+      fc.property(
+        linterArb,
+        fc.constantFrom(...Object.keys(ESLINT_PLUGINS)),
+        fc.boolean(),
+        (linter, framework, typescript) => {
+          const files = getLintingFiles({ linter, framework, typescript });
+
+          expect('biome.json' in files).toBe(linter === 'biome');
+          expect('eslint.config.js' in files).toBe(linter === 'eslint');
+          expect('.oxlintrc.json' in files).toBe(linter === 'oxlint');
+          expect('.prettierrc.json' in files).toBe(linter !== 'biome');
+
+          for (const [path, content] of Object.entries(files)) {
+            if (path.endsWith('.json')) {
+              expect(() => JSON.parse(content)).not.toThrow();
+            }
+          }
+
+          const settings = JSON.parse(files['.vscode/settings.json']);
+          expect(settings['editor.formatOnSave']).toBe(true);
+          expect(Object.keys(settings['editor.codeActionsOnSave']).length).toBeGreaterThan(0);
+
+          if (linter === 'eslint') {
+            const config = files['eslint.config.js'];
+            const { diagnostics = [] } = ts.transpileModule(config, { fileName: 'eslint.config.js', reportDiagnostics: true });
+            expect(diagnostics).toEqual([]);
+            expect(config.includes(`from 'typescript-eslint'`)).toBe(typescript);
+            const plugin = ESLINT_PLUGINS[framework];
+            if (plugin) {
+              expect(config).toContain(`from '${plugin}`);
+            }
+          }
+
+          const tasks = getLintStagedTasks(linter, framework);
+          expect(Object.values(tasks).flat().some(command => command.startsWith(linter))).toBe(true);
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should scaffold nothing for an unknown linter', () => {
+    expect(getLintingFiles({ linter: 'jshint', framework: 'react', typescript: true })).toEqual({});
+    expect(getLintStagedTasks('jshint', 'react')).toEqual({});
+  });
+});
+
+/**
+ * **Feature: linting-scaffolds, Property 2: Generated Projects Use Only the Chosen Linter**
+ *
+ * *For any* template and linter, a project generated with linting SHALL depend on the chosen
+ * linter and on no other, run it from its lint scripts, contain its config, and commit the
+ * shared editor settings.
+ */
+describe('Property 2: Generated Projects Use Only the Chosen Linter', () => {
+  it('should write the linter config, dependencies and scripts', async () => {
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(...Object.values(templateManifests)), linterArb, async (manifest, linter) => {
+        const { files } = await createProject({
+          name: 'my-app',
+          template: manifest.name,
+          styling: 'none',
+          packageManager: 'npm',
+          features: ['linting'],
+          linter,
+          dryRun: true,
+          silent: true,
+          directory: join(TEMPLATES_DIR, '..', 'does-not-exist', manifest.name),
+        });
+        const read = (path: string) => files.find(file => file.path === path)?.content?.toString();
+
+        const { devDependencies, scripts } = JSON.parse(read('package.json')!);
+        for (const [name, pkg] of Object.entries(LINTER_PACKAGES)) {
+          expect(pkg in devDependencies).toBe(name === linter);
+        }
+        expect('prettier' in devDependencies).toBe(linter !== 'biome');
+        expect(scripts).toMatchObject(LINT_SCRIPTS[linter]);
+
+        expect(read('biome.json') !== undefined).toBe(linter === 'biome');
+        expect(read('.vscode/settings.json')).toBeDefined();
+        expect(read('.gitignore')).toContain('!.vscode/settings.json');
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+/**
+ * Match a path against a flat config glob, where ** spans directories and * stays within one
+ */
+function matchesGlob(path: string, glob: string): boolean {
+  const pattern = glob
+    .split('**/')
+    .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*'))
+    .join('(?:.*/)?');
+  return new RegExp(`^${pattern}$`).test(path);
+}
+
+/**
+ * **Feature: linting-scaffolds, Property 3: Routed Vue Pages Pass the Vue Rules**
+ *
+ * *For any* Vue template and language, a project generated with routing and ESLint SHALL turn off
+ * eslint-plugin-vue's multi-word component names rule for every page, which is named after its route.
+ */
+describe('Property 3: Routed Vue Pages Pass the Vue Rules', () => {
+  it('should exempt every single-word page from multi-word component names', async () => {
+    const vueManifests = Object.values(templateManifests).filter(manifest => manifest.framework === 'vue');
+
+    await fc.assert(
+      fc.asyncProperty(fc.constantFrom(...vueManifests), async (manifest) => {
+        const { files } = await createProject({
+          name: 'my-app',
+          template: manifest.name,
+          styling: 'none',
+          packageManager: 'npm',
+          features: ['linting', 'routing'],
+          router: 'vue-router',
+          linter: 'eslint',
+          dryRun: true,
+          silent: true,
+          directory: join(TEMPLATES_DIR, '..', 'does-not-exist', manifest.name),
+        });
+        const config = files.find(file => file.path === 'eslint.config.js')!.content!.toString();
+        const exempt = [...config.matchAll(/files: \['([^']+)'\],\s*rules: \{\s*'vue\/multi-word-component-names': 'off'/g)].map(([, glob]) => glob);
+
+        const pages = files.map(file => file.path).filter(path => path.startsWith('src/pages/') && path.endsWith('.vue'));
+        expect(pages.length).toBeGreaterThan(0);
+        for (const path of pages) {
+          const name = path.slice(path.lastIndexOf('/') + 1, -'.vue'.length);
+          if (!/^[A-Z][a-z0-9]*[A-Z]/.test(name)) {
+            expect(exempt.some(glob => matchesGlob(path, glob))).toBe(true);
+          }
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,397 @@
+/**
+ * Linting scaffolds
+ * What the linting feature generates for the chosen linter: a Biome config,
+ * an ESLint flat config with the framework's plugin, or an oxlint config,
+ * with Prettier formatting for the two that do not format, and the editor
+ * settings that run them on save.
+ */
+
+export interface LintingScaffoldOptions {
+  linter: string;
+  framework: string;
+  typescript: boolean;
+}
+
+/**
+ * Package providing each linter, which also tells the linter of a project
+ */
+export const LINTER_PACKAGES: Record<string, string> = {
+  biome: '@biomejs/biome',
+  eslint: 'eslint',
+  oxlint: 'oxlint',
+};
+
+/**
+ * Scripts running each linter and the formatter it is paired with
+ */
+export const LINT_SCRIPTS: Record<string, Record<string, string>> = {
+  biome: {
+    lint: 'biome lint .',
+    'lint:fix': 'biome lint --write .',
+    format: 'biome format --write .',
+  },
+  eslint: {
+    lint: 'eslint .',
+    'lint:fix': 'eslint . --fix',
+    format: 'prettier --write .',
+  },
+  oxlint: {
+    lint: 'oxlint',
+    'lint:fix': 'oxlint --fix',
+    format: 'prettier --write .',
+  },
+};
+
+/**
+ * Output of the build and of the other tools, which is never linted
+ */
+const GENERATED_DIRS = ['dist', 'coverage', 'storybook-static', 'playwright-report', 'test-results'];
+
+/**
+ * Declaration files describe untyped modules, where any and {} are the point,
+ * so they are not linted
+ */
+const DECLARATION_FILES = '**/*.d.ts';
+
+/**
+ * Lockfiles Prettier would otherwise reformat
+ */
+const LOCKFILES = ['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock', 'bun.lock', 'bun.lockb'];
+
+/**
+ * Files each framework's components are written in, besides plain scripts
+ */
+const COMPONENT_EXTENSIONS: Record<string, string[]> = {
+  react: ['jsx', 'tsx'],
+  preact: ['jsx', 'tsx'],
+  solid: ['jsx', 'tsx'],
+  vue: ['vue'],
+  svelte: ['svelte'],
+};
+
+/**
+ * Get the extensions of the files a linter checks in a project
+ */
+export function getSourceExtensions(framework: string, typescript: boolean): string[] {
+  const components = (COMPONENT_EXTENSIONS[framework] ?? []).filter(ext => typescript || ext !== 'tsx');
+  return [...(typescript ? ['js', 'ts'] : ['js']), ...components];
+}
+
+/**
+ * Get a glob matching files with any of the extensions
+ */
+function extensionGlob(prefix: string, extensions: string[]): string {
+  return extensions.length === 1 ? `${prefix}*.${extensions[0]}` : `${prefix}*.{${extensions.join(',')}}`;
+}
+
+function toJson(value: unknown): string {
+  return `${JSON.stringify(value, null, 2)}\n`;
+}
+
+function getBiomeConfig(framework: string): string {
+  return toJson({
+    $schema: './node_modules/@biomejs/biome/configuration_schema.json',
+    files: {
+      ignoreUnknown: true,
+      ignore: GENERATED_DIRS.map(dir => `${dir}/**`),
+    },
+    organizeImports: { enabled: true },
+    formatter: {
+      enabled: true,
+      indentStyle: 'space',
+      indentWidth: 2,
+      lineWidth: 100,
+    },
+    javascript: {
+      formatter: { quoteStyle: 'single' },
+    },
+    linter: {
+      enabled: true,
+      rules: {
+        recommended: true,
+        style: {
+          // Mount points such as document.getElementById('app')! are known to exist
+          noNonNullAssertion: 'off',
+        },
+      },
+    },
+    overrides: [
+      { include: ['*.d.ts'], linter: { enabled: false } },
+      // Biome only sees the script of a component, so variables used in the markup look unused
+      ...(framework === 'vue' || framework === 'svelte'
+        ? [
+            {
+              include: [`*.${framework}`],
+              linter: {
+                rules: {
+                  style: { useConst: 'off', useImportType: 'off' },
+                  correctness: { noUnusedVariables: 'off', noUnusedImports: 'off' },
+                },
+              },
+            },
+          ]
+        : []),
+    ],
+  });
+}
+
+interface EslintPlugin {
+  imports: string[];
+  configs: string[];
+}
+
+function getEslintPlugin(framework: string, typescript: boolean): EslintPlugin {
+  switch (framework) {
+    case 'react':
+      return {
+        imports: [
+          `import reactHooks from 'eslint-plugin-react-hooks';`,
+          `import reactRefresh from 'eslint-plugin-react-refresh';`,
+        ],
+        configs: [`reactHooks.configs['recommended-latest']`, 'reactRefresh.configs.vite'],
+      };
+
+    // Preact hooks follow the same rules as React's
+    case 'preact':
+      return {
+        imports: [`import reactHooks from 'eslint-plugin-react-hooks';`],
+        configs: [`reactHooks.configs['recommended-latest']`],
+      };
+
+    case 'solid':
+      return {
+        imports: [`import solid from 'eslint-plugin-solid/configs/${typescript ? 'typescript' : 'recommended'}';`],
+        configs: [`{
+    files: ['${extensionGlob('**/', typescript ? ['jsx', 'tsx'] : ['jsx'])}'],
+    ...solid,
+  }`],
+      };
+
+    case 'vue':
+      return {
+        imports: [`import pluginVue from 'eslint-plugin-vue';`],
+        configs: [
+          `pluginVue.configs['flat/recommended']`,
+          // Pages are named after their route, such as About, rather than with several words
+          `{
+    files: ['src/pages/**/*.vue'],
+    rules: {
+      'vue/multi-word-component-names': 'off',
+    },
+  }`,
+          ...(typescript
+            ? [`{
+    files: ['**/*.vue'],
+    languageOptions: {
+      parserOptions: { parser: tseslint.parser },
+    },
+  }`]
+            : []),
+        ],
+      };
+
+    case 'svelte':
+      return {
+        imports: [`import svelte from 'eslint-plugin-svelte';`],
+        configs: [
+          'svelte.configs.recommended',
+          ...(typescript
+            ? [`{
+    files: ['**/*.svelte', '**/*.svelte.{js,ts}'],
+    languageOptions: {
+      parserOptions: { parser: tseslint.parser, extraFileExtensions: ['.svelte'] },
+    },
+  }`]
+            : []),
+          'svelte.configs.prettier',
+        ],
+      };
+
+    default:
+      return { imports: [], configs: [] };
+  }
+}
+
+function getEslintConfig(framework: string, typescript: boolean): string {
+  const plugin = getEslintPlugin(framework, typescript);
+  const extensions = getSourceExtensions(framework, typescript);
+  const jsx = extensions.includes('jsx');
+
+  const imports = [
+    `import js from '@eslint/js';`,
+    `import { defineConfig, globalIgnores } from 'eslint/config';`,
+    `import prettier from 'eslint-config-prettier/flat';`,
+    `import globals from 'globals';`,
+    ...(typescript ? [`import tseslint from 'typescript-eslint';`] : []),
+    ...plugin.imports,
+  ];
+
+  const configs = [
+    `globalIgnores([${[...GENERATED_DIRS, DECLARATION_FILES].map(dir => `'${dir}'`).join(', ')}])`,
+    `{
+    files: ['${extensionGlob('**/', extensions)}'],
+    languageOptions: {
+      globals: globals.browser,${jsx ? `
+      parserOptions: { ecmaFeatures: { jsx: true } },` : ''}
+    },
+  }`,
+    // Config files, scripts and the API server run in Node
+    `{
+    files: ['*.config.*', 'scripts/**', 'server/**'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  }`,
+    'js.configs.recommended',
+    ...(typescript ? ['tseslint.configs.recommended'] : []),
+    // Without TypeScript, ESLint does not see components used in JSX, which are capitalized
+    ...(jsx && !typescript
+      ? [`{
+    rules: {
+      'no-unused-vars': ['error', { varsIgnorePattern: '^[A-Z_]' }],
+    },
+  }`]
+      : []),
+    ...plugin.configs,
+    // Last, so formatting is left to Prettier
+    'prettier',
+  ];
+
+  return `${imports.join('\n')}
+
+export default defineConfig([
+  ${configs.join(',\n  ')},
+]);
+`;
+}
+
+function getPrettierConfig(framework: string): string {
+  return toJson({
+    singleQuote: true,
+    ...(framework === 'svelte'
+      ? {
+          plugins: ['prettier-plugin-svelte'],
+          overrides: [{ files: '*.svelte', options: { parser: 'svelte' } }],
+        }
+      : {}),
+  });
+}
+
+/**
+ * Prettier already skips what .gitignore lists
+ */
+function getPrettierIgnore(): string {
+  return `${[...LOCKFILES, ...GENERATED_DIRS].join('\n')}\n`;
+}
+
+function getOxlintConfig(framework: string, typescript: boolean): string {
+  const plugins = [
+    ...(typescript ? ['typescript'] : []),
+    'unicorn',
+    'oxc',
+    ...(framework === 'react' || framework === 'preact' ? ['react', 'jsx-a11y'] : []),
+  ];
+
+  return toJson({
+    $schema: './node_modules/oxlint/configuration_schema.json',
+    plugins,
+    categories: {
+      correctness: 'error',
+    },
+    env: {
+      browser: true,
+    },
+    ignorePatterns: [...GENERATED_DIRS, DECLARATION_FILES],
+  });
+}
+
+/**
+ * VS Code extension of each linter, and the code action fixing a file with it
+ */
+const EDITOR_EXTENSIONS: Record<string, { extension: string; fixAll: string }> = {
+  biome: { extension: 'biomejs.biome', fixAll: 'quickfix.biome' },
+  eslint: { extension: 'dbaeumer.vscode-eslint', fixAll: 'source.fixAll.eslint' },
+  oxlint: { extension: 'oxc.oxc-vscode', fixAll: 'source.fixAll.oxc' },
+};
+
+const PRETTIER_EXTENSION = 'esbenp.prettier-vscode';
+
+function getEditorSettings(linter: string, framework: string): string {
+  const { extension, fixAll } = EDITOR_EXTENSIONS[linter];
+  const formatter = linter === 'biome' ? extension : PRETTIER_EXTENSION;
+
+  return toJson({
+    'editor.defaultFormatter': formatter,
+    'editor.formatOnSave': true,
+    'editor.codeActionsOnSave': {
+      [fixAll]: 'explicit',
+      ...(linter === 'biome' ? { 'source.organizeImports.biome': 'explicit' } : {}),
+    },
+    // The ESLint extension does not check Svelte files unless asked to
+    ...(linter === 'eslint' && framework === 'svelte'
+      ? { 'eslint.validate': ['javascript', 'javascriptreact', 'typescript', 'typescriptreact', 'svelte'] }
+      : {}),
+  });
+}
+
+function getEditorExtensions(linter: string): string {
+  return toJson({
+    recommendations: [EDITOR_EXTENSIONS[linter].extension, ...(linter === 'biome' ? [] : [PRETTIER_EXTENSION])],
+  });
+}
+
+/**
+ * Get the lint-staged tasks running a linter, and its formatter, on staged files
+ * Commands sharing a glob run in order, so a file is fixed before it is formatted.
+ */
+export function getLintStagedTasks(linter: string, framework: string): Record<string, string[]> {
+  switch (linter) {
+    case 'biome':
+      return {
+        '*.{js,jsx,ts,tsx,json,jsonc,css}': ['biome check --write --no-errors-on-unmatched --files-ignore-unknown=true'],
+      };
+    case 'eslint':
+    case 'oxlint': {
+      const fix = linter === 'eslint' ? 'eslint --fix --no-warn-ignored' : 'oxlint --fix';
+      return {
+        [extensionGlob('', getSourceExtensions(framework, true))]: [fix, 'prettier --write'],
+        '*.{json,css,scss,md,html}': ['prettier --write'],
+      };
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Get the linter and formatter configs and the editor settings for a linter
+ */
+export function getLintingFiles({ linter, framework, typescript }: LintingScaffoldOptions): Record<string, string> {
+  if (!(linter in LINTER_PACKAGES)) {
+    return {};
+  }
+
+  const files: Record<string, string> = {
+    '.vscode/settings.json': getEditorSettings(linter, framework),
+    '.vscode/extensions.json': getEditorExtensions(linter),
+  };
+
+  switch (linter) {
+    case 'biome':
+      files['biome.json'] = getBiomeConfig(framework);
+      break;
+    case 'eslint':
+      files['eslint.config.js'] = getEslintConfig(framework, typescript);
+      break;
+    case 'oxlint':
+      files['.oxlintrc.json'] = getOxlintConfig(framework, typescript);
+      break;
+  }
+
+  if (linter !== 'biome') {
+    files['.prettierrc.json'] = getPrettierConfig(framework);
+    files['.prettierignore'] = getPrettierIgnore();
+  }
+
+  return files;
+}
@@ -0,0 +1,214 @@
+/**
+ * Catalog of the templates, frameworks, styling solutions and features
+ * offered by the CLI, and the options a project is generated from
+ */
+
+import type { ViantPlugin } from './plugins.js';
+import {
+  loadBundledManifests,
+  readTemplateManifest,
+  inferTemplateManifest,
+  type ManifestCatalog,
+  type TemplateManifest,
+} from './templateManifest.js';
+
+// Template definitions
+export interface Template {
+  [key: string]: string;
+}
+
+/**
+ * Manifests of the bundled templates, read from their template.json files
+ */
+export const templateManifests: Record<string, TemplateManifest> = loadBundledManifests();
+
+export const templates: Template = Object.fromEntries(
+  Object.values(templateManifests).map(manifest => [manifest.name, manifest.description])
+);
+
+// Framework definitions
+export const frameworkOptions: Record<string, string> = {
+  'react': 'React - A library for building user interfaces',
+  'vue': 'Vue - The Progressive JavaScript Framework',
+  'svelte': 'Svelte - Cybernetically enhanced web apps',
+  'solid': 'Solid - Simple and performant reactivity',
+  'preact': 'Preact - Fast 3kB alternative to React',
+  'vanilla': 'Vanilla - Pure JavaScript/TypeScript'
+};
+
+export interface StylingOptions {
+  [key: string]: string;
+}
+
+export const stylingOptions: StylingOptions = {
+  tailwind: 'Utility-first CSS framework (recommended)',
+  'styled-components': 'CSS-in-JS library (React/Preact only)',
+  'emotion': 'Performant CSS-in-JS library',
+  'css-modules': 'Scoped CSS with local class names',
+  sass: 'CSS preprocessor with variables and mixins',
+  less: 'CSS preprocessor with dynamic behavior',
+  stylus: 'Expressive, dynamic CSS preprocessor',
+  'vanilla-extract': 'Zero-runtime CSS-in-TypeScript',
+  unocss: 'Instant on-demand atomic CSS engine',
+  none: 'No styling framework (plain CSS)'
+};
+
+// Feature options
+export interface FeatureOption {
+  name: string;
+  value: string;
+}
+
+export const featureOptions: FeatureOption[] = [
+  { name: 'PWA Support', value: 'pwa' },
+  { name: 'Bundle Analyzer', value: 'analyzer' },
+  { name: 'GitHub Actions CI/CD', value: 'github-actions' },
+  { name: 'Docker Configuration', value: 'docker' },
+  { name: 'Storybook', value: 'storybook' },
+  { name: 'Husky Git Hooks', value: 'husky' },
+  { name: 'Vitest Testing', value: 'vitest' },
+  { name: 'Playwright E2E Testing', value: 'playwright' },
+  { name: 'Linting & Formatting', value: 'linting' },
+  { name: 'TypeScript Strict Mode', value: 'strict-ts' },
+  { name: 'Component Library Setup', value: 'component-lib' },
+  { name: 'Internationalization (i18n)', value: 'i18n' },
+  { name: 'State Management', value: 'state-management' },
+  { name: 'API Client Setup', value: 'api-client' },
+  { name: 'Client-side Routing', value: 'routing' }
+];
+
+export interface ChoiceOption {
+  title: string;
+  value: string;
+}
+
+// State management solutions available per framework
+export const stateManagementOptions: Record<string, ChoiceOption[]> = {
+  react: [
+    { title: 'Redux Toolkit', value: 'redux-toolkit' },
+    { title: 'Zustand', value: 'zustand' },
+    { title: 'Jotai', value: 'jotai' },
+    { title: 'Valtio', value: 'valtio' }
+  ],
+  vue: [
+    { title: 'Pinia', value: 'pinia' },
+    { title: 'Vuex', value: 'vuex' }
+  ],
+  svelte: [
+    { title: 'Svelte Stores', value: 'svelte-stores' },
+    { title: 'Zustand', value: 'zustand' }
+  ],
+  solid: [
+    { title: 'Solid Store', value: 'solid-store' },
+    { title: 'Zustand', value: 'zustand' }
+  ],
+  preact: [
+    { title: 'Zustand', value: 'zustand' },
+    { title: 'Valtio', value: 'valtio' }
+  ]
+};
+
+// Routers available per framework
+export const routerOptions: Record<string, ChoiceOption[]> = {
+  react: [
+    { title: 'React Router', value: 'react-router' }
+  ],
+  vue: [
+    { title: 'Vue Router', value: 'vue-router' }
+  ],
+  svelte: [
+    { title: 'History API router (no dependency)', value: 'history' }
+  ],
+  solid: [
+    { title: 'Solid Router', value: 'solid-router' }
+  ],
+  preact: [
+    { title: 'preact-iso', value: 'preact-iso' },
+    { title: 'Wouter', value: 'wouter' }
+  ],
+  vanilla: [
+    { title: 'History API router (no dependency)', value: 'history' }
+  ]
+};
+
+export const apiClientOptions: ChoiceOption[] = [
+  { title: 'Axios', value: 'axios' },
+  { title: 'TanStack Query', value: 'tanstack-query' },
+  { title: 'SWR', value: 'swr' },
+  { title: 'tRPC', value: 'trpc' },
+  { title: 'Fetch (native)', value: 'fetch' }
+];
+
+export const linterOptions: ChoiceOption[] = [
+  { title: 'Biome', value: 'biome' },
+  { title: 'ESLint (flat config) + Prettier', value: 'eslint' },
+  { title: 'oxlint + Prettier', value: 'oxlint' }
+];
+
+// Project options interface
+export interface ProjectOptions {
+  name: string;
+  template: string;
+  /** Local directory of a custom template, when template is not a bundled one */
+  templatePath?: string;
+  styling: string;
+  packageManager: string;
+  features: string[];
+  installDeps: boolean;
+  initGit: boolean;
+  typescript: boolean;
+  runDev?: boolean;
+  framework: string;
+  stateManagement?: string;
+  apiClient?: string;
+  router?: string;
+  linter?: string;
+  /** Plugins enabled for the project */
+  plugins?: ViantPlugin[];
+  /** Values of the variables the template declares */
+  variables?: Record<string, string>;
+  /**
+   * How to handle a project directory that already has content: merge keeps
+   * existing files, force overwrites them
+   */
+  existingFiles?: 'merge' | 'force';
+}
+
+/**
+ * Values template manifests are checked against
+ */
+export function getManifestCatalog(): ManifestCatalog {
+  return {
+    frameworks: Object.keys(frameworkOptions),
+    stylings: Object.keys(stylingOptions),
+    features: featureOptions.map(feature => feature.value),
+  };
+}
+
+/**
+ * Find the bundled template for a framework and language
+ */
+export function findTemplateManifest(framework: string, typescript: boolean): TemplateManifest | undefined {
+  return Object.values(templateManifests).find(
+    manifest => manifest.framework === framework && manifest.typescript === typescript
+  );
+}
+
+/**
+ * Get the manifest of the template a project is generated from
+ * Custom templates without a template.json are described from their
+ * detected framework and language.
+ */
+export function getTemplateManifest(
+  options: Pick<ProjectOptions, 'template' | 'templatePath' | 'framework' | 'typescript'>
+): TemplateManifest | undefined {
+  if (!options.templatePath) {
+    return templateManifests[options.template];
+  }
+
+  const catalog = getManifestCatalog();
+  return (
+    readTemplateManifest(options.templatePath, catalog) ??
+    inferTemplateManifest(options.templatePath, options.template, options.framework, options.typescript, catalog)
+  );
+}
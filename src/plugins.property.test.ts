@@ -0,0 +1,164 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  validatePlugin,
+  loadPlugin,
+  loadPlugins,
+  pluginSupports,
+  assertPluginFilePath,
+  type ViantPlugin,
+} from './plugins.js';
+import { createProject } from './api.js';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+
+/**
+ * **Feature: plugins, Property 1: Plugin Contributions Are Generated**
+ *
+ * *For any* plugin supporting the project's framework, the generated project SHALL contain
+ * the plugin's dependencies, scripts, files and vite plugins, and *for any* malformed plugin
+ * or contribution, generation SHALL fail with a ProjectGenerationError.
+ */
+describe('Property 1: Plugin Contributions Are Generated', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'viant-plugins-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const pluginIdArb = fc.stringMatching(/^[a-z][a-z0-9-]{0,15}$/);
+  const frameworkArb = fc.constantFrom('react', 'vue', 'svelte', 'solid', 'preact', 'vanilla');
+
+  function expectErrorCode(fn: () => unknown, code: string): void {
+    try {
+      fn();
+      expect.fail(`Expected a ${code} error`);
+    } catch (error) {
+      expect(error).toBeInstanceOf(ProjectGenerationError);
+      expect((error as ProjectGenerationError).code).toBe(code);
+    }
+  }
+
+  it('should accept plugins with an id and a label, and reject anything else', () => {
+    fc.assert(
+      fc.property(pluginIdArb, fc.string({ minLength: 1 }), (id, label) => {
+        expect(validatePlugin({ id, label }, 'plugin.js')).toEqual({ id, label });
+        expectErrorCode(() => validatePlugin({ id: id.toUpperCase() + ' x', label }, 'plugin.js'), ERROR_CODES.PLUGIN_INVALID);
+        expectErrorCode(() => validatePlugin({ id, label: '' }, 'plugin.js'), ERROR_CODES.PLUGIN_INVALID);
+        expectErrorCode(() => validatePlugin({ id, label, files: {} }, 'plugin.js'), ERROR_CODES.PLUGIN_INVALID);
+      }),
+      { numRuns: 100 }
+    );
+
+    expectErrorCode(() => validatePlugin(undefined, 'plugin.js'), ERROR_CODES.PLUGIN_INVALID);
+  });
+
+  it('should only allow file paths inside the project', () => {
+    const plugin: ViantPlugin = { id: 'test', label: 'Test' };
+    fc.assert(
+      fc.property(fc.array(fc.stringMatching(/^[a-z]{1,8}$/), { minLength: 1, maxLength: 4 }), (segments) => {
+        expect(() => assertPluginFilePath(plugin, segments.join('/'))).not.toThrow();
+        expectErrorCode(() => assertPluginFilePath(plugin, `../${segments.join('/')}`), ERROR_CODES.PLUGIN_FAILED);
+        expectErrorCode(() => assertPluginFilePath(plugin, `/${segments.join('/')}`), ERROR_CODES.PLUGIN_FAILED);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should support every framework unless supports() says otherwise', () => {
+    fc.assert(
+      fc.property(frameworkArb, fc.boolean(), (framework, typescript) => {
+        expect(pluginSupports({ id: 'any', label: 'Any' }, framework, typescript)).toBe(true);
+        expect(
+          pluginSupports({ id: 'ts', label: 'TS only', supports: (_framework, ts) => ts }, framework, typescript)
+        ).toBe(typescript);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should load plugin modules and reject taken ids', async () => {
+    writeFileSync(join(tempDir, 'auth.mjs'), `export default { id: 'auth', label: 'Auth' };`);
+    writeFileSync(join(tempDir, 'named.mjs'), `export const plugin = { id: 'named', label: 'Named' };`);
+    writeFileSync(join(tempDir, 'pwa.mjs'), `export default { id: 'pwa', label: 'Another PWA' };`);
+
+    expect((await loadPlugin('./auth.mjs', tempDir)).id).toBe('auth');
+    expect((await loadPlugins(['./auth.mjs', './named.mjs'], ['pwa'], tempDir)).map(plugin => plugin.id)).toEqual(['auth', 'named']);
+
+    for (const specifiers of [['./pwa.mjs'], ['./auth.mjs', './auth.mjs'], ['./missing.mjs']]) {
+      await expect(loadPlugins(specifiers, ['pwa'], tempDir)).rejects.toMatchObject({ code: ERROR_CODES.PLUGIN_INVALID });
+    }
+  });
+
+  it('should generate the contributions of enabled plugins', async () => {
+    await fc.assert(
+      fc.asyncProperty(frameworkArb, fc.boolean(), pluginIdArb, async (framework, typescript, id) => {
+        const plugin: ViantPlugin = {
+          id,
+          label: 'Test plugin',
+          dependencies: () => ({
+            dependencies: { [`@acme/${id}`]: '^1.0.0' },
+            devDependencies: { [`@acme/${id}-dev`]: '^1.0.0' },
+            scripts: { [`${id}:setup`]: `${id} setup` },
+          }),
+          files: ctx => ({ [`src/${id}.txt`]: ctx.framework }),
+          viteConfig: () => ({ imports: [`import ${id.replace(/-/g, '_')} from '@acme/${id}';`], plugins: [`${id.replace(/-/g, '_')}()`] }),
+        };
+
+        const { files } = await createProject({
+          name: 'my-app',
+          framework,
+          typescript,
+          styling: 'none',
+          packageManager: 'npm',
+          directory: join(tempDir, 'my-app'),
+          plugins: [plugin],
+          dryRun: true,
+          silent: true,
+        });
+
+        const content = (path: string) => files.find(file => file.path === path)?.content?.toString();
+        const packageJson = JSON.parse(content('package.json')!);
+        expect(packageJson.dependencies[`@acme/${id}`]).toBe('^1.0.0');
+        expect(packageJson.devDependencies[`@acme/${id}-dev`]).toBe('^1.0.0');
+        expect(packageJson.scripts[`${id}:setup`]).toBe(`${id} setup`);
+        expect(content(`src/${id}.txt`)).toBe(framework);
+
+        const viteConfig = content(`vite.config.${typescript ? 'ts' : 'js'}`);
+        if (viteConfig?.includes('plugins: [')) {
+          expect(viteConfig).toContain(`from '@acme/${id}';`);
+          expect(viteConfig).toContain(`${id.replace(/-/g, '_')}(),`);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should fail generation on unsupported or failing plugins', async () => {
+    const options = {
+      name: 'my-app',
+      framework: 'vue',
+      packageManager: 'npm',
+      directory: join(tempDir, 'my-app'),
+      installDeps: false,
+      initGit: false,
+      silent: true,
+    };
+
+    await expect(
+      createProject({ ...options, plugins: [{ id: 'react-only', label: 'React only', supports: framework => framework === 'react' }] })
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVALID_OPTION });
+
+    await expect(
+      createProject({ ...options, plugins: [{ id: 'broken', label: 'Broken', files: () => { throw new Error('boom'); } }] })
+    ).rejects.toMatchObject({ code: ERROR_CODES.PLUGIN_FAILED });
+
+    expect(() => readFileSync(join(tempDir, 'my-app', 'package.json'))).toThrow();
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Plugins: third-party features loaded from modules given with --plugin or
+ * listed in a preset. A plugin contributes dependencies, scripts, files and
+ * vite plugins, which go through the same staging and package.json
+ * validation as the built-in features.
+ */
+
+import { existsSync } from 'fs';
+import { isAbsolute, normalize, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+
+/**
+ * What a plugin gets to know about the project being generated
+ */
+export interface PluginContext {
+  projectName: string;
+  framework: string;
+  typescript: boolean;
+  styling: string;
+  packageManager: string;
+  /** Built-in features selected for the project */
+  features: string[];
+}
+
+export interface PluginDependencies {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+}
+
+export interface PluginViteConfig {
+  /** Import statements added to vite.config, e.g. "import auth from 'auth-sdk/vite';" */
+  imports?: string[];
+  /** Expressions added to the plugins array, e.g. "auth({ tenant: 'acme' })" */
+  plugins?: string[];
+}
+
+/**
+ * Interface a plugin module exports, either as its default export or as
+ * a named "plugin" export
+ */
+export interface ViantPlugin {
+  /** Unique identifier, used as the feature name */
+  id: string;
+  /** Name shown in the features prompt */
+  label: string;
+  /** Whether the plugin works with a framework and language, defaults to all */
+  supports?(framework: string, typescript: boolean): boolean;
+  dependencies?(ctx: PluginContext): PluginDependencies;
+  /** Files to generate, keyed by path relative to the project root */
+  files?(ctx: PluginContext): Record<string, string>;
+  viteConfig?(ctx: PluginContext): PluginViteConfig;
+}
+
+const PLUGIN_ID_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+function invalidPlugin(source: string, problem: string): ProjectGenerationError {
+  return new ProjectGenerationError(`Invalid plugin ${source}: ${problem}`, ERROR_CODES.PLUGIN_INVALID, {
+    recoverable: false,
+    hint: 'A plugin module must export { id, label } and optionally supports(), dependencies(), files() and viteConfig().',
+  });
+}
+
+/**
+ * Check that a module export has the shape of a plugin
+ */
+export function validatePlugin(value: unknown, source: string): ViantPlugin {
+  if (typeof value !== 'object' || value === null) {
+    throw invalidPlugin(source, 'the module does not export a plugin object');
+  }
+
+  const plugin = value as Record<string, unknown>;
+  if (typeof plugin.id !== 'string' || !PLUGIN_ID_PATTERN.test(plugin.id)) {
+    throw invalidPlugin(source, '"id" must be a lowercase string of letters, digits and dashes');
+  }
+  if (typeof plugin.label !== 'string' || plugin.label.length === 0) {
+    throw invalidPlugin(source, '"label" must be a non-empty string');
+  }
+  for (const hook of ['supports', 'dependencies', 'files', 'viteConfig']) {
+    if (plugin[hook] !== undefined && typeof plugin[hook] !== 'function') {
+      throw invalidPlugin(source, `"${hook}" must be a function`);
+    }
+  }
+
+  return value as ViantPlugin;
+}
+
+/**
+ * Import and validate a plugin module
+ * Relative paths are resolved against the given directory
+ */
+export async function loadPlugin(specifier: string, cwd: string = process.cwd()): Promise<ViantPlugin> {
+  const isPath = specifier.startsWith('.') || isAbsolute(specifier);
+  const pluginPath = resolve(cwd, specifier);
+
+  if (isPath && !existsSync(pluginPath)) {
+    throw new ProjectGenerationError(`Plugin "${specifier}" not found`, ERROR_CODES.PLUGIN_INVALID, {
+      recoverable: false,
+      hint: 'Please check the path passed to --plugin or listed in the preset.',
+    });
+  }
+
+  let module: any;
+  try {
+    module = await import(isPath ? pathToFileURL(pluginPath).href : specifier);
+  } catch (error: any) {
+    throw new ProjectGenerationError(`Failed to load plugin "${specifier}": ${error.message}`, ERROR_CODES.PLUGIN_INVALID, {
+      recoverable: false,
+      hint: 'Plugins must be ES modules, or packages installed where create-viant-app can import them.',
+      cause: error,
+    });
+  }
+
+  return validatePlugin(module.default ?? module.plugin, specifier);
+}
+
+/**
+ * Load several plugins, rejecting duplicate ids and ids of built-in features
+ */
+export async function loadPlugins(
+  specifiers: string[],
+  reservedIds: string[],
+  cwd: string = process.cwd()
+): Promise<ViantPlugin[]> {
+  const plugins: ViantPlugin[] = [];
+
+  for (const specifier of specifiers) {
+    const plugin = await loadPlugin(specifier, cwd);
+    if (reservedIds.includes(plugin.id) || plugins.some(loaded => loaded.id === plugin.id)) {
+      throw invalidPlugin(specifier, `the id "${plugin.id}" is already taken by another feature or plugin`);
+    }
+    plugins.push(plugin);
+  }
+
+  return plugins;
+}
+
+/**
+ * Check whether a plugin works with a framework and language
+ */
+export function pluginSupports(plugin: ViantPlugin, framework: string, typescript: boolean): boolean {
+  return plugin.supports ? Boolean(plugin.supports(framework, typescript)) : true;
+}
+
+/**
+ * Call a plugin hook, reporting anything it throws as a failure of that plugin
+ */
+export function runPluginHook<T>(plugin: ViantPlugin, hook: string, run: () => T): T {
+  try {
+    return run();
+  } catch (error: any) {
+    throw new ProjectGenerationError(`Plugin "${plugin.id}" failed in ${hook}(): ${error.message}`, ERROR_CODES.PLUGIN_FAILED, {
+      recoverable: false,
+      hint: 'This is a problem in the plugin rather than in create-viant-app.',
+      cause: error,
+    });
+  }
+}
+
+/**
+ * Check that a file path returned by a plugin stays inside the project
+ */
+export function assertPluginFilePath(plugin: ViantPlugin, path: string): void {
+  const normalized = normalize(path);
+  if (isAbsolute(path) || normalized === '..' || normalized.startsWith('../') || normalized.startsWith('..\\')) {
+    throw new ProjectGenerationError(
+      `Plugin "${plugin.id}" tried to write "${path}" outside the project`,
+      ERROR_CODES.PLUGIN_FAILED,
+      {
+        recoverable: false,
+        hint: 'Plugin file paths must be relative to the project root.',
+      }
+    );
+  }
+}
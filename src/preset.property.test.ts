@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync, mkdirSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { validatePreset, loadPreset, mergePresetOptions, findPresetFile } from './preset.js';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+import {
+  templates,
+  frameworkOptions,
+  stylingOptions,
+  featureOptions,
+  stateManagementOptions,
+  apiClientOptions,
+  routerOptions,
+  linterOptions,
+} from './options.js';
+
+/**
+ * **Feature: presets, Property 1: Presets Preselect Project Options**
+ *
+ * *For any* valid preset, the loaded options SHALL contain exactly the preset's selections,
+ * flags given on the command line SHALL take precedence over them, and *for any* invalid
+ * value, loading SHALL fail with an INVALID_OPTION error naming the offending field.
+ */
+describe('Property 1: Presets Preselect Project Options', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'viant-preset-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const knownFeatures = featureOptions.map(feature => feature.value);
+
+  // Arbitrary for a valid preset
+  const validPresetArb = fc.constantFrom('react', 'vue', 'svelte', 'solid', 'preact').chain(framework =>
+    fc.record(
+      {
+        framework: fc.constant(framework),
+        typescript: fc.boolean(),
+        styling: fc.constantFrom('tailwind', 'css-modules', 'sass', 'none'),
+        packageManager: fc.constantFrom('npm', 'pnpm', 'yarn', 'bun'),
+        features: fc.subarray(knownFeatures),
+        stateManagement: fc.constantFrom(...stateManagementOptions[framework].map(option => option.value)),
+        apiClient: fc.constantFrom(...apiClientOptions.map(option => option.value)),
+        installDeps: fc.boolean(),
+        initGit: fc.boolean(),
+      },
+      { requiredKeys: ['framework', 'typescript'] }
+    )
+  );
+
+  function expectInvalidPreset(fn: () => unknown, field: string): void {
+    try {
+      fn();
+      expect.fail('Expected an INVALID_OPTION error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ProjectGenerationError);
+      expect((error as ProjectGenerationError).code).toBe(ERROR_CODES.INVALID_OPTION);
+      expect((error as ProjectGenerationError).message).toContain(`"${field}"`);
+    }
+  }
+
+  it('should load every valid preset into the project options', () => {
+    fc.assert(
+      fc.property(validPresetArb, (preset) => {
+        const presetPath = join(tempDir, 'team.json');
+        writeFileSync(presetPath, JSON.stringify({ $schema: './viant-preset.schema.json', ...preset }));
+
+        const loaded = loadPreset('team.json', tempDir, tempDir);
+
+        expect(loaded?.path).toBe(presetPath);
+        expect(loaded?.options).toEqual({
+          ...preset,
+          template: `${preset.framework}-${preset.typescript ? 'ts' : 'js'}`,
+        });
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should name the offending field of invalid presets', () => {
+    fc.assert(
+      fc.property(
+        fc.subarray(knownFeatures),
+        fc.stringMatching(/^[a-z]{3,10}$/).filter(value => !knownFeatures.includes(value)),
+        (features, unknownFeature) => {
+          expectInvalidPreset(
+            () => validatePreset({ features: [...features, unknownFeature] }, 'team.json'),
+            `features[${features.length}]`
+          );
+          expectInvalidPreset(() => validatePreset({ [unknownFeature]: true }, 'team.json'), unknownFeature);
+          expectInvalidPreset(() => validatePreset({ styling: unknownFeature }, 'team.json'), 'styling');
+        }
+      ),
+      { numRuns: 100 }
+    );
+
+    expectInvalidPreset(() => validatePreset({ typescript: 'yes' }, 'team.json'), 'typescript');
+    expectInvalidPreset(() => validatePreset({ template: 'vue-ts', framework: 'react' }, 'team.json'), 'framework');
+    expectInvalidPreset(() => validatePreset({ framework: 'vue', stateManagement: 'zustand' }, 'team.json'), 'stateManagement');
+    expectInvalidPreset(() => validatePreset([], 'team.json'), '(root)');
+  });
+
+  it('should let flags take precedence over the preset', () => {
+    fc.assert(
+      fc.property(validPresetArb, validPresetArb, (preset, flags) => {
+        const merged = mergePresetOptions(validatePreset(preset, 'team.json'), validatePreset(flags, '--flags'));
+
+        expect(merged).toMatchObject(validatePreset(flags, '--flags'));
+        expect(merged.template).toBe(`${flags.framework}-${flags.typescript ? 'ts' : 'js'}`);
+      }),
+      { numRuns: 100 }
+    );
+
+    expect(mergePresetOptions({ framework: 'vue', typescript: true, template: 'vue-ts' }, { typescript: false })).toMatchObject({
+      framework: 'vue',
+      typescript: false,
+      template: 'vue-js',
+    });
+  });
+
+  it('should look up presets in the current directory before the home directory', () => {
+    const cwd = join(tempDir, 'cwd');
+    const home = join(tempDir, 'home');
+    mkdirSync(cwd);
+    mkdirSync(home);
+
+    expect(findPresetFile(cwd, home)).toBeUndefined();
+    expect(loadPreset(undefined, cwd, home)).toBeUndefined();
+
+    writeFileSync(join(home, '.viantrc'), JSON.stringify({ styling: 'sass' }));
+    expect(findPresetFile(cwd, home)).toBe(join(home, '.viantrc'));
+
+    writeFileSync(join(cwd, '.viantrc'), JSON.stringify({ styling: 'less' }));
+    expect(findPresetFile(cwd, home)).toBe(join(cwd, '.viantrc'));
+
+    writeFileSync(join(cwd, 'viant.config.json'), JSON.stringify({ styling: 'none' }));
+    expect(loadPreset(undefined, cwd, home)?.options).toEqual({ styling: 'none' });
+
+    writeFileSync(join(tempDir, 'team.json'), JSON.stringify({ styling: 'stylus' }));
+    expect(loadPreset('../team.json', cwd, home)?.options).toEqual({ styling: 'stylus' });
+  });
+
+  it('should reject missing preset files and invalid JSON', () => {
+    expectInvalidPreset(() => loadPreset('missing.json', tempDir, tempDir), 'missing.json');
+
+    writeFileSync(join(tempDir, 'broken.json'), '{ "styling": ');
+    try {
+      loadPreset('broken.json', tempDir, tempDir);
+      expect.fail('Expected an INVALID_OPTION error');
+    } catch (error) {
+      expect((error as ProjectGenerationError).code).toBe(ERROR_CODES.INVALID_OPTION);
+    }
+  });
+
+  it('should keep the JSON Schema in sync with the available options', () => {
+    const schema = JSON.parse(readFileSync(join(__dirname, '..', 'schema', 'viant-preset.schema.json'), 'utf8'));
+    const properties = schema.properties;
+
+    expect(schema.additionalProperties).toBe(false);
+    expect(properties.template.enum).toEqual(Object.keys(templates));
+    expect(properties.framework.enum).toEqual(Object.keys(frameworkOptions));
+    expect(properties.styling.enum).toEqual(Object.keys(stylingOptions));
+    expect(properties.features.items.enum).toEqual(knownFeatures);
+    expect([...properties.stateManagement.enum].sort()).toEqual(
+      [...new Set(Object.values(stateManagementOptions).flat().map(option => option.value))].sort()
+    );
+    expect(properties.apiClient.enum).toEqual(apiClientOptions.map(option => option.value));
+    expect([...properties.router.enum].sort()).toEqual(
+      [...new Set(Object.values(routerOptions).flat().map(option => option.value))].sort()
+    );
+    expect(properties.linter.enum).toEqual(linterOptions.map(option => option.value));
+    expect(Object.keys(properties).sort()).toEqual(
+      ['$schema', 'template', 'framework', 'typescript', 'styling', 'packageManager', 'features',
+        'stateManagement', 'apiClient', 'router', 'linter', 'installDeps', 'initGit', 'runDev', 'variables', 'plugins'].sort()
+    );
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Preset files: shareable project recipes that preselect project options
+ * Loaded from --preset, or from viant.config.json / .viantrc in the current
+ * directory or the home directory
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { homedir } from 'os';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+import { PACKAGE_MANAGER_ORDER } from './detectPackageManagers.js';
+import {
+  templates,
+  templateManifests,
+  findTemplateManifest,
+  frameworkOptions,
+  stylingOptions,
+  featureOptions,
+  stateManagementOptions,
+  apiClientOptions,
+  routerOptions,
+  linterOptions,
+  type ProjectOptions,
+} from './options.js';
+
+/**
+ * Preset file contents, mirroring ProjectOptions without the project name
+ */
+export interface Preset {
+  $schema?: string;
+  template?: string;
+  framework?: string;
+  typescript?: boolean;
+  styling?: string;
+  packageManager?: string;
+  features?: string[];
+  stateManagement?: string;
+  apiClient?: string;
+  router?: string;
+  linter?: string;
+  installDeps?: boolean;
+  initGit?: boolean;
+  runDev?: boolean;
+  /** Values of the variables the template declares */
+  variables?: Record<string, string>;
+  /** Plugin modules, relative to the preset file */
+  plugins?: string[];
+}
+
+export interface LoadedPreset {
+  path: string;
+  options: Partial<ProjectOptions>;
+  /** Plugin modules, resolved against the preset file's directory */
+  plugins: string[];
+}
+
+/**
+ * File names looked up in the current directory, then the home directory
+ */
+export const PRESET_FILE_NAMES = ['viant.config.json', '.viantrc'];
+
+const ENUM_FIELDS: Record<string, () => string[]> = {
+  template: () => Object.keys(templates),
+  framework: () => Object.keys(frameworkOptions),
+  styling: () => Object.keys(stylingOptions),
+  packageManager: () => [...PACKAGE_MANAGER_ORDER],
+  stateManagement: () => [...new Set(Object.values(stateManagementOptions).flat().map(option => option.value))],
+  apiClient: () => apiClientOptions.map(option => option.value),
+  router: () => [...new Set(Object.values(routerOptions).flat().map(option => option.value))],
+  linter: () => linterOptions.map(option => option.value),
+};
+
+const BOOLEAN_FIELDS = ['typescript', 'installDeps', 'initGit', 'runDev'];
+
+function invalidPreset(source: string, field: string, problem: string, validValues?: string[]): ProjectGenerationError {
+  return new ProjectGenerationError(
+    `Invalid ${source}: "${field}" ${problem}`,
+    ERROR_CODES.INVALID_OPTION,
+    {
+      recoverable: false,
+      hint: validValues
+        ? `Valid values: ${validValues.join(', ')}`
+        : 'See schema/viant-preset.schema.json in the create-viant-app package for the preset format.',
+    }
+  );
+}
+
+/**
+ * Validate parsed preset contents and convert them to project options
+ * Errors name the source and the offending field, e.g. "features[2]"
+ */
+export function validatePreset(value: unknown, source: string): Partial<ProjectOptions> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalidPreset(source, '(root)', 'must be a JSON object');
+  }
+
+  const preset = value as Record<string, unknown>;
+  const knownFields = ['$schema', 'features', 'plugins', 'variables', ...Object.keys(ENUM_FIELDS), ...BOOLEAN_FIELDS];
+
+  for (const [field, fieldValue] of Object.entries(preset)) {
+    if (!knownFields.includes(field)) {
+      throw invalidPreset(source, field, 'is not a known preset field', knownFields.filter(name => name !== '$schema'));
+    }
+
+    if (field in ENUM_FIELDS) {
+      const validValues = ENUM_FIELDS[field]();
+      if (typeof fieldValue !== 'string' || !validValues.includes(fieldValue)) {
+        throw invalidPreset(source, field, `must be one of the listed values, got ${JSON.stringify(fieldValue)}`, validValues);
+      }
+    }
+
+    if (BOOLEAN_FIELDS.includes(field) && typeof fieldValue !== 'boolean') {
+      throw invalidPreset(source, field, `must be a boolean, got ${JSON.stringify(fieldValue)}`);
+    }
+  }
+
+  if (preset.features !== undefined) {
+    if (!Array.isArray(preset.features)) {
+      throw invalidPreset(source, 'features', 'must be an array of feature names');
+    }
+    const knownFeatures = featureOptions.map(feature => feature.value);
+    preset.features.forEach((feature, index) => {
+      if (typeof feature !== 'string' || !knownFeatures.includes(feature)) {
+        throw invalidPreset(source, `features[${index}]`, `must be a known feature, got ${JSON.stringify(feature)}`, knownFeatures);
+      }
+    });
+  }
+
+  if (preset.plugins !== undefined) {
+    if (!Array.isArray(preset.plugins)) {
+      throw invalidPreset(source, 'plugins', 'must be an array of plugin module paths');
+    }
+    preset.plugins.forEach((plugin, index) => {
+      if (typeof plugin !== 'string' || plugin.length === 0) {
+        throw invalidPreset(source, `plugins[${index}]`, `must be a plugin module path, got ${JSON.stringify(plugin)}`);
+      }
+    });
+  }
+
+  if (preset.variables !== undefined) {
+    if (typeof preset.variables !== 'object' || preset.variables === null || Array.isArray(preset.variables)) {
+      throw invalidPreset(source, 'variables', 'must be an object of template variable values');
+    }
+    for (const [name, variableValue] of Object.entries(preset.variables)) {
+      if (typeof variableValue !== 'string') {
+        throw invalidPreset(source, `variables.${name}`, `must be a string, got ${JSON.stringify(variableValue)}`);
+      }
+    }
+  }
+
+  const { template, framework, typescript } = preset as Preset;
+  const manifest = template ? templateManifests[template] : undefined;
+  if (manifest) {
+    if (framework !== undefined && framework !== manifest.framework) {
+      throw invalidPreset(source, 'framework', `contradicts template "${template}"`);
+    }
+    if (typescript !== undefined && typescript !== manifest.typescript) {
+      throw invalidPreset(source, 'typescript', `contradicts template "${template}"`);
+    }
+  }
+
+  const options: Partial<ProjectOptions> = {};
+  const { $schema, plugins, ...fields } = preset as Preset;
+  Object.assign(options, fields);
+
+  if (manifest) {
+    options.framework = manifest.framework;
+    options.typescript = manifest.typescript;
+  }
+
+  if (options.stateManagement && options.framework) {
+    const validValues = (stateManagementOptions[options.framework] || []).map(option => option.value);
+    if (!validValues.includes(options.stateManagement)) {
+      throw invalidPreset(source, 'stateManagement', `is not available for ${options.framework}`, validValues);
+    }
+  }
+
+  if (options.router && options.framework) {
+    const validValues = (routerOptions[options.framework] || []).map(option => option.value);
+    if (!validValues.includes(options.router)) {
+      throw invalidPreset(source, 'router', `is not available for ${options.framework}`, validValues);
+    }
+  }
+
+  if (options.framework && options.typescript !== undefined) {
+    options.template = findTemplateManifest(options.framework, options.typescript)?.name;
+    if (!options.template) {
+      throw invalidPreset(source, 'typescript', `has no template for ${options.framework}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Find the preset file to use when --preset is not given
+ */
+export function findPresetFile(cwd: string = process.cwd(), home: string = homedir()): string | undefined {
+  for (const dir of [cwd, home]) {
+    for (const fileName of PRESET_FILE_NAMES) {
+      const presetPath = join(dir, fileName);
+      if (existsSync(presetPath)) {
+        return presetPath;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Load and validate a preset file
+ * Uses the given file, or looks one up when none is given
+ */
+export function loadPreset(file?: string, cwd: string = process.cwd(), home: string = homedir()): LoadedPreset | undefined {
+  const presetPath = file ? resolve(cwd, file) : findPresetFile(cwd, home);
+  if (!presetPath) {
+    return undefined;
+  }
+
+  if (!existsSync(presetPath)) {
+    throw new ProjectGenerationError(`Preset file "${file}" not found`, ERROR_CODES.INVALID_OPTION, {
+      recoverable: false,
+      hint: 'Please check the path passed to --preset.',
+    });
+  }
+
+  let contents: unknown;
+  try {
+    contents = JSON.parse(readFileSync(presetPath, 'utf8'));
+  } catch (error: any) {
+    throw new ProjectGenerationError(`Invalid preset ${presetPath}: ${error.message}`, ERROR_CODES.INVALID_OPTION, {
+      recoverable: false,
+      hint: 'Preset files must contain valid JSON.',
+      cause: error,
+    });
+  }
+
+  const options = validatePreset(contents, `preset ${presetPath}`);
+  const plugins = ((contents as Preset).plugins ?? []).map(plugin =>
+    plugin.startsWith('.') ? resolve(dirname(presetPath), plugin) : plugin
+  );
+
+  return { path: presetPath, options, plugins };
+}
+
+/**
+ * Combine preset options with options given as flags, flags taking precedence
+ */
+export function mergePresetOptions(
+  presetOptions: Partial<ProjectOptions>,
+  flagOptions: Partial<ProjectOptions>
+): Partial<ProjectOptions> {
+  const merged: Partial<ProjectOptions> = { ...presetOptions, ...flagOptions };
+  if (presetOptions.variables || flagOptions.variables) {
+    merged.variables = { ...presetOptions.variables, ...flagOptions.variables };
+  }
+  if (merged.templatePath) {
+    return merged;
+  }
+  delete merged.template;
+
+  if (merged.framework && merged.typescript !== undefined) {
+    merged.template = findTemplateManifest(merged.framework, merged.typescript)?.name;
+  }
+
+  return merged;
+}
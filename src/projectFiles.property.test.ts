@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { existsSync, mkdirSync, readFileSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ProjectFiles } from './projectFiles.js';
+
+/**
+ * **Feature: add-command, Property 1: Staged Writes Are Conflict-Aware**
+ *
+ * *For any* set of staged files, nothing SHALL be written to disk until the stage is
+ * applied, files identical to the disk SHALL NOT be reported as changes, and existing
+ * files replaced without being read first SHALL be reported as conflicts.
+ */
+describe('Property 1: Staged Writes Are Conflict-Aware', () => {
+  let testBaseDir: string;
+
+  beforeEach(() => {
+    testBaseDir = join(tmpdir(), `viant-files-test-${Date.now()}-${Math.random().toString(36).slice(2)}`);
+    mkdirSync(testBaseDir, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(testBaseDir)) {
+      rmSync(testBaseDir, { recursive: true, force: true });
+    }
+  });
+
+  // Arbitrary for relative file paths up to two directories deep
+  const segmentArb = fc.stringMatching(/^[a-z][a-z0-9]{0,7}$/);
+  const filePathArb = fc.array(segmentArb, { minLength: 1, maxLength: 3 }).map(parts => parts.join('/'));
+
+  const fileContentArb = fc.string({ minLength: 0, maxLength: 200 });
+
+  it('should not touch the disk until apply() is called', () => {
+    fc.assert(
+      fc.property(filePathArb, fileContentArb, (path, content) => {
+        const root = join(testBaseDir, `p-${Math.random().toString(36).slice(2)}`);
+        const files = new ProjectFiles(root);
+
+        files.write(path, content);
+
+        expect(files.exists(path)).toBe(true);
+        expect(files.read(path)).toBe(content);
+        expect(existsSync(join(root, path))).toBe(false);
+
+        const changes = files.apply();
+
+        expect(changes).toEqual([{ path, type: 'create', content, mode: undefined }]);
+        expect(readFileSync(join(root, path), 'utf8')).toBe(content);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should report files identical to the disk as unchanged', () => {
+    fc.assert(
+      fc.property(fileContentArb, (content) => {
+        writeFileSync(join(testBaseDir, 'same.txt'), content);
+        const files = new ProjectFiles(testBaseDir);
+
+        files.write('same.txt', content);
+
+        expect(files.getChanges()).toEqual([]);
+        expect(files.getConflicts()).toEqual([]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should report blind overwrites as conflicts but not read-then-updated files', () => {
+    fc.assert(
+      fc.property(fileContentArb, fileContentArb, (original, replacement) => {
+        fc.pre(original !== replacement);
+        writeFileSync(join(testBaseDir, 'blind.txt'), original);
+        writeFileSync(join(testBaseDir, 'updated.txt'), original);
+        const files = new ProjectFiles(testBaseDir);
+
+        files.write('blind.txt', replacement);
+        files.write('updated.txt', files.read('updated.txt') + replacement + '!');
+
+        expect(files.getConflicts()).toEqual(['blind.txt']);
+        expect(files.getChanges().map(change => change.type)).toEqual(['modify', 'modify']);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should delete removed files only when applied', () => {
+    writeFileSync(join(testBaseDir, 'index.css'), 'body {}');
+    const files = new ProjectFiles(testBaseDir);
+
+    files.remove(join(testBaseDir, 'index.css'));
+
+    expect(files.exists('index.css')).toBe(false);
+    expect(existsSync(join(testBaseDir, 'index.css'))).toBe(true);
+
+    expect(files.apply()).toEqual([{ path: 'index.css', type: 'delete' }]);
+    expect(existsSync(join(testBaseDir, 'index.css'))).toBe(false);
+  });
+
+  it('should report only files staged without being read as written files', () => {
+    fc.assert(
+      fc.property(fileContentArb, fileContentArb, (generated, updated) => {
+        writeFileSync(join(testBaseDir, 'package.json'), '{}');
+        const files = new ProjectFiles(testBaseDir);
+
+        files.write('src/i18n/index.ts', generated);
+        files.write('package.json', files.read('package.json') + updated);
+
+        expect([...files.getWrittenFiles().entries()]).toEqual([['src/i18n/index.ts', generated]]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should prune directories left empty by deleted files', () => {
+    mkdirSync(join(testBaseDir, 'src/i18n/locales'), { recursive: true });
+    writeFileSync(join(testBaseDir, 'src/main.ts'), '');
+    writeFileSync(join(testBaseDir, 'src/i18n/index.ts'), '');
+    writeFileSync(join(testBaseDir, 'src/i18n/locales/en.json'), '{}');
+    const files = new ProjectFiles(testBaseDir);
+
+    files.remove('src/i18n/index.ts');
+    files.remove('src/i18n/locales/en.json');
+    files.apply();
+
+    expect(existsSync(join(testBaseDir, 'src/i18n'))).toBe(false);
+    expect(existsSync(join(testBaseDir, 'src/main.ts'))).toBe(true);
+  });
+
+  it('should treat directories containing staged files as existing', () => {
+    const files = new ProjectFiles(testBaseDir);
+
+    expect(files.exists('src/hooks')).toBe(false);
+    files.write('src/hooks/.gitkeep', '');
+    expect(files.exists('src/hooks')).toBe(true);
+  });
+
+  it('should undo applied changes on revert', () => {
+    mkdirSync(join(testBaseDir, 'src'), { recursive: true });
+    writeFileSync(join(testBaseDir, 'src/main.ts'), 'original');
+    writeFileSync(join(testBaseDir, 'README.md'), 'readme');
+    const files = new ProjectFiles(testBaseDir);
+
+    files.write('src/main.ts', 'generated');
+    files.write('src/components/Button.ts', 'generated');
+    files.write('package.json', '{}');
+    files.remove('README.md');
+    files.apply();
+    files.revert();
+
+    expect(readFileSync(join(testBaseDir, 'src/main.ts'), 'utf8')).toBe('original');
+    expect(readFileSync(join(testBaseDir, 'README.md'), 'utf8')).toBe('readme');
+    expect(existsSync(join(testBaseDir, 'src/components'))).toBe(false);
+    expect(existsSync(join(testBaseDir, 'package.json'))).toBe(false);
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Staged file system for project generation
+ * Records writes and removals in memory so they can be reviewed and checked
+ * for conflicts before anything is applied to disk
+ */
+
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  rmdirSync,
+  statSync,
+  writeFileSync,
+} from 'fs';
+import { dirname, join, relative, resolve, sep } from 'path';
+
+export type FileContent = string | Buffer;
+
+export type FileChangeType = 'create' | 'modify' | 'delete';
+
+/**
+ * A single pending change to the project, relative to what is on disk
+ */
+export interface FileChange {
+  /** Path relative to the project root, using forward slashes */
+  path: string;
+  type: FileChangeType;
+  content?: FileContent;
+  mode?: number;
+}
+
+interface StagedFile {
+  content: FileContent | null;
+  mode?: number;
+}
+
+/**
+ * What apply() found on disk before changing a file, to undo the change
+ */
+interface AppliedChange {
+  key: string;
+  previous: Buffer | null;
+  previousMode?: number;
+  /** Directories created for the file, deepest first */
+  createdDirectories: string[];
+}
+
+export class ProjectFiles {
+  readonly root: string;
+  private readonly staged = new Map<string, StagedFile>();
+  private readonly readFromDisk = new Set<string>();
+  private readonly applied: AppliedChange[] = [];
+
+  constructor(root: string) {
+    this.root = resolve(root);
+  }
+
+  /**
+   * Normalize an absolute or root-relative path to a staging key
+   */
+  private key(path: string): string {
+    return relative(this.root, resolve(this.root, path)).split(sep).join('/');
+  }
+
+  private diskPath(key: string): string {
+    return join(this.root, ...key.split('/'));
+  }
+
+  /**
+   * Check whether a file or directory exists, taking staged changes into account
+   */
+  exists(path: string): boolean {
+    const key = this.key(path);
+    const staged = this.staged.get(key);
+    if (staged) {
+      return staged.content !== null;
+    }
+
+    for (const [stagedKey, file] of this.staged) {
+      if (file.content !== null && stagedKey.startsWith(`${key}/`)) {
+        return true;
+      }
+    }
+
+    return existsSync(this.diskPath(key));
+  }
+
+  /**
+   * Read a file as UTF-8, preferring the staged content over the disk
+   */
+  read(path: string): string {
+    const key = this.key(path);
+    const staged = this.staged.get(key);
+    if (staged) {
+      if (staged.content === null) {
+        throw new Error(`ENOENT: no such file or directory, '${key}' has been removed`);
+      }
+      return staged.content.toString();
+    }
+
+    const content = readFileSync(this.diskPath(key), 'utf8');
+    this.readFromDisk.add(key);
+    return content;
+  }
+
+  /**
+   * Stage a file, keeping the mode of an already staged file unless one is given
+   */
+  write(path: string, content: FileContent, mode?: number): void {
+    const key = this.key(path);
+    this.staged.set(key, { content, mode: mode ?? this.staged.get(key)?.mode });
+  }
+
+  remove(path: string): void {
+    this.staged.set(this.key(path), { content: null });
+  }
+
+  /**
+   * Drop a staged write or removal, leaving the file as it is on disk
+   */
+  discard(path: string): void {
+    this.staged.delete(this.key(path));
+  }
+
+  /**
+   * Stage every file of a directory, preserving file modes
+   * Files and directories named in exclude are skipped at any depth
+   */
+  copyDirectory(sourceDir: string, targetDir = '.', exclude: string[] = []): void {
+    for (const entry of readdirSync(sourceDir, { withFileTypes: true })) {
+      if (exclude.includes(entry.name)) {
+        continue;
+      }
+
+      const sourcePath = join(sourceDir, entry.name);
+      const targetPath = join(targetDir, entry.name);
+
+      if (entry.isDirectory()) {
+        this.copyDirectory(sourcePath, targetPath, exclude);
+      } else if (entry.isFile()) {
+        this.write(targetPath, readFileSync(sourcePath), statSync(sourcePath).mode & 0o777);
+      }
+    }
+  }
+
+  /**
+   * Get the changes that applying the staged files would make, sorted by path
+   * Staged files identical to what is on disk are not reported
+   */
+  getChanges(): FileChange[] {
+    const changes: FileChange[] = [];
+
+    for (const [key, file] of this.staged) {
+      const diskPath = this.diskPath(key);
+      const onDisk = existsSync(diskPath) && statSync(diskPath).isFile();
+
+      if (file.content === null) {
+        if (onDisk) {
+          changes.push({ path: key, type: 'delete' });
+        }
+        continue;
+      }
+
+      if (onDisk) {
+        const current = readFileSync(diskPath);
+        if (current.equals(Buffer.from(file.content))) {
+          continue;
+        }
+      }
+
+      changes.push({
+        path: key,
+        type: onDisk ? 'modify' : 'create',
+        content: file.content,
+        mode: file.mode,
+      });
+    }
+
+    return changes.sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * Get existing files that would be overwritten without having been read first,
+   * i.e. files replaced wholesale rather than updated in place
+   */
+  getConflicts(): string[] {
+    return this.getChanges()
+      .filter(change => change.type === 'modify' && !this.readFromDisk.has(change.path))
+      .map(change => change.path);
+  }
+
+  /**
+   * Get the files staged without reading an existing version first
+   * These are the files a generation step owns outright, as opposed to files
+   * it updates in place such as package.json
+   */
+  getWrittenFiles(): Map<string, FileContent> {
+    const written = new Map<string, FileContent>();
+
+    for (const [key, file] of this.staged) {
+      if (file.content !== null && !this.readFromDisk.has(key)) {
+        written.set(key, file.content);
+      }
+    }
+
+    return written;
+  }
+
+  /**
+   * Remove directories left empty by deleted files, up to the project root
+   */
+  private pruneEmptyDirectories(key: string): void {
+    let dir = dirname(this.diskPath(key));
+
+    while (dir !== this.root && dir.startsWith(this.root) && existsSync(dir) && readdirSync(dir).length === 0) {
+      rmdirSync(dir);
+      dir = dirname(dir);
+    }
+  }
+
+  /**
+   * Write all staged changes to disk and reset the stage
+   */
+  apply(): FileChange[] {
+    const changes = this.getChanges();
+
+    for (const change of changes) {
+      const diskPath = this.diskPath(change.path);
+      const onDisk = existsSync(diskPath);
+      const applied: AppliedChange = {
+        key: change.path,
+        previous: onDisk ? readFileSync(diskPath) : null,
+        previousMode: onDisk ? statSync(diskPath).mode & 0o777 : undefined,
+        createdDirectories: this.getMissingDirectories(dirname(diskPath)),
+      };
+
+      if (change.type === 'delete') {
+        rmSync(diskPath, { force: true });
+        this.pruneEmptyDirectories(change.path);
+      } else {
+        mkdirSync(dirname(diskPath), { recursive: true });
+        writeFileSync(diskPath, change.content!);
+        if (change.mode !== undefined) {
+          chmodSync(diskPath, change.mode);
+        }
+      }
+
+      this.applied.push(applied);
+    }
+
+    this.staged.clear();
+    this.readFromDisk.clear();
+    return changes;
+  }
+
+  /**
+   * Undo every change apply() made: remove created files and the directories
+   * created for them, and restore overwritten and deleted files
+   */
+  revert(): void {
+    for (const change of this.applied.reverse()) {
+      const diskPath = this.diskPath(change.key);
+
+      if (change.previous === null) {
+        rmSync(diskPath, { force: true });
+      } else {
+        mkdirSync(dirname(diskPath), { recursive: true });
+        writeFileSync(diskPath, change.previous);
+        chmodSync(diskPath, change.previousMode!);
+      }
+
+      for (const dir of change.createdDirectories) {
+        if (existsSync(dir) && readdirSync(dir).length === 0) {
+          rmdirSync(dir);
+        }
+      }
+    }
+
+    this.applied.length = 0;
+  }
+
+  /**
+   * Get the directories that do not exist yet on the way to a directory,
+   * deepest first
+   */
+  private getMissingDirectories(dir: string): string[] {
+    const missing: string[] = [];
+
+    while (dir.startsWith(this.root) && !existsSync(dir)) {
+      missing.push(dir);
+      dir = dirname(dir);
+    }
+
+    return missing;
+  }
+}
@@ -0,0 +1,2806 @@
+/**
+ * Project generation: copies a template into a new project directory and
+ * customizes it for the selected framework, styling and features
+ */
+
+import { execSync, spawn } from 'child_process';
+import { existsSync, mkdirSync, readdirSync, rmSync, statSync } from 'fs';
+import { resolve, join, relative } from 'path';
+import prompts from 'prompts';
+import chalk from 'chalk';
+import ora from 'ora';
+import gradient from 'gradient-string';
+import { ProjectFiles, type FileChange, type FileContent } from './projectFiles.js';
+import { featureOptions, templates, getTemplateManifest, type ProjectOptions } from './options.js';
+import {
+  TEMPLATES_DIR,
+  MANIFEST_FILE,
+  applyTemplateVariables,
+  hasTemplateVariables,
+  type TemplateManifest,
+} from './templateManifest.js';
+import { VERSIONS } from './versions.js';
+import { ViteConfig } from './viteConfig.js';
+import { EntryFile, type EntryWiring } from './entryFile.js';
+import { getStateManagementFiles } from './stateManagement.js';
+import { getApiClientFiles, API_PROXY_PATH, API_PROXY_TARGET, TANSTACK_QUERY_PACKAGES, TRPC_SERVER_COMMAND } from './apiClient.js';
+import { getRoutingFiles } from './routing.js';
+import { getSampleTestSubject, getTestOptions, getUnitTestFiles } from './unitTesting.js';
+import {
+  addEndToEndJob,
+  addPlaywrightIgnores,
+  getEndToEndTestFiles,
+  removeEndToEndJob,
+  removePlaywrightIgnores,
+} from './endToEndTesting.js';
+import { getGlobalStyles, getStorybookFiles, STORYBOOK_FRAMEWORKS } from './storybook.js';
+import { getGitHookFiles } from './gitHooks.js';
+import { getStylingOverlayDir, getUnusedStylesheets, TAILWIND_CONFIG_FILES, TAILWIND_PACKAGES } from './styling.js';
+import { getLintingFiles, LINTER_PACKAGES, LINT_SCRIPTS } from './linting.js';
+import {
+  getComponentLibraryFiles,
+  getDeclarationPlugin,
+  getDeclarationScript,
+  getDeclarationTool,
+  getLibraryBuildOptions,
+  getLibraryPackageFields,
+  hasLibraryStyles,
+  LIBRARY_PACKAGE_FIELDS,
+  LIBRARY_PEERS,
+} from './componentLibrary.js';
+import {
+  GENERATION_MANIFEST_PATH,
+  createGenerationManifest,
+  parseGenerationManifest,
+  formatGenerationManifest,
+  recordFileChanges,
+  hashContent,
+  type GenerationManifest,
+  type GenerationOptions,
+} from './generationManifest.js';
+import {
+  pluginSupports,
+  runPluginHook,
+  assertPluginFilePath,
+  type PluginContext,
+} from './plugins.js';
+import {
+  ProjectGenerationError,
+  ERROR_CODES,
+  cleanupProject,
+  wrapError,
+} from './errorHandling.js';
+import {
+  planFiles,
+  diffDependencies,
+  getAddedScripts,
+  formatGenerationPlan,
+} from './generationPlan.js';
+
+// Never copied from a template, as custom templates may be working copies
+const TEMPLATE_EXCLUDES = ['node_modules', '.git'];
+
+// The GitHub Actions workflow the github-actions feature creates
+const WORKFLOW_PATH = '.github/workflows/ci.yml';
+
+// Content of a freshly created repository that a project can be generated next to
+const IGNORABLE_ENTRIES = [
+  '.git',
+  '.gitattributes',
+  '.gitignore',
+  '.DS_Store',
+  'Thumbs.db',
+  '.idea',
+  '.vscode',
+  '.editorconfig',
+  'README',
+  'README.md',
+  'LICENSE',
+  'LICENSE.md',
+  'LICENSE.txt',
+];
+
+/**
+ * Project generator class
+ */
+export class ProjectGenerator {
+  private options: ProjectOptions;
+  private projectPath: string;
+  private templatePath: string;
+  private files: ProjectFiles;
+  private spinner: any;
+  private silent: boolean;
+  private output: Pick<Console, 'log' | 'warn' | 'error'>;
+  private createdProjectDir = false;
+  /** Entries of the project directory before generation, when it already existed */
+  private preexistingEntries?: Set<string>;
+  private templateManifest?: TemplateManifest;
+
+  constructor(options: ProjectOptions, projectPath?: string, silent = false) {
+    this.options = options;
+    this.projectPath = projectPath ?? resolve(process.cwd(), options.name);
+    this.templatePath = options.templatePath ?? join(TEMPLATES_DIR, options.template);
+    this.files = new ProjectFiles(this.projectPath);
+    this.silent = silent;
+    this.output = silent ? { log: () => {}, warn: () => {}, error: () => {} } : console;
+    this.spinner = ora({ isSilent: silent });
+  }
+
+  /**
+   * Generate the project
+   * Returns the files written, or the files that would be written on a dry run.
+   * Throws a ProjectGenerationError on failure, after removing the partially
+   * generated project.
+   */
+  async generate(dryRun = false): Promise<FileChange[]> {
+    this.output.log(chalk.magenta(`→ ${dryRun ? 'Planning' : 'Creating'} your project in: ${chalk.bold(this.options.name)}\n`));
+    
+    this.spinner.start('Creating project structure...');
+    
+    try {
+      // Validate project directory
+      this.validateProjectDir(dryRun);
+      
+      // Copy template files
+      await this.copyTemplateFiles();
+      const templateFiles = this.files.getWrittenFiles();
+      
+      // Customize files based on options
+      await this.customizeFiles();
+      
+      // Keep or overwrite files that already exist in the project directory
+      this.resolveConflicts();
+      
+      // Record what was generated in .viant/project.json
+      this.writeGenerationManifest();
+      
+      if (dryRun) {
+        this.spinner.stop();
+        const plannedChanges = this.files.getChanges();
+        this.showGenerationPlan(templateFiles);
+        return plannedChanges;
+      }
+      
+      // Write the staged project files to disk
+      const changes = this.files.apply();
+      
+      // Initialize git before installing, so the prepare script can install git hooks
+      const gitInitialized = this.options.initGit && this.initializeGit();
+      
+      this.spinner.succeed('✅ Project structure created successfully!');
+      
+      // Install dependencies if requested
+      if (this.options.installDeps) {
+        await this.installDependencies();
+      }
+
+      // Commit after installing, so the lockfile is part of the initial commit
+      if (gitInitialized) {
+        this.createInitialCommit();
+      }
+      
+      // Show completion message
+      this.showCompletionMessage();
+      
+      // Run dev server if requested
+      if (this.options.runDev && this.options.installDeps) {
+        await this.runDevServer();
+      }
+      
+      return changes;
+    } catch (error: any) {
+      this.spinner.fail('❌ Failed to create project');
+      
+      // Perform cleanup and report result
+      if (!dryRun) {
+        this.cleanup();
+      }
+      
+      throw error instanceof ProjectGenerationError 
+        ? error 
+        : wrapError(error, 'Project generation failed');
+    }
+  }
+
+  /**
+   * Apply the selected features to an existing project
+   * Stages the same dependency and config changes generate() makes, and asks
+   * before overwriting existing files that would be replaced wholesale
+   */
+  async applyFeatures(overwrite = false): Promise<void> {
+    this.spinner.start(`Adding ${this.options.features.join(', ')}...`);
+
+    try {
+      this.updatePackageJson(packageJson => {
+        this.addFeatureDependencies(packageJson);
+        this.addPluginDependencies(packageJson);
+      });
+      this.addFeatureConfigs();
+      this.addPluginConfigs();
+      this.updateGenerationManifest(options => {
+        options.features = [...new Set([...options.features, ...this.options.features])];
+        options.stateManagement = this.options.stateManagement ?? options.stateManagement;
+        options.apiClient = this.options.apiClient ?? options.apiClient;
+        options.router = this.options.router ?? options.router;
+        options.linter = this.options.linter ?? options.linter;
+      });
+
+      const conflicts = this.files.getConflicts();
+      if (conflicts.length > 0 && !overwrite) {
+        this.spinner.stop();
+        this.output.log(chalk.yellow('\nThe following files already exist and would be overwritten:'));
+        conflicts.forEach(file => this.output.log(chalk.yellow(`  ${file}`)));
+
+        const { confirmed } = await prompts({
+          type: 'confirm',
+          name: 'confirmed',
+          message: chalk.bold('Overwrite these files?'),
+          initial: false
+        });
+
+        if (!confirmed) {
+          throw new ProjectGenerationError(
+            `${conflicts.length} existing file(s) would be overwritten`,
+            ERROR_CODES.FILE_CONFLICT,
+            {
+              recoverable: true,
+              hint: 'No files were changed. Re-run with --yes to overwrite them.',
+            }
+          );
+        }
+        this.spinner.start();
+      }
+
+      const changes = this.files.apply();
+      this.spinner.succeed(`✅ Added ${this.options.features.join(', ')}`);
+
+      changes.forEach(change => {
+        const marker = change.type === 'create' ? chalk.green('+') : change.type === 'delete' ? chalk.red('-') : chalk.yellow('~');
+        this.output.log(`  ${marker} ${change.path}`);
+      });
+
+      this.output.log(chalk.cyan(`\nRun ${chalk.bold(`${this.options.packageManager} install`)} to install the new dependencies.`));
+    } catch (error: any) {
+      this.spinner.fail('❌ Failed to add features');
+      throw error instanceof ProjectGenerationError
+        ? error
+        : wrapError(error, 'Adding features failed');
+    }
+  }
+
+  /**
+   * Remove previously added features from an existing project
+   * Reverts the package.json entries, generated files and vite plugins the
+   * feature pipeline adds, and asks before deleting files that were edited
+   */
+  async removeFeatures(confirmDeletes = false): Promise<void> {
+    this.spinner.start(`Removing ${this.options.features.join(', ')}...`);
+
+    try {
+      this.removeFeatureDependencies();
+      const editedFiles = this.removeFeatureFiles();
+      this.revertFeatureConfigs();
+      this.updateGenerationManifest(options => {
+        options.features = options.features.filter(feature => !this.options.features.includes(feature));
+        if (this.options.features.includes('state-management')) {
+          delete options.stateManagement;
+        }
+        if (this.options.features.includes('api-client')) {
+          delete options.apiClient;
+        }
+        if (this.options.features.includes('routing')) {
+          delete options.router;
+        }
+        if (this.options.features.includes('linting')) {
+          delete options.linter;
+        }
+      });
+
+      if (editedFiles.length > 0 && !confirmDeletes) {
+        this.spinner.stop();
+        this.output.log(chalk.yellow('\nThe following generated files have been edited since they were created:'));
+        editedFiles.forEach(file => this.output.log(chalk.yellow(`  ${file}`)));
+
+        const { confirmed } = await prompts({
+          type: 'confirm',
+          name: 'confirmed',
+          message: chalk.bold('Delete these files anyway?'),
+          initial: false
+        });
+
+        if (!confirmed) {
+          throw new ProjectGenerationError(
+            `${editedFiles.length} edited file(s) would be deleted`,
+            ERROR_CODES.FILE_CONFLICT,
+            {
+              recoverable: true,
+              hint: 'No files were changed. Re-run with --yes to delete them.',
+            }
+          );
+        }
+        this.spinner.start();
+      }
+
+      const changes = this.files.apply();
+      this.spinner.succeed(`✅ Removed ${this.options.features.join(', ')}`);
+
+      changes.forEach(change => {
+        const marker = change.type === 'create' ? chalk.green('+') : change.type === 'delete' ? chalk.red('-') : chalk.yellow('~');
+        this.output.log(`  ${marker} ${change.path}`);
+      });
+
+      this.output.log(chalk.cyan(`\nRun ${chalk.bold(`${this.options.packageManager} install`)} to prune the removed dependencies.`));
+    } catch (error: any) {
+      this.spinner.fail('❌ Failed to remove features');
+      throw error instanceof ProjectGenerationError
+        ? error
+        : wrapError(error, 'Removing features failed');
+    }
+  }
+
+  /**
+   * Get the dependencies and scripts the given features add to package.json
+   */
+  private getFeatureContributions(features: string[]): any {
+    const contributions = { dependencies: {}, devDependencies: {}, scripts: {} };
+    this.addFeatureDependencies(contributions, features);
+    return contributions;
+  }
+
+  /**
+   * Remove the dependencies and scripts added by the selected features
+   * Entries also needed by another installed feature are kept, and scripts
+   * are only removed if they still have the generated command
+   */
+  private removeFeatureDependencies(): void {
+    this.updatePackageJson(packageJson => {
+      const installed = { ...packageJson.dependencies, ...packageJson.devDependencies };
+      const otherFeatures = featureOptions
+        .map(feature => feature.value)
+        .filter(feature => !this.options.features.includes(feature))
+        .filter(feature => {
+          const { dependencies, devDependencies } = this.getFeatureContributions([feature]);
+          const names = Object.keys({ ...dependencies, ...devDependencies });
+          return names.length > 0 && names.every(name => installed[name]);
+        });
+
+      const removed = this.getFeatureContributions(this.options.features);
+      const kept = this.getFeatureContributions(otherFeatures);
+
+      for (const field of ['dependencies', 'devDependencies']) {
+        for (const name of Object.keys(removed[field])) {
+          if (!kept.dependencies[name] && !kept.devDependencies[name]) {
+            delete packageJson[field][name];
+          }
+        }
+      }
+
+      for (const [script, command] of Object.entries(removed.scripts)) {
+        if (packageJson.scripts[script] === command && !kept.scripts[script]) {
+          delete packageJson.scripts[script];
+        }
+      }
+    });
+  }
+
+  /**
+   * Stage the deletion of files generated by the selected features
+   * Returns the files whose content no longer matches what was generated
+   */
+  private removeFeatureFiles(): string[] {
+    const generator = new ProjectGenerator(this.options, this.projectPath);
+    generator.addFeatureConfigs();
+    const manifest = this.readGenerationManifest();
+
+    const editedFiles: string[] = [];
+    for (const [path, content] of generator.files.getWrittenFiles()) {
+      if (!this.files.exists(path)) {
+        continue;
+      }
+
+      // Compare against the recorded hash when there is one, as the
+      // regenerated content differs once dependency versions change
+      const current = this.files.read(path);
+      const recordedHash = manifest?.files[path];
+      if (recordedHash ? hashContent(current) !== recordedHash : current !== content.toString()) {
+        editedFiles.push(path);
+      }
+      this.files.remove(path);
+    }
+
+    return editedFiles;
+  }
+
+  /**
+   * Revert the in-place config edits made by the selected features
+   */
+  private revertFeatureConfigs(): void {
+    if (this.options.features.includes('pwa')) {
+      this.removeVitePlugin('vite-plugin-pwa', 'VitePWA');
+    }
+
+    if (this.options.features.includes('analyzer')) {
+      this.removeVitePlugin('rollup-plugin-visualizer', 'visualizer');
+    }
+
+    if (this.options.features.includes('strict-ts') && this.options.typescript) {
+      this.removeStrictTypeScriptConfig();
+    }
+
+    if (this.options.features.includes('vitest') && this.files.exists(join(this.projectPath, this.manifest.viteConfig))) {
+      this.editViteConfig(config => {
+        config.removeOption('test');
+        config.removeTypeReference('vitest/config');
+      });
+      if (this.options.framework === 'svelte') {
+        this.removeVitePlugin('@testing-library/svelte/vite', 'svelteTesting');
+      }
+    }
+
+    if (this.options.features.includes('api-client') && this.files.exists(join(this.projectPath, this.manifest.viteConfig))) {
+      this.editViteConfig(config => config.removeOption('server', 'proxy', API_PROXY_PATH));
+    }
+
+    if (this.options.features.includes('component-lib')) {
+      this.removeComponentLibraryConfig();
+    }
+
+    if (this.options.features.includes('playwright')) {
+      this.editTextFile('.gitignore', removePlaywrightIgnores);
+      this.editTextFile(WORKFLOW_PATH, removeEndToEndJob);
+    }
+
+    const wirings = this.getEntryWirings();
+    if (wirings.length > 0 && this.files.exists(join(this.projectPath, this.manifest.entry))) {
+      this.editEntryFile(entry => wirings.reverse().forEach(wiring => entry.unwire(wiring)));
+    }
+  }
+
+  /**
+   * Handle generated files that would overwrite existing ones
+   * --force replaces them; otherwise they are kept, which without --merge
+   * only happens for files like README.md that may exist in an empty project.
+   */
+  private resolveConflicts(): void {
+    const conflicts = this.files.getConflicts();
+    if (conflicts.length === 0) {
+      return;
+    }
+
+    const merge = this.options.existingFiles !== 'force';
+    if (merge) {
+      conflicts.forEach(file => this.files.discard(file));
+    }
+
+    this.spinner.stop();
+    this.output.log(chalk.yellow(merge ? 'Keeping existing files:' : 'Overwriting existing files (--force):'));
+    conflicts.forEach(file => this.output.log(chalk.yellow(`  ${merge ? '=' : '~'} ${file}`)));
+    this.output.log('');
+    this.spinner.start();
+  }
+
+  /**
+   * Stage .viant/project.json, recording the options, the CLI and dependency
+   * versions, and the hash of every file generate() writes
+   */
+  private writeGenerationManifest(): void {
+    const manifest = createGenerationManifest(this.options, this.files.getChanges(), VERSIONS);
+    this.files.write(GENERATION_MANIFEST_PATH, formatGenerationManifest(manifest));
+  }
+
+  /**
+   * Read .viant/project.json of an existing project
+   */
+  private readGenerationManifest(): GenerationManifest | undefined {
+    return this.files.exists(GENERATION_MANIFEST_PATH)
+      ? parseGenerationManifest(this.files.read(GENERATION_MANIFEST_PATH))
+      : undefined;
+  }
+
+  /**
+   * Update .viant/project.json after adding or removing features, recording
+   * the new options and the hashes of the changed files
+   * Projects generated without a manifest are left without one.
+   */
+  private updateGenerationManifest(updateOptions: (options: GenerationOptions) => void): void {
+    const manifest = this.readGenerationManifest();
+    if (!manifest) {
+      return;
+    }
+
+    updateOptions(manifest.options);
+    manifest.updatedAt = new Date().toISOString();
+    manifest.files = recordFileChanges(manifest.files, this.files.getChanges());
+    this.files.write(GENERATION_MANIFEST_PATH, formatGenerationManifest(manifest));
+  }
+
+  /**
+   * Validate project directory
+   * The directory is only created when files are going to be written
+   */
+  private validateProjectDir(dryRun = false): void {
+    if (existsSync(this.projectPath)) {
+      if (!statSync(this.projectPath).isDirectory()) {
+        throw new ProjectGenerationError(
+          `"${this.projectPath}" already exists and is not a directory`,
+          ERROR_CODES.DIR_EXISTS,
+          {
+            recoverable: false,
+            hint: 'Please choose a different project name or location.',
+          }
+        );
+      }
+
+      const entries = readdirSync(this.projectPath);
+      const blocking = entries.filter(entry => !IGNORABLE_ENTRIES.includes(entry));
+      if (blocking.length > 0 && !this.options.existingFiles) {
+        throw new ProjectGenerationError(
+          `Directory "${this.options.name}" already exists and is not empty (${blocking.slice(0, 5).join(', ')}${blocking.length > 5 ? ', ...' : ''})`,
+          ERROR_CODES.DIR_EXISTS,
+          {
+            recoverable: false,
+            hint: 'Use --merge to keep existing files or --force to overwrite them, or choose a different project name.',
+          }
+        );
+      }
+
+      this.preexistingEntries = new Set(entries);
+      return;
+    }
+    
+    if (dryRun) {
+      return;
+    }
+    
+    try {
+      mkdirSync(this.projectPath, { recursive: true });
+      this.createdProjectDir = true;
+    } catch (error: any) {
+      if (error.code === 'EACCES') {
+        throw new ProjectGenerationError(
+          `Permission denied when creating directory "${this.options.name}"`,
+          ERROR_CODES.PERMISSION_DENIED,
+          {
+            recoverable: false,
+            hint: 'Please check your file system permissions or try a different location.',
+            cause: error,
+          }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Copy template files
+   */
+  private async copyTemplateFiles(): Promise<void> {
+    this.spinner.text = `Copying ${this.options.template} template files...`;
+    
+    // Check if template exists
+    if (!existsSync(this.templatePath)) {
+      throw new ProjectGenerationError(
+        `Template "${this.options.template}" not found`,
+        ERROR_CODES.TEMPLATE_NOT_FOUND,
+        {
+          recoverable: false,
+          hint: `Please check the template name and try again. Available templates: ${Object.keys(templates).join(', ')}`,
+        }
+      );
+    }
+    
+    try {
+      this.files.copyDirectory(this.templatePath, '.', TEMPLATE_EXCLUDES);
+      this.files.discard(MANIFEST_FILE);
+      this.applyTemplateVariables();
+      this.copyStylingOverlay();
+      
+      // Ensure project structure is correct
+      this.ensureProjectStructure();
+      
+      // Generate .gitignore file
+      this.generateGitignore();
+    } catch (error: any) {
+      if (error instanceof ProjectGenerationError) {
+        throw error;
+      }
+      
+      throw new ProjectGenerationError(
+        `Failed to copy template files: ${error.message}`,
+        ERROR_CODES.COPY_FAILED,
+        {
+          recoverable: false,
+          hint: 'Please check file permissions and available disk space.',
+          cause: error,
+        }
+      );
+    }
+  }
+
+  /**
+   * Restyle a bundled template for the chosen styling by copying its overlay
+   * over it, and drop the template stylesheets the overlay no longer imports
+   * and the Tailwind config files of any other styling
+   */
+  private copyStylingOverlay(): void {
+    if (this.options.templatePath) {
+      return;
+    }
+
+    if (this.options.styling !== 'tailwind') {
+      for (const configFile of TAILWIND_CONFIG_FILES) {
+        this.files.discard(configFile);
+      }
+    }
+
+    const overlayDir = getStylingOverlayDir(this.options.styling, this.options.template);
+    if (!overlayDir) {
+      return;
+    }
+
+    const templateFiles = [...this.files.getWrittenFiles().keys()];
+    this.files.copyDirectory(overlayDir);
+
+    const files = Object.fromEntries(
+      [...this.files.getWrittenFiles()].map(([path, content]) => [path, content.toString()])
+    );
+    for (const stylesheet of getUnusedStylesheets(templateFiles, files)) {
+      this.files.discard(stylesheet);
+    }
+  }
+
+  /**
+   * Ensure project structure has the directories the template manifest lists
+   */
+  private ensureProjectStructure(): void {
+    for (const directory of this.manifest.directories) {
+      const directoryPath = join(this.projectPath, directory);
+      if (!this.files.exists(directoryPath)) {
+        // Add a .gitkeep file to preserve empty directories
+        this.files.write(join(directoryPath, '.gitkeep'), '');
+      }
+    }
+  }
+
+  /**
+   * Get the manifest of the template the project is generated from
+   */
+  private get manifest(): TemplateManifest {
+    if (!this.templateManifest) {
+      const manifest = getTemplateManifest(this.options);
+      if (!manifest) {
+        throw new ProjectGenerationError(`Template "${this.options.template}" not found`, ERROR_CODES.TEMPLATE_NOT_FOUND, {
+          recoverable: false,
+          hint: `Please check the template name and try again. Available templates: ${Object.keys(templates).join(', ')}`,
+        });
+      }
+      this.templateManifest = manifest;
+    }
+    return this.templateManifest;
+  }
+
+  /**
+   * Replace template variable placeholders in the copied template files
+   * The project name is always available as {{ viant.name }}
+   */
+  private applyTemplateVariables(): void {
+    const values = { ...this.options.variables, name: this.options.name };
+
+    for (const [path, content] of this.files.getWrittenFiles()) {
+      const text = content.toString();
+      if (hasTemplateVariables(text)) {
+        this.files.write(path, applyTemplateVariables(text, values));
+      }
+    }
+  }
+
+  /**
+   * Generate .gitignore file for the project
+   */
+  private generateGitignore(): void {
+    const gitignorePath = join(this.projectPath, '.gitignore');
+    
+    // Don't overwrite if .gitignore already exists
+    if (this.files.exists(gitignorePath)) {
+      return;
+    }
+    
+    const gitignoreContent = `# Dependency directories
+node_modules/
+
+# Build output
+dist/
+build/
+
+# Environment variables
+.env
+.env.local
+.env.development
+.env.test
+.env.production
+.env*.local
+
+# IDE and editor files, except the shared editor settings
+.vscode/*
+!.vscode/extensions.json
+!.vscode/settings.json
+.idea/
+*.suo
+*.ntvs*
+*.njsproj
+*.sln
+*.sw?
+
+# OS generated files
+.DS_Store
+.DS_Store?
+._*
+.Spotlight-V100
+.Trashes
+ehthumbs.db
+Thumbs.db
+
+# Debug logs
+npm-debug.log*
+yarn-debug.log*
+yarn-error.log*
+pnpm-debug.log*
+
+# Lock files (uncomment if you want to ignore)
+# bun.lockb
+# pnpm-lock.yaml
+# package-lock.json
+# yarn.lock
+
+# Test coverage
+coverage/
+.nyc_output/
+
+# Vite cache
+.vite/
+
+# TypeScript cache
+*.tsbuildinfo
+
+# Temporary files
+*.tmp
+*.bak
+*.temp
+`;
+
+    this.files.write(gitignorePath, gitignoreContent);
+  }
+
+  /**
+   * Customize files based on options
+   */
+  private async customizeFiles(): Promise<void> {
+    this.spinner.text = 'Customizing project files...';
+    
+    this.customizePackageJson();
+    
+    if (this.options.styling) {
+      this.addStylingConfigs();
+    }
+    
+    if (this.options.features && this.options.features.length > 0) {
+      this.addFeatureConfigs();
+    }
+    
+    this.addPluginConfigs();
+  }
+
+  /**
+   * Customize package.json
+   * Ensures all required fields are present, "type": "module" is set,
+   * and validates JSON structure before writing.
+   */
+  private customizePackageJson(): void {
+    this.assertPluginsSupported();
+
+    this.updatePackageJson(packageJson => {
+      // Ensure required fields are present
+      packageJson.name = this.options.name;
+      packageJson.version = packageJson.version || '1.0.0';
+      packageJson.type = 'module'; // Always ensure ESM modules
+      
+      // Add optional metadata fields if not present
+      if (!packageJson.description) {
+        packageJson.description = `Modern ${this.options.framework} app built with Viant CLI`;
+      }
+      if (!packageJson.license) {
+        packageJson.license = 'MIT';
+      }
+      
+      this.addFrameworkDependencies(packageJson);
+      this.addStylingDependencies(packageJson);
+      this.addFeatureDependencies(packageJson);
+      this.addPluginDependencies(packageJson);
+    });
+  }
+
+  /**
+   * Read, update, validate and stage package.json
+   */
+  private updatePackageJson(update: (packageJson: any) => void): void {
+    const packageJsonPath = join(this.projectPath, 'package.json');
+    
+    if (this.files.exists(packageJsonPath)) {
+      try {
+        const packageJson = JSON.parse(this.files.read(packageJsonPath));
+        packageJson.scripts = packageJson.scripts || {};
+        packageJson.dependencies = packageJson.dependencies || {};
+        packageJson.devDependencies = packageJson.devDependencies || {};
+        
+        update(packageJson);
+        
+        // Validate JSON structure before writing
+        const jsonString = JSON.stringify(packageJson, null, 2);
+        this.validatePackageJson(packageJson);
+        
+        this.files.write(packageJsonPath, jsonString);
+      } catch (error: any) {
+        if (error instanceof ProjectGenerationError) {
+          throw error;
+        }
+        
+        throw new ProjectGenerationError(
+          `Failed to customize package.json: ${error.message}`,
+          ERROR_CODES.PACKAGE_JSON_INVALID,
+          {
+            recoverable: false,
+            hint: 'The package.json file may be corrupted or have invalid JSON syntax.',
+            cause: error,
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Validate package.json structure
+   * Ensures all required fields are present and valid
+   */
+  private validatePackageJson(pkg: any): void {
+    const requiredFields = ['name', 'version', 'type', 'scripts', 'dependencies', 'devDependencies'];
+    
+    for (const field of requiredFields) {
+      if (pkg[field] === undefined) {
+        throw new Error(`Missing required field in package.json: ${field}`);
+      }
+    }
+    
+    // Validate name is a non-empty string
+    if (typeof pkg.name !== 'string' || pkg.name.trim() === '') {
+      throw new Error('package.json name must be a non-empty string');
+    }
+    
+    // Validate version is a string
+    if (typeof pkg.version !== 'string') {
+      throw new Error('package.json version must be a string');
+    }
+    
+    // Validate type is "module"
+    if (pkg.type !== 'module') {
+      throw new Error('package.json type must be "module" for ESM support');
+    }
+    
+    // Validate scripts, dependencies, and devDependencies are objects
+    if (typeof pkg.scripts !== 'object' || pkg.scripts === null) {
+      throw new Error('package.json scripts must be an object');
+    }
+    
+    if (typeof pkg.dependencies !== 'object' || pkg.dependencies === null) {
+      throw new Error('package.json dependencies must be an object');
+    }
+    
+    if (typeof pkg.devDependencies !== 'object' || pkg.devDependencies === null) {
+      throw new Error('package.json devDependencies must be an object');
+    }
+  }
+
+  /**
+   * Add styling dependencies to package.json
+   */
+  private addStylingDependencies(pkg: any): void {
+    pkg.devDependencies = pkg.devDependencies || {};
+    pkg.dependencies = pkg.dependencies || {};
+    
+    // The bundled templates that come styled with Tailwind depend on it, which other stylings do not
+    if (!this.options.templatePath && this.options.styling !== 'tailwind') {
+      for (const name of TAILWIND_PACKAGES) {
+        delete pkg.dependencies[name];
+        delete pkg.devDependencies[name];
+      }
+    }
+    
+    switch (this.options.styling) {
+      case 'tailwind':
+        // Tailwind CSS 4 uses CSS-first configuration - no postcss/autoprefixer needed
+        pkg.dependencies.clsx = '^2.0.0';
+        pkg.devDependencies.tailwindcss = VERSIONS.tailwindcss;
+        pkg.devDependencies['@tailwindcss/vite'] = VERSIONS.tailwindcssVite;
+        break;
+        
+      case 'styled-components':
+        // styled-components 6 ships its own types
+        pkg.dependencies['styled-components'] = VERSIONS.styledComponents;
+        break;
+        
+      case 'emotion':
+        // @emotion/styled is typed against React, so Preact uses the framework-agnostic @emotion/css
+        if (this.options.framework === 'preact') {
+          pkg.dependencies['@emotion/css'] = VERSIONS.emotionCss;
+          break;
+        }
+        pkg.dependencies['@emotion/react'] = VERSIONS.emotion;
+        pkg.dependencies['@emotion/styled'] = VERSIONS.emotionStyled;
+        if (this.options.framework === 'react') {
+          pkg.devDependencies['@emotion/babel-plugin'] = '^11.11.0';
+        }
+        break;
+        
+      case 'sass':
+        pkg.devDependencies.sass = VERSIONS.sass;
+        break;
+        
+      case 'less':
+        pkg.devDependencies.less = '^4.2.0';
+        break;
+        
+      case 'stylus':
+        pkg.devDependencies.stylus = '^0.62.0';
+        break;
+        
+      case 'vanilla-extract':
+        pkg.devDependencies['@vanilla-extract/css'] = VERSIONS.vanillaExtract;
+        pkg.devDependencies['@vanilla-extract/vite-plugin'] = VERSIONS.vanillaExtractVitePlugin;
+        break;
+        
+      case 'unocss':
+        pkg.devDependencies.unocss = VERSIONS.unocss;
+        pkg.devDependencies['@unocss/reset'] = VERSIONS.unocss;
+        break;
+    }
+  }
+
+  /**
+   * Add feature dependencies to package.json
+   */
+  private addFeatureDependencies(pkg: any, features: string[] = this.options.features): void {
+    pkg.dependencies = pkg.dependencies || {};
+    pkg.devDependencies = pkg.devDependencies || {};
+    pkg.scripts = pkg.scripts || {};
+    
+    if (features.includes('pwa')) {
+      pkg.devDependencies['vite-plugin-pwa'] = VERSIONS.vitePluginPWA;
+    }
+    
+    if (features.includes('analyzer')) {
+      pkg.devDependencies['rollup-plugin-visualizer'] = VERSIONS.rollupPluginVisualizer;
+      pkg.scripts.analyze = 'vite build --mode analyze';
+    }
+    
+    if (features.includes('vitest')) {
+      pkg.devDependencies.vitest = VERSIONS.vitest;
+      pkg.devDependencies['@vitest/ui'] = VERSIONS.vitestUi;
+      pkg.devDependencies['@vitest/coverage-v8'] = VERSIONS.vitestCoverageV8;
+      pkg.devDependencies['happy-dom'] = VERSIONS.happyDom;
+      pkg.devDependencies['@testing-library/jest-dom'] = VERSIONS.testingLibraryJestDom;
+      this.addTestingLibraryDependencies(pkg);
+      pkg.scripts.test = 'vitest';
+      pkg.scripts['test:ui'] = 'vitest --ui';
+      pkg.scripts['test:coverage'] = 'vitest run --coverage';
+    }
+    
+    if (features.includes('playwright')) {
+      pkg.devDependencies['@playwright/test'] = VERSIONS.playwright;
+      pkg.scripts['test:e2e'] = 'playwright test';
+    }
+    
+    if (features.includes('linting') && this.options.linter) {
+      this.addLinterDependencies(pkg);
+      Object.assign(pkg.scripts, LINT_SCRIPTS[this.options.linter]);
+    }
+    
+    if (features.includes('storybook')) {
+      Object.assign(pkg.devDependencies, {
+        storybook: VERSIONS.storybook,
+        '@storybook/addon-docs': VERSIONS.storybook,
+        // Solid's Storybook integration is a community package, versioned separately
+        [STORYBOOK_FRAMEWORKS[this.options.framework]]:
+          this.options.framework === 'solid' ? VERSIONS.storybookSolid : VERSIONS.storybook,
+      });
+      pkg.scripts.storybook = 'storybook dev -p 6006';
+      pkg.scripts['build-storybook'] = 'storybook build';
+    }
+    
+    if (features.includes('husky')) {
+      pkg.devDependencies.husky = VERSIONS.husky;
+      pkg.devDependencies['lint-staged'] = VERSIONS.lintStaged;
+      pkg.devDependencies['@commitlint/cli'] = VERSIONS.commitlint;
+      pkg.devDependencies['@commitlint/config-conventional'] = VERSIONS.commitlint;
+      // Installs the hooks on every install, in a git repository
+      pkg.scripts.prepare = 'husky';
+    }
+
+    if (features.includes('component-lib')) {
+      this.addComponentLibraryDependencies(pkg);
+    }
+
+    // Internationalization (i18n)
+    if (features.includes('i18n')) {
+      this.addI18nDependencies(pkg);
+    }
+    
+    // State management
+    if (features.includes('state-management') && this.options.stateManagement) {
+      this.addStateManagementDependencies(pkg);
+    }
+    
+    // API client
+    if (features.includes('api-client') && this.options.apiClient) {
+      this.addApiClientDependencies(pkg);
+    }
+
+    // Routing
+    if (features.includes('routing') && this.options.router) {
+      this.addRouterDependencies(pkg);
+    }
+  }
+  
+  /**
+   * Add the declaration tool and the scripts building, previewing and
+   * packing the component library
+   */
+  private addComponentLibraryDependencies(pkg: any): void {
+    const { framework, typescript, packageManager } = this.options;
+    switch (getDeclarationTool(framework, typescript)) {
+      case 'vite-plugin-dts':
+        pkg.devDependencies['vite-plugin-dts'] = VERSIONS.vitePluginDts;
+        break;
+      case 'svelte-package':
+        pkg.devDependencies['@sveltejs/package'] = VERSIONS.sveltePackage;
+        // Emits the declarations, from JSDoc in JavaScript projects
+        if (!typescript) {
+          pkg.devDependencies.typescript = VERSIONS.typescript;
+        }
+        break;
+    }
+
+    const declarations = getDeclarationScript(framework, typescript);
+    if (declarations) {
+      pkg.scripts['build:types'] = declarations;
+    }
+    pkg.scripts.playground = 'vite --open /playground/';
+    // Publishing always builds first
+    pkg.scripts.prepack = `${packageManager} run build`;
+    pkg.scripts['test:pack'] = `${packageManager} run build && node --conditions=browser scripts/test-pack.js`;
+  }
+
+  /**
+   * Add the Testing Library package for the framework
+   */
+  private addTestingLibraryDependencies(pkg: any): void {
+    switch (this.options.framework) {
+      case 'react':
+        pkg.devDependencies['@testing-library/react'] = VERSIONS.testingLibraryReact;
+        // Peer dependency of @testing-library/react
+        pkg.devDependencies['@testing-library/dom'] = VERSIONS.testingLibraryDom;
+        break;
+      case 'preact':
+        pkg.devDependencies['@testing-library/preact'] = VERSIONS.testingLibraryPreact;
+        break;
+      case 'vue':
+        pkg.devDependencies['@testing-library/vue'] = VERSIONS.testingLibraryVue;
+        break;
+      case 'svelte':
+        pkg.devDependencies['@testing-library/svelte'] = VERSIONS.testingLibrarySvelte;
+        break;
+      case 'solid':
+        pkg.devDependencies['@solidjs/testing-library'] = VERSIONS.solidTestingLibrary;
+        break;
+      case 'vanilla':
+        pkg.devDependencies['@testing-library/dom'] = VERSIONS.testingLibraryDom;
+        break;
+    }
+  }
+
+  /**
+   * Add framework-specific dependencies
+   */
+  private addFrameworkDependencies(pkg: any): void {
+    switch (this.options.framework) {
+      case 'react':
+        pkg.dependencies.react = VERSIONS.react;
+        pkg.dependencies['react-dom'] = VERSIONS.reactDom;
+        pkg.devDependencies['@vitejs/plugin-react-swc'] = VERSIONS.vitePluginReactSWC;
+        if (this.options.typescript) {
+          pkg.devDependencies['@types/react'] = VERSIONS.typesReact;
+          pkg.devDependencies['@types/react-dom'] = VERSIONS.typesReactDom;
+        }
+        break;
+        
+      case 'preact':
+        pkg.dependencies.preact = VERSIONS.preact;
+        pkg.devDependencies['@preact/preset-vite'] = VERSIONS.preactPresetVite;
+        if (this.options.typescript) {
+          pkg.devDependencies['@types/node'] = VERSIONS.typesNode;
+        }
+        break;
+        
+      case 'vue':
+        pkg.dependencies.vue = VERSIONS.vue;
+        pkg.devDependencies['@vitejs/plugin-vue'] = VERSIONS.vitePluginVue;
+        if (this.options.typescript) {
+          pkg.devDependencies['vue-tsc'] = VERSIONS.vueTsc;
+        }
+        break;
+        
+      case 'svelte':
+        pkg.dependencies.svelte = VERSIONS.svelte;
+        pkg.devDependencies['@sveltejs/vite-plugin-svelte'] = VERSIONS.vitePluginSvelte;
+        if (this.options.typescript) {
+          pkg.devDependencies['@tsconfig/svelte'] = VERSIONS.tsconfigSvelte;
+          pkg.devDependencies.tslib = VERSIONS.tslib;
+          pkg.devDependencies['svelte-check'] = VERSIONS.svelteCheck;
+        }
+        break;
+        
+      case 'solid':
+        pkg.dependencies['solid-js'] = VERSIONS.solid;
+        pkg.devDependencies['vite-plugin-solid'] = VERSIONS.vitePluginSolid;
+        if (this.options.typescript) {
+          pkg.devDependencies['@types/node'] = VERSIONS.typesNode;
+        }
+        break;
+    }
+  }
+  
+  /**
+   * Add state management dependencies
+   */
+  private addStateManagementDependencies(pkg: any): void {
+    switch (this.options.stateManagement) {
+      case 'redux-toolkit':
+        pkg.dependencies['@reduxjs/toolkit'] = VERSIONS.reduxToolkit;
+        pkg.dependencies['react-redux'] = VERSIONS.reactRedux;
+        break;
+      case 'zustand':
+        pkg.dependencies.zustand = VERSIONS.zustand;
+        break;
+      case 'jotai':
+        pkg.dependencies.jotai = VERSIONS.jotai;
+        break;
+      case 'valtio':
+        pkg.dependencies.valtio = VERSIONS.valtio;
+        break;
+      case 'pinia':
+        pkg.dependencies.pinia = VERSIONS.pinia;
+        break;
+      case 'vuex':
+        pkg.dependencies.vuex = '^4.1.0';
+        break;
+    }
+  }
+  
+  /**
+   * Add API client dependencies
+   */
+  private addApiClientDependencies(pkg: any): void {
+    switch (this.options.apiClient) {
+      case 'axios':
+        pkg.dependencies.axios = VERSIONS.axios;
+        break;
+      case 'tanstack-query':
+        pkg.dependencies[TANSTACK_QUERY_PACKAGES[this.options.framework]] = VERSIONS.tanstackQuery;
+        if (TANSTACK_QUERY_PACKAGES[this.options.framework] === '@tanstack/react-query') {
+          pkg.devDependencies['@tanstack/react-query-devtools'] = VERSIONS.tanstackQueryDevtools;
+        }
+        break;
+      case 'swr':
+        pkg.dependencies.swr = VERSIONS.swr;
+        break;
+      case 'trpc':
+        pkg.dependencies['@trpc/client'] = VERSIONS.trpc;
+        pkg.dependencies['@trpc/server'] = VERSIONS.trpc;
+        pkg.dependencies.zod = VERSIONS.zod;
+        pkg.devDependencies.concurrently = VERSIONS.concurrently;
+        pkg.devDependencies.tsx = VERSIONS.tsx;
+        pkg.scripts['dev:server'] = TRPC_SERVER_COMMAND;
+        pkg.scripts['dev:all'] = `concurrently -n web,server -c cyan,magenta "vite" "${TRPC_SERVER_COMMAND}"`;
+        break;
+    }
+  }
+
+  /**
+   * Add the linter, its framework plugins and the formatter it is paired with
+   * The templates ship Biome, which another linter replaces.
+   */
+  private addLinterDependencies(pkg: any): void {
+    const { linter, framework, typescript } = this.options;
+    for (const name of Object.values(LINTER_PACKAGES)) {
+      delete pkg.devDependencies[name];
+    }
+
+    switch (linter) {
+      case 'biome':
+        pkg.devDependencies['@biomejs/biome'] = VERSIONS.biome;
+        return;
+      case 'eslint':
+        Object.assign(pkg.devDependencies, {
+          eslint: VERSIONS.eslint,
+          '@eslint/js': VERSIONS.eslintJs,
+          globals: VERSIONS.globals,
+          'eslint-config-prettier': VERSIONS.eslintConfigPrettier,
+        });
+        if (typescript) {
+          pkg.devDependencies['typescript-eslint'] = VERSIONS.typescriptEslint;
+        }
+        switch (framework) {
+          case 'react':
+            pkg.devDependencies['eslint-plugin-react-refresh'] = VERSIONS.eslintPluginReactRefresh;
+            pkg.devDependencies['eslint-plugin-react-hooks'] = VERSIONS.eslintPluginReactHooks;
+            break;
+          case 'preact':
+            pkg.devDependencies['eslint-plugin-react-hooks'] = VERSIONS.eslintPluginReactHooks;
+            break;
+          case 'vue':
+            pkg.devDependencies['eslint-plugin-vue'] = VERSIONS.eslintPluginVue;
+            break;
+          case 'svelte':
+            pkg.devDependencies['eslint-plugin-svelte'] = VERSIONS.eslintPluginSvelte;
+            break;
+          case 'solid':
+            pkg.devDependencies['eslint-plugin-solid'] = VERSIONS.eslintPluginSolid;
+            break;
+        }
+        break;
+      case 'oxlint':
+        pkg.devDependencies.oxlint = VERSIONS.oxlint;
+        break;
+    }
+
+    pkg.devDependencies.prettier = VERSIONS.prettier;
+    if (framework === 'svelte') {
+      pkg.devDependencies['prettier-plugin-svelte'] = VERSIONS.prettierPluginSvelte;
+    }
+  }
+
+  /**
+   * Add router dependencies. The history router is generated code and needs none.
+   */
+  private addRouterDependencies(pkg: any): void {
+    switch (this.options.router) {
+      case 'react-router':
+        pkg.dependencies['react-router'] = VERSIONS.reactRouter;
+        break;
+      case 'vue-router':
+        pkg.dependencies['vue-router'] = VERSIONS.vueRouter;
+        break;
+      case 'solid-router':
+        pkg.dependencies['@solidjs/router'] = VERSIONS.solidRouter;
+        break;
+      case 'preact-iso':
+        pkg.dependencies['preact-iso'] = VERSIONS.preactIso;
+        break;
+      case 'wouter':
+        pkg.dependencies['wouter-preact'] = VERSIONS.wouterPreact;
+        break;
+    }
+  }
+
+  /**
+   * Add internationalization (i18n) dependencies based on framework
+   */
+  private addI18nDependencies(pkg: any): void {
+    switch (this.options.framework) {
+      case 'react':
+      case 'preact':
+        pkg.dependencies['react-i18next'] = VERSIONS.reactI18next;
+        pkg.dependencies['i18next'] = VERSIONS.i18next;
+        break;
+      case 'vue':
+        pkg.dependencies['vue-i18n'] = VERSIONS.vueI18n;
+        break;
+      case 'svelte':
+        pkg.dependencies['svelte-i18n'] = '^4.0.1';
+        break;
+      case 'solid':
+        // Solid uses a simple custom implementation, no external dependency needed
+        // Or can use @solid-primitives/i18n
+        pkg.dependencies['@solid-primitives/i18n'] = '^2.1.1';
+        break;
+      default:
+        // Vanilla JS - no external dependency needed, uses custom implementation
+        break;
+    }
+  }
+
+  /**
+   * Add the Vite plugin of styling solutions that compile through Vite
+   * Stylesheets and config files come from the template's styling overlay.
+   */
+  private addStylingConfigs(): void {
+    const stylingPlugins: Record<string, { importStatement: string; plugin: string }> = {
+      tailwind: { importStatement: `import tailwindcss from '@tailwindcss/vite';`, plugin: 'tailwindcss()' },
+      'vanilla-extract': {
+        importStatement: `import { vanillaExtractPlugin } from '@vanilla-extract/vite-plugin';`,
+        plugin: 'vanillaExtractPlugin()',
+      },
+      unocss: { importStatement: `import UnoCSS from 'unocss/vite';`, plugin: 'UnoCSS()' },
+    };
+
+    const stylingPlugin = stylingPlugins[this.options.styling];
+    if (stylingPlugin) {
+      this.editViteConfig(config => {
+        config.addImport(stylingPlugin.importStatement);
+        config.addPlugin(stylingPlugin.plugin);
+      });
+    }
+  }
+
+  /**
+   * Add feature configurations
+   */
+  private addFeatureConfigs(): void {
+    if (this.options.features.includes('pwa')) {
+      this.addPWAConfig();
+    }
+
+    if (this.options.features.includes('analyzer')) {
+      this.addBundleAnalyzerConfig();
+    }
+
+    if (this.options.features.includes('i18n')) {
+      this.addI18nConfig();
+    }
+
+    if (this.options.features.includes('github-actions')) {
+      const workflow = `name: CI/CD
+
+on:
+  push:
+    branches: [ main ]
+  pull_request:
+    branches: [ main ]
+
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    steps:
+    - uses: actions/checkout@v4
+    - uses: actions/setup-node@v4
+      with:
+        node-version: 18
+    - run: ${this.options.packageManager} install
+    - run: ${this.options.packageManager} run lint
+    - run: ${this.options.packageManager} run build`;
+
+      this.files.write(join(this.projectPath, WORKFLOW_PATH), workflow);
+    }
+
+    if (this.options.features.includes('docker')) {
+      const dockerfile = `FROM node:18-alpine as builder
+WORKDIR /app
+COPY package*.json ./
+RUN ${this.options.packageManager === 'npm' ? 'npm ci' : 
+            this.options.packageManager === 'yarn' ? 'yarn install --frozen-lockfile' :
+            this.options.packageManager === 'pnpm' ? 'pnpm install --frozen-lockfile' :
+            'bun install'}
+COPY . .
+RUN ${this.options.packageManager} run build
+
+FROM nginx:alpine
+COPY nginx.conf /etc/nginx/conf.d/default.conf
+COPY --from=builder /app/dist /usr/share/nginx/html
+EXPOSE 80
+CMD ["nginx", "-g", "daemon off;"]`;
+
+      this.files.write(join(this.projectPath, 'Dockerfile'), dockerfile);
+
+      const nginxConfig = `server {
+    listen 80;
+    root /usr/share/nginx/html;
+    index index.html;
+
+    # Client-side routes such as /about only exist in the app, so serve it for unknown paths
+    location / {
+        try_files $uri $uri/ /index.html;
+    }
+
+    # Missing build assets are a real 404 rather than the app
+    location /assets/ {
+        try_files $uri =404;
+        expires 1y;
+        add_header Cache-Control "public, immutable";
+    }
+}
+`;
+
+      this.files.write(join(this.projectPath, 'nginx.conf'), nginxConfig);
+
+      const dockerIgnore = `node_modules
+.git
+.gitignore
+README.md
+Dockerfile
+.dockerignore
+npm-debug.log`;
+
+      this.files.write(join(this.projectPath, '.dockerignore'), dockerIgnore);
+    }
+
+    if (this.options.features.includes('vitest')) {
+      this.addVitestConfig();
+    }
+
+    if (this.options.features.includes('storybook')) {
+      this.addStorybookConfig();
+    }
+
+    if (this.options.features.includes('component-lib')) {
+      this.addComponentLibraryConfig();
+    }
+
+    if (this.options.features.includes('linting') && this.options.linter) {
+      this.addLintingConfig();
+    }
+
+    // After linting, whose linter the hooks run
+    if (this.options.features.includes('husky')) {
+      this.addGitHooksConfig();
+    }
+
+    // After github-actions, whose workflow gets a job running the tests
+    if (this.options.features.includes('playwright')) {
+      this.addPlaywrightConfig();
+    }
+
+    // Add strict TypeScript configuration when strict-ts feature is selected
+    if (this.options.features.includes('strict-ts') && this.options.typescript) {
+      this.addStrictTypeScriptConfig();
+    }
+
+    if (this.options.features.includes('state-management') && this.options.stateManagement) {
+      this.addStateManagementConfig();
+    }
+
+    if (this.options.features.includes('api-client') && this.options.apiClient) {
+      this.addApiClientConfig();
+    }
+
+    if (this.options.features.includes('routing') && this.options.router) {
+      this.addRoutingConfig();
+    }
+
+    // Hook the features into the app
+    const wirings = this.getEntryWirings();
+    if (wirings.length > 0) {
+      this.editEntryFile(entry => wirings.forEach(wiring => entry.wire(wiring)));
+    }
+  }
+
+  /**
+   * Get what the selected features add to the entry file: providers around
+   * the root component, or plugins installed on the Vue app
+   */
+  private getEntryWirings(): EntryWiring[] {
+    const { framework, features, stateManagement, apiClient, router } = this.options;
+    const reactLike = framework === 'react' || framework === 'preact';
+    const wirings: EntryWiring[] = [];
+
+    if (features.includes('i18n')) {
+      switch (framework) {
+        case 'react':
+        case 'preact':
+          wirings.push({
+            imports: [`import { I18nextProvider } from 'react-i18next';`, `import i18n from './i18n';`],
+            provider: '<I18nextProvider i18n={i18n}>',
+          });
+          break;
+        case 'vue':
+          wirings.push({ imports: [`import i18n from './i18n';`], use: 'i18n' });
+          break;
+        case 'svelte':
+          // svelte-i18n is set up when the module is loaded
+          wirings.push({ imports: [`import './i18n';`] });
+          break;
+        case 'solid':
+          wirings.push({
+            imports: [`import { locale } from './i18n';`],
+            statements: ['document.documentElement.lang = locale();'],
+          });
+          break;
+        default:
+          wirings.push({
+            imports: [`import { getLocale } from './i18n';`],
+            statements: ['document.documentElement.lang = getLocale();'],
+          });
+          break;
+      }
+    }
+
+    if (features.includes('state-management')) {
+      switch (stateManagement) {
+        case 'redux-toolkit':
+          wirings.push({
+            imports: [`import { Provider } from 'react-redux';`, `import { store } from './store';`],
+            provider: '<Provider store={store}>',
+          });
+          break;
+        case 'jotai':
+          wirings.push({ imports: [`import { Provider } from 'jotai';`], provider: '<Provider>' });
+          break;
+        case 'pinia':
+          wirings.push({ imports: [`import { createPinia } from 'pinia';`], use: 'createPinia()' });
+          break;
+        case 'vuex':
+          wirings.push({ imports: [`import { store } from './store';`], use: 'store' });
+          break;
+      }
+    }
+
+    if (features.includes('api-client')) {
+      switch (apiClient) {
+        case 'tanstack-query':
+          // Svelte components are given the client by the generated queries
+          if (framework === 'vue') {
+            wirings.push({
+              imports: [`import { VueQueryPlugin } from '@tanstack/vue-query';`, `import { queryClient } from './api';`],
+              use: 'VueQueryPlugin, { queryClient }',
+            });
+          } else if (reactLike || framework === 'solid') {
+            wirings.push({
+              imports: [`import { QueryClientProvider } from '${TANSTACK_QUERY_PACKAGES[framework]}';`, `import { queryClient } from './api';`],
+              provider: '<QueryClientProvider client={queryClient}>',
+            });
+          }
+          break;
+        case 'swr':
+          wirings.push({
+            imports: [`import { SWRConfig } from 'swr';`, `import { fetcher } from './api';`],
+            provider: '<SWRConfig value={{ fetcher }}>',
+          });
+          break;
+      }
+    }
+
+    // Innermost, so the providers above wrap every page and not just the home page
+    if (features.includes('routing')) {
+      switch (router) {
+        case 'react-router':
+        case 'preact-iso':
+        case 'wouter':
+        case 'solid-router':
+          wirings.push({ imports: [`import { AppRouter } from './router';`], provider: '<AppRouter>' });
+          break;
+        case 'vue-router':
+          wirings.push({
+            imports: [`import { RouterView } from 'vue-router';`, `import { createAppRouter } from './router';`],
+            use: 'createAppRouter(App)',
+            root: 'RouterView',
+          });
+          break;
+        case 'history':
+          if (framework === 'svelte') {
+            wirings.push({
+              imports: [`import { AppRouter, setHomePage } from './router';`],
+              statements: ['setHomePage(App);'],
+              root: 'AppRouter',
+            });
+          } else {
+            wirings.push({ imports: [`import { startRouter } from './router';`], statements: [`startRouter('#app');`] });
+          }
+          break;
+      }
+    }
+
+    return wirings;
+  }
+
+  /**
+   * Edit the entry file the template declares in place
+   * Throws a CONFIG_FAILED error when the file is missing or cannot be edited.
+   */
+  private editEntryFile(edit: (entry: EntryFile) => void): void {
+    const entryPath = join(this.projectPath, this.manifest.entry);
+
+    if (!this.files.exists(entryPath)) {
+      throw new ProjectGenerationError(`Could not update ${this.manifest.entry}: the file does not exist`, ERROR_CODES.CONFIG_FAILED, {
+        recoverable: false,
+        hint: `Restore ${this.manifest.entry}, or set "entry" in the template manifest to the entry file the template uses.`,
+      });
+    }
+
+    const entry = new EntryFile(this.files.read(entryPath), this.manifest.entry);
+    edit(entry);
+    this.files.write(entryPath, entry.toString());
+  }
+
+  /**
+   * Create the starter store of the selected state management library
+   */
+  private addStateManagementConfig(): void {
+    const files = getStateManagementFiles({
+      library: this.options.stateManagement!,
+      framework: this.options.framework,
+      typescript: this.options.typescript,
+      tests: this.options.features.includes('vitest'),
+    });
+
+    for (const [path, content] of Object.entries(files)) {
+      this.files.write(join(this.projectPath, path), content);
+    }
+  }
+
+  /**
+   * Create the src/api module of the selected API client, and proxy its
+   * requests to the API server during development
+   */
+  private addApiClientConfig(): void {
+    const files = getApiClientFiles({
+      client: this.options.apiClient!,
+      framework: this.options.framework,
+      typescript: this.options.typescript,
+      tests: this.options.features.includes('vitest'),
+    });
+    if (Object.keys(files).length === 0) {
+      return;
+    }
+
+    for (const [path, content] of Object.entries(files)) {
+      this.files.write(join(this.projectPath, path), content);
+    }
+
+    this.editViteConfig(config =>
+      config.mergeOptions('server', { proxy: { [API_PROXY_PATH]: { target: API_PROXY_TARGET, changeOrigin: true } } })
+    );
+  }
+
+  /**
+   * Create the test setup file and a sample test, and configure Vitest in
+   * vite.config
+   */
+  private addVitestConfig(): void {
+    const { framework, typescript } = this.options;
+    const subject = getSampleTestSubject(framework, typescript);
+    const files = getUnitTestFiles({
+      framework,
+      typescript,
+      sampleTest: subject !== undefined && this.files.exists(join(this.projectPath, subject)),
+    });
+
+    for (const [path, content] of Object.entries(files)) {
+      this.files.write(join(this.projectPath, path), content);
+    }
+
+    this.editViteConfig(config => {
+      // Types the test option of defineConfig from 'vite'
+      config.addTypeReference('vitest/config');
+      config.mergeOptions('test', getTestOptions(typescript));
+      if (framework === 'svelte') {
+        // Resolves Svelte to its browser build, which components need to mount
+        config.addImport(`import { svelteTesting } from '@testing-library/svelte/vite';`);
+        config.addPlugin('svelteTesting()');
+      }
+    });
+  }
+
+  /**
+   * Get the global stylesheets the app's entry file loads, leaving out
+   * local ones that do not exist
+   */
+  private getAppStyles(): string[] {
+    const entryPath = join(this.projectPath, this.manifest.entry);
+    if (!this.files.exists(entryPath)) {
+      return [];
+    }
+
+    return getGlobalStyles(this.files.read(entryPath), this.manifest.entry)
+      .filter(style => !style.startsWith('./') || this.files.exists(join(this.projectPath, style)));
+  }
+
+  /**
+   * Create the Storybook config, loading the app's global styles in the
+   * preview, and stories for the template's components
+   */
+  private addStorybookConfig(): void {
+    const { framework, typescript } = this.options;
+    const files = getStorybookFiles({
+      framework,
+      typescript,
+      styles: this.getAppStyles(),
+      hasFile: path => this.files.exists(join(this.projectPath, path)),
+    });
+    for (const [path, content] of Object.entries(files)) {
+      this.files.write(join(this.projectPath, path), content);
+    }
+  }
+
+  /**
+   * Switch the build to library mode and package.json to a publishable
+   * package, and create the library entry, its playground and pack test
+   */
+  private addComponentLibraryConfig(): void {
+    const { framework, typescript, packageManager } = this.options;
+    const readFile = (path: string) => {
+      const filePath = join(this.projectPath, path);
+      return this.files.exists(filePath) ? this.files.read(filePath) : undefined;
+    };
+
+    const files = getComponentLibraryFiles({ framework, typescript, styles: this.getAppStyles(), readFile });
+    for (const [path, content] of Object.entries(files)) {
+      this.files.write(join(this.projectPath, path), content);
+    }
+
+    this.editViteConfig(config => {
+      // The app's output naming and CSS splitting would rename the library's files
+      config.removeOption('build', 'rollupOptions', 'output');
+      config.removeOption('build', 'cssCodeSplit');
+      config.mergeOptions('build', getLibraryBuildOptions(framework, typescript));
+      if (getDeclarationTool(framework, typescript) === 'vite-plugin-dts') {
+        config.addImport(`import dts from 'vite-plugin-dts';`);
+        config.addPlugin(getDeclarationPlugin());
+      }
+    });
+
+    this.updatePackageJson(packageJson => {
+      Object.assign(packageJson, getLibraryPackageFields(framework, typescript, hasLibraryStyles(framework, typescript, readFile)));
+
+      // The app installing the library provides the framework; the playground still needs it
+      for (const peer of LIBRARY_PEERS[framework] ?? []) {
+        const version = packageJson.dependencies[peer];
+        if (version) {
+          packageJson.peerDependencies = { ...packageJson.peerDependencies, [peer]: version };
+          packageJson.devDependencies[peer] = version;
+          delete packageJson.dependencies[peer];
+        }
+      }
+
+      const declarations = `${packageManager} run build:types`;
+      if (getDeclarationScript(framework, typescript) && !packageJson.scripts.build?.includes(declarations)) {
+        packageJson.scripts.build = packageJson.scripts.build ? `${packageJson.scripts.build} && ${declarations}` : `vite build && ${declarations}`;
+      }
+    });
+  }
+
+  /**
+   * Undo addComponentLibraryConfig(), making the project an app again
+   */
+  private removeComponentLibraryConfig(): void {
+    const { framework, packageManager } = this.options;
+
+    if (this.files.exists(join(this.projectPath, this.manifest.viteConfig))) {
+      this.editViteConfig(config => {
+        config.removeOption('build', 'lib');
+        config.removeOption('build', 'copyPublicDir');
+        config.removeOption('build', 'rollupOptions', 'external');
+      });
+      this.removeVitePlugin('vite-plugin-dts', 'dts');
+    }
+
+    this.updatePackageJson(packageJson => {
+      for (const field of LIBRARY_PACKAGE_FIELDS) {
+        delete packageJson[field];
+      }
+
+      for (const peer of LIBRARY_PEERS[framework] ?? []) {
+        const version = packageJson.peerDependencies?.[peer];
+        if (version) {
+          packageJson.dependencies[peer] = packageJson.devDependencies[peer] ?? version;
+          delete packageJson.devDependencies[peer];
+          delete packageJson.peerDependencies[peer];
+        }
+      }
+      if (packageJson.peerDependencies && Object.keys(packageJson.peerDependencies).length === 0) {
+        delete packageJson.peerDependencies;
+      }
+
+      if (packageJson.scripts.build) {
+        packageJson.scripts.build = packageJson.scripts.build.replace(` && ${packageManager} run build:types`, '');
+      }
+    });
+  }
+
+  /**
+   * Create the linter and formatter configs and the editor settings,
+   * replacing the Biome config templates ship when another linter is chosen
+   */
+  private addLintingConfig(): void {
+    const { linter, framework, typescript } = this.options;
+    for (const [path, content] of Object.entries(getLintingFiles({ linter: linter!, framework, typescript }))) {
+      this.files.write(join(this.projectPath, path), content);
+    }
+
+    const biomeConfigPath = join(this.projectPath, 'biome.json');
+    if (linter !== 'biome' && this.files.exists(biomeConfigPath)) {
+      this.files.remove(biomeConfigPath);
+    }
+  }
+
+  /**
+   * Create the git hooks and the lint-staged and commitlint configs
+   */
+  private addGitHooksConfig(): void {
+    const files = getGitHookFiles({
+      framework: this.options.framework,
+      packageManager: this.options.packageManager,
+      packageJson: JSON.parse(this.files.read(join(this.projectPath, 'package.json'))),
+    });
+
+    for (const [path, content] of Object.entries(files)) {
+      this.files.write(join(this.projectPath, path), content);
+    }
+  }
+
+  /**
+   * Create the Playwright config and tests, keep its reports out of git and
+   * run the tests in the CI workflow when there is one
+   */
+  private addPlaywrightConfig(): void {
+    const { typescript, packageManager } = this.options;
+    for (const [path, content] of Object.entries(getEndToEndTestFiles({ typescript, packageManager }))) {
+      this.files.write(join(this.projectPath, path), content);
+    }
+
+    const gitignorePath = join(this.projectPath, '.gitignore');
+    this.files.write(gitignorePath, addPlaywrightIgnores(this.files.exists(gitignorePath) ? this.files.read(gitignorePath) : ''));
+    this.editTextFile(WORKFLOW_PATH, workflow => addEndToEndJob(workflow, packageManager));
+  }
+
+  /**
+   * Update a project file in place, if it exists
+   */
+  private editTextFile(path: string, edit: (content: string) => string): void {
+    const filePath = join(this.projectPath, path);
+    if (!this.files.exists(filePath)) {
+      return;
+    }
+
+    const content = this.files.read(filePath);
+    const edited = edit(content);
+    if (edited !== content) {
+      this.files.write(filePath, edited);
+    }
+  }
+
+  /**
+   * Create the router, its layout and pages
+   */
+  private addRoutingConfig(): void {
+    const files = getRoutingFiles({
+      router: this.options.router!,
+      framework: this.options.framework,
+      typescript: this.options.typescript,
+    });
+
+    for (const [path, content] of Object.entries(files)) {
+      this.files.write(join(this.projectPath, path), content);
+    }
+  }
+
+  /**
+   * Get the context passed to plugin hooks
+   */
+  private getPluginContext(): PluginContext {
+    return {
+      projectName: this.options.name,
+      framework: this.options.framework,
+      typescript: this.options.typescript,
+      styling: this.options.styling,
+      packageManager: this.options.packageManager,
+      features: [...this.options.features],
+    };
+  }
+
+  /**
+   * Reject plugins that do not support the project's framework and language
+   */
+  private assertPluginsSupported(): void {
+    for (const plugin of this.options.plugins ?? []) {
+      if (!pluginSupports(plugin, this.options.framework, this.options.typescript)) {
+        throw new ProjectGenerationError(
+          `Plugin "${plugin.id}" does not support ${this.options.framework} with ${this.options.typescript ? 'TypeScript' : 'JavaScript'}`,
+          ERROR_CODES.INVALID_OPTION,
+          {
+            recoverable: false,
+            hint: 'Remove the plugin or choose a framework it supports.',
+          }
+        );
+      }
+    }
+  }
+
+  /**
+   * Add the dependencies and scripts contributed by plugins
+   */
+  private addPluginDependencies(pkg: any): void {
+    const context = this.getPluginContext();
+
+    for (const plugin of this.options.plugins ?? []) {
+      if (!plugin.dependencies) {
+        continue;
+      }
+
+      const contributions = runPluginHook(plugin, 'dependencies', () => plugin.dependencies!(context)) ?? {};
+      Object.assign(pkg.dependencies, contributions.dependencies);
+      Object.assign(pkg.devDependencies, contributions.devDependencies);
+      Object.assign(pkg.scripts, contributions.scripts);
+    }
+  }
+
+  /**
+   * Stage the files and vite plugins contributed by plugins
+   */
+  private addPluginConfigs(): void {
+    const context = this.getPluginContext();
+
+    for (const plugin of this.options.plugins ?? []) {
+      if (plugin.files) {
+        const files = runPluginHook(plugin, 'files', () => plugin.files!(context)) ?? {};
+        for (const [path, content] of Object.entries(files)) {
+          assertPluginFilePath(plugin, path);
+          if (typeof content !== 'string') {
+            throw new ProjectGenerationError(
+              `Plugin "${plugin.id}" returned non-string content for "${path}"`,
+              ERROR_CODES.PLUGIN_FAILED,
+              { recoverable: false, hint: 'files() must return file contents as strings.' }
+            );
+          }
+          this.files.write(join(this.projectPath, path), content);
+        }
+      }
+
+      if (plugin.viteConfig) {
+        const viteConfig = runPluginHook(plugin, 'viteConfig', () => plugin.viteConfig!(context)) ?? {};
+        this.addPluginToViteConfig(viteConfig.imports ?? [], viteConfig.plugins ?? []);
+      }
+    }
+  }
+
+  /**
+   * Add a plugin's imports and plugins array entries to the vite.config file
+   */
+  private addPluginToViteConfig(imports: string[], entries: string[]): void {
+    if (imports.length === 0 && entries.length === 0) {
+      return;
+    }
+
+    this.editViteConfig(config => {
+      imports.forEach(statement => config.addImport(statement));
+      entries.forEach(entry => config.addPlugin(entry));
+    });
+  }
+
+  /**
+   * Add strict TypeScript configuration
+   * Adds noUncheckedIndexedAccess and exactOptionalPropertyTypes to tsconfig.json
+   */
+  private addStrictTypeScriptConfig(): void {
+    const tsconfigPath = join(this.projectPath, 'tsconfig.json');
+    
+    if (this.files.exists(tsconfigPath)) {
+      try {
+        const tsconfigContent = this.files.read(tsconfigPath);
+        const tsconfig = JSON.parse(tsconfigContent);
+        
+        // Ensure compilerOptions exists
+        tsconfig.compilerOptions = tsconfig.compilerOptions || {};
+        
+        // Add additional strict flags
+        tsconfig.compilerOptions.noUncheckedIndexedAccess = true;
+        tsconfig.compilerOptions.exactOptionalPropertyTypes = true;
+        
+        this.files.write(
+          tsconfigPath,
+          JSON.stringify(tsconfig, null, 2)
+        );
+      } catch (error: any) {
+        this.output.warn(`Warning: Could not update tsconfig.json with strict-ts settings: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Remove the strict flags added by addStrictTypeScriptConfig from tsconfig.json
+   */
+  private removeStrictTypeScriptConfig(): void {
+    const tsconfigPath = join(this.projectPath, 'tsconfig.json');
+    
+    if (this.files.exists(tsconfigPath)) {
+      try {
+        const tsconfig = JSON.parse(this.files.read(tsconfigPath));
+        
+        if (tsconfig.compilerOptions) {
+          delete tsconfig.compilerOptions.noUncheckedIndexedAccess;
+          delete tsconfig.compilerOptions.exactOptionalPropertyTypes;
+        }
+        
+        this.files.write(
+          tsconfigPath,
+          JSON.stringify(tsconfig, null, 2)
+        );
+      } catch (error: any) {
+        this.output.warn(`Warning: Could not remove strict-ts settings from tsconfig.json: ${error.message}`);
+      }
+    }
+  }
+
+  /**
+   * Add PWA configuration with Workbox for offline support
+   * Configures vite-plugin-pwa with service worker and manifest
+   */
+  private addPWAConfig(): void {
+    // Create PWA manifest file
+    const manifestContent = {
+      name: this.options.name,
+      short_name: this.options.name,
+      description: `${this.options.name} - A Progressive Web App`,
+      theme_color: '#ffffff',
+      background_color: '#ffffff',
+      display: 'standalone',
+      scope: '/',
+      start_url: '/',
+      icons: [
+        {
+          src: '/pwa-192x192.png',
+          sizes: '192x192',
+          type: 'image/png'
+        },
+        {
+          src: '/pwa-512x512.png',
+          sizes: '512x512',
+          type: 'image/png'
+        },
+        {
+          src: '/pwa-512x512.png',
+          sizes: '512x512',
+          type: 'image/png',
+          purpose: 'any maskable'
+        }
+      ]
+    };
+
+    const publicDir = join(this.projectPath, 'public');
+
+    this.files.write(
+      join(publicDir, 'manifest.json'),
+      JSON.stringify(manifestContent, null, 2)
+    );
+
+    // Update vite.config to include PWA plugin
+    this.updateViteConfigForPWA();
+  }
+
+  /**
+   * Update vite.config file to include PWA plugin configuration
+   */
+  private updateViteConfigForPWA(): void {
+    const pwaPluginConfig = `VitePWA({
+  registerType: 'autoUpdate',
+  includeAssets: ['favicon.ico', 'apple-touch-icon.png', 'mask-icon.svg'],
+  manifest: {
+    name: '${this.options.name}',
+    short_name: '${this.options.name}',
+    description: '${this.options.name} - A Progressive Web App',
+    theme_color: '#ffffff',
+    icons: [
+      {
+        src: 'pwa-192x192.png',
+        sizes: '192x192',
+        type: 'image/png'
+      },
+      {
+        src: 'pwa-512x512.png',
+        sizes: '512x512',
+        type: 'image/png'
+      }
+    ]
+  },
+  workbox: {
+    globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+    runtimeCaching: [
+      {
+        urlPattern: /^https:\\/\\/fonts\\.googleapis\\.com\\/.*/i,
+        handler: 'CacheFirst',
+        options: {
+          cacheName: 'google-fonts-cache',
+          expiration: {
+            maxEntries: 10,
+            maxAgeSeconds: 60 * 60 * 24 * 365 // 1 year
+          },
+          cacheableResponse: {
+            statuses: [0, 200]
+          }
+        }
+      },
+      {
+        urlPattern: /^https:\\/\\/fonts\\.gstatic\\.com\\/.*/i,
+        handler: 'CacheFirst',
+        options: {
+          cacheName: 'gstatic-fonts-cache',
+          expiration: {
+            maxEntries: 10,
+            maxAgeSeconds: 60 * 60 * 24 * 365 // 1 year
+          },
+          cacheableResponse: {
+            statuses: [0, 200]
+          }
+        }
+      }
+    ]
+  }
+})`;
+
+    this.editViteConfig(config => {
+      config.addImport(`import { VitePWA } from 'vite-plugin-pwa';`);
+      config.addPlugin(pwaPluginConfig);
+    });
+  }
+
+  /**
+   * Add bundle analyzer configuration
+   * Configures rollup-plugin-visualizer for bundle analysis
+   */
+  private addBundleAnalyzerConfig(): void {
+    // Only added to the build when ANALYZE=true
+    const visualizerPluginConfig = `...(process.env.ANALYZE === 'true' ? [visualizer({
+  filename: 'dist/stats.html',
+  open: true,
+  gzipSize: true,
+  brotliSize: true,
+  template: 'treemap'
+})] : [])`;
+
+    this.editViteConfig(config => {
+      config.addImport(`import { visualizer } from 'rollup-plugin-visualizer';`);
+      config.addPlugin(visualizerPluginConfig);
+    });
+  }
+
+  /**
+   * Remove a plugin added by a feature from the vite.config file
+   * Drops the import of the plugin package and the plugins array entries
+   * calling the plugin function
+   */
+  private removeVitePlugin(importSource: string, pluginName: string): void {
+    if (!this.files.exists(join(this.projectPath, this.manifest.viteConfig))) {
+      return;
+    }
+
+    this.editViteConfig(config => {
+      config.removePlugin(pluginName);
+      config.removeImport(importSource);
+    });
+  }
+
+  /**
+   * Edit the vite.config file in place
+   * Throws a CONFIG_FAILED error when the file is missing or cannot be edited.
+   */
+  private editViteConfig(edit: (config: ViteConfig) => void): void {
+    const viteConfigPath = join(this.projectPath, this.manifest.viteConfig);
+
+    if (!this.files.exists(viteConfigPath)) {
+      throw new ProjectGenerationError(`Could not update ${this.manifest.viteConfig}: the file does not exist`, ERROR_CODES.CONFIG_FAILED, {
+        recoverable: false,
+        hint: `Restore ${this.manifest.viteConfig}, or set "viteConfig" in the template manifest to the config file the template uses.`,
+      });
+    }
+
+    const config = new ViteConfig(this.files.read(viteConfigPath), this.manifest.viteConfig);
+    edit(config);
+    this.files.write(viteConfigPath, config.toString());
+  }
+
+  /**
+   * Add internationalization (i18n) configuration
+   * Configures appropriate i18n library based on framework
+   */
+  private addI18nConfig(): void {
+    const srcPath = join(this.projectPath, 'src');
+    const i18nDir = join(srcPath, 'i18n');
+    const localesDir = join(i18nDir, 'locales');
+
+    // Create default locale files
+    const enTranslations = {
+      common: {
+        welcome: 'Welcome',
+        hello: 'Hello',
+        goodbye: 'Goodbye'
+      },
+      app: {
+        title: this.options.name,
+        description: `Welcome to ${this.options.name}`
+      }
+    };
+
+    const esTranslations = {
+      common: {
+        welcome: 'Bienvenido',
+        hello: 'Hola',
+        goodbye: 'Adiós'
+      },
+      app: {
+        title: this.options.name,
+        description: `Bienvenido a ${this.options.name}`
+      }
+    };
+
+    this.files.write(
+      join(localesDir, 'en.json'),
+      JSON.stringify(enTranslations, null, 2)
+    );
+
+    this.files.write(
+      join(localesDir, 'es.json'),
+      JSON.stringify(esTranslations, null, 2)
+    );
+
+    // Create framework-specific i18n configuration
+    switch (this.options.framework) {
+      case 'react':
+      case 'preact':
+        this.createReactI18nConfig(i18nDir);
+        break;
+      case 'vue':
+        this.createVueI18nConfig(i18nDir);
+        break;
+      case 'svelte':
+        this.createSvelteI18nConfig(i18nDir);
+        break;
+      case 'solid':
+        this.createSolidI18nConfig(i18nDir);
+        break;
+      default:
+        this.createVanillaI18nConfig(i18nDir);
+        break;
+    }
+  }
+
+  /**
+   * Create React/Preact i18n configuration using react-i18next
+   */
+  private createReactI18nConfig(i18nDir: string): void {
+    const ext = this.options.typescript ? 'ts' : 'js';
+    
+    const i18nConfig = `import i18n from 'i18next';
+import { initReactI18next } from 'react-i18next';
+
+import en from './locales/en.json';
+import es from './locales/es.json';
+
+const resources = {
+  en: { translation: en },
+  es: { translation: es }
+};
+
+i18n
+  .use(initReactI18next)
+  .init({
+    resources,
+    lng: 'en',
+    fallbackLng: 'en',
+    interpolation: {
+      escapeValue: false
+    }
+  });
+
+export default i18n;
+`;
+
+    this.files.write(join(i18nDir, `index.${ext}`), i18nConfig);
+
+    // Create a hook for using translations
+    const useTranslationHook = this.options.typescript
+      ? `import { useTranslation as useI18nTranslation } from 'react-i18next';
+
+export const useTranslation = () => {
+  const { t, i18n } = useI18nTranslation();
+  
+  const changeLanguage = (lng: string) => {
+    i18n.changeLanguage(lng);
+  };
+
+  return { t, i18n, changeLanguage };
+};
+`
+      : `import { useTranslation as useI18nTranslation } from 'react-i18next';
+
+export const useTranslation = () => {
+  const { t, i18n } = useI18nTranslation();
+  
+  const changeLanguage = (lng) => {
+    i18n.changeLanguage(lng);
+  };
+
+  return { t, i18n, changeLanguage };
+};
+`;
+
+    const hooksDir = join(this.projectPath, 'src', 'hooks');
+    this.files.write(join(hooksDir, `useTranslation.${ext}`), useTranslationHook);
+  }
+
+  /**
+   * Create Vue i18n configuration using vue-i18n
+   */
+  private createVueI18nConfig(i18nDir: string): void {
+    const ext = this.options.typescript ? 'ts' : 'js';
+    
+    const i18nConfig = `import { createI18n } from 'vue-i18n';
+
+import en from './locales/en.json';
+import es from './locales/es.json';
+
+const messages = {
+  en,
+  es
+};
+
+const i18n = createI18n({
+  legacy: false,
+  locale: 'en',
+  fallbackLocale: 'en',
+  messages
+});
+
+export default i18n;
+`;
+
+    this.files.write(join(i18nDir, `index.${ext}`), i18nConfig);
+
+    // Create a composable for using translations
+    const useI18nComposable = this.options.typescript
+      ? `import { useI18n as useVueI18n } from 'vue-i18n';
+
+export const useTranslation = () => {
+  const { t, locale } = useVueI18n();
+  
+  const changeLanguage = (lng: string) => {
+    locale.value = lng;
+  };
+
+  return { t, locale, changeLanguage };
+};
+`
+      : `import { useI18n as useVueI18n } from 'vue-i18n';
+
+export const useTranslation = () => {
+  const { t, locale } = useVueI18n();
+  
+  const changeLanguage = (lng) => {
+    locale.value = lng;
+  };
+
+  return { t, locale, changeLanguage };
+};
+`;
+
+    const composablesDir = join(this.projectPath, 'src', 'composables');
+    this.files.write(join(composablesDir, `useTranslation.${ext}`), useI18nComposable);
+  }
+
+  /**
+   * Create Svelte i18n configuration using svelte-i18n
+   */
+  private createSvelteI18nConfig(i18nDir: string): void {
+    const ext = this.options.typescript ? 'ts' : 'js';
+    
+    const i18nConfig = `import { addMessages, init, getLocaleFromNavigator } from 'svelte-i18n';
+
+import en from './locales/en.json';
+import es from './locales/es.json';
+
+addMessages('en', en);
+addMessages('es', es);
+
+init({
+  fallbackLocale: 'en',
+  initialLocale: getLocaleFromNavigator()
+});
+`;
+
+    this.files.write(join(i18nDir, `index.${ext}`), i18nConfig);
+  }
+
+  /**
+   * Create Solid i18n configuration using @solid-primitives/i18n
+   */
+  private createSolidI18nConfig(i18nDir: string): void {
+    const ext = this.options.typescript ? 'ts' : 'js';
+    
+    const i18nConfig = this.options.typescript
+      ? `import { createSignal } from 'solid-js';
+import en from './locales/en.json';
+import es from './locales/es.json';
+
+type Locale = 'en' | 'es';
+type TranslationKey = string;
+
+const translations: Record<Locale, Record<string, any>> = {
+  en,
+  es
+};
+
+const [locale, setLocale] = createSignal<Locale>('en');
+
+export const t = (key: TranslationKey): string => {
+  const keys = key.split('.');
+  let value: any = translations[locale()];
+  
+  for (const k of keys) {
+    value = value?.[k];
+  }
+  
+  return value || key;
+};
+
+export const changeLanguage = (lng: Locale) => {
+  setLocale(lng);
+};
+
+export { locale };
+`
+      : `import { createSignal } from 'solid-js';
+import en from './locales/en.json';
+import es from './locales/es.json';
+
+const translations = {
+  en,
+  es
+};
+
+const [locale, setLocale] = createSignal('en');
+
+export const t = (key) => {
+  const keys = key.split('.');
+  let value = translations[locale()];
+  
+  for (const k of keys) {
+    value = value?.[k];
+  }
+  
+  return value || key;
+};
+
+export const changeLanguage = (lng) => {
+  setLocale(lng);
+};
+
+export { locale };
+`;
+
+    this.files.write(join(i18nDir, `index.${ext}`), i18nConfig);
+  }
+
+  /**
+   * Create Vanilla JS i18n configuration
+   */
+  private createVanillaI18nConfig(i18nDir: string): void {
+    const ext = this.options.typescript ? 'ts' : 'js';
+    
+    const i18nConfig = this.options.typescript
+      ? `import en from './locales/en.json';
+import es from './locales/es.json';
+
+type Locale = 'en' | 'es';
+
+const translations: Record<Locale, Record<string, any>> = {
+  en,
+  es
+};
+
+let currentLocale: Locale = 'en';
+
+export const t = (key: string): string => {
+  const keys = key.split('.');
+  let value: any = translations[currentLocale];
+  
+  for (const k of keys) {
+    value = value?.[k];
+  }
+  
+  return value || key;
+};
+
+export const changeLanguage = (lng: Locale) => {
+  currentLocale = lng;
+};
+
+export const getLocale = (): Locale => currentLocale;
+`
+      : `import en from './locales/en.json';
+import es from './locales/es.json';
+
+const translations = {
+  en,
+  es
+};
+
+let currentLocale = 'en';
+
+export const t = (key) => {
+  const keys = key.split('.');
+  let value = translations[currentLocale];
+  
+  for (const k of keys) {
+    value = value?.[k];
+  }
+  
+  return value || key;
+};
+
+export const changeLanguage = (lng) => {
+  currentLocale = lng;
+};
+
+export const getLocale = () => currentLocale;
+`;
+
+    this.files.write(join(i18nDir, `index.${ext}`), i18nConfig);
+  }
+
+  /**
+   * Initialize git repository
+   * Returns whether a repository was created
+   */
+  private initializeGit(): boolean {
+    // Never commit into a repository that existed before the project
+    if (this.preexistingEntries?.has('.git')) {
+      this.output.log(chalk.gray('Skipping git initialization: the directory is already a git repository.'));
+      return false;
+    }
+
+    const gitSpinner = ora({ text: 'Initializing git repository...', isSilent: this.silent }).start();
+    
+    try {
+      execSync('git init', {
+        cwd: this.projectPath,
+        stdio: 'pipe',
+        maxBuffer: 1024 * 1024 * 10 // 10MB buffer
+      });
+      gitSpinner.succeed('🧼 Git repository initialized.');
+      return true;
+    } catch (error: any) {
+      gitSpinner.fail('❌ Git initialization failed.');
+      this.output.log(chalk.yellow(`Note: ${error.message}`));
+      return false;
+    }
+  }
+
+  /**
+   * Commit the generated project
+   */
+  private createInitialCommit(): void {
+    try {
+      execSync('git add .', { cwd: this.projectPath, stdio: 'pipe' });
+      // Skip the git hooks: the generated code is committed as generated
+      execSync('git commit --no-verify -m "Initial commit from Viant CLI"', { 
+        cwd: this.projectPath, 
+        stdio: 'pipe',
+        env: { ...process.env, GIT_COMMITTER_NAME: 'Viant CLI', GIT_COMMITTER_EMAIL: 'viant@example.com' }
+      });
+    } catch (error: any) {
+      this.output.log(chalk.yellow(`Note: the initial commit failed: ${error.message}`));
+    }
+  }
+
+  /**
+   * Install dependencies
+   */
+  private async installDependencies(): Promise<void> {
+    const installSpinner = ora({ text: `Installing dependencies with ${this.options.packageManager}...`, isSilent: this.silent }).start();
+    
+    return new Promise((resolve, reject) => {
+      try {
+        const installProcess = spawn(this.options.packageManager, ['install'], {
+          cwd: this.projectPath,
+          stdio: 'pipe'
+        });
+
+        installProcess.on('error', (error) => {
+          installSpinner.fail('❌ Failed to start dependency installation.');
+          this.output.error(chalk.red('Error details:'), error);
+          this.logManualInstallCommand();
+          reject(error);
+        });
+
+        installProcess.on('close', (code) => {
+          if (code === 0) {
+            installSpinner.succeed('📦 Dependencies installed successfully!');
+            resolve();
+          } else {
+            installSpinner.fail('❌ Failed to install dependencies.');
+            this.logManualInstallCommand();
+            reject(new Error(`Dependency installation failed with code ${code}`));
+          }
+        });
+      } catch (error: any) {
+        installSpinner.fail('❌ Failed to install dependencies.');
+        this.output.error(chalk.red('Error details:'), error.message);
+        this.logManualInstallCommand();
+        reject(error);
+      }
+    });
+  }
+
+  private logManualInstallCommand(): void {
+    this.output.log(chalk.yellow('\nAlternatively, you can install them manually by running:'));
+    this.output.log(chalk.cyan(`cd ${this.options.name} && ${this.options.packageManager} install`));
+  }
+
+  /**
+   * Run development server
+   */
+  private async runDevServer(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.output.log(chalk.greenBright('\n🚀 Starting development server...'));
+      this.output.log(chalk.gray('(Press Ctrl+C to stop)'));
+
+      try {
+        const devServerProcess = spawn(this.options.packageManager, ['run', 'dev'], {
+          cwd: this.projectPath,
+          stdio: 'inherit', // 'inherit' will show server output directly in the console
+        });
+
+        devServerProcess.on('spawn', () => {
+          // It's tricky to know exactly when a dev server is "ready"
+          // For now, we'll consider it started once the process spawns.
+          // More robust solutions might involve parsing stdout for a specific message.
+          this.output.log(chalk.cyanBright('Development server process has started.'));
+          // We don't resolve here immediately, as the server is a long-running process.
+          // The user will typically Ctrl+C to stop it.
+        });
+
+        devServerProcess.on('error', (error) => {
+          this.spinner.fail('❌ Failed to start development server.');
+          this.output.error(chalk.red('Error details:'), error);
+          reject(error); // Reject the promise on error
+        });
+
+        devServerProcess.on('close', (code) => {
+          if (code === 0 || code === null) { // null can indicate successful exit after Ctrl+C
+            this.spinner.succeed('👋 Development server closed.');
+            resolve(); // Resolve the promise when the server is closed gracefully
+          } else {
+            this.spinner.fail(`❌ Development server exited with code ${code}.`);
+            reject(new Error(`Development server exited with code ${code}`));
+          }
+        });
+      } catch (error: any) {
+        this.spinner.fail('❌ Failed to initiate development server.');
+        this.output.error(chalk.red('Error details:'), error.message);
+        reject(error); // Reject the promise on initial catch
+      }
+    });
+  }
+
+  /**
+   * Print what generate() would write, compared to the template, and the
+   * commands it would run
+   */
+  private showGenerationPlan(templateFiles: Map<string, FileContent>): void {
+    const projectFiles = new Map(
+      this.files.getChanges()
+        .filter(change => change.type !== 'delete')
+        .map(change => [change.path, change.content!] as const)
+    );
+    const templatePackageJson = JSON.parse(templateFiles.get('package.json')?.toString() || '{}');
+    const packageJson = JSON.parse(this.files.read('package.json'));
+
+    this.output.log(formatGenerationPlan({
+      files: planFiles(templateFiles, projectFiles),
+      dependencies: diffDependencies(templatePackageJson, packageJson),
+      scripts: getAddedScripts(templatePackageJson, packageJson),
+    }));
+
+    const commands = [
+      this.options.initGit && 'git init',
+      this.options.installDeps && `${this.options.packageManager} install`,
+      this.options.installDeps && this.options.runDev && `${this.options.packageManager} run dev`,
+    ].filter(Boolean);
+    if (commands.length > 0) {
+      this.output.log(`\n${chalk.bold('Commands that would run:')}`);
+      commands.forEach(command => this.output.log(chalk.cyan(`  ${command}`)));
+    }
+
+    this.output.log(chalk.gray(`\nDry run: nothing was written to ${this.projectPath}`));
+  }
+
+  /**
+   * Show completion message
+   */
+  private showCompletionMessage(): void {
+    this.output.log(`
+${gradient.rainbow('🎉 Success!')} Created ${chalk.cyan(this.options.name)} at ${chalk.cyan(this.projectPath)}
+`);
+    
+    this.output.log(gradient.vice('Next steps:'));
+    const projectDir = relative(process.cwd(), this.projectPath);
+    if (projectDir) {
+      this.output.log(chalk.cyan(`  cd ${projectDir}`));
+    }
+    if (!this.options.installDeps) {
+      this.output.log(chalk.cyan(`  ${this.options.packageManager} install`));
+    }
+    if (!this.options.runDev) {
+      this.output.log(chalk.cyan(`  ${this.options.packageManager} run dev`));
+    }
+
+    // Husky only installs the hooks in a git repository, e.g. after --skip-git
+    if (this.options.features.includes('husky') && !existsSync(join(this.projectPath, '.git'))) {
+      this.output.log(chalk.yellow('\nGit hooks are not installed, as the project is not a git repository.'));
+      this.output.log(chalk.yellow(`Run ${chalk.cyan(`git init && ${this.options.packageManager} run prepare`)} to install them.`));
+    }
+    
+    this.output.log(`\n${chalk.bold('Available commands:')}`);
+    this.output.log(chalk.green(`  ${this.options.packageManager} run dev`).padEnd(30) + 'Start development server');
+    if (this.options.features.includes('api-client') && this.options.apiClient === 'trpc') {
+      this.output.log(chalk.green(`  ${this.options.packageManager} run dev:all`).padEnd(30) + 'Start the dev server and the tRPC server');
+    }
+    if (this.options.features.includes('component-lib')) {
+      this.output.log(chalk.green(`  ${this.options.packageManager} run playground`).padEnd(30) + 'Preview the library components');
+    }
+    this.output.log(chalk.green(`  ${this.options.packageManager} run build`).padEnd(30) + 'Build for production');
+    this.output.log(chalk.green(`  ${this.options.packageManager} run preview`).padEnd(30) + 'Preview production build');
+    this.output.log(chalk.green(`  ${this.options.packageManager} run lint`).padEnd(30) + 'Lint code');
+    
+    this.output.log(`\n${chalk.bold('Documentation:')}`);
+    this.output.log('📚 Check out the docs in the docs/ folder\n');
+    
+    this.output.log(gradient.rainbow('Happy coding! 🚀'));
+  }
+
+  /**
+   * Cleanup on failure
+   * Removes the partially created project directory and reports the result
+   */
+  private cleanup(): void {
+    // In a directory that already existed, only undo what this generator did
+    if (this.preexistingEntries) {
+      this.cleanupExistingDirectory(this.preexistingEntries);
+      return;
+    }
+
+    // Never remove a directory this generator did not create
+    if (!this.createdProjectDir) {
+      return;
+    }
+
+    const result = cleanupProject(this.projectPath);
+    
+    if (result.existed) {
+      if (result.success) {
+        this.output.log(chalk.yellow(`\n🧹 Cleaned up partial project at: ${this.projectPath}`));
+      } else {
+        this.output.error(chalk.red(`\n⚠️ Failed to clean up partial project at: ${this.projectPath}`));
+        if (result.error) {
+          this.output.error(chalk.red(`   Error: ${result.error}`));
+        }
+        this.output.log(chalk.yellow(`   Please manually remove the directory: rm -rf "${this.projectPath}"`));
+      }
+    }
+  }
+
+  /**
+   * Remove the files generated into a directory that already existed and
+   * restore the files that were overwritten, leaving pre-existing content
+   * as it was. Entries added next to it, e.g. node_modules, are removed too.
+   */
+  private cleanupExistingDirectory(preexistingEntries: Set<string>): void {
+    try {
+      this.files.revert();
+      for (const entry of readdirSync(this.projectPath)) {
+        if (!preexistingEntries.has(entry)) {
+          rmSync(join(this.projectPath, entry), { recursive: true, force: true });
+        }
+      }
+      this.output.log(chalk.yellow(`\n🧹 Removed the generated files from: ${this.projectPath}`));
+    } catch (error: any) {
+      this.output.error(chalk.red(`\n⚠️ Failed to remove the generated files from: ${this.projectPath}`));
+      this.output.error(chalk.red(`   Error: ${error.message}`));
+    }
+  }
+}
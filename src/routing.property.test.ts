@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { join, relative } from 'path';
+import ts from 'typescript';
+import { getRoutingFiles } from './routing.js';
+import { routerOptions, templateManifests } from './options.js';
+import { TEMPLATES_DIR } from './templateManifest.js';
+import type { FileChange } from './api.js';
+import { generateProject, getSyntaxErrors } from './testUtils.js';
+
+const manifestArb = fc.constantFrom(...Object.values(templateManifests));
+
+const routerArb = manifestArb.chain(manifest =>
+  fc.record({
+    manifest: fc.constant(manifest),
+    router: fc.constantFrom(...routerOptions[manifest.framework].map(option => option.value)),
+  })
+);
+
+/**
+ * **Feature: routing-scaffolds, Property 1: Every Router Gets Pages and a Layout**
+ *
+ * *For any* template and router it supports, the scaffold SHALL contain a router module,
+ * a layout and about and not-found pages, every script SHALL parse in the project's language,
+ * and the about and not-found pages SHALL be loaded lazily.
+ */
+describe('Property 1: Every Router Gets Pages and a Layout', () => {
+  it('should scaffold parsable routes for the framework', () => {
+    fc.assert(
+      fc.property(routerArb, ({ manifest, router }) => {
+        const { framework, typescript } = manifest;
+        const files = getRoutingFiles({ router, framework, typescript });
+        const paths = Object.keys(files);
+
+        expect(paths.some(path => path.startsWith('src/router/index.'))).toBe(true);
+        expect(paths.some(path => /^src\/router\/(RootLayout|layout)\./.test(path))).toBe(true);
+        expect(paths.some(path => /^src\/pages\/about\./i.test(path))).toBe(true);
+        expect(paths.some(path => /^src\/pages\/not-?found\./i.test(path))).toBe(true);
+        expect(Object.values(files).some(content => /import\(['"]\.\.?\/pages\//.test(content))).toBe(true);
+
+        for (const [path, content] of Object.entries(files)) {
+          expect(path.startsWith('src/router/') || path.startsWith('src/pages/')).toBe(true);
+          if (/\.(vue|svelte)$/.test(path)) {
+            continue;
+          }
+          expect(path).toMatch(typescript ? /\.tsx?$/ : /\.jsx?$/);
+          expect(getSyntaxErrors(content, path)).toEqual([]);
+          if (!typescript) {
+            expect(content).not.toMatch(/\binterface\b|\bimport type\b|, type \w+|: (string|Component|HTMLElement)\b/);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should scaffold nothing for unknown routers or other frameworks', () => {
+    expect(getRoutingFiles({ router: 'tanstack-router', framework: 'react', typescript: true })).toEqual({});
+    expect(getRoutingFiles({ router: 'vue-router', framework: 'react', typescript: true })).toEqual({});
+  });
+});
+
+/**
+ * **Feature: routing-scaffolds, Property 2: Generated Projects Serve Every Route**
+ *
+ * *For any* template and router it supports, the generated project SHALL contain the routes,
+ * depend on the router package, and its Docker image SHALL fall back to index.html so that
+ * client-side routes load on refresh.
+ */
+describe('Property 2: Generated Projects Serve Every Route', () => {
+  it('should write the routes, dependencies and SPA fallback', async () => {
+    await fc.assert(
+      fc.asyncProperty(routerArb, async ({ manifest, router }) => {
+        const { read } = await generateProject(manifest, {
+          features: ['routing', 'docker'],
+          router,
+        });
+
+        const expected = getRoutingFiles({ router, framework: manifest.framework, typescript: manifest.typescript });
+        for (const [path, content] of Object.entries(expected)) {
+          expect(read(path)).toBe(content);
+        }
+
+        const { dependencies } = JSON.parse(read('package.json')!);
+        const routerPackage = {
+          'react-router': 'react-router',
+          'vue-router': 'vue-router',
+          'solid-router': '@solidjs/router',
+          'preact-iso': 'preact-iso',
+          wouter: 'wouter-preact',
+        }[router];
+        if (routerPackage) {
+          expect(dependencies[routerPackage]).toBeDefined();
+        }
+
+        expect(read('Dockerfile')).toContain('COPY nginx.conf /etc/nginx/conf.d/default.conf');
+        expect(read('nginx.conf')).toContain('try_files $uri $uri/ /index.html;');
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+const SVELTE_MODULE_DECLARATION = /declare module '\*\.svelte' \{[\s\S]*?\n\}/;
+
+/**
+ * Type-check scripts of a generated project with the compiler options of its
+ * tsconfig.json, resolving packages from this repository's node_modules
+ */
+function getTypeErrors(root: string, files: FileChange[], paths: string[]): string[] {
+  const generated = new Map(files.map(file => [join(root, file.path), file.content!.toString()]));
+  const { config } = ts.parseConfigFileTextToJson('tsconfig.json', generated.get(join(root, 'tsconfig.json'))!);
+  const { options } = ts.convertCompilerOptionsFromJson(config.compilerOptions, root);
+
+  const host = ts.createCompilerHost(options);
+  const { readFile, fileExists, directoryExists } = host;
+  // svelte-check leaves out the module svelte declares for .svelte files, so they get the type the project declares
+  host.readFile = fileName => {
+    const content = generated.get(fileName) ?? readFile(fileName);
+    return fileName.endsWith('/svelte/types/index.d.ts') ? content?.replace(SVELTE_MODULE_DECLARATION, '') : content;
+  };
+  host.fileExists = fileName => generated.has(fileName) || fileExists(fileName);
+  host.directoryExists = dir => [...generated.keys()].some(fileName => fileName.startsWith(`${dir}/`)) || directoryExists!(dir);
+  host.getSourceFile = (fileName, languageVersion) => {
+    const content = host.readFile(fileName);
+    return content === undefined ? undefined : ts.createSourceFile(fileName, content, languageVersion);
+  };
+
+  const program = ts.createProgram(paths.map(path => join(root, path)), options, host);
+  return ts.getPreEmitDiagnostics(program).map(diagnostic => {
+    const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+    return diagnostic.file ? `${relative(root, diagnostic.file.fileName)}: ${message}` : message;
+  });
+}
+
+/**
+ * **Feature: routing-scaffolds, Property 3: Generated Svelte Routes Type-Check**
+ *
+ * *For any* svelte-ts project generated with the history router, the scripts its tsconfig.json
+ * includes SHALL type-check against the component type the template declares for .svelte modules.
+ */
+describe('Property 3: Generated Svelte Routes Type-Check', () => {
+  const manifest = templateManifests['svelte-ts'];
+
+  // Type-checking loads the DOM and Svelte types, which takes a few seconds
+  it('should type-check the router with the template declarations', { timeout: 30_000 }, async () => {
+    const { files } = await generateProject(manifest, {
+      features: ['routing'],
+      router: 'history',
+    });
+    const root = join(TEMPLATES_DIR, '..', 'does-not-exist', manifest.name);
+    // Config files such as vite.config.ts are left to tsconfig.node.json
+    const scripts = files
+      .map(file => file.path)
+      .filter(path => (path.startsWith('src/') && path.endsWith('.ts')) || path === 'vite-env.d.ts');
+
+    expect(scripts).toContain('src/router/router.ts');
+    expect(getTypeErrors(root, files, scripts)).toEqual([]);
+  });
+});
@@ -0,0 +1,605 @@
+/**
+ * Client-side routing scaffolds
+ * The router generated for each framework: a root layout with navigation,
+ * about and not-found pages loaded as separate chunks, and the template's
+ * root component as the home page. The router is wired into the entry file
+ * by the project generator.
+ */
+
+import { typed } from './scaffold.js';
+
+export interface RoutingScaffoldOptions {
+  router: string;
+  framework: string;
+  typescript: boolean;
+}
+
+const ABOUT_TEXT = 'This page is loaded as a separate chunk the first time it is visited.';
+const NOT_FOUND_TEXT = 'There is nothing at this address.';
+
+const LAZY_COMMENT = '// Pages are loaded as separate chunks the first time they are visited';
+
+const APP_ROUTER_DOC = `/**
+ * Routes of the app, with the component it wraps as the home page
+ */`;
+
+const ROOT_LAYOUT_DOC = `/**
+ * Layout shared by every page
+ */`;
+
+function reactRouter(typescript: boolean): Record<string, string> {
+  const ext = typescript ? 'tsx' : 'jsx';
+  return {
+    [`src/router/index.${ext}`]: `import { lazy${typed(typescript, ', type ReactNode')} } from 'react';
+import { BrowserRouter, Route, Routes } from 'react-router';
+import { RootLayout } from './RootLayout';
+
+${LAZY_COMMENT}
+const About = lazy(() => import('../pages/About'));
+const NotFound = lazy(() => import('../pages/NotFound'));
+
+${APP_ROUTER_DOC}
+export function AppRouter({ children }${typed(typescript, ': { children: ReactNode }')}) {
+  return (
+    <BrowserRouter>
+      <Routes>
+        <Route element={<RootLayout />}>
+          <Route index element={children} />
+          <Route path="about" element={<About />} />
+          <Route path="*" element={<NotFound />} />
+        </Route>
+      </Routes>
+    </BrowserRouter>
+  );
+}
+`,
+    [`src/router/RootLayout.${ext}`]: `import { Suspense } from 'react';
+import { NavLink, Outlet } from 'react-router';
+
+${ROOT_LAYOUT_DOC}
+export function RootLayout() {
+  return (
+    <>
+      <nav>
+        <NavLink to="/" end>Home</NavLink>
+        <NavLink to="/about">About</NavLink>
+      </nav>
+      <Suspense fallback={<p>Loading…</p>}>
+        <Outlet />
+      </Suspense>
+    </>
+  );
+}
+`,
+    [`src/pages/About.${ext}`]: `export default function About() {
+  return (
+    <section>
+      <h1>About</h1>
+      <p>${ABOUT_TEXT}</p>
+    </section>
+  );
+}
+`,
+    [`src/pages/NotFound.${ext}`]: `import { Link } from 'react-router';
+
+export default function NotFound() {
+  return (
+    <section>
+      <h1>Page not found</h1>
+      <p>
+        ${NOT_FOUND_TEXT} <Link to="/">Go home</Link>
+      </p>
+    </section>
+  );
+}
+`,
+  };
+}
+
+function preactIso(typescript: boolean): Record<string, string> {
+  const ext = typescript ? 'tsx' : 'jsx';
+  const childrenImport = typed(typescript, `import type { ComponentChildren } from 'preact';\n`);
+  const childrenType = typed(typescript, ': { children: ComponentChildren }');
+  return {
+    [`src/router/index.${ext}`]: `${childrenImport}import { LocationProvider, Route, Router, lazy } from 'preact-iso';
+import { RootLayout } from './RootLayout';
+
+${LAZY_COMMENT}
+const About = lazy(() => import('../pages/About'));
+const NotFound = lazy(() => import('../pages/NotFound'));
+
+${APP_ROUTER_DOC}
+export function AppRouter({ children }${childrenType}) {
+  return (
+    <LocationProvider>
+      <RootLayout>
+        <Router>
+          <Route path="/" component={() => <>{children}</>} />
+          <Route path="/about" component={About} />
+          <Route default component={NotFound} />
+        </Router>
+      </RootLayout>
+    </LocationProvider>
+  );
+}
+`,
+    [`src/router/RootLayout.${ext}`]: `${childrenImport}import { useLocation } from 'preact-iso';
+
+/**
+ * Layout shared by every page. Clicks on local links are routed by
+ * LocationProvider, so plain anchors are enough.
+ */
+export function RootLayout({ children }${childrenType}) {
+  const { path } = useLocation();
+
+  return (
+    <>
+      <nav>
+        <a href="/" aria-current={path === '/' ? 'page' : undefined}>Home</a>
+        <a href="/about" aria-current={path === '/about' ? 'page' : undefined}>About</a>
+      </nav>
+      {children}
+    </>
+  );
+}
+`,
+    [`src/pages/About.${ext}`]: `export default function About() {
+  return (
+    <section>
+      <h1>About</h1>
+      <p>${ABOUT_TEXT}</p>
+    </section>
+  );
+}
+`,
+    [`src/pages/NotFound.${ext}`]: `export default function NotFound() {
+  return (
+    <section>
+      <h1>Page not found</h1>
+      <p>
+        ${NOT_FOUND_TEXT} <a href="/">Go home</a>
+      </p>
+    </section>
+  );
+}
+`,
+  };
+}
+
+function wouter(typescript: boolean): Record<string, string> {
+  const ext = typescript ? 'tsx' : 'jsx';
+  const childrenImport = typed(typescript, `import type { ComponentChildren } from 'preact';\n`);
+  const childrenType = typed(typescript, ': { children: ComponentChildren }');
+  return {
+    [`src/router/index.${ext}`]: `${childrenImport}import { Suspense, lazy } from 'preact/compat';
+import { Route, Switch } from 'wouter-preact';
+import { RootLayout } from './RootLayout';
+
+${LAZY_COMMENT}
+const About = lazy(() => import('../pages/About'));
+const NotFound = lazy(() => import('../pages/NotFound'));
+
+${APP_ROUTER_DOC}
+export function AppRouter({ children }${childrenType}) {
+  return (
+    <RootLayout>
+      <Suspense fallback={<p>Loading…</p>}>
+        <Switch>
+          <Route path="/">{children}</Route>
+          <Route path="/about" component={About} />
+          <Route component={NotFound} />
+        </Switch>
+      </Suspense>
+    </RootLayout>
+  );
+}
+`,
+    [`src/router/RootLayout.${ext}`]: `${childrenImport}import { Link, useLocation } from 'wouter-preact';
+
+${ROOT_LAYOUT_DOC}
+export function RootLayout({ children }${childrenType}) {
+  const [location] = useLocation();
+
+  return (
+    <>
+      <nav>
+        <Link href="/" aria-current={location === '/' ? 'page' : undefined}>Home</Link>
+        <Link href="/about" aria-current={location === '/about' ? 'page' : undefined}>About</Link>
+      </nav>
+      {children}
+    </>
+  );
+}
+`,
+    [`src/pages/About.${ext}`]: `export default function About() {
+  return (
+    <section>
+      <h1>About</h1>
+      <p>${ABOUT_TEXT}</p>
+    </section>
+  );
+}
+`,
+    [`src/pages/NotFound.${ext}`]: `import { Link } from 'wouter-preact';
+
+export default function NotFound() {
+  return (
+    <section>
+      <h1>Page not found</h1>
+      <p>
+        ${NOT_FOUND_TEXT} <Link href="/">Go home</Link>
+      </p>
+    </section>
+  );
+}
+`,
+  };
+}
+
+function solidRouter(typescript: boolean): Record<string, string> {
+  const ext = typescript ? 'tsx' : 'jsx';
+  return {
+    [`src/router/index.${ext}`]: `import { Route, Router${typed(typescript, ', type RouteSectionProps')} } from '@solidjs/router';
+import { lazy } from 'solid-js';
+import { RootLayout } from './RootLayout';
+
+${LAZY_COMMENT}
+const About = lazy(() => import('../pages/About'));
+const NotFound = lazy(() => import('../pages/NotFound'));
+
+${APP_ROUTER_DOC}
+export function AppRouter(props${typed(typescript, ": Pick<RouteSectionProps, 'children'>")}) {
+  return (
+    <Router root={RootLayout}>
+      <Route path="/" component={() => props.children} />
+      <Route path="/about" component={About} />
+      <Route path="*404" component={NotFound} />
+    </Router>
+  );
+}
+`,
+    [`src/router/RootLayout.${ext}`]: `import { A${typed(typescript, ', type RouteSectionProps')} } from '@solidjs/router';
+import { Suspense } from 'solid-js';
+
+${ROOT_LAYOUT_DOC}
+export function RootLayout(props${typed(typescript, ': RouteSectionProps')}) {
+  return (
+    <>
+      <nav>
+        <A href="/" end>Home</A>
+        <A href="/about">About</A>
+      </nav>
+      <Suspense fallback={<p>Loading…</p>}>{props.children}</Suspense>
+    </>
+  );
+}
+`,
+    [`src/pages/About.${ext}`]: `export default function About() {
+  return (
+    <section>
+      <h1>About</h1>
+      <p>${ABOUT_TEXT}</p>
+    </section>
+  );
+}
+`,
+    [`src/pages/NotFound.${ext}`]: `import { A } from '@solidjs/router';
+
+export default function NotFound() {
+  return (
+    <section>
+      <h1>Page not found</h1>
+      <p>
+        ${NOT_FOUND_TEXT} <A href="/">Go home</A>
+      </p>
+    </section>
+  );
+}
+`,
+  };
+}
+
+function vueRouter(typescript: boolean): Record<string, string> {
+  const ext = typescript ? 'ts' : 'js';
+  return {
+    [`src/router/index.${ext}`]: `${typed(typescript, `import type { Component } from 'vue';\n`)}import { createRouter, createWebHistory } from 'vue-router';
+import RootLayout from './RootLayout.vue';
+
+/**
+ * Create the router of the app, with its root component as the home page
+ */
+export function createAppRouter(home${typed(typescript, ': Component')}) {
+  return createRouter({
+    history: createWebHistory(import.meta.env.BASE_URL),
+    routes: [
+      {
+        path: '/',
+        component: RootLayout,
+        children: [
+          { path: '', name: 'home', component: home },
+          ${LAZY_COMMENT}
+          { path: 'about', name: 'about', component: () => import('../pages/About.vue') },
+          { path: ':pathMatch(.*)*', name: 'not-found', component: () => import('../pages/NotFound.vue') },
+        ],
+      },
+    ],
+  });
+}
+`,
+    'src/router/RootLayout.vue': `<template>
+  <nav>
+    <RouterLink to="/">Home</RouterLink>
+    <RouterLink to="/about">About</RouterLink>
+  </nav>
+  <RouterView />
+</template>
+`,
+    'src/pages/About.vue': `<template>
+  <section>
+    <h1>About</h1>
+    <p>${ABOUT_TEXT}</p>
+  </section>
+</template>
+`,
+    'src/pages/NotFound.vue': `<template>
+  <section>
+    <h1>Page not found</h1>
+    <p>
+      ${NOT_FOUND_TEXT} <RouterLink to="/">Go home</RouterLink>
+    </p>
+  </section>
+</template>
+`,
+  };
+}
+
+const MODIFIER_CHECK = `event.button !== 0 || event.metaKey || event.ctrlKey || event.shiftKey || event.altKey`;
+
+function svelteHistoryRouter(typescript: boolean): Record<string, string> {
+  const ext = typescript ? 'ts' : 'js';
+  const script = typescript ? '<script lang="ts">' : '<script>';
+  return {
+    [`src/router/router.${ext}`]: `${typed(typescript, `import type { Component, ComponentType } from 'svelte';\n`)}import { writable } from 'svelte/store';
+${typed(typescript, `
+// Svelte types components as Component, the project's vite-env.d.ts as ComponentType
+type Page = Component | ComponentType;
+type PageLoader = () => Promise<{ default: Page }>;
+`)}
+/**
+ * Path of the current page, updated on navigation and by the back and forward buttons
+ */
+export const currentPath = writable(window.location.pathname);
+
+${LAZY_COMMENT}
+const routes${typed(typescript, ': Record<string, PageLoader>')} = {
+  '/about': () => import('../pages/About.svelte'),
+};
+const notFound${typed(typescript, ': PageLoader')} = () => import('../pages/NotFound.svelte');
+
+/**
+ * Show the root component of the app as the home page
+ */
+export function setHomePage(component${typed(typescript, ': Page')})${typed(typescript, ': void')} {
+  routes['/'] = async () => ({ default: component });
+}
+
+/**
+ * Load the page of a path
+ */
+export function loadPage(path${typed(typescript, ': string')}) {
+  return (routes[path] ?? notFound)();
+}
+
+/**
+ * Go to a page without reloading the app
+ */
+export function navigate(path${typed(typescript, ': string')})${typed(typescript, ': void')} {
+  if (path !== window.location.pathname) {
+    window.history.pushState(null, '', path);
+    currentPath.set(path);
+  }
+}
+
+/**
+ * Action routing clicks on a link, e.g. <a href="/about" use:link>
+ */
+export function link(anchor${typed(typescript, ': HTMLAnchorElement')}) {
+  const onClick = (event${typed(typescript, ': MouseEvent')}) => {
+    // Leave opening the link in a new tab or window to the browser
+    if (${MODIFIER_CHECK}) {
+      return;
+    }
+    event.preventDefault();
+    navigate(anchor.pathname);
+  };
+
+  anchor.addEventListener('click', onClick);
+  return {
+    destroy: () => anchor.removeEventListener('click', onClick),
+  };
+}
+
+window.addEventListener('popstate', () => currentPath.set(window.location.pathname));
+`,
+    [`src/router/index.${ext}`]: `export { default as AppRouter } from './AppRouter.svelte';
+export { currentPath, link, navigate, setHomePage } from './router';
+`,
+    'src/router/AppRouter.svelte': `${script}
+  import RootLayout from './RootLayout.svelte';
+  import { currentPath, loadPage } from './router';
+</script>
+
+<RootLayout>
+  {#await loadPage($currentPath)}
+    <p>Loading…</p>
+  {:then { default: Page }}
+    <Page />
+  {/await}
+</RootLayout>
+`,
+    'src/router/RootLayout.svelte': `${script}
+${typed(typescript, `  import type { Snippet } from 'svelte';\n`)}  import { currentPath, link } from './router';
+
+  let { children }${typed(typescript, ': { children: Snippet }')} = $props();
+</script>
+
+<nav>
+  <a href="/" use:link aria-current={$currentPath === '/' ? 'page' : undefined}>Home</a>
+  <a href="/about" use:link aria-current={$currentPath === '/about' ? 'page' : undefined}>About</a>
+</nav>
+
+{@render children()}
+`,
+    'src/pages/About.svelte': `<section>
+  <h1>About</h1>
+  <p>${ABOUT_TEXT}</p>
+</section>
+`,
+    'src/pages/NotFound.svelte': `${script}
+  import { link } from '../router';
+</script>
+
+<section>
+  <h1>Page not found</h1>
+  <p>
+    ${NOT_FOUND_TEXT} <a href="/" use:link>Go home</a>
+  </p>
+</section>
+`,
+  };
+}
+
+function vanillaHistoryRouter(typescript: boolean): Record<string, string> {
+  const ext = typescript ? 'ts' : 'js';
+  return {
+    [`src/router/index.${ext}`]: `import { renderLayout, setCurrentLink } from './layout';
+${typed(typescript, `
+type Page = (outlet: HTMLElement) => void;
+type PageLoader = () => Promise<{ default: Page }>;
+`)}
+${LAZY_COMMENT}
+const routes${typed(typescript, ': Record<string, PageLoader>')} = {
+  '/about': () => import('../pages/about'),
+};
+const notFound${typed(typescript, ': PageLoader')} = () => import('../pages/not-found');
+
+let outlet${typed(typescript, ': HTMLElement')};
+
+async function render(path${typed(typescript, ': string')})${typed(typescript, ': Promise<void>')} {
+  const { default: page } = await (routes[path] ?? notFound)();
+  outlet.replaceChildren();
+  page(outlet);
+  setCurrentLink(path);
+}
+
+/**
+ * Go to a page without reloading the app
+ */
+export function navigate(path${typed(typescript, ': string')})${typed(typescript, ': void')} {
+  if (path !== window.location.pathname) {
+    window.history.pushState(null, '', path);
+    void render(path);
+  }
+}
+
+/**
+ * Route the app element with the history API. What the entry file renders
+ * into it becomes the home page, so routing starts once the entry has run.
+ * Links with a data-link attribute navigate without reloading the app.
+ */
+export function startRouter(selector${typed(typescript, ': string')})${typed(typescript, ': void')} {
+  queueMicrotask(() => {
+    const app = document.querySelector${typed(typescript, '<HTMLElement>')}(selector)${typed(typescript, '!')};
+    const home = [...app.childNodes];
+    routes['/'] = async () => ({ default: (element) => element.replaceChildren(...home) });
+    outlet = renderLayout(app);
+
+    document.addEventListener('click', (event) => {
+      const anchor = ${typescript ? `(event.target as Element).closest<HTMLAnchorElement>` : 'event.target.closest'}('a[data-link]');
+      // Leave opening the link in a new tab or window to the browser
+      if (!anchor || ${MODIFIER_CHECK}) {
+        return;
+      }
+      event.preventDefault();
+      navigate(anchor.pathname);
+    });
+    window.addEventListener('popstate', () => void render(window.location.pathname));
+
+    void render(window.location.pathname);
+  });
+}
+`,
+    [`src/router/layout.${ext}`]: `/**
+ * Render the layout shared by every page into the app element, returning
+ * the element pages are rendered into
+ */
+export function renderLayout(app${typed(typescript, ': HTMLElement')})${typed(typescript, ': HTMLElement')} {
+  app.innerHTML = \`
+  <nav>
+    <a href="/" data-link>Home</a>
+    <a href="/about" data-link>About</a>
+  </nav>
+  <main></main>
+\`;
+  return app.querySelector('main')${typed(typescript, '!')};
+}
+
+/**
+ * Mark the navigation link of the current page
+ */
+export function setCurrentLink(path${typed(typescript, ': string')})${typed(typescript, ': void')} {
+  document.querySelectorAll${typed(typescript, '<HTMLAnchorElement>')}('nav a[data-link]').forEach((anchor) => {
+    if (anchor.pathname === path) {
+      anchor.setAttribute('aria-current', 'page');
+    } else {
+      anchor.removeAttribute('aria-current');
+    }
+  });
+}
+`,
+    [`src/pages/about.${ext}`]: `export default function about(outlet${typed(typescript, ': HTMLElement')})${typed(typescript, ': void')} {
+  outlet.innerHTML = \`
+  <section>
+    <h1>About</h1>
+    <p>${ABOUT_TEXT}</p>
+  </section>
+\`;
+}
+`,
+    [`src/pages/not-found.${ext}`]: `export default function notFound(outlet${typed(typescript, ': HTMLElement')})${typed(typescript, ': void')} {
+  outlet.innerHTML = \`
+  <section>
+    <h1>Page not found</h1>
+    <p>${NOT_FOUND_TEXT} <a href="/" data-link>Go home</a></p>
+  </section>
+\`;
+}
+`,
+  };
+}
+
+/**
+ * Get the files of the router for a framework, keyed by path relative to the
+ * project root. Unknown routers, and routers of other frameworks, get no files.
+ */
+export function getRoutingFiles({ router, framework, typescript }: RoutingScaffoldOptions): Record<string, string> {
+  switch (router) {
+    case 'react-router':
+      return framework === 'react' ? reactRouter(typescript) : {};
+    case 'preact-iso':
+      return framework === 'preact' ? preactIso(typescript) : {};
+    case 'wouter':
+      return framework === 'preact' ? wouter(typescript) : {};
+    case 'solid-router':
+      return framework === 'solid' ? solidRouter(typescript) : {};
+    case 'vue-router':
+      return framework === 'vue' ? vueRouter(typescript) : {};
+    case 'history':
+      if (framework === 'svelte') {
+        return svelteHistoryRouter(typescript);
+      }
+      return framework === 'vanilla' ? vanillaHistoryRouter(typescript) : {};
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Scaffold helpers
+ * Shared by the feature scaffolds, which generate the same code as TypeScript
+ * or JavaScript depending on the template.
+ */
+
+/**
+ * Keep the TypeScript-only part of a line when generating TypeScript
+ */
+export function typed(typescript: boolean, code: string): string {
+  return typescript ? code : '';
+}
@@ -0,0 +1,285 @@
+/**
+ * Source file editing
+ * Parses a JavaScript or TypeScript module and edits it in place, keeping the
+ * rest of the file as written. Subclasses add edits for specific files, such
+ * as the vite config and the app entry file.
+ */
+
+import ts from 'typescript';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+
+type ListNode = ts.ObjectLiteralExpression | ts.ArrayLiteralExpression | ts.NamedImports;
+
+/**
+ * Indent every line of a code snippet but the first
+ */
+export function reindent(code: string, indent: string): string {
+  return code
+    .trim()
+    .split('\n')
+    .map((line, index) => (index === 0 || line === '' ? line : indent + line))
+    .join('\n');
+}
+
+/**
+ * Normalize code for comparison, ignoring formatting
+ */
+export function normalize(code: string): string {
+  return code.replace(/\s+/g, '').replace(/"/g, "'").replace(/,([}\])])/g, '$1');
+}
+
+/**
+ * Get the local names an import declares
+ */
+function getImportedNames(declaration: ts.ImportDeclaration): string[] {
+  const clause = declaration.importClause;
+  if (!clause) {
+    return [];
+  }
+
+  const names = clause.name ? [clause.name.text] : [];
+  const bindings = clause.namedBindings;
+  if (bindings && ts.isNamespaceImport(bindings)) {
+    names.push(bindings.name.text);
+  } else if (bindings) {
+    names.push(...bindings.elements.map(element => element.name.text));
+  }
+  return names;
+}
+
+function getModuleSpecifier(declaration: ts.ImportDeclaration): string {
+  return (declaration.moduleSpecifier as ts.StringLiteral).text;
+}
+
+export function parseSnippet(code: string): ts.SourceFile {
+  return ts.createSourceFile('snippet.ts', code, ts.ScriptTarget.Latest, true, ts.ScriptKind.TS);
+}
+
+/**
+ * An editable source file
+ * Each edit re-parses the file, so edits always see the result of earlier ones.
+ */
+export class SourceEditor {
+  readonly path: string;
+  protected content: string;
+  protected sourceFile: ts.SourceFile;
+
+  constructor(content: string, path: string) {
+    this.path = path;
+    this.content = content;
+    this.assertValidSyntax();
+    this.sourceFile = this.parse(content);
+  }
+
+  toString(): string {
+    return this.content;
+  }
+
+  /**
+   * Add an import statement unless its bindings are already imported
+   * Named imports missing from an existing import of the module are added to it.
+   */
+  addImport(statement: string): void {
+    const declaration = parseSnippet(statement).statements[0];
+    if (!declaration || !ts.isImportDeclaration(declaration)) {
+      throw this.error(`"${statement.trim()}" is not an import statement`);
+    }
+
+    const source = getModuleSpecifier(declaration);
+    const imports = this.getImports();
+    const sameSource = imports.filter(existing => getModuleSpecifier(existing) === source);
+    const imported = new Set(sameSource.flatMap(getImportedNames));
+    const missing = getImportedNames(declaration).filter(name => !imported.has(name));
+
+    if (sameSource.length > 0 && missing.length === 0) {
+      return;
+    }
+
+    for (const name of missing) {
+      const other = imports.find(existing => getImportedNames(existing).includes(name));
+      if (other) {
+        throw this.error(`"${name}" is already imported from "${getModuleSpecifier(other)}"`);
+      }
+    }
+
+    // Only named imports can join an existing import of the module
+    const bindings = declaration.importClause?.namedBindings;
+    const targetIndex = imports.findIndex(existing =>
+      getModuleSpecifier(existing) === source &&
+      existing.importClause?.namedBindings !== undefined &&
+      ts.isNamedImports(existing.importClause.namedBindings)
+    );
+    if (targetIndex !== -1 && !declaration.importClause?.name && bindings && ts.isNamedImports(bindings)) {
+      for (const specifier of bindings.elements.filter(element => missing.includes(element.name.text))) {
+        const target = this.getImports()[targetIndex];
+        this.insertListItem(target.importClause!.namedBindings as ts.NamedImports, specifier.getText());
+      }
+      return;
+    }
+
+    const code = this.formatStatement(statement);
+    const last = imports[imports.length - 1];
+    if (last) {
+      this.edit(last.getEnd(), last.getEnd(), `\n${code}`);
+    } else {
+      this.edit(0, 0, `${code}\n`);
+    }
+  }
+
+  /**
+   * Remove the imports of a module
+   */
+  removeImport(source: string): void {
+    let declaration: ts.ImportDeclaration | undefined;
+    while ((declaration = this.getImports().find(existing => getModuleSpecifier(existing) === source))) {
+      const end = this.content[declaration.getEnd()] === '\n' ? declaration.getEnd() + 1 : declaration.getEnd();
+      this.edit(declaration.getStart(), end, '');
+    }
+  }
+
+  /**
+   * Add a statement after the imports unless the file already contains it
+   */
+  addStatement(statement: string): void {
+    const code = this.formatStatement(statement);
+    if (this.sourceFile.statements.some(existing => normalize(existing.getText()) === normalize(code))) {
+      return;
+    }
+
+    const last = this.getImports().pop();
+    if (last) {
+      this.edit(last.getEnd(), last.getEnd(), `\n\n${code}`);
+    } else {
+      this.edit(0, 0, `${code}\n\n`);
+    }
+  }
+
+  /**
+   * Remove a top-level statement, along with the blank line before it
+   */
+  removeStatement(statement: string): void {
+    const code = this.formatStatement(statement);
+    const existing = this.sourceFile.statements.find(item => normalize(item.getText()) === normalize(code));
+    if (existing) {
+      const start = existing.getFullStart() - (this.content.slice(0, existing.getFullStart()).endsWith('\n') ? 1 : 0);
+      this.edit(Math.max(start, 0), existing.getEnd(), '');
+    }
+  }
+
+  /**
+   * Add a /// <reference types="..." /> directive at the top of the file
+   * unless it already has one for the same types
+   */
+  addTypeReference(types: string): void {
+    if (!this.findTypeReference(types)) {
+      this.edit(0, 0, `/// <reference types="${types}" />\n`);
+    }
+  }
+
+  /**
+   * Remove the /// <reference types="..." /> directive for some types
+   */
+  removeTypeReference(types: string): void {
+    const reference = this.findTypeReference(types);
+    if (reference) {
+      this.edit(reference.index, reference.index + reference[0].length, '');
+    }
+  }
+
+  private findTypeReference(types: string): RegExpExecArray | null {
+    const escaped = types.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    return new RegExp(`^/// <reference types=["']${escaped}["'] />\\n?`, 'm').exec(this.content);
+  }
+
+  /**
+   * Follow the file's use of semicolons, judged by its first statement
+   */
+  private formatStatement(statement: string): string {
+    const code = statement.trim();
+    const first = this.sourceFile.statements[0];
+    return first && !first.getText().endsWith(';') ? code.replace(/;$/, '') : code;
+  }
+
+  protected getImports(): ts.ImportDeclaration[] {
+    return this.sourceFile.statements.filter(ts.isImportDeclaration);
+  }
+
+  /**
+   * Add an item to an object, array or named imports, following the layout
+   * of the list: one item per line unless it is a one-line import list
+   */
+  protected insertListItem(list: ListNode, code: string, position: 'start' | 'end' = 'end'): void {
+    const items: readonly ts.Node[] = ts.isObjectLiteralExpression(list) ? list.properties : list.elements;
+
+    const { line: startLine } = this.sourceFile.getLineAndCharacterOfPosition(list.getStart());
+    const { line: endLine } = this.sourceFile.getLineAndCharacterOfPosition(list.getEnd());
+
+    if (ts.isNamedImports(list) && items.length > 0 && startLine === endLine) {
+      const last = items[items.length - 1];
+      this.edit(last.getEnd(), last.getEnd(), `, ${code}`);
+      return;
+    }
+
+    // Lay out one-line lists over several lines
+    if (items.length === 0 || startLine === endLine) {
+      const outer = this.getLineIndent(list.getStart());
+      const indent = `${outer}  `;
+      const entries = items.map(item => item.getText());
+      if (position === 'start') {
+        entries.unshift(code);
+      } else {
+        entries.push(code);
+      }
+      const [open, close] = ts.isArrayLiteralExpression(list) ? ['[', ']'] : ['{', '}'];
+      const body = entries.map(entry => `\n${indent}${reindent(entry, indent)},`).join('');
+      this.edit(list.getStart(), list.getEnd(), `${open}${body}\n${outer}${close}`);
+      return;
+    }
+
+    const indent = this.getLineIndent(items[0].getStart());
+    if (position === 'start') {
+      this.edit(items[0].getStart(), items[0].getStart(), `${reindent(code, indent)},\n${indent}`);
+    } else {
+      const last = items[items.length - 1];
+      this.edit(last.getEnd(), last.getEnd(), `,\n${indent}${reindent(code, indent)}`);
+    }
+  }
+
+  protected getLineIndent(position: number): string {
+    const lineStart = this.content.lastIndexOf('\n', position - 1) + 1;
+    return /^[ \t]*/.exec(this.content.slice(lineStart))![0];
+  }
+
+  protected edit(start: number, end: number, text: string): void {
+    this.content = this.content.slice(0, start) + text + this.content.slice(end);
+    this.sourceFile = this.parse(this.content);
+  }
+
+  /**
+   * Reject a config with syntax errors, which the parser would otherwise
+   * recover from by guessing
+   */
+  private assertValidSyntax(): void {
+    const { diagnostics = [] } = ts.transpileModule(this.content, { fileName: this.path, reportDiagnostics: true });
+    if (diagnostics.length > 0) {
+      const message = ts.flattenDiagnosticMessageText(diagnostics[0].messageText, '\n');
+      throw this.error(`it could not be parsed (${message})`, `Fix the syntax error in ${this.path} and try again.`);
+    }
+  }
+
+  private parse(content: string): ts.SourceFile {
+    const scriptKind = this.path.endsWith('.tsx')
+      ? ts.ScriptKind.TSX
+      : this.path.endsWith('.jsx')
+        ? ts.ScriptKind.JSX
+        : /\.[mc]?ts$/.test(this.path) ? ts.ScriptKind.TS : ts.ScriptKind.JS;
+    return ts.createSourceFile(this.path, content, ts.ScriptTarget.Latest, true, scriptKind);
+  }
+
+  protected error(problem: string, hint?: string): ProjectGenerationError {
+    return new ProjectGenerationError(`Could not update ${this.path}: ${problem}`, ERROR_CODES.CONFIG_FAILED, {
+      recoverable: false,
+      hint: hint ?? `Make the change to ${this.path} by hand, or simplify the file so it can be edited.`,
+    });
+  }
+}
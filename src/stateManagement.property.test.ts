@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getStateManagementFiles } from './stateManagement.js';
+import { stateManagementOptions, templateManifests } from './options.js';
+import { generateProject, getSyntaxErrors } from './testUtils.js';
+
+const libraryArb = fc
+  .constantFrom(...Object.keys(stateManagementOptions))
+  .chain(framework => fc.record({
+    framework: fc.constant(framework),
+    library: fc.constantFrom(...stateManagementOptions[framework].map(option => option.value)),
+  }));
+
+/**
+ * **Feature: state-management-scaffolds, Property 1: Every Library Gets a Store**
+ *
+ * *For any* framework, state management library it supports and language, the scaffold
+ * SHALL contain src/store/index in the project's language, every file SHALL parse, JavaScript
+ * files SHALL contain no type annotations, and a store test SHALL be included exactly when
+ * tests are requested.
+ */
+describe('Property 1: Every Library Gets a Store', () => {
+  it('should scaffold a parsable store in the project language', () => {
+    fc.assert(
+      fc.property(libraryArb, fc.boolean(), fc.boolean(), ({ framework, library }, typescript, tests) => {
+        const files = getStateManagementFiles({ library, framework, typescript, tests });
+        const ext = typescript ? 'ts' : 'js';
+        const paths = Object.keys(files);
+
+        expect(paths).toContain(`src/store/index.${ext}`);
+        expect(paths.some(path => path.endsWith(`.test.${ext}`))).toBe(tests);
+        for (const path of paths) {
+          expect(path.startsWith('src/store/') && path.endsWith(`.${ext}`)).toBe(true);
+          expect(getSyntaxErrors(files[path], path)).toEqual([]);
+          if (!typescript) {
+            expect(files[path]).not.toMatch(/\binterface\b|\bimport type\b|: [A-Z]\w*(State|Action)|<\w+State>/);
+          }
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should scaffold nothing for unknown libraries', () => {
+    expect(getStateManagementFiles({ library: 'mobx', framework: 'react', typescript: true, tests: true })).toEqual({});
+  });
+});
+
+/**
+ * **Feature: state-management-scaffolds, Property 2: Generated Projects Include the Store**
+ *
+ * *For any* template and state management library it supports, the generated project SHALL
+ * contain the library's store files, and its store test when Vitest is selected.
+ */
+describe('Property 2: Generated Projects Include the Store', () => {
+  const optionsArb = fc
+    .constantFrom(...Object.values(templateManifests).filter(manifest => stateManagementOptions[manifest.framework]))
+    .chain(manifest => fc.record({
+      manifest: fc.constant(manifest),
+      stateManagement: fc.constantFrom(...stateManagementOptions[manifest.framework].map(option => option.value)),
+      vitest: fc.boolean(),
+    }));
+
+  it('should write the store files into the project', async () => {
+    await fc.assert(
+      fc.asyncProperty(optionsArb, async ({ manifest, stateManagement, vitest }) => {
+        const { read } = await generateProject(manifest, {
+          features: vitest ? ['state-management', 'vitest'] : ['state-management'],
+          stateManagement,
+        });
+
+        const expected = getStateManagementFiles({
+          library: stateManagement,
+          framework: manifest.framework,
+          typescript: manifest.typescript,
+          tests: vitest,
+        });
+        for (const [path, content] of Object.entries(expected)) {
+          expect(read(path)).toBe(content);
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,546 @@
+/**
+ * State management scaffolds
+ * The starter store generated into src/store for each state management
+ * library: an example counter store, typed hooks or selectors when using
+ * TypeScript, and a unit test when Vitest is selected. Stores that need a
+ * provider or plugin are wired into the entry file by the project generator.
+ */
+
+import { typed } from './scaffold.js';
+
+export interface StateManagementScaffoldOptions {
+  library: string;
+  framework: string;
+  typescript: boolean;
+  /** Whether to add a Vitest test for the store */
+  tests: boolean;
+}
+
+interface Scaffold {
+  /** Files relative to src/store, without their extension */
+  files: Record<string, string>;
+  /** Test of the example store, relative to src/store, without its extension */
+  test: [string, string];
+}
+
+function reduxToolkit(typescript: boolean): Scaffold {
+  const files: Record<string, string> = {
+    counterSlice: `import { createSlice${typed(typescript, ', type PayloadAction')} } from '@reduxjs/toolkit';
+${typed(typescript, `
+export interface CounterState {
+  value: number;
+}
+`)}
+const initialState${typed(typescript, ': CounterState')} = { value: 0 };
+
+export const counterSlice = createSlice({
+  name: 'counter',
+  initialState,
+  reducers: {
+    increment: (state) => {
+      state.value += 1;
+    },
+    decrement: (state) => {
+      state.value -= 1;
+    },
+    incrementByAmount: (state, action${typed(typescript, ': PayloadAction<number>')}) => {
+      state.value += action.payload;
+    },
+  },
+  selectors: {
+    selectCount: (state) => state.value,
+  },
+});
+
+export const { increment, decrement, incrementByAmount } = counterSlice.actions;
+export const { selectCount } = counterSlice.selectors;
+
+export default counterSlice.reducer;
+`,
+    index: `import { configureStore } from '@reduxjs/toolkit';
+import counterReducer from './counterSlice';
+
+export const store = configureStore({
+  reducer: {
+    counter: counterReducer,
+  },
+});
+${typed(typescript, `
+export type RootState = ReturnType<typeof store.getState>;
+export type AppDispatch = typeof store.dispatch;
+`)}
+export { increment, decrement, incrementByAmount, selectCount } from './counterSlice';
+`,
+  };
+
+  if (typescript) {
+    files.hooks = `import { useDispatch, useSelector } from 'react-redux';
+import type { AppDispatch, RootState } from './index';
+
+// Use these instead of plain useDispatch and useSelector
+export const useAppDispatch = useDispatch.withTypes<AppDispatch>();
+export const useAppSelector = useSelector.withTypes<RootState>();
+`;
+  }
+
+  return {
+    files,
+    test: [
+      'counterSlice.test',
+      `import { describe, it, expect } from 'vitest';
+import reducer, { increment, decrement, incrementByAmount } from './counterSlice';
+
+describe('counterSlice', () => {
+  it('starts at zero', () => {
+    expect(reducer(undefined, { type: 'unknown' })).toEqual({ value: 0 });
+  });
+
+  it('counts up and down', () => {
+    let state = reducer(undefined, increment());
+    state = reducer(state, incrementByAmount(5));
+    state = reducer(state, decrement());
+    expect(state.value).toBe(5);
+  });
+});
+`,
+    ],
+  };
+}
+
+function zustand(typescript: boolean, framework: string): Scaffold {
+  const react = framework === 'react' || framework === 'preact';
+  const stateInterface = typed(typescript, `
+export interface CounterState {
+  count: number;
+  increment: () => void;
+  decrement: () => void;
+  reset: () => void;
+}
+`);
+  const initializer = `((set) => ({
+  count: 0,
+  increment: () => set((state) => ({ count: state.count + 1 })),
+  decrement: () => set((state) => ({ count: state.count - 1 })),
+  reset: () => set({ count: 0 }),
+}))`;
+  const selector = `export const selectCount = (state${typed(typescript, ': CounterState')}) => state.count;`;
+
+  // Outside React, the store is created with zustand/vanilla and adapted to
+  // the framework's own reactivity
+  let counter: string;
+  if (react) {
+    counter = `import { create } from 'zustand';
+${stateInterface}
+export const useCounterStore = create${typed(typescript, '<CounterState>()')}${initializer};
+
+${selector}
+`;
+  } else if (framework === 'svelte') {
+    counter = `import { readable } from 'svelte/store';
+import { createStore } from 'zustand/vanilla';
+${stateInterface}
+export const counterStore = createStore${typed(typescript, '<CounterState>()')}${initializer};
+
+${selector}
+
+// Lets components read the state with $counter
+export const counter = readable(counterStore.getState(), (set) => counterStore.subscribe(set));
+`;
+  } else {
+    counter = `import { createSignal, onCleanup } from 'solid-js';
+import { createStore } from 'zustand/vanilla';
+${stateInterface}
+export const counterStore = createStore${typed(typescript, '<CounterState>()')}${initializer};
+
+${selector}
+
+// Read the state as a signal, e.g. const counter = useCounter(); counter().count
+export function useCounter() {
+  const [state, setState] = createSignal(counterStore.getState());
+  onCleanup(counterStore.subscribe((next) => setState(() => next)));
+  return state;
+}
+`;
+  }
+
+  const store = react ? 'useCounterStore' : 'counterStore';
+  return {
+    files: { counter, index: `export * from './counter';\n` },
+    test: [
+      'counter.test',
+      `import { describe, it, expect, beforeEach } from 'vitest';
+import { ${store}, selectCount } from './counter';
+
+describe('counter store', () => {
+  beforeEach(() => {
+    ${store}.getState().reset();
+  });
+
+  it('counts up and down', () => {
+    const { increment, decrement } = ${store}.getState();
+    increment();
+    increment();
+    decrement();
+    expect(selectCount(${store}.getState())).toBe(1);
+  });
+});
+`,
+    ],
+  };
+}
+
+function jotai(): Scaffold {
+  return {
+    files: {
+      counter: `import { atom, useAtomValue, useSetAtom } from 'jotai';
+
+export const countAtom = atom(0);
+export const doubledAtom = atom((get) => get(countAtom) * 2);
+export const incrementAtom = atom(null, (get, set) => set(countAtom, get(countAtom) + 1));
+
+export const useCount = () => useAtomValue(countAtom);
+export const useDoubled = () => useAtomValue(doubledAtom);
+export const useIncrement = () => useSetAtom(incrementAtom);
+`,
+      index: `export * from './counter';\n`,
+    },
+    test: [
+      'counter.test',
+      `import { describe, it, expect } from 'vitest';
+import { createStore } from 'jotai';
+import { countAtom, doubledAtom, incrementAtom } from './counter';
+
+describe('counter atoms', () => {
+  it('derives the doubled count', () => {
+    const store = createStore();
+    store.set(incrementAtom);
+    store.set(incrementAtom);
+    expect(store.get(countAtom)).toBe(2);
+    expect(store.get(doubledAtom)).toBe(4);
+  });
+});
+`,
+    ],
+  };
+}
+
+function valtio(typescript: boolean): Scaffold {
+  return {
+    files: {
+      counter: `import { proxy, useSnapshot } from 'valtio';
+${typed(typescript, `
+export interface CounterState {
+  count: number;
+}
+`)}
+export const counterState = proxy${typed(typescript, '<CounterState>')}({ count: 0 });
+
+export function increment() {
+  counterState.count += 1;
+}
+
+export function decrement() {
+  counterState.count -= 1;
+}
+
+export function reset() {
+  counterState.count = 0;
+}
+
+// Components re-render when the parts of the snapshot they read change
+export const useCounter = () => useSnapshot(counterState);
+`,
+      index: `export * from './counter';\n`,
+    },
+    test: [
+      'counter.test',
+      `import { describe, it, expect, beforeEach } from 'vitest';
+import { counterState, increment, decrement, reset } from './counter';
+
+describe('counter state', () => {
+  beforeEach(() => {
+    reset();
+  });
+
+  it('counts up and down', () => {
+    increment();
+    increment();
+    decrement();
+    expect(counterState.count).toBe(1);
+  });
+});
+`,
+    ],
+  };
+}
+
+function pinia(): Scaffold {
+  return {
+    files: {
+      counter: `import { defineStore } from 'pinia';
+
+export const useCounterStore = defineStore('counter', {
+  state: () => ({ count: 0 }),
+  getters: {
+    doubled: (state) => state.count * 2,
+  },
+  actions: {
+    increment() {
+      this.count += 1;
+    },
+    decrement() {
+      this.count -= 1;
+    },
+  },
+});
+`,
+      index: `export * from './counter';\n`,
+    },
+    test: [
+      'counter.test',
+      `import { describe, it, expect, beforeEach } from 'vitest';
+import { createPinia, setActivePinia } from 'pinia';
+import { useCounterStore } from './counter';
+
+describe('counter store', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia());
+  });
+
+  it('counts up and derives the doubled count', () => {
+    const counter = useCounterStore();
+    counter.increment();
+    counter.increment();
+    expect(counter.count).toBe(2);
+    expect(counter.doubled).toBe(4);
+  });
+});
+`,
+    ],
+  };
+}
+
+function vuex(typescript: boolean): Scaffold {
+  const index = typescript
+    ? `import { createStore, useStore as useVuexStore, type Store } from 'vuex';
+
+export interface State {
+  count: number;
+}
+
+export const store = createStore<State>({
+  state: () => ({ count: 0 }),
+  getters: {
+    doubled: (state) => state.count * 2,
+  },
+  mutations: {
+    increment(state) {
+      state.count += 1;
+    },
+    reset(state) {
+      state.count = 0;
+    },
+  },
+});
+
+// Typed access to the store from components
+export function useStore(): Store<State> {
+  return useVuexStore<State>();
+}
+`
+    : `import { createStore } from 'vuex';
+
+export const store = createStore({
+  state: () => ({ count: 0 }),
+  getters: {
+    doubled: (state) => state.count * 2,
+  },
+  mutations: {
+    increment(state) {
+      state.count += 1;
+    },
+    reset(state) {
+      state.count = 0;
+    },
+  },
+});
+`;
+
+  const files: Record<string, string> = { index };
+  if (typescript) {
+    files['vuex.d'] = `// vuex's package.json "exports" hides its types from "moduleResolution": "bundler"
+declare module 'vuex' {
+  export * from 'vuex/types/index.js';
+}
+`;
+  }
+
+  return {
+    files,
+    test: [
+      'index.test',
+      `import { describe, it, expect, beforeEach } from 'vitest';
+import { store } from './index';
+
+describe('store', () => {
+  beforeEach(() => {
+    store.commit('reset');
+  });
+
+  it('counts up and derives the doubled count', () => {
+    store.commit('increment');
+    store.commit('increment');
+    expect(store.state.count).toBe(2);
+    expect(store.getters.doubled).toBe(4);
+  });
+});
+`,
+    ],
+  };
+}
+
+function svelteStores(typescript: boolean): Scaffold {
+  return {
+    files: {
+      counter: `import { derived, writable } from 'svelte/store';
+
+function createCounter() {
+  const { subscribe, set, update } = writable(0);
+
+  return {
+    subscribe,
+    increment: () => update((count) => count + 1),
+    decrement: () => update((count) => count - 1),
+    reset: () => set(0),
+  };
+}
+${typed(typescript, `
+export type Counter = ReturnType<typeof createCounter>;
+`)}
+// Components read the values with $counter and $doubled
+export const counter = createCounter();
+export const doubled = derived(counter, ($counter) => $counter * 2);
+`,
+      index: `export * from './counter';\n`,
+    },
+    test: [
+      'counter.test',
+      `import { describe, it, expect, beforeEach } from 'vitest';
+import { get } from 'svelte/store';
+import { counter, doubled } from './counter';
+
+describe('counter store', () => {
+  beforeEach(() => {
+    counter.reset();
+  });
+
+  it('counts up and derives the doubled count', () => {
+    counter.increment();
+    counter.increment();
+    counter.decrement();
+    expect(get(counter)).toBe(1);
+    expect(get(doubled)).toBe(2);
+  });
+});
+`,
+    ],
+  };
+}
+
+function solidStore(typescript: boolean): Scaffold {
+  return {
+    files: {
+      counter: `import { createStore } from 'solid-js/store';
+${typed(typescript, `
+export interface CounterState {
+  count: number;
+}
+`)}
+const [counter, setCounter] = createStore${typed(typescript, '<CounterState>')}({ count: 0 });
+
+// Read-only outside this module; change it through the functions below
+export { counter };
+
+export const doubled = () => counter.count * 2;
+
+export function increment() {
+  setCounter('count', (count) => count + 1);
+}
+
+export function decrement() {
+  setCounter('count', (count) => count - 1);
+}
+
+export function reset() {
+  setCounter('count', 0);
+}
+`,
+      index: `export * from './counter';\n`,
+    },
+    test: [
+      'counter.test',
+      `import { describe, it, expect, beforeEach } from 'vitest';
+import { counter, doubled, increment, decrement, reset } from './counter';
+
+describe('counter store', () => {
+  beforeEach(() => {
+    reset();
+  });
+
+  it('counts up and derives the doubled count', () => {
+    increment();
+    increment();
+    decrement();
+    expect(counter.count).toBe(1);
+    expect(doubled()).toBe(2);
+  });
+});
+`,
+    ],
+  };
+}
+
+function getScaffold(library: string, framework: string, typescript: boolean): Scaffold | undefined {
+  switch (library) {
+    case 'redux-toolkit':
+      return reduxToolkit(typescript);
+    case 'zustand':
+      return zustand(typescript, framework);
+    case 'jotai':
+      return jotai();
+    case 'valtio':
+      return valtio(typescript);
+    case 'pinia':
+      return pinia();
+    case 'vuex':
+      return vuex(typescript);
+    case 'svelte-stores':
+      return svelteStores(typescript);
+    case 'solid-store':
+      return solidStore(typescript);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Get the files of the starter store for a state management library, keyed
+ * by path relative to the project root. Unknown libraries get no files.
+ */
+export function getStateManagementFiles({ library, framework, typescript, tests }: StateManagementScaffoldOptions): Record<string, string> {
+  const scaffold = getScaffold(library, framework, typescript);
+  if (!scaffold) {
+    return {};
+  }
+
+  const ext = typescript ? 'ts' : 'js';
+  const files: Record<string, string> = {};
+  for (const [name, content] of Object.entries(scaffold.files)) {
+    files[`src/store/${name}.${ext}`] = content;
+  }
+  if (tests) {
+    const [name, content] = scaffold.test;
+    files[`src/store/${name}.${ext}`] = content;
+  }
+  return files;
+}
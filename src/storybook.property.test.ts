@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getGlobalStyles, getStorybookFiles, STORYBOOK_FRAMEWORKS } from './storybook.js';
+import { templateManifests } from './options.js';
+import { generateProject, getSyntaxErrors } from './testUtils.js';
+
+const manifestArb = fc.constantFrom(...Object.values(templateManifests));
+
+/**
+ * **Feature: storybook-scaffolds, Property 1: Every Framework Gets a Storybook Setup**
+ *
+ * *For any* framework, language and set of global stylesheets, the scaffold SHALL configure the
+ * framework's Storybook package in .storybook/main, import every stylesheet in the preview,
+ * write stories only for components that exist, and every file SHALL parse in the project's language.
+ */
+describe('Property 1: Every Framework Gets a Storybook Setup', () => {
+  const stylesArb = fc.subarray(['./src/index.css', './src/styles/app.scss', 'virtual:uno.css']);
+
+  it('should scaffold parsable config and stories for the framework', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...Object.keys(STORYBOOK_FRAMEWORKS)),
+        fc.boolean(),
+        stylesArb,
+        fc.boolean(),
+        (framework, typescript, styles, components) => {
+          const files = getStorybookFiles({ framework, typescript, styles, hasFile: () => components });
+          const ext = typescript ? 'ts' : 'js';
+          const stories = Object.keys(files).filter(path => path.includes('.stories.'));
+
+          expect(files[`.storybook/main.${ext}`]).toContain(`name: '${STORYBOOK_FRAMEWORKS[framework]}'`);
+          const preview = files[`.storybook/preview.${ext}`];
+          for (const style of styles) {
+            expect(preview).toContain(`import '${style.replace(/^\.\//, '../')}';`);
+          }
+          expect(stories.length > 0).toBe(components);
+
+          for (const [path, content] of Object.entries(files)) {
+            expect(path).toMatch(typescript ? /\.tsx?$/ : /\.jsx?$/);
+            expect(getSyntaxErrors(content, path)).toEqual([]);
+          }
+          for (const path of stories) {
+            expect(files[path]).toContain('export default meta;');
+            expect(files[path].includes(`from '${STORYBOOK_FRAMEWORKS[framework]}'`)).toBe(typescript);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should find the stylesheets an entry file imports', () => {
+    const entry = `import { createApp } from 'vue'\nimport './style.css'\nimport 'virtual:uno.css';\nimport App from './App.vue'\n`;
+    expect(getGlobalStyles(entry, 'src/main.ts')).toEqual(['./src/style.css', 'virtual:uno.css']);
+    expect(getStorybookFiles({ framework: 'angular', typescript: true })).toEqual({});
+  });
+});
+
+/**
+ * **Feature: storybook-scaffolds, Property 2: Generated Projects Have Stories**
+ *
+ * *For any* template, a project generated with Storybook SHALL depend on the framework's
+ * Storybook package, load the stylesheet its entry file imports in the preview, and contain
+ * a story next to each template component it imports.
+ */
+describe('Property 2: Generated Projects Have Stories', () => {
+  it('should write the config and stories', async () => {
+    await fc.assert(
+      fc.asyncProperty(manifestArb, async (manifest) => {
+        const { framework, typescript } = manifest;
+        const { files, read } = await generateProject(manifest, {
+          features: ['storybook'],
+        });
+
+        const ext = typescript ? 'ts' : 'js';
+        const preview = read(`.storybook/preview.${ext}`)!;
+        expect(read(`.storybook/main.${ext}`)).toBeDefined();
+        for (const style of getGlobalStyles(read(manifest.entry)!, manifest.entry)) {
+          expect(preview.includes(`import '${style.replace(/^\.\//, '../')}';`)).toBe(read(style.slice(2)) !== undefined);
+        }
+
+        const stories = files.filter(file => file.path.includes('.stories.'));
+        expect(stories.length).toBeGreaterThan(0);
+        for (const story of stories) {
+          const imported = /^import \{? ?\w+ \}? ?from '(\.\/[^']+)';$/m.exec(story.content!.toString())![1];
+          const subject = `${story.path.slice(0, story.path.lastIndexOf('/'))}/${imported.slice(2)}`;
+          expect(files.some(file => file.path === subject || file.path.startsWith(`${subject}.`))).toBe(true);
+        }
+
+        const { devDependencies, scripts } = JSON.parse(read('package.json')!);
+        expect(devDependencies).toMatchObject({
+          storybook: expect.any(String),
+          [STORYBOOK_FRAMEWORKS[framework]]: expect.any(String),
+        });
+        expect(scripts.storybook).toBe('storybook dev -p 6006');
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
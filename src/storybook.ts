@@ -0,0 +1,344 @@
+/**
+ * Storybook scaffolds
+ * What the storybook feature generates for each framework: .storybook/main
+ * pointing at the framework's Vite integration, .storybook/preview loading
+ * the app's global styles, and stories for the components the bundled
+ * template ships.
+ */
+
+import { typed } from './scaffold.js';
+
+export interface StorybookScaffoldOptions {
+  framework: string;
+  typescript: boolean;
+  /** Global stylesheets the app loads, as returned by getGlobalStyles() */
+  styles?: string[];
+  /** Whether a template file exists, so stories are only written for components that do */
+  hasFile?: (path: string) => boolean;
+}
+
+/**
+ * Storybook framework package for each framework, which also exports the
+ * types stories are written with
+ */
+export const STORYBOOK_FRAMEWORKS: Record<string, string> = {
+  react: '@storybook/react-vite',
+  preact: '@storybook/preact-vite',
+  vue: '@storybook/vue3-vite',
+  svelte: '@storybook/svelte-vite',
+  solid: 'storybook-solidjs-vite',
+  vanilla: '@storybook/html-vite',
+};
+
+const STYLESHEET = /\.(css|scss|sass|less|styl)$|^virtual:uno\.css$/;
+
+interface Story {
+  path: string;
+  /** Template file the story imports */
+  subject: string;
+  content: string;
+}
+
+/**
+ * Get the stylesheets an entry file imports for their side effects
+ * Local stylesheets are returned relative to the project root, starting with
+ * './', and package or virtual ones as they are imported.
+ */
+export function getGlobalStyles(entry: string, entryPath: string): string[] {
+  const entryDir = entryPath.includes('/') ? entryPath.slice(0, entryPath.lastIndexOf('/')) : '.';
+  const styles: string[] = [];
+
+  for (const [, source] of entry.matchAll(/^import\s+['"]([^'"]+)['"];?\s*$/gm)) {
+    if (!STYLESHEET.test(source)) {
+      continue;
+    }
+    styles.push(source.startsWith('./') ? `./${entryDir}/${source.slice(2)}` : source);
+  }
+
+  return styles;
+}
+
+function getMainConfig(framework: string, typescript: boolean): string {
+  const pkg = STORYBOOK_FRAMEWORKS[framework];
+  const declaration = typescript
+    ? `import type { StorybookConfig } from '${pkg}';\n\nconst config: StorybookConfig = {`
+    : `/** @type {import('${pkg}').StorybookConfig} */\nconst config = {`;
+
+  return `${declaration}
+  stories: ['../src/**/*.mdx', '../src/**/*.stories.@(js|jsx|mjs|ts|tsx)'],
+  addons: ['@storybook/addon-docs'],
+  framework: {
+    name: '${pkg}',
+    options: {},
+  },
+};
+
+export default config;
+`;
+}
+
+function getPreview(framework: string, typescript: boolean, styles: string[]): string {
+  const pkg = STORYBOOK_FRAMEWORKS[framework];
+  const imports = [
+    ...(typescript ? [`import type { Preview } from '${pkg}';`] : []),
+    ...styles.map(style => `import '${style.startsWith('./') ? `.${style}` : style}';`),
+  ];
+  const declaration = typescript ? 'const preview: Preview = {' : `/** @type {import('${pkg}').Preview} */\nconst preview = {`;
+
+  return `${imports.length > 0 ? `${imports.join('\n')}\n\n` : ''}${declaration}
+  parameters: {
+    controls: {
+      matchers: {
+        color: /(background|color)$/i,
+        date: /Date$/i,
+      },
+    },
+  },
+};
+
+export default preview;
+`;
+}
+
+/**
+ * Get the default export and story type of a stories file
+ */
+function getMeta(typescript: boolean, component: string, body: string): string {
+  return `const meta = {
+${body}
+}${typed(typescript, ` satisfies Meta<typeof ${component}>`)};
+
+export default meta;
+${typed(typescript, 'type Story = StoryObj<typeof meta>;\n')}`;
+}
+
+function storyType(typescript: boolean): string {
+  return typed(typescript, ': Story');
+}
+
+function getStories(framework: string, typescript: boolean): Story[] {
+  const ext = typescript ? 'ts' : 'js';
+  const jsx = typescript ? 'tsx' : 'jsx';
+  const pkg = STORYBOOK_FRAMEWORKS[framework];
+  const typesImport = typed(typescript, `import type { Meta, StoryObj } from '${pkg}';\n`);
+  const logoMeta = (component: string) => getMeta(typescript, component, `  title: 'Brand/ViantLogo',
+  component: ${component},
+  tags: ['autodocs'],`);
+
+  switch (framework) {
+    case 'react':
+      return [
+        {
+          path: `src/components/ui/Button.stories.${jsx}`,
+          subject: `src/components/ui/Button.${jsx}`,
+          content: `${typesImport}import { fn } from 'storybook/test';
+import { Button } from './Button';
+
+${getMeta(typescript, 'Button', `  title: 'UI/Button',
+  component: Button,
+  tags: ['autodocs'],
+  args: {
+    children: 'Button',
+    onClick: fn(),
+  },
+  argTypes: {
+    variant: {
+      control: 'select',
+      options: ['default', 'destructive', 'outline', 'secondary', 'ghost', 'link'],
+    },
+    size: {
+      control: 'select',
+      options: ['default', 'sm', 'lg', 'icon'],
+    },
+  },`)}
+export const Default${storyType(typescript)} = {};
+
+export const Destructive${storyType(typescript)} = {
+  args: { variant: 'destructive' },
+};
+
+export const Outline${storyType(typescript)} = {
+  args: { variant: 'outline' },
+};
+
+export const Small${storyType(typescript)} = {
+  args: { size: 'sm' },
+};
+`,
+        },
+        {
+          path: `src/components/ui/Card.stories.${jsx}`,
+          subject: `src/components/ui/Card.${jsx}`,
+          content: `${typesImport}import { Button } from './Button';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from './Card';
+
+${getMeta(typescript, 'Card', `  title: 'UI/Card',
+  component: Card,
+  tags: ['autodocs'],
+  render: (args) => (
+    <Card {...args}>
+      <CardHeader>
+        <CardTitle>Card title</CardTitle>
+        <CardDescription>Cards group related content and actions.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <p>Put anything in the content area.</p>
+      </CardContent>
+      <CardFooter>
+        <Button>Action</Button>
+      </CardFooter>
+    </Card>
+  ),`)}
+export const Default${storyType(typescript)} = {};
+`,
+        },
+      ];
+
+    case 'preact': {
+      // The TypeScript template keeps the logo next to the app, the JavaScript one in components
+      const [dir, importStatement] = typescript
+        ? ['src', `import { ViantLogo } from './ViantLogo';`]
+        : ['src/components', `import ViantLogo from './ViantLogo';`];
+      return [
+        {
+          path: `${dir}/ViantLogo.stories.${jsx}`,
+          subject: `${dir}/ViantLogo.${jsx}`,
+          content: `${typesImport}${importStatement}
+
+${logoMeta('ViantLogo')}
+export const Default${storyType(typescript)} = {};
+`,
+        },
+      ];
+    }
+
+    case 'solid':
+      return [
+        {
+          path: `src/components/ViantLogo.stories.${jsx}`,
+          subject: `src/components/ViantLogo.${jsx}`,
+          content: `${typesImport}import ViantLogo from './ViantLogo';
+
+${logoMeta('ViantLogo')}
+export const Default${storyType(typescript)} = {};
+`,
+        },
+      ];
+
+    case 'vue':
+      return [
+        {
+          path: `src/components/HelloWorld.stories.${ext}`,
+          subject: 'src/components/HelloWorld.vue',
+          content: `${typesImport}import HelloWorld from './HelloWorld.vue';
+
+${getMeta(typescript, 'HelloWorld', `  title: 'Components/HelloWorld',
+  component: HelloWorld,
+  tags: ['autodocs'],
+  args: {
+    msg: 'Hello Vite + Vue',
+  },`)}
+export const Default${storyType(typescript)} = {};
+`,
+        },
+        {
+          path: `src/components/ViantLogo.stories.${ext}`,
+          subject: 'src/components/ViantLogo.vue',
+          content: `${typesImport}import ViantLogo from './ViantLogo.vue';
+
+${logoMeta('ViantLogo')}
+export const Default${storyType(typescript)} = {};
+`,
+        },
+      ];
+
+    case 'svelte':
+      return [
+        {
+          path: `src/lib/Counter.stories.${ext}`,
+          subject: 'src/lib/Counter.svelte',
+          content: `${typesImport}import Counter from './Counter.svelte';
+
+${getMeta(typescript, 'Counter', `  title: 'Components/Counter',
+  component: Counter,
+  tags: ['autodocs'],`)}
+export const Default${storyType(typescript)} = {};
+`,
+        },
+        {
+          path: `src/lib/ViantLogo.stories.${ext}`,
+          subject: 'src/lib/ViantLogo.svelte',
+          content: `${typesImport}import ViantLogo from './ViantLogo.svelte';
+
+${logoMeta('ViantLogo')}
+export const Default${storyType(typescript)} = {};
+`,
+        },
+      ];
+
+    case 'vanilla': {
+      // The HTML renderer has no components, so stories render elements or markup
+      const htmlMeta = (body: string) => `const meta = {
+${body}
+}${typed(typescript, ' satisfies Meta')};
+
+export default meta;
+${typed(typescript, 'type Story = StoryObj<typeof meta>;\n')}`;
+      return [
+        {
+          path: `src/counter.stories.${ext}`,
+          subject: `src/counter.${ext}`,
+          content: `${typesImport}import { setupCounter } from './counter';
+
+${htmlMeta(`  title: 'Components/Counter',
+  tags: ['autodocs'],
+  render: () => {
+    const button = document.createElement('button');
+    button.type = 'button';
+    setupCounter(button);
+    return button;
+  },`)}
+export const Default${storyType(typescript)} = {};
+`,
+        },
+        {
+          path: `src/viant-logo.stories.${ext}`,
+          subject: `src/viant-logo.${ext}`,
+          content: `${typesImport}import { createViantLogo } from './viant-logo';
+
+${htmlMeta(`  title: 'Brand/ViantLogo',
+  tags: ['autodocs'],
+  render: () => createViantLogo(),`)}
+export const Default${storyType(typescript)} = {};
+`,
+        },
+      ];
+    }
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Get the Storybook config and the stories for a framework
+ */
+export function getStorybookFiles({ framework, typescript, styles = [], hasFile = () => true }: StorybookScaffoldOptions): Record<string, string> {
+  if (!(framework in STORYBOOK_FRAMEWORKS)) {
+    return {};
+  }
+
+  const ext = typescript ? 'ts' : 'js';
+  const files: Record<string, string> = {
+    [`.storybook/main.${ext}`]: getMainConfig(framework, typescript),
+    [`.storybook/preview.${ext}`]: getPreview(framework, typescript, styles),
+  };
+
+  for (const story of getStories(framework, typescript)) {
+    if (hasFile(story.subject)) {
+      files[story.path] = story.content;
+    }
+  }
+
+  return files;
+}
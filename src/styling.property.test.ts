@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { join, posix } from 'path';
+import { getStylingOverlayDir, getUnusedStylesheets, TAILWIND_CONFIG_FILES, TAILWIND_PACKAGES } from './styling.js';
+import { createProject } from './api.js';
+import { templateManifests } from './options.js';
+import { TEMPLATES_DIR } from './templateManifest.js';
+
+/**
+ * Stylesheet languages whose files only the matching styling generates
+ */
+const PREPROCESSOR_EXTENSIONS: Record<string, string> = {
+  sass: 'scss',
+  less: 'less',
+  stylus: 'styl',
+};
+
+/**
+ * Utility classes with a variant, which only Tailwind and UnoCSS generate CSS for
+ */
+const UTILITY_CLASS = /\b(?:hover|dark|group-hover|md|lg):[\w[-]/;
+
+const RELATIVE_IMPORT = /(?:\bfrom\s+|\bimport\s*\(?\s*|@(?:import|use)\s+(?:\(reference\)\s+)?)['"](\.[^'"]+)['"]/g;
+
+/**
+ * **Feature: styling-overlays, Property 1: Replaced Stylesheets Are Dropped**
+ *
+ * *For any* set of stylesheets, the stylesheets no file imports SHALL be reported unused, and a
+ * stylesheet SHALL count as imported when its import resolves to a vanilla-extract script instead.
+ */
+describe('Property 1: Replaced Stylesheets Are Dropped', () => {
+  const stylesheetArb = fc.record({
+    name: fc.stringMatching(/^[a-z]{1,8}$/),
+    extension: fc.constantFrom('css', 'scss', 'less', 'styl'),
+    imported: fc.boolean(),
+    replaced: fc.boolean(),
+  });
+
+  it('should report exactly the stylesheets left unimported', () => {
+    fc.assert(
+      fc.property(fc.uniqueArray(stylesheetArb, { selector: sheet => sheet.name, maxLength: 6 }), (stylesheets) => {
+        const files: Record<string, string> = {};
+        const imports: string[] = [];
+        for (const { name, extension, imported, replaced } of stylesheets) {
+          files[`src/${name}.${extension}`] = '';
+          if (replaced) {
+            files[`src/${name}.${extension}.ts`] = '';
+          }
+          if (imported) {
+            imports.push(`import './${name}.${extension}'`);
+          }
+        }
+        files['src/main.ts'] = imports.join('\n');
+
+        const unused = getUnusedStylesheets(Object.keys(files), files);
+
+        expect(unused.sort()).toEqual(
+          stylesheets
+            .filter(({ imported, replaced }) => !imported || replaced)
+            .map(({ name, extension }) => `src/${name}.${extension}`)
+            .sort()
+        );
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+/**
+ * **Feature: styling-overlays, Property 2: Generated Projects Use Only the Chosen Styling**
+ *
+ * *For any* template and styling it supports, the generated project SHALL resolve every relative
+ * import to a generated file, write preprocessor stylesheets only for that preprocessor, use
+ * utility classes exactly when the styling is Tailwind or UnoCSS, and keep Tailwind's config
+ * files and packages only when the styling is Tailwind.
+ */
+describe('Property 2: Generated Projects Use Only the Chosen Styling', () => {
+  const projectArb = fc
+    .constantFrom(...Object.values(templateManifests))
+    .chain(manifest => fc.tuple(fc.constant(manifest), fc.constantFrom(...manifest.stylings)));
+
+  it('should restyle the template without stale stylesheets or classes', async () => {
+    await fc.assert(
+      fc.asyncProperty(projectArb, async ([manifest, styling]) => {
+        const { files } = await createProject({
+          name: 'my-app',
+          template: manifest.name,
+          styling,
+          packageManager: 'npm',
+          features: [],
+          dryRun: true,
+          silent: true,
+          directory: join(TEMPLATES_DIR, '..', 'does-not-exist', manifest.name),
+        });
+        const paths = files.map(file => file.path);
+        const sources = files.filter(file => file.path.startsWith('src/'));
+
+        for (const { path, content } of sources) {
+          for (const [, specifier] of content!.toString().matchAll(RELATIVE_IMPORT)) {
+            const subject = posix.join(posix.dirname(path), specifier);
+            const partial = posix.join(posix.dirname(subject), `_${posix.basename(subject)}`);
+            expect(paths.some(p => p === subject || p.startsWith(`${subject}.`) || p.startsWith(`${partial}.`))).toBe(true);
+          }
+        }
+
+        for (const [name, extension] of Object.entries(PREPROCESSOR_EXTENSIONS)) {
+          expect(paths.some(path => path.endsWith(`.${extension}`))).toBe(name === styling);
+        }
+
+        const utilities = sources.some(({ path, content }) => /\.(jsx?|tsx?|vue|svelte)$/.test(path) && UTILITY_CLASS.test(content!.toString()));
+        expect(utilities).toBe(styling === 'tailwind' || styling === 'unocss');
+        if (styling !== 'none') {
+          expect(getStylingOverlayDir(styling, manifest.name)).toBeDefined();
+        }
+
+        const { dependencies = {}, devDependencies = {} } = JSON.parse(files.find(file => file.path === 'package.json')!.content!.toString());
+        expect('tailwindcss' in devDependencies).toBe(styling === 'tailwind');
+        if (styling !== 'tailwind') {
+          for (const name of TAILWIND_PACKAGES) {
+            expect(name in dependencies || name in devDependencies).toBe(false);
+          }
+          for (const configFile of TAILWIND_CONFIG_FILES) {
+            expect(paths).not.toContain(configFile);
+          }
+        }
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Styling overlays
+ * Each bundled template is restyled for a styling option by an overlay in
+ * templates/styles/<styling>/<template>, which mirrors the template and is
+ * copied over it: the starter components are rewritten for the styling and
+ * its stylesheets or config files are added. Templates without an overlay for
+ * a styling, like the templates already written in plain CSS, are used as is.
+ */
+
+import { existsSync } from 'fs';
+import { join, posix } from 'path';
+import { TEMPLATES_DIR } from './templateManifest.js';
+
+/**
+ * Directory of the styling overlays, next to the bundled templates
+ */
+export const STYLES_DIR = join(TEMPLATES_DIR, 'styles');
+
+/**
+ * Config files the bundled templates come with for Tailwind, which a project
+ * restyled for another styling has no use for
+ */
+export const TAILWIND_CONFIG_FILES = [
+  'tailwind.config.ts',
+  'tailwind.config.js',
+  'postcss.config.ts',
+  'postcss.config.js',
+  'postcss.config.cjs',
+];
+
+/**
+ * Packages the bundled templates depend on for Tailwind
+ */
+export const TAILWIND_PACKAGES = ['tailwindcss', '@tailwindcss/vite', 'postcss', 'autoprefixer'];
+
+const STYLESHEET_EXTENSIONS = ['css', 'scss', 'sass', 'less', 'styl'];
+
+const STYLESHEET = new RegExp(`\\.(${STYLESHEET_EXTENSIONS.join('|')})$`);
+
+/**
+ * Specifiers a file imports another file with, in scripts, components,
+ * stylesheets and HTML
+ */
+const IMPORT_SPECIFIER = /(?:\bfrom\s+|\bimport\s*\(?\s*|@(?:import|use|forward|require)\s+(?:url\()?|\bsrc=)['"]([^'"]+)['"]/g;
+
+/**
+ * Get the overlay restyling a bundled template for a styling, if there is one
+ */
+export function getStylingOverlayDir(styling: string, template: string): string | undefined {
+  const overlayDir = join(STYLES_DIR, styling, template);
+  return existsSync(overlayDir) ? overlayDir : undefined;
+}
+
+/**
+ * Resolve an import specifier to a path relative to the project root, for
+ * relative imports, imports through the '@' alias of src and root-relative
+ * imports. Package imports resolve to nothing.
+ */
+function resolveSpecifier(specifier: string, importer: string): string | undefined {
+  if (specifier.startsWith('@/')) {
+    return `src/${specifier.slice(2)}`;
+  }
+  if (specifier.startsWith('/')) {
+    return specifier.slice(1);
+  }
+  if (specifier.startsWith('.')) {
+    return posix.join(posix.dirname(importer), specifier);
+  }
+  return undefined;
+}
+
+/**
+ * Get the stylesheets among some files that no file imports, such as the
+ * template stylesheets an overlay replaced with stylesheets of its own
+ * Importing './app.css' next to a vanilla-extract app.css.ts imports the
+ * latter, so the template's app.css it replaces counts as unused.
+ */
+export function getUnusedStylesheets(candidates: string[], files: Record<string, string>): string[] {
+  const imported = new Set<string>();
+  for (const [path, content] of Object.entries(files)) {
+    for (const [, specifier] of content.matchAll(IMPORT_SPECIFIER)) {
+      const resolved = resolveSpecifier(specifier, path);
+      if (!resolved) {
+        continue;
+      }
+      imported.add([`${resolved}.ts`, `${resolved}.js`].find(script => script in files) ?? resolved);
+      // Sass, Less and Stylus imports may leave out the extension
+      if (STYLESHEET.test(path)) {
+        for (const extension of STYLESHEET_EXTENSIONS) {
+          imported.add(`${resolved}.${extension}`);
+        }
+      }
+    }
+  }
+
+  return candidates.filter(path => STYLESHEET.test(path) && !imported.has(path));
+}
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { cpSync, existsSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  validateTemplateManifest,
+  applyTemplateVariables,
+  hasTemplateVariables,
+  TEMPLATES_DIR,
+  MANIFEST_FILE,
+} from './templateManifest.js';
+import { templates, templateManifests, getManifestCatalog, stylingOptions, featureOptions } from './options.js';
+import { parseCliFlags, resolveProjectOptions } from './cliOptions.js';
+import { createProject } from './api.js';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+
+function expectError(fn: () => unknown, code: string): void {
+  try {
+    fn();
+    expect.fail(`Expected a ${code} error`);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProjectGenerationError);
+    expect((error as ProjectGenerationError).code).toBe(code);
+  }
+}
+
+/**
+ * **Feature: template-manifests, Property 1: Bundled Templates Describe Themselves**
+ *
+ * *For any* bundled template, its template.json SHALL be valid against the option catalogs,
+ * name the template folder, point at an entry file and vite config the template contains,
+ * and be the only template for its framework and language.
+ */
+describe('Property 1: Bundled Templates Describe Themselves', () => {
+  const templateArb = fc.constantFrom(...Object.keys(templates));
+
+  it('should have a valid manifest for every template folder', () => {
+    const folders = readdirSync(TEMPLATES_DIR).filter(name => existsSync(join(TEMPLATES_DIR, name, 'package.json')));
+    expect(Object.keys(templateManifests).sort()).toEqual(folders.sort());
+  });
+
+  it('should describe the files of the template', () => {
+    fc.assert(
+      fc.property(templateArb, (template) => {
+        const manifest = templateManifests[template];
+        expect(validateTemplateManifest(manifest, template, getManifestCatalog())).toEqual(manifest);
+        expect(templates[template]).toBe(manifest.description);
+        expect(existsSync(join(TEMPLATES_DIR, template, manifest.entry))).toBe(true);
+        expect(existsSync(join(TEMPLATES_DIR, template, manifest.viteConfig))).toBe(true);
+
+        const sameKind = Object.values(templateManifests).filter(
+          other => other.framework === manifest.framework && other.typescript === manifest.typescript
+        );
+        expect(sameKind).toEqual([manifest]);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should reject invalid manifests naming the offending field', () => {
+    fc.assert(
+      fc.property(
+        templateArb,
+        fc.constantFrom('framework', 'typescript', 'stylings', 'entry', 'variables'),
+        (template, field) => {
+          const manifest = { ...templateManifests[template], [field]: 42 };
+          try {
+            validateTemplateManifest(manifest, 'template.json', getManifestCatalog());
+            expect.fail('Expected an invalid manifest');
+          } catch (error) {
+            expect(error).toBeInstanceOf(ProjectGenerationError);
+            expect((error as ProjectGenerationError).message).toContain(`"${field}"`);
+          }
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
+
+/**
+ * **Feature: template-manifests, Property 2: Options Follow the Manifest**
+ *
+ * *For any* bundled template, styling solution and feature, the options SHALL be accepted
+ * exactly when the template's manifest lists them, and a generated project SHALL contain
+ * the manifest's directories but not the manifest itself.
+ */
+describe('Property 2: Options Follow the Manifest', () => {
+  const templateArb = fc.constantFrom(...Object.keys(templates));
+  const stylingArb = fc.constantFrom(...Object.keys(stylingOptions));
+  const featureArb = fc.constantFrom(
+    ...featureOptions
+      .map(feature => feature.value)
+      .filter(feature => !['state-management', 'api-client', 'routing', 'linting'].includes(feature))
+  );
+
+  it('should accept stylings and features only when the manifest lists them', () => {
+    fc.assert(
+      fc.property(templateArb, stylingArb, featureArb, (template, styling, feature) => {
+        const manifest = templateManifests[template];
+        const resolve = () =>
+          resolveProjectOptions('my-app', parseCliFlags({ template, styling, features: feature }), 'npm');
+
+        if (manifest.stylings.includes(styling) && manifest.features.includes(feature)) {
+          expect(resolve().template).toBe(template);
+        } else {
+          expectError(resolve, ERROR_CODES.INVALID_OPTION);
+        }
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should generate the manifest directories without the manifest', async () => {
+    await fc.assert(
+      fc.asyncProperty(templateArb, async (template) => {
+        const { files } = await createProject({
+          name: 'my-app',
+          template,
+          directory: join(tmpdir(), 'viant-manifest-test', template),
+          packageManager: 'npm',
+          silent: true,
+          dryRun: true,
+        });
+        const paths = files.map(file => file.path);
+
+        expect(paths).not.toContain(MANIFEST_FILE);
+        for (const directory of templateManifests[template].directories) {
+          expect(paths.some(path => path.startsWith(`${directory}/`))).toBe(true);
+        }
+      }),
+      { numRuns: 12 }
+    );
+  });
+});
+
+/**
+ * **Feature: template-manifests, Property 3: Template Variables Are Substituted**
+ *
+ * *For any* values of the variables a custom template declares, the generated files SHALL
+ * contain the values in place of their {{ viant.<name> }} placeholders. Missing values
+ * without a default and values for undeclared variables SHALL be rejected.
+ */
+describe('Property 3: Template Variables Are Substituted', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'viant-manifest-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const valueArb = fc.stringMatching(/^[A-Za-z0-9 .,-]{1,30}$/);
+
+  function createTemplate(): string {
+    const dir = join(tempDir, 'starter');
+    cpSync(join(TEMPLATES_DIR, 'vanilla-ts'), dir, { recursive: true });
+    writeFileSync(
+      join(dir, MANIFEST_FILE),
+      JSON.stringify({
+        ...templateManifests['vanilla-ts'],
+        name: 'starter',
+        variables: [
+          { name: 'title', message: 'Page title' },
+          { name: 'author', message: 'Author', initial: 'Viant' },
+        ],
+      })
+    );
+    writeFileSync(join(dir, 'ABOUT.md'), '# {{ viant.title }}\n\nBy {{viant.author}} for {{ viant.name }}.\n');
+    return dir;
+  }
+
+  it('should leave content without placeholders unchanged', () => {
+    fc.assert(
+      fc.property(fc.string(), fc.dictionary(fc.stringMatching(/^[a-z]{1,8}$/), fc.string()), (content, values) => {
+        fc.pre(!hasTemplateVariables(content));
+        expect(applyTemplateVariables(content, values)).toBe(content);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should substitute given values and defaults', async () => {
+    const template = createTemplate();
+
+    await fc.assert(
+      fc.asyncProperty(valueArb, async (title) => {
+        const { files } = await createProject({
+          name: 'my-app',
+          template,
+          directory: join(tempDir, 'my-app'),
+          packageManager: 'npm',
+          variables: { title },
+          silent: true,
+          dryRun: true,
+        });
+
+        const about = files.find(file => file.path === 'ABOUT.md');
+        expect(about?.content?.toString()).toBe(`# ${title}\n\nBy Viant for my-app.\n`);
+      }),
+      { numRuns: 20 }
+    );
+  });
+
+  it('should reject missing and undeclared variables', async () => {
+    const template = createTemplate();
+    const options = { name: 'my-app', template, packageManager: 'npm', silent: true, dryRun: true };
+
+    await expect(createProject(options)).rejects.toMatchObject({ code: ERROR_CODES.INVALID_OPTION });
+    await expect(
+      createProject({ ...options, variables: { title: 'Home', colour: 'red' } })
+    ).rejects.toMatchObject({ code: ERROR_CODES.INVALID_OPTION });
+    expectError(() => parseCliFlags({ var: ['title'] }), ERROR_CODES.INVALID_OPTION);
+    expect(parseCliFlags({ var: ['title=a=b'] }).variables).toEqual({ title: 'a=b' });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Template manifests: the template.json file in each template folder, which
+ * declares the template's framework, language, supported stylings and
+ * features, entry file, vite config, directory layout and prompt variables
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+
+/**
+ * Directory of the bundled templates, in the package root: the parent of src/
+ * when running from source, and the parent of dist/ when running the bundle
+ */
+export const TEMPLATES_DIR = resolve(dirname(fileURLToPath(import.meta.url)), '..', 'templates');
+
+export const MANIFEST_FILE = 'template.json';
+
+/**
+ * A value asked for when generating from the template and substituted for
+ * {{ viant.<name> }} placeholders in the template files
+ */
+export interface TemplateVariable {
+  name: string;
+  /** Prompt shown when asking for the value */
+  message: string;
+  /** Default value; variables without one must be given */
+  initial?: string;
+}
+
+export interface TemplateManifest {
+  name: string;
+  description: string;
+  framework: string;
+  typescript: boolean;
+  stylings: string[];
+  features: string[];
+  /** Entry file, relative to the project root */
+  entry: string;
+  /** Vite config file, relative to the project root */
+  viteConfig: string;
+  /** Directories every project gets, relative to the project root */
+  directories: string[];
+  variables: TemplateVariable[];
+}
+
+/**
+ * Values manifests are checked against, passed in by callers to keep this
+ * module free of the option catalogs
+ */
+export interface ManifestCatalog {
+  frameworks: string[];
+  stylings: string[];
+  features: string[];
+}
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+const PLACEHOLDER_PATTERN = /\{\{\s*viant\.([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+function invalidManifest(source: string, field: string, problem: string): ProjectGenerationError {
+  return new ProjectGenerationError(`Invalid template manifest ${source}: "${field}" ${problem}`, ERROR_CODES.TEMPLATE_NOT_FOUND, {
+    recoverable: false,
+    hint: 'See schema/viant-template.schema.json in the create-viant-app package for the manifest format.',
+  });
+}
+
+function assertString(source: string, field: string, value: unknown): void {
+  if (typeof value !== 'string' || value.length === 0) {
+    throw invalidManifest(source, field, 'must be a non-empty string');
+  }
+}
+
+function assertStringList(source: string, field: string, value: unknown, validValues?: string[]): void {
+  if (!Array.isArray(value)) {
+    throw invalidManifest(source, field, 'must be an array of strings');
+  }
+  value.forEach((item, index) => {
+    if (typeof item !== 'string' || (validValues && !validValues.includes(item))) {
+      throw invalidManifest(source, `${field}[${index}]`, `is not valid, got ${JSON.stringify(item)}`);
+    }
+  });
+}
+
+/**
+ * Validate parsed manifest contents
+ * Values are only checked against the catalog when one is given
+ */
+export function validateTemplateManifest(value: unknown, source: string, catalog?: ManifestCatalog): TemplateManifest {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw invalidManifest(source, '(root)', 'must be a JSON object');
+  }
+
+  const manifest = value as Record<string, unknown>;
+  for (const field of ['name', 'description', 'framework', 'entry', 'viteConfig']) {
+    assertString(source, field, manifest[field]);
+  }
+  if (catalog && !catalog.frameworks.includes(manifest.framework as string)) {
+    throw invalidManifest(source, 'framework', `must be one of ${catalog.frameworks.join(', ')}`);
+  }
+  if (typeof manifest.typescript !== 'boolean') {
+    throw invalidManifest(source, 'typescript', 'must be a boolean');
+  }
+  assertStringList(source, 'stylings', manifest.stylings, catalog?.stylings);
+  assertStringList(source, 'features', manifest.features, catalog?.features);
+  assertStringList(source, 'directories', manifest.directories ?? []);
+
+  const variables = manifest.variables ?? [];
+  if (!Array.isArray(variables)) {
+    throw invalidManifest(source, 'variables', 'must be an array of variables');
+  }
+  variables.forEach((variable, index) => {
+    if (typeof variable?.name !== 'string' || !VARIABLE_NAME_PATTERN.test(variable.name) || variable.name === 'name') {
+      throw invalidManifest(source, `variables[${index}].name`, 'must be an identifier other than "name"');
+    }
+    assertString(source, `variables[${index}].message`, variable.message);
+    if (variable.initial !== undefined && typeof variable.initial !== 'string') {
+      throw invalidManifest(source, `variables[${index}].initial`, 'must be a string');
+    }
+  });
+
+  return {
+    name: manifest.name as string,
+    description: manifest.description as string,
+    framework: manifest.framework as string,
+    typescript: manifest.typescript,
+    stylings: manifest.stylings as string[],
+    features: manifest.features as string[],
+    entry: manifest.entry as string,
+    viteConfig: manifest.viteConfig as string,
+    directories: (manifest.directories as string[] | undefined) ?? [],
+    variables: variables as TemplateVariable[],
+  };
+}
+
+/**
+ * Read the manifest of a template folder, if it has one
+ */
+export function readTemplateManifest(templateDir: string, catalog?: ManifestCatalog): TemplateManifest | undefined {
+  const manifestPath = join(templateDir, MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    return undefined;
+  }
+
+  let contents: unknown;
+  try {
+    contents = JSON.parse(readFileSync(manifestPath, 'utf8'));
+  } catch (error: any) {
+    throw invalidManifest(manifestPath, '(root)', `is not valid JSON: ${error.message}`);
+  }
+
+  return validateTemplateManifest(contents, manifestPath, catalog);
+}
+
+/**
+ * Read the manifests of all bundled templates, keyed by template name
+ */
+export function loadBundledManifests(templatesDir: string = TEMPLATES_DIR): Record<string, TemplateManifest> {
+  const manifests: Record<string, TemplateManifest> = {};
+
+  for (const entry of readdirSync(templatesDir, { withFileTypes: true })) {
+    const manifest = entry.isDirectory() ? readTemplateManifest(join(templatesDir, entry.name)) : undefined;
+    if (manifest) {
+      manifests[manifest.name] = manifest;
+    }
+  }
+
+  return manifests;
+}
+
+/**
+ * Describe a template folder without a manifest from what was detected about
+ * it. Nothing is assumed about its layout, and everything is supported.
+ */
+export function inferTemplateManifest(
+  templateDir: string,
+  name: string,
+  framework: string,
+  typescript: boolean,
+  catalog: ManifestCatalog
+): TemplateManifest {
+  const candidates = (base: string) => ['ts', 'mts', 'js', 'mjs', 'tsx', 'jsx'].map(extension => `${base}.${extension}`);
+  const entry = [...candidates('src/main'), ...candidates('src/index')].find(file => existsSync(join(templateDir, file)));
+  const viteConfig = candidates('vite.config').find(file => existsSync(join(templateDir, file)));
+
+  return {
+    name,
+    description: `Custom template ${name}`,
+    framework,
+    typescript,
+    stylings: [...catalog.stylings],
+    features: [...catalog.features],
+    entry: entry ?? `src/main.${typescript ? 'ts' : 'js'}`,
+    viteConfig: viteConfig ?? `vite.config.${typescript ? 'ts' : 'js'}`,
+    directories: [],
+    variables: [],
+  };
+}
+
+/**
+ * Replace {{ viant.<name> }} placeholders with variable values
+ * Placeholders of unknown variables are left as they are
+ */
+export function applyTemplateVariables(content: string, values: Record<string, string>): string {
+  return content.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(values, name) ? values[name] : placeholder
+  );
+}
+
+/**
+ * Check whether content contains variable placeholders
+ */
+export function hasTemplateVariables(content: string): boolean {
+  return new RegExp(PLACEHOLDER_PATTERN.source).test(content);
+}
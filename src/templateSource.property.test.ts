@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { execFileSync } from 'child_process';
+import { cpSync, existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { isCustomTemplate, loadCustomTemplate, applyCustomTemplate } from './templateSource.js';
+import { parseCliFlags } from './cliOptions.js';
+import { createProject } from './api.js';
+import { ERROR_CODES } from './errorHandling.js';
+import { templates } from './options.js';
+
+/**
+ * **Feature: custom-templates, Property 1: Custom Templates Are Generated Like Bundled Ones**
+ *
+ * *For any* bundled template copied to a directory, tarball or git repository, loading it
+ * as a custom template SHALL detect the template's framework and language, and generating
+ * from it SHALL produce the template's files with the project name injected.
+ */
+describe('Property 1: Custom Templates Are Generated Like Bundled Ones', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), 'viant-template-test-'));
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const bundledTemplateArb = fc.constantFrom(...Object.keys(templates));
+  const templatesDir = join(__dirname, '..', 'templates');
+
+  function copyTemplate(template: string, target: string): void {
+    cpSync(join(templatesDir, template), target, { recursive: true });
+  }
+
+  it('should tell custom template sources from bundled template names', () => {
+    fc.assert(
+      fc.property(bundledTemplateArb, fc.stringMatching(/^[a-z0-9/._-]{1,20}$/), (template, path) => {
+        expect(isCustomTemplate(template)).toBe(false);
+        expect(isCustomTemplate(`./${path}`)).toBe(true);
+        expect(isCustomTemplate(`/${path}`)).toBe(true);
+        expect(isCustomTemplate(`file:${path}.tgz`)).toBe(true);
+        expect(isCustomTemplate(`git+file:///${path}#v1`)).toBe(true);
+        expect(parseCliFlags({ template: `./${path}` }).template).toBe(`./${path}`);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should detect the framework and language of a template directory', () => {
+    fc.assert(
+      fc.property(bundledTemplateArb, (template) => {
+        const dir = join(tempDir, template);
+        if (!existsSync(dir)) {
+          copyTemplate(template, dir);
+        }
+
+        const custom = loadCustomTemplate(`./${template}`, tempDir);
+        expect(`${custom.framework}-${custom.typescript ? 'ts' : 'js'}`).toBe(template);
+        expect(custom.path).toBe(dir);
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should unpack tarballs and check out git refs', () => {
+    copyTemplate('svelte-ts', join(tempDir, 'package'));
+    execFileSync('tar', ['-czf', 'starter.tgz', 'package'], { cwd: tempDir });
+
+    const fromTarball = loadCustomTemplate('file:./starter.tgz', tempDir);
+    expect(fromTarball.framework).toBe('svelte');
+    expect(existsSync(join(fromTarball.path, 'package.json'))).toBe(true);
+    fromTarball.cleanup();
+    expect(existsSync(fromTarball.path)).toBe(false);
+
+    const repo = join(tempDir, 'repo');
+    copyTemplate('solid-js', repo);
+    const git = (...args: string[]) =>
+      execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], { cwd: repo, stdio: 'pipe' });
+    git('init', '--quiet');
+    git('add', '.');
+    git('commit', '--quiet', '-m', 'v1');
+    git('tag', 'v1');
+    writeFileSync(join(repo, 'later.txt'), 'after v1');
+    git('add', '.');
+    git('commit', '--quiet', '-m', 'later');
+    git('tag', 'later#1');
+
+    const fromGit = loadCustomTemplate(`git+file://${repo}#v1`, tempDir);
+    expect(fromGit.framework).toBe('solid');
+    expect(fromGit.typescript).toBe(false);
+    expect(existsSync(join(fromGit.path, 'later.txt'))).toBe(false);
+    expect(existsSync(join(fromGit.path, '.git'))).toBe(false);
+    fromGit.cleanup();
+
+    // Only the first # separates the ref
+    const fromHashRef = loadCustomTemplate(`git+file://${repo}#later#1`, tempDir);
+    expect(existsSync(join(fromHashRef.path, 'later.txt'))).toBe(true);
+    fromHashRef.cleanup();
+  });
+
+  it('should reject missing templates and contradicting options', () => {
+    mkdirSync(join(tempDir, 'empty'));
+    for (const source of ['./missing', './empty', `git+file://${tempDir}/missing#v1`]) {
+      expect(() => loadCustomTemplate(source, tempDir)).toThrow(expect.objectContaining({ code: ERROR_CODES.TEMPLATE_NOT_FOUND }));
+    }
+    for (const source of [`git+--upload-pack=touch ${tempDir}/injected`, `git+file://${tempDir}/repo#--orphan=injected`]) {
+      expect(() => loadCustomTemplate(source, tempDir)).toThrow(expect.objectContaining({
+        code: ERROR_CODES.TEMPLATE_NOT_FOUND,
+        message: expect.stringContaining('starting with "-"'),
+      }));
+    }
+
+    copyTemplate('vue-ts', join(tempDir, 'starter'));
+    const custom = loadCustomTemplate('./starter', tempDir);
+    expect(() => applyCustomTemplate({ framework: 'react' }, custom)).toThrow(expect.objectContaining({ code: ERROR_CODES.INVALID_OPTION }));
+    expect(() => applyCustomTemplate({ typescript: false }, custom)).toThrow(expect.objectContaining({ code: ERROR_CODES.INVALID_OPTION }));
+    expect(applyCustomTemplate({ styling: 'sass' }, custom)).toMatchObject({
+      template: './starter',
+      templatePath: custom.path,
+      framework: 'vue',
+      typescript: true,
+      styling: 'sass',
+    });
+  });
+
+  it('should generate projects from custom templates', async () => {
+    const starter = join(tempDir, 'starter');
+    copyTemplate('react-ts', starter);
+    writeFileSync(join(starter, 'src', 'design-system.ts'), 'export const theme = {};\n');
+    mkdirSync(join(starter, 'node_modules', 'dep'), { recursive: true });
+    writeFileSync(join(starter, 'node_modules', 'dep', 'index.js'), '');
+
+    const { options, files } = await createProject({
+      name: 'my-app',
+      template: starter,
+      packageManager: 'npm',
+      directory: join(tempDir, 'my-app'),
+      dryRun: true,
+      silent: true,
+    });
+
+    const paths = files.map(file => file.path);
+    expect(options).toMatchObject({ template: starter, framework: 'react', typescript: true });
+    expect(paths).toContain('src/design-system.ts');
+    expect(paths.some(path => path.startsWith('node_modules/'))).toBe(false);
+    expect(JSON.parse(files.find(file => file.path === 'package.json')!.content!.toString()).name).toBe('my-app');
+  });
+});
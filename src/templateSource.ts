@@ -0,0 +1,185 @@
+/**
+ * Custom templates: project templates loaded from a local directory, a
+ * tarball or a git repository instead of the bundled templates/ folder
+ *
+ * Supported sources:
+ * - ./path/to/dir or /abs/path/to/dir
+ * - file:./starter.tgz (or any path to a .tgz, .tar.gz or .tar file)
+ * - git+file:///path/to/repo#tag (any git URL prefixed with git+, with an optional ref)
+ */
+
+import { execFileSync } from 'child_process';
+import { existsSync, mkdtempSync, readdirSync, rmSync, statSync } from 'fs';
+import { isAbsolute, join, resolve } from 'path';
+import { tmpdir } from 'os';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+import { detectProject } from './detectProject.js';
+import { readTemplateManifest } from './templateManifest.js';
+import { getManifestCatalog, type ProjectOptions } from './options.js';
+
+export interface CustomTemplate {
+  /** The template as given, e.g. "file:./starter.tgz" */
+  source: string;
+  /** Local directory holding the template files */
+  path: string;
+  framework: string;
+  typescript: boolean;
+  /** Remove the temporary directory a tarball or repository was unpacked into */
+  cleanup(): void;
+}
+
+const TARBALL_EXTENSIONS = ['.tgz', '.tar.gz', '.tar'];
+
+/**
+ * Check whether a template refers to a custom source rather than a bundled template
+ */
+export function isCustomTemplate(template: string): boolean {
+  return (
+    template.startsWith('.') ||
+    template.startsWith('file:') ||
+    template.startsWith('git+') ||
+    isAbsolute(template)
+  );
+}
+
+function templateNotFound(source: string, problem: string, cause?: Error): ProjectGenerationError {
+  return new ProjectGenerationError(`Template "${source}" ${problem}`, ERROR_CODES.TEMPLATE_NOT_FOUND, {
+    recoverable: false,
+    hint: 'Custom templates can be a directory, file:<path>.tgz or git+file:///<repo>#<ref>, and must contain a package.json.',
+    cause,
+  });
+}
+
+/**
+ * Get the directory holding the files of an unpacked template
+ * Tarballs created by npm pack put everything in a single package/ directory
+ */
+function unwrapSingleDirectory(dir: string): string {
+  const entries = readdirSync(dir, { withFileTypes: true });
+  return entries.length === 1 && entries[0].isDirectory() ? join(dir, entries[0].name) : dir;
+}
+
+/**
+ * Unpack a tarball or clone a repository into a temporary directory
+ */
+function unpackTemplate(source: string, unpack: (targetDir: string) => void): { path: string; cleanup: () => void } {
+  const tempDir = mkdtempSync(join(tmpdir(), 'viant-template-'));
+  const cleanup = () => rmSync(tempDir, { recursive: true, force: true });
+
+  try {
+    unpack(tempDir);
+    return { path: unwrapSingleDirectory(tempDir), cleanup };
+  } catch (error: any) {
+    cleanup();
+    const output = error.stderr?.toString().trim();
+    throw templateNotFound(source, `could not be unpacked: ${output || error.message}`, error);
+  }
+}
+
+/**
+ * Split a git source into its URL and the ref after the first #
+ * Git would take a URL or ref starting with - for an option, such as
+ * --upload-pack running a command, so those are rejected.
+ */
+function splitGitSource(source: string): [url: string, ref: string] {
+  const location = source.slice('git+'.length);
+  const hash = location.indexOf('#');
+  const url = hash === -1 ? location : location.slice(0, hash);
+  const ref = hash === -1 ? '' : location.slice(hash + 1);
+
+  if (url.startsWith('-') || ref.startsWith('-')) {
+    throw templateNotFound(source, 'has a git URL or ref starting with "-"');
+  }
+
+  return [url, ref];
+}
+
+/**
+ * Get a local directory with the files of a custom template
+ */
+function fetchTemplate(source: string, cwd: string): { path: string; cleanup: () => void } {
+  if (source.startsWith('git+')) {
+    const [url, ref] = splitGitSource(source);
+    return unpackTemplate(source, targetDir => {
+      execFileSync('git', ['clone', '--quiet', '--', url, targetDir], { stdio: 'pipe' });
+      if (ref) {
+        execFileSync('git', ['checkout', '--quiet', ref, '--'], { cwd: targetDir, stdio: 'pipe' });
+      }
+      rmSync(join(targetDir, '.git'), { recursive: true, force: true });
+    });
+  }
+
+  const localPath = resolve(cwd, source.startsWith('file:') ? source.slice('file:'.length) : source);
+  if (!existsSync(localPath)) {
+    throw templateNotFound(source, `not found at ${localPath}`);
+  }
+
+  if (statSync(localPath).isDirectory()) {
+    return { path: localPath, cleanup: () => {} };
+  }
+
+  if (!TARBALL_EXTENSIONS.some(extension => localPath.endsWith(extension))) {
+    throw templateNotFound(source, 'is neither a directory nor a .tgz, .tar.gz or .tar file');
+  }
+
+  return unpackTemplate(source, targetDir => {
+    execFileSync('tar', ['-xf', localPath, '-C', targetDir], { stdio: 'pipe' });
+  });
+}
+
+/**
+ * Fetch a custom template and get the framework and language it uses, from
+ * its template.json when it has one and detected from its files otherwise
+ */
+export function loadCustomTemplate(source: string, cwd: string = process.cwd()): CustomTemplate {
+  const { path, cleanup } = fetchTemplate(source, cwd);
+
+  try {
+    const manifest = readTemplateManifest(path, getManifestCatalog());
+    if (manifest) {
+      return { source, path, framework: manifest.framework, typescript: manifest.typescript, cleanup };
+    }
+
+    const detected = detectProject(path);
+    return { source, path, framework: detected.framework, typescript: detected.typescript, cleanup };
+  } catch (error: any) {
+    cleanup();
+    if (error instanceof ProjectGenerationError && error.code === ERROR_CODES.PROJECT_NOT_FOUND) {
+      throw templateNotFound(source, 'has no package.json', error);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Complete options selecting a custom template with the template's location,
+ * framework and language
+ * Framework and language options contradicting the template are rejected.
+ */
+export function applyCustomTemplate(
+  options: Partial<ProjectOptions>,
+  template: CustomTemplate
+): Partial<ProjectOptions> {
+  if (options.framework && options.framework !== template.framework) {
+    throw new ProjectGenerationError(
+      `Framework "${options.framework}" contradicts template "${template.source}", which uses ${template.framework}`,
+      ERROR_CODES.INVALID_OPTION,
+      { recoverable: false, hint: 'Leave out the framework when using a custom template.' }
+    );
+  }
+  if (options.typescript !== undefined && options.typescript !== template.typescript) {
+    throw new ProjectGenerationError(
+      `${options.typescript ? 'TypeScript' : 'JavaScript'} contradicts template "${template.source}", which uses ${template.typescript ? 'TypeScript' : 'JavaScript'}`,
+      ERROR_CODES.INVALID_OPTION,
+      { recoverable: false, hint: 'Leave out --ts/--js when using a custom template.' }
+    );
+  }
+
+  return {
+    ...options,
+    template: template.source,
+    templatePath: template.path,
+    framework: template.framework,
+    typescript: template.typescript,
+  };
+}
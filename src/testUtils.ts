@@ -0,0 +1,56 @@
+/**
+ * Test utilities
+ * Shared by the property tests of the feature scaffolds, which parse the files
+ * a scaffold generates and generate projects from the bundled templates.
+ */
+
+import { join } from 'path';
+import ts from 'typescript';
+import { createProject, type CreateProjectOptions, type FileChange } from './api.js';
+import { TEMPLATES_DIR, type TemplateManifest } from './templateManifest.js';
+
+// Only a few dozen distinct files are generated, so parse each once
+const syntaxErrors = new Map<string, ts.Diagnostic[]>();
+
+/**
+ * Get the syntax errors of a script
+ */
+export function getSyntaxErrors(content: string, path: string): ts.Diagnostic[] {
+  const key = `${path}\n${content}`;
+  if (!syntaxErrors.has(key)) {
+    // transpileModule cannot emit declaration files, so check them as modules
+    const fileName = path.replace(/\.d\.ts$/, '.ts');
+    syntaxErrors.set(key, ts.transpileModule(content, { fileName, reportDiagnostics: true }).diagnostics ?? []);
+  }
+  return syntaxErrors.get(key)!;
+}
+
+export interface GeneratedProject {
+  files: FileChange[];
+  /** Read a generated file, undefined when it is not generated */
+  read(path: string): string | undefined;
+}
+
+/**
+ * Plan a project from a bundled template without styling, writing nothing
+ */
+export async function generateProject(
+  manifest: TemplateManifest,
+  options: Partial<CreateProjectOptions> = {}
+): Promise<GeneratedProject> {
+  const { files } = await createProject({
+    name: 'my-app',
+    template: manifest.name,
+    styling: 'none',
+    packageManager: 'npm',
+    dryRun: true,
+    silent: true,
+    directory: join(TEMPLATES_DIR, '..', 'does-not-exist', manifest.name),
+    ...options,
+  });
+
+  return {
+    files,
+    read: path => files.find(file => file.path === path)?.content?.toString(),
+  };
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getSampleTestSubject, getTestSetupPath, getUnitTestFiles, TESTING_LIBRARY_PACKAGES } from './unitTesting.js';
+import { templateManifests } from './options.js';
+import { generateProject, getSyntaxErrors } from './testUtils.js';
+
+const manifestArb = fc.constantFrom(...Object.values(templateManifests));
+
+/**
+ * **Feature: unit-test-scaffolds, Property 1: Every Framework Gets a Setup File and a Sample Test**
+ *
+ * *For any* framework and language, the scaffold SHALL contain a setup file registering the
+ * jest-dom matchers, and a sample test exactly when requested, every file SHALL parse in the
+ * project's language, and components SHALL be rendered with the framework's Testing Library.
+ */
+describe('Property 1: Every Framework Gets a Setup File and a Sample Test', () => {
+  it('should scaffold parsable tests for the framework', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...Object.keys(TESTING_LIBRARY_PACKAGES)),
+        fc.boolean(),
+        fc.boolean(),
+        (framework, typescript, sampleTest) => {
+          const files = getUnitTestFiles({ framework, typescript, sampleTest });
+          const setupPath = getTestSetupPath(typescript);
+          const tests = Object.keys(files).filter(path => /\.test\.[jt]sx?$/.test(path));
+
+          expect(files[setupPath]).toContain(`import '@testing-library/jest-dom/vitest';`);
+          expect(tests.length).toBe(sampleTest ? 1 : 0);
+          for (const [path, content] of Object.entries(files)) {
+            expect(path).toMatch(typescript ? /\.tsx?$/ : /\.jsx?$/);
+            expect(getSyntaxErrors(content, path)).toEqual([]);
+            if (framework !== 'vanilla') {
+              expect(content).toContain(`from '${TESTING_LIBRARY_PACKAGES[framework]}'`);
+            }
+          }
+
+          const subject = getSampleTestSubject(framework, typescript)!;
+          tests.forEach(path => expect(path.slice(0, path.lastIndexOf('/'))).toBe(subject.slice(0, subject.lastIndexOf('/'))));
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should scaffold nothing for unknown frameworks', () => {
+    expect(getUnitTestFiles({ framework: 'angular', typescript: true })).toEqual({});
+  });
+});
+
+/**
+ * **Feature: unit-test-scaffolds, Property 2: Generated Projects Run Their Tests**
+ *
+ * *For any* template, a project generated with Vitest SHALL configure the test environment,
+ * setup file and coverage thresholds in its vite.config, depend on the Testing Library for its
+ * framework, and contain a sample test next to the template component it tests.
+ */
+describe('Property 2: Generated Projects Run Their Tests', () => {
+  it('should write the test config, setup file and sample test', async () => {
+    await fc.assert(
+      fc.asyncProperty(manifestArb, async (manifest) => {
+        const { framework, typescript } = manifest;
+        const { read } = await generateProject(manifest, {
+          features: ['vitest'],
+        });
+
+        const expected = getUnitTestFiles({ framework, typescript });
+        expect(read(getSampleTestSubject(framework, typescript)!)).toBeDefined();
+        for (const [path, content] of Object.entries(expected)) {
+          expect(read(path)).toBe(content);
+        }
+
+        const viteConfig = read(manifest.viteConfig)!;
+        expect(viteConfig.startsWith('/// <reference types="vitest/config" />\n')).toBe(true);
+        expect(viteConfig).toMatch(/test: \{\s+environment: 'happy-dom',\s+setupFiles: \['\.\/src\/test\/setup\.[jt]s'\],/);
+        expect(viteConfig).toMatch(/thresholds: \{\s+statements: \d+,/);
+        expect(viteConfig.includes('svelteTesting()')).toBe(framework === 'svelte');
+
+        const { devDependencies, scripts } = JSON.parse(read('package.json')!);
+        expect(devDependencies).toMatchObject({
+          vitest: expect.any(String),
+          '@vitest/coverage-v8': expect.any(String),
+          'happy-dom': expect.any(String),
+          '@testing-library/jest-dom': expect.any(String),
+          [TESTING_LIBRARY_PACKAGES[framework]]: expect.any(String),
+        });
+        expect(scripts['test:coverage']).toBe('vitest run --coverage');
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
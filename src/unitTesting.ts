@@ -0,0 +1,248 @@
+/**
+ * Unit test scaffolds
+ * What the vitest feature generates for each framework: the test options
+ * merged into vite.config, a setup file registering the jest-dom matchers and
+ * cleaning up rendered components, and a sample test of a component the
+ * bundled template ships.
+ */
+
+import type { ViteConfigValue } from './viteConfig.js';
+
+export interface UnitTestScaffoldOptions {
+  framework: string;
+  typescript: boolean;
+  /** Whether to add the sample test, which needs the component it tests */
+  sampleTest?: boolean;
+}
+
+/**
+ * Testing Library package for each framework
+ */
+export const TESTING_LIBRARY_PACKAGES: Record<string, string> = {
+  react: '@testing-library/react',
+  preact: '@testing-library/preact',
+  vue: '@testing-library/vue',
+  svelte: '@testing-library/svelte',
+  solid: '@solidjs/testing-library',
+  vanilla: '@testing-library/dom',
+};
+
+/**
+ * Minimum coverage `vitest run --coverage` enforces, in percent, of the
+ * source files the tests load
+ */
+export const COVERAGE_THRESHOLDS = {
+  statements: 70,
+  branches: 70,
+  functions: 70,
+  lines: 70,
+};
+
+/**
+ * Get the path of the test setup file
+ */
+export function getTestSetupPath(typescript: boolean): string {
+  return `src/test/setup.${typescript ? 'ts' : 'js'}`;
+}
+
+/**
+ * Get the test options merged into vite.config
+ */
+export function getTestOptions(typescript: boolean): { [key: string]: ViteConfigValue } {
+  return {
+    environment: 'happy-dom',
+    setupFiles: [`./${getTestSetupPath(typescript)}`],
+    // Leave the Playwright specs under tests/ to Playwright
+    include: ['{src,server}/**/*.{test,spec}.?(c|m)[jt]s?(x)'],
+    coverage: {
+      provider: 'v8',
+      include: ['src/**'],
+      exclude: ['src/test/**', 'src/**/*.d.ts'],
+      all: false,
+      thresholds: COVERAGE_THRESHOLDS,
+    },
+  };
+}
+
+function getSetupFile(framework: string): string {
+  const jestDom = `import '@testing-library/jest-dom/vitest';\n`;
+  if (framework === 'vanilla') {
+    return `${jestDom}import { afterEach } from 'vitest';
+
+afterEach(() => {
+  document.body.replaceChildren();
+});
+`;
+  }
+
+  return `${jestDom}import { cleanup } from '${TESTING_LIBRARY_PACKAGES[framework]}';
+import { afterEach } from 'vitest';
+
+// Unmount what each test rendered
+afterEach(() => {
+  cleanup();
+});
+`;
+}
+
+/**
+ * Get the sample test and the template file it tests
+ */
+function getSampleTest(framework: string, typescript: boolean): { path: string; subject: string; content: string } | undefined {
+  const ext = typescript ? 'ts' : 'js';
+  const jsx = typescript ? 'tsx' : 'jsx';
+
+  switch (framework) {
+    case 'react':
+      return {
+        path: `src/components/ui/Button.test.${jsx}`,
+        subject: `src/components/ui/Button.${jsx}`,
+        content: `import { fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { Button } from './Button';
+
+describe('Button', () => {
+  it('renders its label and handles clicks', () => {
+    const onClick = vi.fn();
+    render(<Button onClick={onClick}>Save</Button>);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Save' }));
+
+    expect(onClick).toHaveBeenCalledOnce();
+  });
+});
+`,
+      };
+
+    case 'preact':
+      return {
+        path: `src/app.test.${jsx}`,
+        subject: `src/app.${jsx}`,
+        content: `import { fireEvent, render, screen } from '@testing-library/preact';
+import { describe, expect, it } from 'vitest';
+import { App } from './app';
+
+describe('App', () => {
+  it('counts clicks', async () => {
+    render(<App />);
+
+    fireEvent.click(screen.getByRole('button', { name: /count is/ }));
+
+    expect(await screen.findByRole('button', { name: 'count is 1' })).toBeInTheDocument();
+  });
+});
+`,
+      };
+
+    case 'solid':
+      return {
+        path: `src/App.test.${jsx}`,
+        subject: `src/App.${jsx}`,
+        content: `import { fireEvent, render, screen } from '@solidjs/testing-library';
+import { describe, expect, it } from 'vitest';
+import App from './App';
+
+describe('App', () => {
+  it('counts clicks', () => {
+    render(() => <App />);
+
+    fireEvent.click(screen.getByRole('button', { name: /count is/ }));
+
+    expect(screen.getByRole('button', { name: 'count is 1' })).toBeInTheDocument();
+  });
+});
+`,
+      };
+
+    case 'vue':
+      return {
+        path: `src/App.test.${ext}`,
+        subject: 'src/App.vue',
+        content: `import { fireEvent, render, screen } from '@testing-library/vue';
+import { describe, expect, it } from 'vitest';
+import App from './App.vue';
+
+describe('App', () => {
+  it('counts clicks', async () => {
+    render(App);
+
+    await fireEvent.click(screen.getByRole('button', { name: /count is/ }));
+
+    expect(screen.getByRole('button', { name: 'count is 1' })).toBeInTheDocument();
+  });
+});
+`,
+      };
+
+    case 'svelte':
+      return {
+        path: `src/lib/Counter.test.${ext}`,
+        subject: 'src/lib/Counter.svelte',
+        content: `import { fireEvent, render, screen } from '@testing-library/svelte';
+import { describe, expect, it } from 'vitest';
+import Counter from './Counter.svelte';
+
+describe('Counter', () => {
+  it('counts clicks', async () => {
+    render(Counter);
+
+    await fireEvent.click(screen.getByRole('button', { name: /count is/ }));
+
+    expect(screen.getByRole('button', { name: 'count is 1' })).toBeInTheDocument();
+  });
+});
+`,
+      };
+
+    case 'vanilla':
+      return {
+        path: `src/counter.test.${ext}`,
+        subject: `src/counter.${ext}`,
+        content: `import { describe, expect, it } from 'vitest';
+import { setupCounter } from './counter';
+
+describe('setupCounter', () => {
+  it('counts clicks', () => {
+    const button = document.createElement('button');
+    document.body.append(button);
+    setupCounter(button);
+
+    button.click();
+
+    expect(button).toHaveTextContent('count is 1');
+  });
+});
+`,
+      };
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Get the path of the template file the sample test imports
+ */
+export function getSampleTestSubject(framework: string, typescript: boolean): string | undefined {
+  return getSampleTest(framework, typescript)?.subject;
+}
+
+/**
+ * Get the setup file and sample test for a framework
+ */
+export function getUnitTestFiles({ framework, typescript, sampleTest = true }: UnitTestScaffoldOptions): Record<string, string> {
+  if (!(framework in TESTING_LIBRARY_PACKAGES)) {
+    return {};
+  }
+
+  const files: Record<string, string> = {
+    [getTestSetupPath(typescript)]: getSetupFile(framework),
+  };
+
+  const sample = getSampleTest(framework, typescript);
+  if (sampleTest && sample) {
+    files[sample.path] = sample.content;
+  }
+
+  return files;
+}
@@ -27,6 +27,7 @@ export const VERSIONS = {
 
   // Styling
   tailwindcss: '^4.0.0',
+  tailwindcssVite: '^4.0.0',
   unocss: '^0.65.3',
   vanillaExtract: '^1.16.1',
   vanillaExtractVitePlugin: '^3.9.0',
@@ -34,6 +35,7 @@ export const VERSIONS = {
   styledComponents: '^6.1.14',
   emotion: '^11.14.0',
   emotionStyled: '^11.14.0',
+  emotionCss: '^11.13.5',
   autoprefixer: '^10.4.20',
   postcss: '^8.4.49',
 
@@ -41,10 +43,31 @@ export const VERSIONS = {
   vitest: '^3.0.2',
   vitestUi: '^3.0.2',
   playwright: '^1.49.1',
+  vitestCoverageV8: '^3.0.2',
+  happyDom: '^16.6.0',
+  testingLibraryDom: '^10.4.0',
+  testingLibraryJestDom: '^6.6.3',
   testingLibraryReact: '^16.2.0',
+  testingLibraryPreact: '^3.2.4',
+  testingLibraryVue: '^8.1.0',
+  testingLibrarySvelte: '^5.2.6',
+  solidTestingLibrary: '^0.8.10',
 
   // Linting
   biome: '^1.9.4',
+  eslint: '^9.22.0',
+  eslintJs: '^9.22.0',
+  globals: '^16.0.0',
+  typescriptEslint: '^8.26.0',
+  eslintConfigPrettier: '^10.1.1',
+  eslintPluginReactHooks: '^5.2.0',
+  eslintPluginReactRefresh: '^0.4.19',
+  eslintPluginVue: '^10.0.0',
+  eslintPluginSvelte: '^3.0.0',
+  eslintPluginSolid: '^0.14.5',
+  oxlint: '^1.0.0',
+  prettier: '^3.5.3',
+  prettierPluginSvelte: '^3.3.3',
 
   // State Management
   reduxToolkit: '^2.5.0',
@@ -59,11 +82,24 @@ export const VERSIONS = {
   tanstackQueryDevtools: '^5.64.1',
   swr: '^2.3.0',
   axios: '^1.7.9',
+  trpc: '^11.0.0',
+  zod: '^3.24.1',
+
+  // Routing
+  reactRouter: '^7.1.1',
+  vueRouter: '^4.5.0',
+  solidRouter: '^0.15.3',
+  preactIso: '^2.9.0',
+  wouterPreact: '^3.5.1',
 
   // Utilities
   husky: '^9.1.7',
   lintStaged: '^15.3.0',
-  storybook: '^8.5.0',
+  commitlint: '^19.6.1',
+  concurrently: '^9.1.2',
+  tsx: '^4.19.2',
+  storybook: '^9.1.0',
+  storybookSolid: '^9.0.3',
 
   // Type Definitions
   typesReact: '^19.0.2',
@@ -78,6 +114,10 @@ export const VERSIONS = {
   tslib: '^2.8.1',
   svelteCheck: '^4.1.1',
 
+  // Component library
+  vitePluginDts: '^4.5.0',
+  sveltePackage: '^2.3.7',
+
   // Bundle analyzer
   rollupPluginVisualizer: '^5.14.0',
 
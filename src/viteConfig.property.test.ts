@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { ViteConfig, expression } from './viteConfig.js';
+import { ProjectGenerationError, ERROR_CODES } from './errorHandling.js';
+import { templateManifests } from './options.js';
+import { TEMPLATES_DIR } from './templateManifest.js';
+
+const PLUGINS = [
+  { importStatement: `import { VitePWA } from 'vite-plugin-pwa';`, plugin: `VitePWA({\n  registerType: 'autoUpdate',\n})`, name: 'VitePWA' },
+  { importStatement: `import tailwindcss from '@tailwindcss/vite';`, plugin: 'tailwindcss()', name: 'tailwindcss' },
+  {
+    importStatement: `import { visualizer } from 'rollup-plugin-visualizer';`,
+    plugin: `...(process.env.ANALYZE === 'true' ? [visualizer()] : [])`,
+    name: 'visualizer',
+  },
+];
+
+function countOccurrences(content: string, text: string): number {
+  return content.split(text).length - 1;
+}
+
+function getError(fn: () => unknown): ProjectGenerationError | undefined {
+  try {
+    fn();
+    return undefined;
+  } catch (error) {
+    expect(error).toBeInstanceOf(ProjectGenerationError);
+    return error as ProjectGenerationError;
+  }
+}
+
+const templateConfigArb = fc.constantFrom(...Object.values(templateManifests)).map(manifest => ({
+  path: manifest.viteConfig,
+  content: readFileSync(join(TEMPLATES_DIR, manifest.name, manifest.viteConfig), 'utf8'),
+}));
+
+/**
+ * **Feature: vite-config-editing, Property 1: Edits Are Idempotent and Reversible**
+ *
+ * *For any* bundled vite.config and set of plugins, adding the plugins SHALL add each import
+ * and plugins array entry exactly once however often it is applied, the result SHALL parse,
+ * and removing the plugins again SHALL leave the rest of the config as it was.
+ */
+describe('Property 1: Edits Are Idempotent and Reversible', () => {
+  it('should add each plugin once and remove it again', () => {
+    fc.assert(
+      fc.property(templateConfigArb, fc.subarray(PLUGINS, { minLength: 1 }), fc.integer({ min: 1, max: 3 }), ({ path, content }, plugins, times) => {
+        const config = new ViteConfig(content, path);
+        for (let i = 0; i < times; i++) {
+          for (const { importStatement, plugin } of plugins) {
+            config.addImport(importStatement);
+            config.addPlugin(plugin);
+          }
+        }
+
+        const edited = config.toString();
+        expect(() => new ViteConfig(edited, path)).not.toThrow();
+        for (const { importStatement, name } of plugins) {
+          expect(countOccurrences(edited, importStatement)).toBe(1);
+          expect(countOccurrences(edited, `${name}(`)).toBe(1);
+        }
+
+        for (const { importStatement, name } of plugins) {
+          config.removePlugin(name);
+          config.removeImport(/from '([^']+)'/.exec(importStatement)![1]);
+        }
+        const reverted = config.toString();
+        for (const { importStatement, name } of plugins) {
+          expect(reverted).not.toContain(importStatement);
+          expect(reverted).not.toContain(`${name}(`);
+        }
+        expect(reverted.replace(/\s+|,/g, '').replace('plugins:[]', '')).toBe(content.replace(/\s+|,/g, ''));
+      }),
+      { numRuns: 100 }
+    );
+  });
+});
+
+/**
+ * **Feature: vite-config-editing, Property 2: Config Shapes Are Understood**
+ *
+ * *For any* way of writing the config object — an object, a config function, a block
+ * returning the object or a variable — and any layout of imports and plugins, edits SHALL
+ * land in the config object, and a config that cannot be edited SHALL be a CONFIG_FAILED error.
+ */
+describe('Property 2: Config Shapes Are Understood', () => {
+  const objectArb = fc.constantFrom('{ base: \'/\' }', '{\n  plugins: [vue()],\n}', '{\n  plugins: [\n    vue(),\n  ],\n  base: \'/\',\n}', '{}');
+  const shapeArb = fc.constantFrom(
+    (object: string) => `export default defineConfig(${object});\n`,
+    (object: string) => `export default defineConfig(({ mode }) => (${object}));\n`,
+    (object: string) => `export default defineConfig(({ command }) => {\n  const base = '/';\n  return ${object};\n});\n`,
+    (object: string) => `const config = ${object};\n\nexport default defineConfig(config);\n`,
+    (object: string) => `export default ${object} satisfies UserConfig;\n`
+  );
+  const importsArb = fc.constantFrom(
+    `import { defineConfig } from 'vite';\n`,
+    `import {\n  defineConfig,\n  type UserConfig,\n} from 'vite'\n`,
+    ''
+  );
+
+  it('should edit the config object however it is written', () => {
+    fc.assert(
+      fc.property(importsArb, shapeArb, objectArb, (imports, shape, object) => {
+        const config = new ViteConfig(`${imports}\n${shape(object)}`);
+        config.addImport(`import react from '@vitejs/plugin-react';`);
+        config.addImport(`import { defineConfig, loadEnv } from 'vite';`);
+        config.addPlugin('react()');
+        config.mergeOptions('server', { proxy: { '/api': 'http://localhost:3000' } });
+
+        const edited = config.toString();
+        expect(countOccurrences(edited, 'react()')).toBe(1);
+        expect(countOccurrences(edited, `from 'vite'`)).toBe(1);
+        expect(edited).toContain('loadEnv');
+        expect(edited).toMatch(/server: \{\s+proxy: \{\s+'\/api': 'http:\/\/localhost:3000',\s+\},\s+\}/);
+        expect(() => new ViteConfig(edited)).not.toThrow();
+      }),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should merge options into existing ones and reject conflicting values', () => {
+    const config = new ViteConfig(`export default defineConfig({\n  build: {\n    target: 'esnext',\n  },\n});\n`);
+    config.mergeOptions('build', { target: 'esnext', lib: { entry: expression(`resolve(__dirname, 'src/index.ts')`), formats: ['es'] } });
+    config.mergeOptions('build', { lib: { formats: ['es'] } });
+
+    expect(config.toString()).toBe(
+      `export default defineConfig({\n  build: {\n    target: 'esnext',\n    lib: {\n      entry: resolve(__dirname, 'src/index.ts'),\n      formats: ['es'],\n    },\n  },\n});\n`
+    );
+    expect(getError(() => config.mergeOptions('build', { target: 'es2020' }))?.code).toBe(ERROR_CODES.CONFIG_FAILED);
+  });
+
+  it('should remove options along with the objects they leave empty', () => {
+    const content = `export default defineConfig({\n  server: {\n    port: 3000,\n  },\n});\n`;
+    const config = new ViteConfig(content);
+    config.mergeOptions('server', { proxy: { '/api': { target: 'http://localhost:3000', changeOrigin: true } } });
+    config.removeOption('server', 'proxy', '/api');
+    expect(config.toString()).toBe(content);
+
+    config.removeOption('server', 'port');
+    config.removeOption('build', 'lib');
+    expect(config.toString()).toBe(`export default defineConfig({\n});\n`);
+  });
+
+  it('should add a type reference once and remove it again', () => {
+    const content = `import { defineConfig } from 'vite';\n\nexport default defineConfig({});\n`;
+    const config = new ViteConfig(content);
+    config.addTypeReference('vitest/config');
+    config.addTypeReference('vitest/config');
+
+    expect(config.toString()).toBe(`/// <reference types="vitest/config" />\n${content}`);
+    config.removeTypeReference('vitest/config');
+    expect(config.toString()).toBe(content);
+  });
+
+  it('should fail on configs it cannot edit', () => {
+    const configs = [
+      `export default defineConfig(getConfig());\n`,
+      `export default defineConfig({ plugins: getPlugins() });\n`,
+      `export default defineConfig({\n`,
+      `module.exports = {};\n`,
+    ];
+
+    for (const content of configs) {
+      const error = getError(() => new ViteConfig(content).addPlugin('react()'));
+      expect(error?.code).toBe(ERROR_CODES.CONFIG_FAILED);
+      expect(error?.hint).toBeTruthy();
+    }
+
+    const config = new ViteConfig(`import { resolve } from 'path';\nexport default {};\n`);
+    expect(getError(() => config.addImport(`import { resolve } from 'pathe';`))?.code).toBe(ERROR_CODES.CONFIG_FAILED);
+  });
+});
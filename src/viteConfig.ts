@@ -0,0 +1,296 @@
+/**
+ * vite.config editing
+ * Parses vite.config.{ts,js} and adds imports, plugins and options in place,
+ * keeping the rest of the file as written. Every edit is idempotent, and a
+ * config that cannot be edited is an error rather than being left as it was.
+ */
+
+import ts from 'typescript';
+import { SourceEditor, normalize, parseSnippet, reindent } from './sourceEditor.js';
+
+/**
+ * Code inserted into the config as written, e.g. resolve(__dirname, './src')
+ */
+export class ViteConfigExpression {
+  constructor(readonly code: string) {}
+}
+
+export type ViteConfigValue =
+  | string
+  | number
+  | boolean
+  | ViteConfigExpression
+  | ViteConfigValue[]
+  | { [key: string]: ViteConfigValue };
+
+/**
+ * Mark code to be inserted into the config as is rather than as a string
+ */
+export function expression(code: string): ViteConfigExpression {
+  return new ViteConfigExpression(code);
+}
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+function formatKey(key: string): string {
+  return IDENTIFIER_PATTERN.test(key) ? key : `'${key}'`;
+}
+
+/**
+ * Serialize a value as code, objects spread over several lines
+ */
+function serialize(value: ViteConfigValue): string {
+  if (value instanceof ViteConfigExpression) {
+    return value.code;
+  }
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+  }
+  if (typeof value !== 'object') {
+    return String(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(serialize).join(', ')}]`;
+  }
+
+  const entries = Object.entries(value);
+  if (entries.length === 0) {
+    return '{}';
+  }
+  return `{\n${entries.map(([key, item]) => `  ${formatKey(key)}: ${reindent(serialize(item), '  ')},`).join('\n')}\n}`;
+}
+
+function isPlainObject(value: ViteConfigValue): value is { [key: string]: ViteConfigValue } {
+  return typeof value === 'object' && !Array.isArray(value) && !(value instanceof ViteConfigExpression);
+}
+
+function getPropertyName(name: ts.PropertyName): string | undefined {
+  return ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : undefined;
+}
+
+function getProperty(object: ts.ObjectLiteralExpression, key: string): ts.PropertyAssignment | undefined {
+  return object.properties.find(
+    (property): property is ts.PropertyAssignment => ts.isPropertyAssignment(property) && getPropertyName(property.name) === key
+  );
+}
+
+/**
+ * Get the name of the first function a plugin entry calls, e.g. VitePWA for
+ * VitePWA({ ... }), which identifies the plugin in the plugins array
+ */
+function getPluginName(node: ts.Node): string | undefined {
+  if (ts.isCallExpression(node)) {
+    return node.expression.getText();
+  }
+  return ts.forEachChild(node, getPluginName);
+}
+
+/**
+ * Check whether code calls a function anywhere within it
+ */
+function callsFunction(node: ts.Node, name: string): boolean {
+  if (ts.isCallExpression(node) && node.expression.getText() === name) {
+    return true;
+  }
+  return ts.forEachChild(node, child => callsFunction(child, name) || undefined) ?? false;
+}
+
+/**
+ * An editable vite.config file
+ */
+export class ViteConfig extends SourceEditor {
+  constructor(content: string, path = 'vite.config.ts') {
+    super(content, path);
+  }
+
+  /**
+   * Add an entry to the plugins array, creating the array if there is none
+   * Nothing is added when the array already calls the same plugin function.
+   */
+  addPlugin(code: string): void {
+    const name = getPluginName(parseSnippet(`[${code}]`));
+    const config = this.getConfigObject();
+    const plugins = getProperty(config, 'plugins');
+
+    if (!plugins) {
+      this.insertListItem(config, `plugins: [\n  ${reindent(code, '  ')},\n]`, 'start');
+      return;
+    }
+
+    const array = plugins.initializer;
+    if (!ts.isArrayLiteralExpression(array)) {
+      throw this.error('"plugins" is not an array', 'Write the plugins as an array, e.g. plugins: [...], so that entries can be added.');
+    }
+
+    const exists = array.elements.some(element =>
+      name ? callsFunction(element, name) : normalize(element.getText()) === normalize(code)
+    );
+    if (!exists) {
+      this.insertListItem(array, code);
+    }
+  }
+
+  /**
+   * Remove the entries of the plugins array that call a plugin function
+   */
+  removePlugin(name: string): void {
+    for (;;) {
+      const plugins = getProperty(this.getConfigObject(), 'plugins')?.initializer;
+      if (!plugins || !ts.isArrayLiteralExpression(plugins)) {
+        return;
+      }
+
+      const element = plugins.elements.find(item => callsFunction(item, name));
+      if (!element) {
+        return;
+      }
+
+      this.removeListItem(element);
+    }
+  }
+
+  /**
+   * Remove a config option, e.g. removeOption('server', 'proxy', '/api'),
+   * along with the objects holding it that are left empty
+   */
+  removeOption(...path: string[]): void {
+    for (let depth = path.length; depth > 0; depth--) {
+      const object = this.findObject(path.slice(0, depth - 1));
+      const property = object && getProperty(object, path[depth - 1]);
+      if (!property) {
+        return;
+      }
+
+      const emptied = ts.isObjectLiteralExpression(property.initializer) && property.initializer.properties.length === 0;
+      if (depth < path.length && !emptied) {
+        return;
+      }
+      this.removeListItem(property);
+    }
+  }
+
+  /**
+   * Remove an entry of an array or object, with the whitespace leading up to
+   * it and its trailing comma
+   */
+  private removeListItem(node: ts.Node): void {
+    let end = node.getEnd();
+    while (/[ \t]/.test(this.content[end] ?? '')) end++;
+    if (this.content[end] === ',') end++;
+    this.edit(node.getFullStart(), end, '');
+  }
+
+  /**
+   * Merge options into a top-level config option such as resolve, build or
+   * server. Nested objects are merged; a value set differently is an error.
+   */
+  mergeOptions(key: string, options: { [key: string]: ViteConfigValue }): void {
+    this.mergeValue([key], options);
+  }
+
+  private mergeValue(path: string[], value: ViteConfigValue): void {
+    const object = this.getObject(path.slice(0, -1));
+    const key = path[path.length - 1];
+    const existing = getProperty(object, key);
+
+    if (!existing) {
+      this.insertListItem(object, `${formatKey(key)}: ${serialize(value)}`);
+      return;
+    }
+
+    if (isPlainObject(value) && ts.isObjectLiteralExpression(existing.initializer)) {
+      for (const [childKey, childValue] of Object.entries(value)) {
+        this.mergeValue([...path, childKey], childValue);
+      }
+      return;
+    }
+
+    if (normalize(existing.initializer.getText()) !== normalize(serialize(value))) {
+      throw this.error(
+        `"${path.join('.')}" is already set to a different value`,
+        `Set ${path.join('.')} to ${serialize(value).split('\n')[0]} by hand, or remove it and try again.`
+      );
+    }
+  }
+
+  /**
+   * Get the object literal at a path of properties within the config object
+   */
+  private getObject(path: string[]): ts.ObjectLiteralExpression {
+    const object = this.findObject(path);
+    if (!object) {
+      throw this.error(`"${path.join('.')}" is not an object`);
+    }
+    return object;
+  }
+
+  private findObject(path: string[]): ts.ObjectLiteralExpression | undefined {
+    let object = this.getConfigObject();
+
+    for (const key of path) {
+      const property = getProperty(object, key);
+      if (!property || !ts.isObjectLiteralExpression(property.initializer)) {
+        return undefined;
+      }
+      object = property.initializer;
+    }
+
+    return object;
+  }
+
+  /**
+   * Find the config object: the default export, looking through
+   * defineConfig(), config functions such as ({ mode }) => ({ ... }), type
+   * assertions and variables
+   */
+  private getConfigObject(): ts.ObjectLiteralExpression {
+    const exported = this.sourceFile.statements.find(ts.isExportAssignment);
+    if (!exported) {
+      throw this.error('it has no default export');
+    }
+
+    let node: ts.Node = exported.expression;
+    for (;;) {
+      if (
+        ts.isParenthesizedExpression(node) ||
+        ts.isAsExpression(node) ||
+        ts.isSatisfiesExpression(node) ||
+        ts.isTypeAssertionExpression(node)
+      ) {
+        node = node.expression;
+      } else if (ts.isCallExpression(node) && node.expression.getText() === 'defineConfig' && node.arguments.length > 0) {
+        node = node.arguments[0];
+      } else if (ts.isArrowFunction(node) || ts.isFunctionExpression(node)) {
+        if (!ts.isBlock(node.body)) {
+          node = node.body;
+          continue;
+        }
+        const returned = node.body.statements.filter(ts.isReturnStatement).pop()?.expression;
+        if (!returned) {
+          break;
+        }
+        node = returned;
+      } else if (ts.isIdentifier(node)) {
+        const name = node.text;
+        const declaration = this.sourceFile.statements
+          .filter(ts.isVariableStatement)
+          .flatMap(statement => [...statement.declarationList.declarations])
+          .find(item => ts.isIdentifier(item.name) && item.name.text === name);
+        if (!declaration?.initializer) {
+          break;
+        }
+        node = declaration.initializer;
+      } else {
+        break;
+      }
+    }
+
+    if (!ts.isObjectLiteralExpression(node)) {
+      throw this.error(
+        'the config object could not be found',
+        'Export the config as an object literal, e.g. export default defineConfig({ ... }).'
+      );
+    }
+    return node;
+  }
+}
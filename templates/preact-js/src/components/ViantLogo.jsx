@@ -8,6 +8,7 @@ export default function ViantLogo(props) {
       fill="none"
       xmlns="http://www.w3.org/2000/svg"
     >
+      <title>Viant</title>
       <circle cx="50" cy="50" r="45" stroke="#ff6b6b" strokeWidth="4" fill="none" />
       <path
         d="M25 35 L50 65 L75 35"
@@ -10,10 +10,10 @@ export function App() {
   return (
     <>
       <div>
-        <a href="https://vitejs.dev" target="_blank">
+        <a href="https://vitejs.dev" target="_blank" rel="noreferrer">
           <img src={viteLogo} class="logo" alt="Vite logo" />
         </a>
-        <a href="https://preactjs.com" target="_blank">
+        <a href="https://preactjs.com" target="_blank" rel="noreferrer">
           <img src={preactLogo} class="logo preact" alt="Preact logo" />
         </a>
       </div>
@@ -21,7 +21,7 @@ export function App() {
       <h1>Vite + Preact</h1>
 
       <div class="card">
-        <button onClick={() => setCount((count: number) => count + 1)}>
+        <button type="button" onClick={() => setCount((count: number) => count + 1)}>
           count is {count}
         </button>
         <p>
@@ -1,6 +1,6 @@
 import { defineConfig } from 'vite';
 import preact from '@preact/preset-vite';
-import { resolve } from 'path';
+import { resolve } from 'node:path';
 
 // https://vitejs.dev/config/
 export default defineConfig({
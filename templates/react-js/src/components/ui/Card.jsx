@@ -29,7 +29,7 @@ const CardHeader = forwardRef(
 CardHeader.displayName = 'CardHeader'
 
 const CardTitle = forwardRef(
-  ({ className, ...props }, ref) => (
+  ({ className, children, ...props }, ref) => (
     <h3
       ref={ref}
       className={cn(
@@ -37,7 +37,9 @@ const CardTitle = forwardRef(
         className
       )}
       {...props}
-    />
+    >
+      {children}
+    </h3>
   )
 )
 
@@ -1,10 +1,8 @@
 import { useEffect } from 'react'
 import { useLocalStorage } from './useLocalStorage'
 
-export type Theme = 'light' | 'dark'
-
 export function useTheme() {
-  const [theme, setTheme] = useLocalStorage<Theme>('theme', 'light')
+  const [theme, setTheme] = useLocalStorage('theme', 'light')
 
   useEffect(() => {
     const root = window.document.documentElement
@@ -5,7 +5,7 @@ export interface User {
     avatar?: string
   }
   
-  export interface ApiResponse<T = any> {
+  export interface ApiResponse<T = unknown> {
     data: T
     message: string
     success: boolean
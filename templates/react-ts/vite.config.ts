@@ -1,6 +1,6 @@
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react-swc';
-import { resolve } from 'path';
+import { resolve } from 'node:path';
 
 // https://vitejs.dev/config/
 export default defineConfig({
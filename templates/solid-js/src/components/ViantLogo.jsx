@@ -1,5 +1,3 @@
-import { Component } from 'solid-js'
-
 const ViantLogo = () => {
   return (
     <svg
@@ -10,6 +8,7 @@ const ViantLogo = () => {
       xmlns="http://www.w3.org/2000/svg"
       class="viant-logo logo"
     >
+      <title>Viant</title>
       <defs>
         <linearGradient id="viant-gradient" x1="0%" y1="0%" x2="100%" y2="100%">
           <stop offset="0%" stop-color="#ff6b6b" />
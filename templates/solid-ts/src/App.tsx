@@ -10,10 +10,10 @@ function App() {
   return (
     <>
       <div>
-        <a href="https://vitejs.dev" target="_blank">
+        <a href="https://vitejs.dev" target="_blank" rel="noreferrer">
           <img src={viteLogo} class="logo" alt="Vite logo" />
         </a>
-        <a href="https://solidjs.com" target="_blank">
+        <a href="https://solidjs.com" target="_blank" rel="noreferrer">
           <img src={solidLogo} class="logo solid" alt="Solid logo" />
         </a>
         <ViantLogo />
@@ -21,7 +21,7 @@ function App() {
       <h1>Viant + Solid</h1>
 
       <div class="card">
-        <button onClick={() => setCount((count: number) => count + 1)}>
+        <button type="button" onClick={() => setCount((count: number) => count + 1)}>
           count is {count()}
         </button>
         <p>
@@ -1,4 +1,4 @@
-import { Component } from 'solid-js'
+import type { Component } from 'solid-js'
 
 const ViantLogo: Component = () => {
   return (
@@ -10,6 +10,7 @@ const ViantLogo: Component = () => {
       xmlns="http://www.w3.org/2000/svg"
       class="viant-logo logo"
     >
+      <title>Viant</title>
       <defs>
         <linearGradient id="viant-gradient" x1="0%" y1="0%" x2="100%" y2="100%">
           <stop offset="0%" stop-color="#ff6b6b" />
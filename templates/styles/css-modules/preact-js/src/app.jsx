@@ -0,0 +1,37 @@
+import { useState } from 'preact/hooks';
+import preactLogo from './assets/preact.svg';
+import viteLogo from '/vite.svg';
+import ViantLogo from './components/ViantLogo.jsx';
+import styles from './app.module.css';
+
+export function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <>
+      <div>
+        <a href="https://vitejs.dev" target="_blank" rel="noreferrer">
+          <img src={viteLogo} class={styles.logo} alt="Vite logo" />
+        </a>
+        <a href="https://preactjs.com" target="_blank" rel="noreferrer">
+          <img src={preactLogo} class={`${styles.logo} ${styles.preact}`} alt="Preact logo" />
+        </a>
+        <ViantLogo class={styles.logo} />
+      </div>
+      <h1>Vite + Preact</h1>
+
+      <div class={styles.card}>
+        <button type="button" onClick={() => setCount((count) => count + 1)}>
+          count is {count}
+        </button>
+        <p>
+          Edit <code>src/app.jsx</code> and save to test HMR
+        </p>
+      </div>
+
+      <p class={styles.readTheDocs}>
+        Click on the Vite and Preact logos to learn more
+      </p>
+    </>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { forwardRef } from 'react'
+import { cn } from '@/utils/cn'
+import styles from './Button.module.css'
+
+const sizes = {
+  default: styles.sizeDefault,
+  sm: styles.sizeSm,
+  lg: styles.sizeLg,
+  icon: styles.sizeIcon,
+}
+
+const Button = forwardRef(
+  ({ className, variant = 'default', size = 'default', ...props }, ref) => {
+    return (
+      <button
+        className={cn(styles.button, styles[variant], sizes[size], className)}
+        ref={ref}
+        {...props}
+      />
+    )
+  }
+)
+
+Button.displayName = 'Button'
+
+export { Button }
@@ -0,0 +1,25 @@
+import styles from './Footer.module.css'
+
+export function Footer() {
+  return (
+    <footer className={styles.footer}>
+      <div className={styles.inner}>
+        <p className={styles.text}>
+          Built with{' '}
+          <a href="https://vitejs.dev" target="_blank" rel="noreferrer" className={styles.link}>
+            Vite
+          </a>
+          {' '}and{' '}
+          <a href="https://react.dev" target="_blank" rel="noreferrer" className={styles.link}>
+            React
+          </a>
+          . The source code is available on{' '}
+          <a href="https://github.com" target="_blank" rel="noreferrer" className={styles.link}>
+            GitHub
+          </a>
+          .
+        </p>
+      </div>
+    </footer>
+  )
+}
@@ -0,0 +1,38 @@
+import { Button } from '@/components/ui/Button'
+import { useTheme } from '@/hooks/useTheme'
+import styles from './Header.module.css'
+
+export function Header() {
+  const { theme, toggleTheme } = useTheme()
+
+  return (
+    <header className={styles.header}>
+      <div className={styles.inner}>
+        <a className={styles.brand} href="/">
+          Viant
+        </a>
+        <div className={styles.actions}>
+          <nav className={styles.nav}>
+            <a href="#features" className={styles.link}>
+              Features
+            </a>
+            <a href="#docs" className={styles.link}>
+              Docs
+            </a>
+            <a href="#github" className={styles.link}>
+              GitHub
+            </a>
+          </nav>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleTheme}
+            className={styles.themeToggle}
+          >
+            {theme === 'dark' ? '🌞' : '🌙'}
+          </Button>
+        </div>
+      </div>
+    </header>
+  )
+}
@@ -0,0 +1,62 @@
+import { useState } from 'preact/hooks';
+import { css, cx } from '@emotion/css';
+import preactLogo from './assets/preact.svg';
+import viteLogo from '/vite.svg';
+import ViantLogo from './components/ViantLogo.jsx';
+
+const logo = css`
+  height: 6em;
+  padding: 1.5em;
+  will-change: filter;
+  transition: filter 300ms;
+
+  &:hover {
+    filter: drop-shadow(0 0 2em #646cffaa);
+  }
+`;
+
+const preact = css`
+  &:hover {
+    filter: drop-shadow(0 0 2em #673ab8aa);
+  }
+`;
+
+const card = css`
+  padding: 2em;
+`;
+
+const readTheDocs = css`
+  color: #888;
+`;
+
+export function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <>
+      <div>
+        <a href="https://vitejs.dev" target="_blank" rel="noreferrer">
+          <img src={viteLogo} class={logo} alt="Vite logo" />
+        </a>
+        <a href="https://preactjs.com" target="_blank" rel="noreferrer">
+          <img src={preactLogo} class={cx(logo, preact)} alt="Preact logo" />
+        </a>
+        <ViantLogo class={logo} />
+      </div>
+      <h1>Vite + Preact</h1>
+
+      <div class={card}>
+        <button type="button" onClick={() => setCount((count) => count + 1)}>
+          count is {count}
+        </button>
+        <p>
+          Edit <code>src/app.jsx</code> and save to test HMR
+        </p>
+      </div>
+
+      <p class={readTheDocs}>
+        Click on the Vite and Preact logos to learn more
+      </p>
+    </>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,5 @@
+import { render } from 'preact';
+import { App } from './app.jsx';
+import './global';
+
+render(<App />, document.getElementById('app'));
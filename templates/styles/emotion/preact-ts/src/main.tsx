@@ -0,0 +1,5 @@
+import { render } from 'preact';
+import { App } from './app.tsx';
+import './global';
+
+render(<App />, document.getElementById('app')!);
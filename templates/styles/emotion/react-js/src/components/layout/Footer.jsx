@@ -0,0 +1,63 @@
+import styled from '@emotion/styled'
+import { container, media } from '@/styles/mixins'
+
+const Bar = styled.footer`
+  border-top: 1px solid var(--border);
+  background-color: var(--background);
+`
+
+const Inner = styled.div`
+  ${container}
+  padding-top: 2.5rem;
+  padding-bottom: 2.5rem;
+
+  ${media.md} {
+    display: flex;
+    align-items: center;
+    height: 6rem;
+    padding-top: 0;
+    padding-bottom: 0;
+  }
+`
+
+const Text = styled.p`
+  font-size: 0.875rem;
+  line-height: 1.75;
+  text-align: center;
+  color: var(--muted-foreground);
+
+  ${media.md} {
+    text-align: left;
+  }
+`
+
+const Link = styled.a`
+  font-weight: 500;
+  color: inherit;
+  text-decoration: underline;
+  text-underline-offset: 4px;
+`
+
+export function Footer() {
+  return (
+    <Bar>
+      <Inner>
+        <Text>
+          Built with{' '}
+          <Link href="https://vitejs.dev" target="_blank" rel="noreferrer">
+            Vite
+          </Link>
+          {' '}and{' '}
+          <Link href="https://react.dev" target="_blank" rel="noreferrer">
+            React
+          </Link>
+          . The source code is available on{' '}
+          <Link href="https://github.com" target="_blank" rel="noreferrer">
+            GitHub
+          </Link>
+          .
+        </Text>
+      </Inner>
+    </Bar>
+  )
+}
@@ -0,0 +1,20 @@
+import { css } from '@emotion/react'
+
+export const media = {
+  md: '@media (min-width: 768px)',
+  lg: '@media (min-width: 1024px)',
+}
+
+export const container = css`
+  width: 100%;
+  max-width: 1400px;
+  margin: 0 auto;
+  padding: 0 1rem;
+`
+
+export const gradientText = css`
+  background: linear-gradient(to right, #2563eb, #9333ea);
+  -webkit-background-clip: text;
+  background-clip: text;
+  color: transparent;
+`
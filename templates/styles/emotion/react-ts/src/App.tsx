@@ -0,0 +1,234 @@
+import { useState } from 'react'
+import styled from '@emotion/styled'
+import { Button } from './components/ui/Button'
+import { Card } from './components/ui/Card'
+import { Layout } from './components/layout/Layout'
+import { useTheme } from './hooks/useTheme'
+import { container, gradientText, media } from './styles/mixins'
+
+const Page = styled.div`
+  min-height: 100vh;
+  padding: 1rem;
+  background: linear-gradient(to bottom right, #eff6ff, #e0e7ff);
+
+  .dark & {
+    background: linear-gradient(to bottom right, #111827, #1f2937);
+  }
+`
+
+const Content = styled.div`
+  ${container}
+  padding-top: 2rem;
+  padding-bottom: 2rem;
+
+  ${media.md} {
+    padding-top: 4rem;
+    padding-bottom: 4rem;
+  }
+`
+
+const Hero = styled.div`
+  margin-bottom: 2rem;
+  text-align: center;
+
+  ${media.md} {
+    margin-bottom: 3rem;
+  }
+`
+
+const Title = styled.h1`
+  margin-bottom: 0.75rem;
+  font-size: 2.25rem;
+  font-weight: 700;
+  line-height: 1.1;
+
+  ${media.md} {
+    margin-bottom: 1rem;
+    font-size: 3rem;
+  }
+`
+
+const Brand = styled.span`
+  ${gradientText}
+`
+
+const Lead = styled.p`
+  max-width: 42rem;
+  margin: 0 auto;
+  font-size: 1.125rem;
+  color: var(--muted-foreground);
+
+  ${media.md} {
+    font-size: 1.25rem;
+  }
+`
+
+const Features = styled.div`
+  display: grid;
+  gap: 1.5rem;
+  max-width: 56rem;
+  margin: 0 auto;
+
+  ${media.md} {
+    grid-template-columns: repeat(2, 1fr);
+    gap: 2rem;
+  }
+
+  ${media.lg} {
+    grid-template-columns: repeat(3, 1fr);
+  }
+`
+
+const Feature = styled(Card)`
+  padding: 1.5rem;
+`
+
+const FeatureTitle = styled.h3`
+  margin-bottom: 1rem;
+  font-size: 1.25rem;
+  font-weight: 600;
+`
+
+const FeatureText = styled.p`
+  color: var(--muted-foreground);
+`
+
+const Demo = styled.div`
+  margin-top: 2rem;
+  text-align: center;
+
+  ${media.md} {
+    margin-top: 3rem;
+  }
+`
+
+const CounterCard = styled(Card)`
+  display: inline-block;
+  padding: 1.5rem;
+
+  ${media.md} {
+    padding: 2rem;
+  }
+`
+
+const CounterTitle = styled.h2`
+  margin-bottom: 1rem;
+  font-size: 1.25rem;
+  font-weight: 600;
+
+  ${media.md} {
+    font-size: 1.5rem;
+  }
+`
+
+const Counter = styled.div`
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  gap: 1rem;
+  margin-bottom: 1.5rem;
+`
+
+const Count = styled.span`
+  width: 5rem;
+  font-size: 1.875rem;
+  font-weight: 700;
+`
+
+const ThemeToggle = styled(Button)`
+  margin-bottom: 1rem;
+`
+
+const Hint = styled.p`
+  font-size: 0.75rem;
+  color: var(--muted-foreground);
+
+  ${media.md} {
+    font-size: 0.875rem;
+  }
+
+  code {
+    padding: 0.25rem 0.5rem;
+    border-radius: 0.25rem;
+    background: var(--secondary);
+  }
+`
+
+function App() {
+  const [count, setCount] = useState(0)
+  const { theme, toggleTheme } = useTheme()
+
+  return (
+    <Layout>
+      <Page>
+        <Content>
+          <Hero>
+            <Title>
+              Welcome to{' '}
+              <Brand>
+                Viant
+              </Brand>
+            </Title>
+            <Lead>
+              A modern React template built with Vite, TypeScript, and Emotion
+            </Lead>
+          </Hero>
+
+          <Features>
+            <Feature>
+              <FeatureTitle>⚡ Lightning Fast</FeatureTitle>
+              <FeatureText>
+                Built with Vite for instant hot module replacement and optimized builds
+              </FeatureText>
+            </Feature>
+
+            <Feature>
+              <FeatureTitle>🎨 Beautiful UI</FeatureTitle>
+              <FeatureText>
+                Styled with Emotion and a light and dark theme
+              </FeatureText>
+            </Feature>
+
+            <Feature>
+              <FeatureTitle>🛠️ Developer Ready</FeatureTitle>
+              <FeatureText>
+                TypeScript, testing, linting, and formatting configured out of the box
+              </FeatureText>
+            </Feature>
+          </Features>
+
+          <Demo>
+            <CounterCard>
+              <CounterTitle>Interactive Counter</CounterTitle>
+              <Counter>
+                <Button
+                  onClick={() => setCount(count - 1)}
+                  variant="outline"
+                >
+                  -
+                </Button>
+                <Count>{count}</Count>
+                <Button
+                  onClick={() => setCount(count + 1)}
+                >
+                  +
+                </Button>
+              </Counter>
+              <ThemeToggle
+                onClick={toggleTheme}
+                variant="secondary"
+              >
+                Toggle {theme === 'dark' ? 'Light' : 'Dark'} Mode
+              </ThemeToggle>
+              <Hint>
+                Edit <code>src/App.tsx</code> and save to test HMR
+              </Hint>
+            </CounterCard>
+          </Demo>
+        </Content>
+      </Page>
+    </Layout>
+  )
+}
+
+export default App
@@ -0,0 +1,25 @@
+import './Footer.css'
+
+export function Footer() {
+  return (
+    <footer className="footer">
+      <div className="container footer__inner">
+        <p className="footer__text">
+          Built with{' '}
+          <a href="https://vitejs.dev" target="_blank" rel="noreferrer" className="footer__link">
+            Vite
+          </a>
+          {' '}and{' '}
+          <a href="https://react.dev" target="_blank" rel="noreferrer" className="footer__link">
+            React
+          </a>
+          . The source code is available on{' '}
+          <a href="https://github.com" target="_blank" rel="noreferrer" className="footer__link">
+            GitHub
+          </a>
+          .
+        </p>
+      </div>
+    </footer>
+  )
+}
@@ -0,0 +1,19 @@
+import { forwardRef } from 'react'
+import { cn } from '@/utils/cn'
+import './Button.css'
+
+const Button = forwardRef(
+  ({ className, variant = 'default', size = 'default', ...props }, ref) => {
+    return (
+      <button
+        className={cn('button', `button--${variant}`, `button--size-${size}`, className)}
+        ref={ref}
+        {...props}
+      />
+    )
+  }
+)
+
+Button.displayName = 'Button'
+
+export { Button }
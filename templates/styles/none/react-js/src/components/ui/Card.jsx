@@ -0,0 +1,55 @@
+import { forwardRef } from 'react'
+import { cn } from '@/utils/cn'
+import './Card.css'
+
+const Card = forwardRef(
+  ({ className, ...props }, ref) => (
+    <div ref={ref} className={cn('card', className)} {...props} />
+  )
+)
+
+Card.displayName = 'Card'
+
+const CardHeader = forwardRef(
+  ({ className, ...props }, ref) => (
+    <div ref={ref} className={cn('card__header', className)} {...props} />
+  )
+)
+
+CardHeader.displayName = 'CardHeader'
+
+const CardTitle = forwardRef(
+  ({ className, children, ...props }, ref) => (
+    <h3 ref={ref} className={cn('card__title', className)} {...props}>
+      {children}
+    </h3>
+  )
+)
+
+CardTitle.displayName = 'CardTitle'
+
+const CardDescription = forwardRef(
+  ({ className, ...props }, ref) => (
+    <p ref={ref} className={cn('card__description', className)} {...props} />
+  )
+)
+
+CardDescription.displayName = 'CardDescription'
+
+const CardContent = forwardRef(
+  ({ className, ...props }, ref) => (
+    <div ref={ref} className={cn('card__content', className)} {...props} />
+  )
+)
+
+CardContent.displayName = 'CardContent'
+
+const CardFooter = forwardRef(
+  ({ className, ...props }, ref) => (
+    <div ref={ref} className={cn('card__footer', className)} {...props} />
+  )
+)
+
+CardFooter.displayName = 'CardFooter'
+
+export { Card, CardHeader, CardFooter, CardTitle, CardDescription, CardContent }
@@ -0,0 +1,86 @@
+import { useState } from 'react'
+import { Button } from './components/ui/Button'
+import { Card } from './components/ui/Card'
+import { Layout } from './components/layout/Layout'
+import { useTheme } from './hooks/useTheme'
+import './App.css'
+
+function App() {
+  const [count, setCount] = useState(0)
+  const { theme, toggleTheme } = useTheme()
+
+  return (
+    <Layout>
+      <div className="app">
+        <div className="container app__content">
+          <div className="app__hero">
+            <h1 className="app__title">
+              Welcome to{' '}
+              <span className="app__brand">
+                Viant
+              </span>
+            </h1>
+            <p className="app__lead">
+              A modern React template built with Vite, TypeScript, and plain CSS
+            </p>
+          </div>
+
+          <div className="app__features">
+            <Card className="app__feature">
+              <h3 className="app__feature-title">⚡ Lightning Fast</h3>
+              <p className="app__feature-text">
+                Built with Vite for instant hot module replacement and optimized builds
+              </p>
+            </Card>
+
+            <Card className="app__feature">
+              <h3 className="app__feature-title">🎨 Beautiful UI</h3>
+              <p className="app__feature-text">
+                Styled with plain CSS, custom properties, and a light and dark theme
+              </p>
+            </Card>
+
+            <Card className="app__feature">
+              <h3 className="app__feature-title">🛠️ Developer Ready</h3>
+              <p className="app__feature-text">
+                TypeScript, testing, linting, and formatting configured out of the box
+              </p>
+            </Card>
+          </div>
+
+          <div className="app__demo">
+            <Card className="app__counter-card">
+              <h2 className="app__counter-title">Interactive Counter</h2>
+              <div className="app__counter">
+                <Button
+                  onClick={() => setCount(count - 1)}
+                  variant="outline"
+                >
+                  -
+                </Button>
+                <span className="app__count">{count}</span>
+                <Button
+                  onClick={() => setCount(count + 1)}
+                >
+                  +
+                </Button>
+              </div>
+              <Button
+                onClick={toggleTheme}
+                variant="secondary"
+                className="app__theme-toggle"
+              >
+                Toggle {theme === 'dark' ? 'Light' : 'Dark'} Mode
+              </Button>
+              <p className="app__hint">
+                Edit <code>src/App.tsx</code> and save to test HMR
+              </p>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  )
+}
+
+export default App
@@ -0,0 +1,5 @@
+import { render } from 'preact';
+import { App } from './app.tsx';
+import './index.scss';
+
+render(<App />, document.getElementById('app')!);
\ No newline at end of file
@@ -0,0 +1,13 @@
+import { Header } from './Header'
+import { Footer } from './Footer'
+import './Layout.scss'
+
+export function Layout({ children }) {
+  return (
+    <div className="layout">
+      <Header />
+      <main className="layout__main">{children}</main>
+      <Footer />
+    </div>
+  )
+}
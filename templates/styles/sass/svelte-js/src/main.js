@@ -0,0 +1,8 @@
+import './app.scss'
+import App from './App.svelte'
+
+const app = new App({
+  target: document.getElementById('app'),
+})
+
+export default app
\ No newline at end of file
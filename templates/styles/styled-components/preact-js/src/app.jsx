@@ -0,0 +1,56 @@
+import { useState } from 'preact/hooks';
+import styled from 'styled-components';
+import preactLogo from './assets/preact.svg';
+import viteLogo from '/vite.svg';
+import ViantLogo from './components/ViantLogo.jsx';
+
+const Logo = styled.img`
+  height: 6em;
+  padding: 1.5em;
+  will-change: filter;
+  transition: filter 300ms;
+
+  &:hover {
+    filter: drop-shadow(0 0 2em ${({ $glow }) => $glow});
+  }
+`;
+
+const Card = styled.div`
+  padding: 2em;
+`;
+
+const ReadTheDocs = styled.p`
+  color: #888;
+`;
+
+export function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <>
+      <div>
+        <a href="https://vitejs.dev" target="_blank" rel="noreferrer">
+          <Logo src={viteLogo} $glow="#646cffaa" alt="Vite logo" />
+        </a>
+        <a href="https://preactjs.com" target="_blank" rel="noreferrer">
+          <Logo src={preactLogo} $glow="#673ab8aa" alt="Preact logo" />
+        </a>
+        <Logo as={ViantLogo} $glow="#646cffaa" />
+      </div>
+      <h1>Vite + Preact</h1>
+
+      <Card>
+        <button type="button" onClick={() => setCount((count) => count + 1)}>
+          count is {count}
+        </button>
+        <p>
+          Edit <code>src/app.jsx</code> and save to test HMR
+        </p>
+      </Card>
+
+      <ReadTheDocs>
+        Click on the Vite and Preact logos to learn more
+      </ReadTheDocs>
+    </>
+  );
+}
\ No newline at end of file
@@ -0,0 +1,11 @@
+import { render } from 'preact';
+import { App } from './app.jsx';
+import { GlobalStyle } from './GlobalStyle';
+
+render(
+  <>
+    <GlobalStyle />
+    <App />
+  </>,
+  document.getElementById('app')
+);
@@ -0,0 +1,117 @@
+import { useState } from 'preact/hooks';
+import styled from 'styled-components';
+import preactLogo from './assets/preact.svg';
+import viteLogo from '/vite.svg';
+import { ViantLogo } from './ViantLogo';
+
+const Logo = styled.img<{ $glow: string }>`
+  height: 6em;
+  padding: 1.5em;
+  will-change: filter;
+  transition: filter 300ms;
+
+  &:hover {
+    filter: drop-shadow(0 0 2em ${({ $glow }) => $glow});
+  }
+`;
+
+const Card = styled.div`
+  padding: 2em;
+`;
+
+const Features = styled.div`
+  display: grid;
+  grid-template-columns: repeat(auto-fit, minmax(250px, 1fr));
+  gap: 2rem;
+  margin: 3rem auto;
+  max-width: 800px;
+`;
+
+const Feature = styled.div`
+  padding: 1.5rem;
+  border: 1px solid rgba(255, 255, 255, 0.1);
+  border-radius: 8px;
+  background: rgba(255, 255, 255, 0.05);
+  transition: transform 0.2s ease, border-color 0.2s ease;
+
+  &:hover {
+    transform: translateY(-2px);
+    border-color: #646cff;
+  }
+
+  h3 {
+    margin: 0 0 1rem 0;
+    font-size: 1.2rem;
+    color: #646cff;
+  }
+
+  p {
+    margin: 0;
+    color: rgba(255, 255, 255, 0.7);
+    line-height: 1.6;
+  }
+
+  @media (prefers-color-scheme: light) {
+    border-color: rgba(0, 0, 0, 0.1);
+    background: rgba(0, 0, 0, 0.02);
+
+    p {
+      color: rgba(0, 0, 0, 0.7);
+    }
+  }
+`;
+
+const ReadTheDocs = styled.p`
+  color: #888;
+`;
+
+export function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <>
+      <div>
+        <a href="https://vitejs.dev" target="_blank" rel="noreferrer">
+          <Logo src={viteLogo} $glow="#646cffaa" alt="Vite logo" />
+        </a>
+        <a href="https://preactjs.com" target="_blank" rel="noreferrer">
+          <Logo src={preactLogo} $glow="#673ab8aa" alt="Preact logo" />
+        </a>
+      </div>
+      <ViantLogo />
+      <h1>Vite + Preact</h1>
+
+      <Card>
+        <button type="button" onClick={() => setCount((count: number) => count + 1)}>
+          count is {count}
+        </button>
+        <p>
+          Edit <code>src/app.tsx</code> and save to test HMR
+        </p>
+      </Card>
+
+      <Features>
+        <Feature>
+          <h3>⚡ Speed</h3>
+          <p>Lightning-fast development with Vite's instant HMR</p>
+        </Feature>
+        <Feature>
+          <h3>🔒 Type Safety</h3>
+          <p>Full TypeScript support for robust development</p>
+        </Feature>
+        <Feature>
+          <h3>🎨 Styling Flexibility</h3>
+          <p>Choose from CSS, Sass, Tailwind, or styled-components</p>
+        </Feature>
+        <Feature>
+          <h3>🌟 Rich Ecosystem</h3>
+          <p>Access to the entire Preact and React ecosystem</p>
+        </Feature>
+      </Features>
+
+      <ReadTheDocs>
+        Click on the Vite and Preact logos to learn more
+      </ReadTheDocs>
+    </>
+  );
+}
@@ -0,0 +1,92 @@
+import styled from 'styled-components'
+import { Button } from '@/components/ui/Button'
+import { useTheme } from '@/hooks/useTheme'
+import { container, gradientText } from '@/styles/mixins'
+
+const Bar = styled.header`
+  position: sticky;
+  top: 0;
+  z-index: 50;
+  width: 100%;
+  border-bottom: 1px solid var(--border);
+  background-color: color-mix(in srgb, var(--background) 95%, transparent);
+  backdrop-filter: blur(8px);
+`
+
+const Inner = styled.div`
+  ${container}
+  display: flex;
+  align-items: center;
+  justify-content: space-between;
+  height: 3.5rem;
+`
+
+const Brand = styled.a`
+  ${gradientText}
+  font-size: 1.25rem;
+  font-weight: 700;
+  text-decoration: none;
+`
+
+const Actions = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 1rem;
+`
+
+const Nav = styled.nav`
+  display: flex;
+  align-items: center;
+  gap: 1.5rem;
+  font-size: 0.875rem;
+  font-weight: 500;
+`
+
+const NavLink = styled.a`
+  color: color-mix(in srgb, var(--foreground) 60%, transparent);
+  text-decoration: none;
+  transition: color 150ms;
+
+  &:hover {
+    color: color-mix(in srgb, var(--foreground) 80%, transparent);
+  }
+`
+
+const ThemeToggle = styled(Button)`
+  width: 2.25rem;
+  padding: 0;
+`
+
+export function Header() {
+  const { theme, toggleTheme } = useTheme()
+
+  return (
+    <Bar>
+      <Inner>
+        <Brand href="/">
+          Viant
+        </Brand>
+        <Actions>
+          <Nav>
+            <NavLink href="#features">
+              Features
+            </NavLink>
+            <NavLink href="#docs">
+              Docs
+            </NavLink>
+            <NavLink href="#github">
+              GitHub
+            </NavLink>
+          </Nav>
+          <ThemeToggle
+            variant="ghost"
+            size="sm"
+            onClick={toggleTheme}
+          >
+            {theme === 'dark' ? '🌞' : '🌙'}
+          </ThemeToggle>
+        </Actions>
+      </Inner>
+    </Bar>
+  )
+}
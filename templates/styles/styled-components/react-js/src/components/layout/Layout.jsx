@@ -0,0 +1,24 @@
+import styled from 'styled-components'
+import { Header } from './Header'
+import { Footer } from './Footer'
+
+const Wrapper = styled.div`
+  position: relative;
+  display: flex;
+  flex-direction: column;
+  min-height: 100vh;
+`
+
+const Main = styled.main`
+  flex: 1;
+`
+
+export function Layout({ children }) {
+  return (
+    <Wrapper>
+      <Header />
+      <Main>{children}</Main>
+      <Footer />
+    </Wrapper>
+  )
+}
@@ -0,0 +1,113 @@
+import { forwardRef } from 'react'
+import styled, { css } from 'styled-components'
+
+const subtleHover = css`
+  &:hover {
+    background-color: var(--accent);
+    color: var(--accent-foreground);
+  }
+`
+
+const variants = {
+  default: css`
+    background-color: var(--primary);
+    color: var(--primary-foreground);
+
+    &:hover {
+      background-color: color-mix(in srgb, var(--primary) 90%, transparent);
+    }
+  `,
+  destructive: css`
+    background-color: var(--destructive);
+    color: var(--destructive-foreground);
+
+    &:hover {
+      background-color: color-mix(in srgb, var(--destructive) 90%, transparent);
+    }
+  `,
+  outline: css`
+    border-color: var(--border);
+    background-color: var(--background);
+    color: var(--foreground);
+    ${subtleHover}
+  `,
+  secondary: css`
+    background-color: var(--secondary);
+    color: var(--secondary-foreground);
+
+    &:hover {
+      background-color: color-mix(in srgb, var(--secondary) 80%, transparent);
+    }
+  `,
+  ghost: css`
+    background-color: transparent;
+    color: inherit;
+    ${subtleHover}
+  `,
+  link: css`
+    background-color: transparent;
+    color: var(--primary);
+    text-underline-offset: 4px;
+
+    &:hover {
+      text-decoration: underline;
+    }
+  `,
+}
+
+const sizes = {
+  default: css`
+    height: 2.5rem;
+    padding: 0.5rem 1rem;
+  `,
+  sm: css`
+    height: 2.25rem;
+    padding: 0 0.75rem;
+  `,
+  lg: css`
+    height: 2.75rem;
+    padding: 0 2rem;
+  `,
+  icon: css`
+    width: 2.5rem;
+    height: 2.5rem;
+  `,
+}
+
+// Transient $ props style the button without reaching the DOM
+const StyledButton = styled.button`
+  display: inline-flex;
+  align-items: center;
+  justify-content: center;
+  border: 1px solid transparent;
+  border-radius: calc(var(--radius) - 2px);
+  font: inherit;
+  font-size: 0.875rem;
+  font-weight: 500;
+  white-space: nowrap;
+  cursor: pointer;
+  transition: background-color 150ms, border-color 150ms, color 150ms;
+
+  &:focus-visible {
+    outline: 2px solid var(--ring);
+    outline-offset: 2px;
+  }
+
+  &:disabled {
+    pointer-events: none;
+    opacity: 0.5;
+  }
+
+  ${({ $variant }) => variants[$variant]}
+  ${({ $size }) => sizes[$size]}
+`
+
+const Button = forwardRef(
+  ({ variant = 'default', size = 'default', ...props }, ref) => {
+    return <StyledButton $variant={variant} $size={size} ref={ref} {...props} />
+  }
+)
+
+Button.displayName = 'Button'
+
+export { Button }
@@ -0,0 +1,40 @@
+import styled from 'styled-components'
+
+const Card = styled.div`
+  border: 1px solid var(--border);
+  border-radius: var(--radius);
+  background-color: var(--card);
+  color: var(--card-foreground);
+  box-shadow: 0 1px 2px 0 rgb(0 0 0 / 0.05);
+`
+
+const CardHeader = styled.div`
+  display: flex;
+  flex-direction: column;
+  gap: 0.375rem;
+  padding: 1.5rem;
+`
+
+const CardTitle = styled.h3`
+  font-size: 1.5rem;
+  font-weight: 600;
+  line-height: 1;
+  letter-spacing: -0.025em;
+`
+
+const CardDescription = styled.p`
+  font-size: 0.875rem;
+  color: var(--muted-foreground);
+`
+
+const CardContent = styled.div`
+  padding: 0 1.5rem 1.5rem;
+`
+
+const CardFooter = styled.div`
+  display: flex;
+  align-items: center;
+  padding: 0 1.5rem 1.5rem;
+`
+
+export { Card, CardHeader, CardFooter, CardTitle, CardDescription, CardContent }
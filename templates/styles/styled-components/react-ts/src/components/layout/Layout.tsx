@@ -0,0 +1,29 @@
+import type { ReactNode } from 'react'
+import styled from 'styled-components'
+import { Header } from './Header'
+import { Footer } from './Footer'
+
+interface LayoutProps {
+  children: ReactNode
+}
+
+const Wrapper = styled.div`
+  position: relative;
+  display: flex;
+  flex-direction: column;
+  min-height: 100vh;
+`
+
+const Main = styled.main`
+  flex: 1;
+`
+
+export function Layout({ children }: LayoutProps) {
+  return (
+    <Wrapper>
+      <Header />
+      <Main>{children}</Main>
+      <Footer />
+    </Wrapper>
+  )
+}
@@ -0,0 +1,38 @@
+import { Button } from '@/components/ui/Button'
+import { useTheme } from '@/hooks/useTheme'
+import './Header.styl'
+
+export function Header() {
+  const { theme, toggleTheme } = useTheme()
+
+  return (
+    <header className="header">
+      <div className="header__inner">
+        <a className="header__brand" href="/">
+          Viant
+        </a>
+        <div className="header__actions">
+          <nav className="header__nav">
+            <a href="#features" className="header__link">
+              Features
+            </a>
+            <a href="#docs" className="header__link">
+              Docs
+            </a>
+            <a href="#github" className="header__link">
+              GitHub
+            </a>
+          </nav>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleTheme}
+            className="header__theme-toggle"
+          >
+            {theme === 'dark' ? '🌞' : '🌙'}
+          </Button>
+        </div>
+      </div>
+    </header>
+  )
+}
@@ -0,0 +1,6 @@
+import { vitePreprocess } from '@sveltejs/vite-plugin-svelte'
+
+export default {
+  // Compiles <style lang="..."> blocks with the preprocessors Vite uses for stylesheets
+  preprocess: vitePreprocess(),
+}
@@ -0,0 +1,5 @@
+import { createApp } from 'vue'
+import './style.styl'
+import App from './App.vue'
+
+createApp(App).mount('#app')
\ No newline at end of file
@@ -0,0 +1,38 @@
+import { useState } from 'preact/hooks';
+import preactLogo from './assets/preact.svg';
+import viteLogo from '/vite.svg';
+import ViantLogo from './components/ViantLogo.jsx';
+
+const logo = 'inline-block h-[6em] p-[1.5em] transition-[filter] duration-300';
+
+export function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <>
+      <div>
+        <a href="https://vitejs.dev" target="_blank" rel="noreferrer">
+          <img src={viteLogo} class={`${logo} hover:drop-shadow-[0_0_2em_#646cffaa]`} alt="Vite logo" />
+        </a>
+        <a href="https://preactjs.com" target="_blank" rel="noreferrer">
+          <img src={preactLogo} class={`${logo} hover:drop-shadow-[0_0_2em_#673ab8aa]`} alt="Preact logo" />
+        </a>
+        <ViantLogo class={logo} />
+      </div>
+      <h1 class="my-[0.67em] text-[3.2em] font-bold leading-[1.1]">Vite + Preact</h1>
+
+      <div class="p-[2em]">
+        <button type="button" onClick={() => setCount((count) => count + 1)}>
+          count is {count}
+        </button>
+        <p class="my-4">
+          Edit <code>src/app.jsx</code> and save to test HMR
+        </p>
+      </div>
+
+      <p class="my-4 text-[#888]">
+        Click on the Vite and Preact logos to learn more
+      </p>
+    </>
+  );
+}
\ No newline at end of file
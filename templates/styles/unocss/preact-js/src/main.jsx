@@ -0,0 +1,7 @@
+import { render } from 'preact';
+import { App } from './app.jsx';
+import '@unocss/reset/tailwind.css';
+import './index.css';
+import 'virtual:uno.css';
+
+render(<App />, document.getElementById('app'));
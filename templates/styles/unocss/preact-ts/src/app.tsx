@@ -0,0 +1,59 @@
+import { useState } from 'preact/hooks';
+import preactLogo from './assets/preact.svg';
+import viteLogo from '/vite.svg';
+import { ViantLogo } from './ViantLogo';
+
+const logo = 'inline-block h-[6em] p-[1.5em] transition-[filter] duration-300';
+
+const feature = 'p-6 border border-black/10 rounded-lg bg-black/[0.02] text-left transition duration-200 hover:-translate-y-0.5 hover:border-brand dark:border-white/10 dark:bg-white/5';
+
+export function App() {
+  const [count, setCount] = useState(0);
+
+  return (
+    <>
+      <div>
+        <a href="https://vitejs.dev" target="_blank" rel="noreferrer">
+          <img src={viteLogo} class={`${logo} hover:drop-shadow-[0_0_2em_#646cffaa]`} alt="Vite logo" />
+        </a>
+        <a href="https://preactjs.com" target="_blank" rel="noreferrer">
+          <img src={preactLogo} class={`${logo} hover:drop-shadow-[0_0_2em_#673ab8aa]`} alt="Preact logo" />
+        </a>
+      </div>
+      <ViantLogo />
+      <h1 class="my-[0.67em] text-[3.2em] font-bold leading-[1.1]">Vite + Preact</h1>
+
+      <div class="p-[2em]">
+        <button type="button" onClick={() => setCount((count: number) => count + 1)}>
+          count is {count}
+        </button>
+        <p class="my-4">
+          Edit <code>src/app.tsx</code> and save to test HMR
+        </p>
+      </div>
+
+      <div class="grid grid-cols-[repeat(auto-fit,minmax(250px,1fr))] gap-8 max-w-[800px] mx-auto my-12">
+        <div class={feature}>
+          <h3 class="mb-4 text-[1.2rem] font-bold text-brand">⚡ Speed</h3>
+          <p class="leading-[1.6] text-black/70 dark:text-white/70">Lightning-fast development with Vite's instant HMR</p>
+        </div>
+        <div class={feature}>
+          <h3 class="mb-4 text-[1.2rem] font-bold text-brand">🔒 Type Safety</h3>
+          <p class="leading-[1.6] text-black/70 dark:text-white/70">Full TypeScript support for robust development</p>
+        </div>
+        <div class={feature}>
+          <h3 class="mb-4 text-[1.2rem] font-bold text-brand">🎨 Styling Flexibility</h3>
+          <p class="leading-[1.6] text-black/70 dark:text-white/70">Choose from CSS, Sass, Tailwind, or styled-components</p>
+        </div>
+        <div class={feature}>
+          <h3 class="mb-4 text-[1.2rem] font-bold text-brand">🌟 Rich Ecosystem</h3>
+          <p class="leading-[1.6] text-black/70 dark:text-white/70">Access to the entire Preact and React ecosystem</p>
+        </div>
+      </div>
+
+      <p class="my-4 text-[#888]">
+        Click on the Vite and Preact logos to learn more
+      </p>
+    </>
+  );
+}
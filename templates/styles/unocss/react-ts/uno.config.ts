@@ -0,0 +1,51 @@
+import { defineConfig, presetUno } from 'unocss'
+
+/**
+ * A theme color read from a CSS variable of RGB channels, so opacity
+ * modifiers such as bg-primary/90 apply to it
+ */
+function themeColor(name: string) {
+  return `rgb(var(--${name}))`
+}
+
+export default defineConfig({
+  presets: [presetUno()],
+  theme: {
+    colors: {
+      background: themeColor('background'),
+      foreground: themeColor('foreground'),
+      card: {
+        DEFAULT: themeColor('card'),
+        foreground: themeColor('card-foreground'),
+      },
+      primary: {
+        DEFAULT: themeColor('primary'),
+        foreground: themeColor('primary-foreground'),
+      },
+      secondary: {
+        DEFAULT: themeColor('secondary'),
+        foreground: themeColor('secondary-foreground'),
+      },
+      muted: {
+        foreground: themeColor('muted-foreground'),
+      },
+      accent: {
+        DEFAULT: themeColor('accent'),
+        foreground: themeColor('accent-foreground'),
+      },
+      destructive: {
+        DEFAULT: themeColor('destructive'),
+        foreground: themeColor('destructive-foreground'),
+      },
+      border: themeColor('border'),
+      input: themeColor('input'),
+      ring: themeColor('ring'),
+    },
+    fontFamily: {
+      sans: 'Inter, system-ui, Avenir, Helvetica, Arial, sans-serif',
+    },
+  },
+  shortcuts: {
+    container: 'mx-auto px-4',
+  },
+})
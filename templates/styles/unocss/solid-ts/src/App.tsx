@@ -0,0 +1,62 @@
+import { createSignal } from 'solid-js'
+import solidLogo from './assets/solid.svg'
+import viteLogo from '/vite.svg'
+import ViantLogo from './components/ViantLogo'
+
+const logo = 'inline-block h-[6em] p-[1.5em] transition-[filter] duration-300'
+
+function App() {
+  const [count, setCount] = createSignal(0)
+
+  return (
+    <>
+      <div>
+        <a href="https://vitejs.dev" target="_blank" rel="noreferrer">
+          <img src={viteLogo} class={`${logo} hover:drop-shadow-[0_0_2em_#646cffaa]`} alt="Vite logo" />
+        </a>
+        <a href="https://solidjs.com" target="_blank" rel="noreferrer">
+          <img src={solidLogo} class={`${logo} hover:drop-shadow-[0_0_2em_#61dafbaa]`} alt="Solid logo" />
+        </a>
+        <ViantLogo />
+      </div>
+      <h1 class="my-[0.67em] text-[3.2em] font-bold leading-[1.1]">Viant + Solid</h1>
+
+      <div class="p-[2em]">
+        <button type="button" onClick={() => setCount((count: number) => count + 1)}>
+          count is {count()}
+        </button>
+        <p class="my-4">
+          Edit <code>src/App.tsx</code> and save to test HMR
+        </p>
+      </div>
+
+      <div class="features">
+        <div class="feature">
+          <h3 class="my-4 text-[1.17em] font-bold">⚡️ Lightning Fast</h3>
+          <p class="my-4">Powered by Vite for instant dev server and optimized builds</p>
+        </div>
+        
+        <div class="feature">
+          <h3 class="my-4 text-[1.17em] font-bold">🎯 Type Safe</h3>
+          <p class="my-4">Full TypeScript support with excellent IDE integration</p>
+        </div>
+        
+        <div class="feature">
+          <h3 class="my-4 text-[1.17em] font-bold">🎨 Flexible Styling</h3>
+          <p class="my-4">Choose from Tailwind, CSS Modules, Sass, and more</p>
+        </div>
+        
+        <div class="feature">
+          <h3 class="my-4 text-[1.17em] font-bold">📦 Rich Ecosystem</h3>
+          <p class="my-4">Optional PWA, testing, linting, and deployment configs</p>
+        </div>
+      </div>
+
+      <p class="my-4 text-[#888]">
+        Click on the Vite, Solid, and Viant logos to learn more
+      </p>
+    </>
+  )
+}
+
+export default App
\ No newline at end of file
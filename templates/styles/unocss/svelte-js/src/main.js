@@ -0,0 +1,10 @@
+import '@unocss/reset/tailwind.css'
+import './app.css'
+import 'virtual:uno.css'
+import App from './App.svelte'
+
+const app = new App({
+  target: document.getElementById('app'),
+})
+
+export default app
\ No newline at end of file
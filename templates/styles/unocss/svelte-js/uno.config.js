@@ -0,0 +1,18 @@
+import { defineConfig, presetUno } from 'unocss'
+
+export default defineConfig({
+  // dark: variants follow the system color scheme, like the template's stylesheet
+  presets: [presetUno({ dark: 'media' })],
+  theme: {
+    colors: {
+      brand: {
+        DEFAULT: '#646cff',
+        dark: '#535bf2',
+        light: '#747bff',
+      },
+    },
+    fontFamily: {
+      sans: 'Inter, system-ui, Avenir, Helvetica, Arial, sans-serif',
+    },
+  },
+})
@@ -0,0 +1,55 @@
+import '@unocss/reset/tailwind.css';
+import './style.css';
+import 'virtual:uno.css';
+import { setupCounter } from './counter.ts';
+import { createViantLogo } from './viant-logo.ts';
+import typescriptLogo from './typescript.svg';
+import viteLogo from '/vite.svg';
+
+const logo = 'inline-block h-[6em] p-[1.5em] transition-[filter] duration-300';
+const feature =
+  'rounded-lg border border-black/10 bg-black/[0.02] p-6 transition duration-200 hover:-translate-y-0.5 hover:border-[#646cff] dark:border-white/10 dark:bg-white/5';
+const featureTitle = 'mb-4 text-[1.2rem] font-bold text-[#646cff]';
+const featureText = 'leading-[1.6] text-black/70 dark:text-white/70';
+
+document.querySelector<HTMLDivElement>('#app')!.innerHTML = `
+  <div>
+    <a href="https://vitejs.dev" target="_blank" rel="noreferrer">
+      <img src="${viteLogo}" class="${logo} hover:drop-shadow-[0_0_2em_#646cffaa]" alt="Vite logo" />
+    </a>
+    <a href="https://www.typescriptlang.org/" target="_blank" rel="noreferrer">
+      <img src="${typescriptLogo}" class="${logo} hover:drop-shadow-[0_0_2em_#3178c6aa]" alt="TypeScript logo" />
+    </a>
+  </div>
+  ${createViantLogo()}
+  <h1 class="my-[0.67em] text-[3.2em] font-bold leading-[1.1]">Vite + TypeScript</h1>
+
+  <div class="p-[2em]">
+    <button id="counter" type="button"></button>
+  </div>
+  
+  <div class="mx-auto my-12 grid max-w-[800px] grid-cols-[repeat(auto-fit,minmax(250px,1fr))] gap-8">
+    <div class="${feature}">
+      <h3 class="${featureTitle}">⚡ Speed</h3>
+      <p class="${featureText}">Lightning-fast development with Vite's instant HMR</p>
+    </div>
+    <div class="${feature}">
+      <h3 class="${featureTitle}">🔒 Type Safety</h3>
+      <p class="${featureText}">Full TypeScript support for robust development</p>
+    </div>
+    <div class="${feature}">
+      <h3 class="${featureTitle}">🎨 Styling Flexibility</h3>
+      <p class="${featureText}">Choose from CSS, Sass, Tailwind, or any styling solution</p>
+    </div>
+    <div class="${feature}">
+      <h3 class="${featureTitle}">🌟 Rich Ecosystem</h3>
+      <p class="${featureText}">Access to the entire JavaScript ecosystem</p>
+    </div>
+  </div>
+
+  <p class="my-4 text-[#888]">
+    Click on the Vite and TypeScript logos to learn more
+  </p>
+`;
+
+setupCounter(document.querySelector<HTMLButtonElement>('#counter')!);
\ No newline at end of file
@@ -0,0 +1,7 @@
+import { createApp } from 'vue'
+import '@unocss/reset/tailwind.css'
+import './style.css'
+import 'virtual:uno.css'
+import App from './App.vue'
+
+createApp(App).mount('#app')
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { globalStyle, style } from '@vanilla-extract/css';
+import { colors, lightScheme, radius } from './styles/theme';
+
+export const logo = style({
+  height: '6em',
+  padding: '1.5em',
+  willChange: 'filter',
+  transition: 'filter 300ms',
+  ':hover': {
+    filter: `drop-shadow(0 0 2em ${colors.brand}aa)`,
+  },
+});
+
+export const preact = style({
+  ':hover': {
+    filter: `drop-shadow(0 0 2em ${colors.framework}aa)`,
+  },
+});
+
+export const card = style({
+  padding: '2em',
+});
+
+export const readTheDocs = style({
+  color: '#888',
+});
+
+export const features = style({
+  display: 'grid',
+  gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))',
+  gap: '2rem',
+  margin: '3rem auto',
+  maxWidth: 800,
+});
+
+export const feature = style({
+  padding: '1.5rem',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: radius,
+  background: 'rgba(255, 255, 255, 0.05)',
+  transition: 'transform 0.2s ease, border-color 0.2s ease',
+  ':hover': {
+    transform: 'translateY(-2px)',
+    borderColor: colors.brand,
+  },
+  '@media': {
+    [lightScheme]: {
+      borderColor: 'rgba(0, 0, 0, 0.1)',
+      background: 'rgba(0, 0, 0, 0.02)',
+    },
+  },
+});
+
+globalStyle(`${feature} h3`, {
+  margin: '0 0 1rem 0',
+  fontSize: '1.2rem',
+  color: colors.brand,
+});
+
+globalStyle(`${feature} p`, {
+  margin: 0,
+  color: 'rgba(255, 255, 255, 0.7)',
+  lineHeight: 1.6,
+  '@media': {
+    [lightScheme]: {
+      color: 'rgba(0, 0, 0, 0.7)',
+    },
+  },
+});
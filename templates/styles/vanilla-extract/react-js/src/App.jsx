@@ -0,0 +1,87 @@
+import { useState } from 'react'
+import { Button } from './components/ui/Button'
+import { Card } from './components/ui/Card'
+import { Layout } from './components/layout/Layout'
+import { useTheme } from './hooks/useTheme'
+import { gradientText } from './styles/layout.css'
+import * as styles from './App.css'
+
+function App() {
+  const [count, setCount] = useState(0)
+  const { theme, toggleTheme } = useTheme()
+
+  return (
+    <Layout>
+      <div className={styles.app}>
+        <div className={styles.content}>
+          <div className={styles.hero}>
+            <h1 className={styles.title}>
+              Welcome to{' '}
+              <span className={gradientText}>
+                Viant
+              </span>
+            </h1>
+            <p className={styles.lead}>
+              A modern React template built with Vite, JavaScript, and vanilla-extract
+            </p>
+          </div>
+
+          <div className={styles.features}>
+            <Card className={styles.feature}>
+              <h3 className={styles.featureTitle}>⚡ Lightning Fast</h3>
+              <p className={styles.featureText}>
+                Built with Vite for instant hot module replacement and optimized builds
+              </p>
+            </Card>
+
+            <Card className={styles.feature}>
+              <h3 className={styles.featureTitle}>🎨 Beautiful UI</h3>
+              <p className={styles.featureText}>
+                Styled with type-safe vanilla-extract stylesheets and a light and dark theme
+              </p>
+            </Card>
+
+            <Card className={styles.feature}>
+              <h3 className={styles.featureTitle}>🛠️ Developer Ready</h3>
+              <p className={styles.featureText}>
+                Testing, linting, and formatting configured out of the box
+              </p>
+            </Card>
+          </div>
+
+          <div className={styles.demo}>
+            <Card className={styles.counterCard}>
+              <h2 className={styles.counterTitle}>Interactive Counter</h2>
+              <div className={styles.counter}>
+                <Button
+                  onClick={() => setCount(count - 1)}
+                  variant="outline"
+                >
+                  -
+                </Button>
+                <span className={styles.count}>{count}</span>
+                <Button
+                  onClick={() => setCount(count + 1)}
+                >
+                  +
+                </Button>
+              </div>
+              <Button
+                onClick={toggleTheme}
+                variant="secondary"
+                className={styles.themeToggle}
+              >
+                Toggle {theme === 'dark' ? 'Light' : 'Dark'} Mode
+              </Button>
+              <p className={styles.hint}>
+                Edit <code>src/App.jsx</code> and save to test HMR
+              </p>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </Layout>
+  )
+}
+
+export default App
@@ -0,0 +1,44 @@
+import { style } from '@vanilla-extract/css'
+import { container } from '../../styles/layout.css'
+import { breakpoints, colors } from '../../styles/theme.css'
+
+export const footer = style({
+  borderTop: `1px solid ${colors.border}`,
+  backgroundColor: colors.background,
+})
+
+export const inner = style([
+  container,
+  {
+    paddingTop: '2.5rem',
+    paddingBottom: '2.5rem',
+    '@media': {
+      [breakpoints.md]: {
+        display: 'flex',
+        alignItems: 'center',
+        height: '6rem',
+        paddingTop: 0,
+        paddingBottom: 0,
+      },
+    },
+  },
+])
+
+export const text = style({
+  fontSize: '0.875rem',
+  lineHeight: 1.75,
+  textAlign: 'center',
+  color: colors.mutedForeground,
+  '@media': {
+    [breakpoints.md]: {
+      textAlign: 'left',
+    },
+  },
+})
+
+export const link = style({
+  fontWeight: 500,
+  color: 'inherit',
+  textDecoration: 'underline',
+  textUnderlineOffset: 4,
+})
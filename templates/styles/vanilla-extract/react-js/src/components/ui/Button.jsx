@@ -0,0 +1,19 @@
+import { forwardRef } from 'react'
+import { cn } from '@/utils/cn'
+import * as styles from './Button.css'
+
+const Button = forwardRef(
+  ({ className, variant = 'default', size = 'default', ...props }, ref) => {
+    return (
+      <button
+        className={cn(styles.base, styles.variants[variant], styles.sizes[size], className)}
+        ref={ref}
+        {...props}
+      />
+    )
+  }
+)
+
+Button.displayName = 'Button'
+
+export { Button }
@@ -0,0 +1,6 @@
+/**
+ * Mix a theme color with transparency, like Tailwind's bg-primary/90
+ */
+export function alpha(color, opacity) {
+  return `color-mix(in srgb, ${color} ${opacity}%, transparent)`
+}
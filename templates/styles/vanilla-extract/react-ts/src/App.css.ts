@@ -0,0 +1,158 @@
+import { globalStyle, style } from '@vanilla-extract/css'
+import { breakpoints, colors } from './styles/theme.css'
+import { container } from './styles/layout.css'
+
+export const app = style({
+  minHeight: '100vh',
+  padding: '1rem',
+  backgroundImage: 'linear-gradient(to bottom right, #eff6ff, #e0e7ff)',
+  selectors: {
+    '.dark &': {
+      backgroundImage: 'linear-gradient(to bottom right, #111827, #1f2937)',
+    },
+  },
+})
+
+export const content = style([
+  container,
+  {
+    paddingTop: '2rem',
+    paddingBottom: '2rem',
+    '@media': {
+      [breakpoints.md]: {
+        paddingTop: '4rem',
+        paddingBottom: '4rem',
+      },
+    },
+  },
+])
+
+export const hero = style({
+  marginBottom: '2rem',
+  textAlign: 'center',
+  '@media': {
+    [breakpoints.md]: {
+      marginBottom: '3rem',
+    },
+  },
+})
+
+export const title = style({
+  marginBottom: '0.75rem',
+  fontSize: '2.25rem',
+  fontWeight: 700,
+  lineHeight: 1.1,
+  '@media': {
+    [breakpoints.md]: {
+      marginBottom: '1rem',
+      fontSize: '3rem',
+    },
+  },
+})
+
+export const lead = style({
+  maxWidth: '42rem',
+  margin: '0 auto',
+  fontSize: '1.125rem',
+  color: colors.mutedForeground,
+  '@media': {
+    [breakpoints.md]: {
+      fontSize: '1.25rem',
+    },
+  },
+})
+
+export const features = style({
+  display: 'grid',
+  gap: '1.5rem',
+  maxWidth: '56rem',
+  margin: '0 auto',
+  '@media': {
+    [breakpoints.md]: {
+      gridTemplateColumns: 'repeat(2, 1fr)',
+      gap: '2rem',
+    },
+    [breakpoints.lg]: {
+      gridTemplateColumns: 'repeat(3, 1fr)',
+    },
+  },
+})
+
+export const feature = style({
+  padding: '1.5rem',
+})
+
+export const featureTitle = style({
+  marginBottom: '1rem',
+  fontSize: '1.25rem',
+  fontWeight: 600,
+})
+
+export const featureText = style({
+  color: colors.mutedForeground,
+})
+
+export const demo = style({
+  marginTop: '2rem',
+  textAlign: 'center',
+  '@media': {
+    [breakpoints.md]: {
+      marginTop: '3rem',
+    },
+  },
+})
+
+export const counterCard = style({
+  display: 'inline-block',
+  padding: '1.5rem',
+  '@media': {
+    [breakpoints.md]: {
+      padding: '2rem',
+    },
+  },
+})
+
+export const counterTitle = style({
+  marginBottom: '1rem',
+  fontSize: '1.25rem',
+  fontWeight: 600,
+  '@media': {
+    [breakpoints.md]: {
+      fontSize: '1.5rem',
+    },
+  },
+})
+
+export const counter = style({
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  gap: '1rem',
+  marginBottom: '1.5rem',
+})
+
+export const count = style({
+  width: '5rem',
+  fontSize: '1.875rem',
+  fontWeight: 700,
+})
+
+export const themeToggle = style({
+  marginBottom: '1rem',
+})
+
+export const hint = style({
+  fontSize: '0.75rem',
+  color: colors.mutedForeground,
+  '@media': {
+    [breakpoints.md]: {
+      fontSize: '0.875rem',
+    },
+  },
+})
+
+globalStyle(`${hint} code`, {
+  padding: '0.25rem 0.5rem',
+  borderRadius: '0.25rem',
+  background: colors.secondary,
+})
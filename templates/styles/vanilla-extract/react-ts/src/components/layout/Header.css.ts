@@ -0,0 +1,61 @@
+import { style } from '@vanilla-extract/css'
+import { container, gradientText } from '../../styles/layout.css'
+import { colors } from '../../styles/theme.css'
+import { alpha } from '../../styles/utils'
+
+export const header = style({
+  position: 'sticky',
+  top: 0,
+  zIndex: 50,
+  width: '100%',
+  borderBottom: `1px solid ${colors.border}`,
+  backgroundColor: alpha(colors.background, 95),
+  backdropFilter: 'blur(8px)',
+})
+
+export const inner = style([
+  container,
+  {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    height: '3.5rem',
+  },
+])
+
+export const brand = style([
+  gradientText,
+  {
+    fontSize: '1.25rem',
+    fontWeight: 700,
+    textDecoration: 'none',
+  },
+])
+
+export const actions = style({
+  display: 'flex',
+  alignItems: 'center',
+  gap: '1rem',
+})
+
+export const nav = style({
+  display: 'flex',
+  alignItems: 'center',
+  gap: '1.5rem',
+  fontSize: '0.875rem',
+  fontWeight: 500,
+})
+
+export const link = style({
+  color: alpha(colors.foreground, 60),
+  textDecoration: 'none',
+  transition: 'color 150ms',
+  ':hover': {
+    color: alpha(colors.foreground, 80),
+  },
+})
+
+export const themeToggle = style({
+  width: '2.25rem',
+  padding: 0,
+})
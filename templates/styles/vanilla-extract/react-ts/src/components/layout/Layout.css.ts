@@ -0,0 +1,12 @@
+import { style } from '@vanilla-extract/css'
+
+export const layout = style({
+  position: 'relative',
+  display: 'flex',
+  flexDirection: 'column',
+  minHeight: '100vh',
+})
+
+export const main = style({
+  flex: 1,
+})
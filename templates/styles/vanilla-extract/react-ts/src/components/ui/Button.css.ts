@@ -0,0 +1,96 @@
+import { style, styleVariants } from '@vanilla-extract/css'
+import { colors, radius } from '../../styles/theme.css'
+import { alpha } from '../../styles/utils'
+
+export const base = style({
+  display: 'inline-flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  border: '1px solid transparent',
+  borderRadius: `calc(${radius} - 2px)`,
+  font: 'inherit',
+  fontSize: '0.875rem',
+  fontWeight: 500,
+  whiteSpace: 'nowrap',
+  cursor: 'pointer',
+  transition: 'background-color 150ms, border-color 150ms, color 150ms',
+  selectors: {
+    '&:focus-visible': {
+      outline: `2px solid ${colors.ring}`,
+      outlineOffset: 2,
+    },
+    '&:disabled': {
+      pointerEvents: 'none',
+      opacity: 0.5,
+    },
+  },
+})
+
+const subtleHover = {
+  ':hover': {
+    backgroundColor: colors.accent,
+    color: colors.accentForeground,
+  },
+}
+
+export const variants = styleVariants({
+  default: {
+    backgroundColor: colors.primary,
+    color: colors.primaryForeground,
+    ':hover': {
+      backgroundColor: alpha(colors.primary, 90),
+    },
+  },
+  destructive: {
+    backgroundColor: colors.destructive,
+    color: colors.destructiveForeground,
+    ':hover': {
+      backgroundColor: alpha(colors.destructive, 90),
+    },
+  },
+  outline: {
+    borderColor: colors.border,
+    backgroundColor: colors.background,
+    color: colors.foreground,
+    ...subtleHover,
+  },
+  secondary: {
+    backgroundColor: colors.secondary,
+    color: colors.secondaryForeground,
+    ':hover': {
+      backgroundColor: alpha(colors.secondary, 80),
+    },
+  },
+  ghost: {
+    backgroundColor: 'transparent',
+    color: 'inherit',
+    ...subtleHover,
+  },
+  link: {
+    backgroundColor: 'transparent',
+    color: colors.primary,
+    textUnderlineOffset: 4,
+    ':hover': {
+      textDecoration: 'underline',
+    },
+  },
+})
+
+export const sizes = styleVariants({
+  default: {
+    height: '2.5rem',
+    padding: '0.5rem 1rem',
+  },
+  sm: {
+    height: '2.25rem',
+    padding: '0 0.75rem',
+  },
+  lg: {
+    height: '2.75rem',
+    padding: '0 2rem',
+  },
+  icon: {
+    width: '2.5rem',
+    height: '2.5rem',
+  },
+})
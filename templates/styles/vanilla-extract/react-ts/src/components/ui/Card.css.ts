@@ -0,0 +1,39 @@
+import { style } from '@vanilla-extract/css'
+import { colors, radius } from '../../styles/theme.css'
+
+export const card = style({
+  border: `1px solid ${colors.border}`,
+  borderRadius: radius,
+  backgroundColor: colors.card,
+  color: colors.cardForeground,
+  boxShadow: '0 1px 2px 0 rgb(0 0 0 / 0.05)',
+})
+
+export const header = style({
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '0.375rem',
+  padding: '1.5rem',
+})
+
+export const title = style({
+  fontSize: '1.5rem',
+  fontWeight: 600,
+  lineHeight: 1,
+  letterSpacing: '-0.025em',
+})
+
+export const description = style({
+  fontSize: '0.875rem',
+  color: colors.mutedForeground,
+})
+
+export const content = style({
+  padding: '0 1.5rem 1.5rem',
+})
+
+export const footer = style({
+  display: 'flex',
+  alignItems: 'center',
+  padding: '0 1.5rem 1.5rem',
+})
@@ -0,0 +1,27 @@
+import { globalStyle } from '@vanilla-extract/css'
+import { colors, fonts } from './theme.css'
+
+globalStyle(':root', {
+  fontFamily: fonts.sans,
+  lineHeight: 1.5,
+  color: colors.foreground,
+  backgroundColor: colors.background,
+  WebkitFontSmoothing: 'antialiased',
+  MozOsxFontSmoothing: 'grayscale',
+})
+
+globalStyle('*, *::before, *::after', {
+  boxSizing: 'border-box',
+})
+
+globalStyle('body', {
+  margin: 0,
+})
+
+globalStyle('h1, h2, h3, p', {
+  margin: 0,
+})
+
+globalStyle('code', {
+  fontFamily: fonts.mono,
+})
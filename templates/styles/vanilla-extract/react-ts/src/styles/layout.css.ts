@@ -0,0 +1,16 @@
+import { style } from '@vanilla-extract/css'
+import { brandGradient } from './theme.css'
+
+export const container = style({
+  width: '100%',
+  maxWidth: 1400,
+  margin: '0 auto',
+  padding: '0 1rem',
+})
+
+export const gradientText = style({
+  backgroundImage: brandGradient,
+  WebkitBackgroundClip: 'text',
+  backgroundClip: 'text',
+  color: 'transparent',
+})
@@ -0,0 +1,52 @@
+import { createGlobalTheme } from '@vanilla-extract/css'
+
+export const colors = createGlobalTheme(':root', {
+  background: '#ffffff',
+  foreground: '#020817',
+  card: '#ffffff',
+  cardForeground: '#020817',
+  primary: '#0f172a',
+  primaryForeground: '#f8fafc',
+  secondary: '#f1f5f9',
+  secondaryForeground: '#0f172a',
+  mutedForeground: '#64748b',
+  accent: '#f1f5f9',
+  accentForeground: '#0f172a',
+  destructive: '#ef4444',
+  destructiveForeground: '#f8fafc',
+  border: '#e2e8f0',
+  ring: '#020817',
+})
+
+// Applied to <html> by the useTheme hook
+createGlobalTheme('.dark', colors, {
+  background: '#020817',
+  foreground: '#f8fafc',
+  card: '#020817',
+  cardForeground: '#f8fafc',
+  primary: '#f8fafc',
+  primaryForeground: '#0f172a',
+  secondary: '#1e293b',
+  secondaryForeground: '#f8fafc',
+  mutedForeground: '#94a3b8',
+  accent: '#1e293b',
+  accentForeground: '#f8fafc',
+  destructive: '#7f1d1d',
+  destructiveForeground: '#f8fafc',
+  border: '#1e293b',
+  ring: '#cbd5e1',
+})
+
+export const fonts = {
+  sans: 'Inter, system-ui, Avenir, Helvetica, Arial, sans-serif',
+  mono: 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace',
+}
+
+export const radius = '0.5rem'
+
+export const brandGradient = 'linear-gradient(to right, #2563eb, #9333ea)'
+
+export const breakpoints = {
+  md: 'screen and (min-width: 768px)',
+  lg: 'screen and (min-width: 1024px)',
+}
@@ -0,0 +1,26 @@
+import { style } from '@vanilla-extract/css'
+import { colors } from './styles/theme'
+
+export const logo = style({
+  height: '6em',
+  padding: '1.5em',
+  willChange: 'filter',
+  transition: 'filter 300ms',
+  ':hover': {
+    filter: `drop-shadow(0 0 2em ${colors.brand}aa)`,
+  },
+})
+
+export const svelte = style({
+  ':hover': {
+    filter: `drop-shadow(0 0 2em ${colors.framework}aa)`,
+  },
+})
+
+export const card = style({
+  padding: '2em',
+})
+
+export const readTheDocs = style({
+  color: '#888',
+})
@@ -0,0 +1,16 @@
+export const fonts = {
+  sans: 'Inter, system-ui, Avenir, Helvetica, Arial, sans-serif',
+}
+
+export const colors = {
+  brand: '#646cff',
+  brandDark: '#535bf2',
+  brandLight: '#747bff',
+  framework: '#ff3e00',
+  muted: '#64748b',
+  border: '#e2e8f0',
+}
+
+export const radius = '8px'
+
+export const lightScheme = '(prefers-color-scheme: light)'
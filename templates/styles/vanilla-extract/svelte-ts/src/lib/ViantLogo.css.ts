@@ -0,0 +1,9 @@
+import { style } from '@vanilla-extract/css'
+
+export const viantLogo = style({
+  transition: 'transform 0.3s ease',
+  ':hover': {
+    transform: 'scale(1.1) rotate(5deg)',
+    filter: 'drop-shadow(0 0 2em #ff6b6baa)',
+  },
+})
@@ -0,0 +1,79 @@
+import { globalStyle } from '@vanilla-extract/css'
+import { colors, fonts, lightScheme, radius } from './theme'
+
+globalStyle(':root', {
+  fontFamily: fonts.sans,
+  lineHeight: 1.5,
+  fontWeight: 400,
+  colorScheme: 'light dark',
+  color: 'rgba(255, 255, 255, 0.87)',
+  backgroundColor: '#242424',
+  fontSynthesis: 'none',
+  textRendering: 'optimizeLegibility',
+  WebkitFontSmoothing: 'antialiased',
+  MozOsxFontSmoothing: 'grayscale',
+  WebkitTextSizeAdjust: '100%',
+  '@media': {
+    [lightScheme]: {
+      color: '#213547',
+      backgroundColor: '#ffffff',
+    },
+  },
+})
+
+globalStyle('a', {
+  fontWeight: 500,
+  color: colors.brand,
+  textDecoration: 'inherit',
+})
+
+globalStyle('a:hover', {
+  color: colors.brandDark,
+  '@media': {
+    [lightScheme]: {
+      color: colors.brandLight,
+    },
+  },
+})
+
+globalStyle('body', {
+  margin: 0,
+  display: 'flex',
+  placeItems: 'center',
+  minWidth: 320,
+  minHeight: '100vh',
+})
+
+globalStyle('#app', {
+  maxWidth: 1280,
+  margin: '0 auto',
+  padding: '2rem',
+  textAlign: 'center',
+})
+
+globalStyle('button', {
+  borderRadius: radius,
+  border: '1px solid transparent',
+  padding: '0.6em 1.2em',
+  fontSize: '1em',
+  fontWeight: 500,
+  fontFamily: 'inherit',
+  backgroundColor: '#1a1a1a',
+  color: 'white',
+  cursor: 'pointer',
+  transition: 'border-color 0.25s',
+  '@media': {
+    [lightScheme]: {
+      backgroundColor: '#f9f9f9',
+      color: '#213547',
+    },
+  },
+})
+
+globalStyle('button:hover', {
+  borderColor: colors.brand,
+})
+
+globalStyle('button:focus, button:focus-visible', {
+  outline: '4px auto -webkit-focus-ring-color',
+})
@@ -0,0 +1,14 @@
+export const fonts = {
+  sans: 'Inter, system-ui, Avenir, Helvetica, Arial, sans-serif',
+};
+
+export const colors = {
+  brand: '#646cff',
+  brandDark: '#535bf2',
+  brandLight: '#747bff',
+  framework: '#3178c6',
+};
+
+export const radius = '8px';
+
+export const lightScheme = '(prefers-color-scheme: light)';
@@ -0,0 +1,15 @@
+import { globalStyle, style } from '@vanilla-extract/css';
+
+export const viantLogo = style({
+  margin: '2rem 0',
+  display: 'flex',
+  justifyContent: 'center',
+});
+
+globalStyle(`${viantLogo} svg`, {
+  transition: 'transform 0.3s ease',
+});
+
+globalStyle(`${viantLogo}:hover svg`, {
+  transform: 'scale(1.1)',
+});
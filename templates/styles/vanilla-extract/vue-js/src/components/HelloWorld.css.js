@@ -0,0 +1,54 @@
+import { globalStyle, style } from '@vanilla-extract/css'
+import { colors, radius } from '../styles/theme'
+
+export const card = style({
+  padding: '2em',
+})
+
+export const features = style({
+  display: 'grid',
+  gridTemplateColumns: 'repeat(auto-fit, minmax(250px, 1fr))',
+  gap: '1.5rem',
+  margin: '2rem 0',
+})
+
+export const feature = style({
+  padding: '1.5rem',
+  border: `1px solid ${colors.border}`,
+  borderRadius: radius,
+  textAlign: 'left',
+  transition: 'all 0.3s ease',
+  ':hover': {
+    borderColor: colors.framework,
+    transform: 'translateY(-2px)',
+    boxShadow: '0 4px 12px rgba(66, 184, 131, 0.15)',
+  },
+})
+
+globalStyle(`${feature} h3`, {
+  margin: '0 0 0.5rem 0',
+  color: colors.framework,
+  fontSize: '1.1rem',
+})
+
+globalStyle(`${feature} p`, {
+  margin: 0,
+  color: colors.muted,
+  fontSize: '0.9rem',
+  lineHeight: 1.5,
+})
+
+export const gettingStarted = style({
+  marginTop: '2rem',
+})
+
+globalStyle(`${gettingStarted} a`, {
+  color: colors.framework,
+  textDecoration: 'none',
+  fontWeight: 500,
+  margin: '0 0.5rem',
+})
+
+globalStyle(`${gettingStarted} a:hover`, {
+  textDecoration: 'underline',
+})
@@ -0,0 +1,8 @@
+import { style } from '@vanilla-extract/css'
+
+export const viantLogo = style({
+  transition: 'transform 0.3s ease',
+  ':hover': {
+    transform: 'scale(1.1) rotate(5deg)',
+  },
+})
@@ -0,0 +1,17 @@
+export const fonts = {
+  sans: 'Inter, system-ui, Avenir, Helvetica, Arial, sans-serif',
+}
+
+export const colors = {
+  brand: '#646cff',
+  brandDark: '#535bf2',
+  brandLight: '#747bff',
+  framework: '#42b883',
+  viant: '#ff6b6b',
+  muted: '#64748b',
+  border: '#e2e8f0',
+}
+
+export const radius = '8px'
+
+export const lightScheme = '(prefers-color-scheme: light)'
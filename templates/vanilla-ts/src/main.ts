@@ -6,10 +6,10 @@ import viteLogo from '/vite.svg';
 
 document.querySelector<HTMLDivElement>('#app')!.innerHTML = `
   <div>
-    <a href="https://vitejs.dev" target="_blank">
+    <a href="https://vitejs.dev" target="_blank" rel="noreferrer">
       <img src="${viteLogo}" class="logo" alt="Vite logo" />
     </a>
-    <a href="https://www.typescriptlang.org/" target="_blank">
+    <a href="https://www.typescriptlang.org/" target="_blank" rel="noreferrer">
       <img src="${typescriptLogo}" class="logo vanilla" alt="TypeScript logo" />
     </a>
   </div>
@@ -8,6 +8,7 @@ export function createViantLogo(): string {
         fill="none"
         xmlns="http://www.w3.org/2000/svg"
       >
+        <title>Viant</title>
         <defs>
           <linearGradient id="viant-gradient" x1="0%" y1="0%" x2="100%" y2="100%">
             <stop offset="0%" stop-color="#646cff" />